@@ -5,6 +5,7 @@ import {
   DefaultClusterOptions,
   Event,
   Gauge,
+  getMetricUnit,
   Histogram,
   Logger,
   Meter,
@@ -76,6 +77,29 @@ export interface CarbonData {
   tags: Tags
 }
 
+/**
+ * The carbon data of a single write operation - used to retry and spool it.
+ *
+ * @export
+ * @interface CarbonPayload
+ */
+export interface CarbonPayload {
+  /**
+   * The carbon data to write.
+   *
+   * @type {CarbonData[]}
+   * @memberof CarbonPayload
+   */
+  data: CarbonData[]
+  /**
+   * The timestamp of the data in milliseconds.
+   *
+   * @type {number}
+   * @memberof CarbonPayload
+   */
+  timestamp: number
+}
+
 /**
  * Metric reporter for graphite / carbon.
  *
@@ -116,18 +140,40 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     scheduler = setInterval,
     minReportingTimeout = 1,
     tags = new Map(),
-    clusterOptions = new DefaultClusterOptions()
+    clusterOptions = new DefaultClusterOptions(),
+    filter,
+    relabelRules,
+    durationUnit,
+    rateUnit,
+    thresholdRules,
+    retryPolicy,
+    maxUnsentResults,
+    spool,
+    selfMetrics,
+    alignToInterval,
+    reportJitter
   }: CarbonMetricReporterOptions,
   reporterType?: string) {
     super({
+      alignToInterval,
       clock,
       clusterOptions,
+      durationUnit,
+      filter,
       host,
       log,
+      maxUnsentResults,
       minReportingTimeout,
+      rateUnit,
+      relabelRules,
       reportInterval,
+      reportJitter,
+      retryPolicy,
       scheduler,
+      selfMetrics,
+      spool,
       tags,
+      thresholdRules,
       unit
     }, reporterType)
 
@@ -213,13 +259,14 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
   }
 
   /**
-   * Stops the timer reference returned by the scheduler function.
+   * Stops reporting (including a final report) and closes the client afterwards.
    *
+   * @param {number} [timeout] the max time in milliseconds to wait for the final report
    * @returns {Promise<this>}
    * @memberof CarbonMetricReporter
    */
-  public async stop (): Promise<this> {
-    await super.stop()
+  public async stop (timeout?: number): Promise<this> {
+    await super.stop(timeout)
     if (this.client) {
       await this.client.end()
     }
@@ -227,7 +274,8 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
   }
 
   /**
-   * Uses the client instance to report the given metric results.
+   * Uses the client instance to report the given metric results - failed writes are retried
+   * and kept for the next run according to the retry policy.
    *
    * @protected
    * @param {OverallReportContext} ctx
@@ -244,28 +292,55 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     timestamp: Date,
     type: MetricType,
     results: Array<ReportingResult<any, CarbonData>>): Promise<void> {
-    await Promise.all(results
-      .map((result) => result.result)
-      .map(async (carbonData) => await new Promise<void>((resolve, reject) => {
-        // can happen during serialization
-        if (!(timestamp instanceof Date)) {
-          timestamp = new Date(timestamp)
-        }
-        this.client.writeTagged(carbonData.measurement, carbonData.tags, timestamp, (err: any) => {
-          if (err != null) {
-            if (this.options.log) {
-              this.options.log.error(err, this.logMetadata)
-            }
-            reject(err)
-            return
-          }
-          resolve()
-        })
-      }).catch((err) => {
-        if (this.options.log) {
-          this.options.log.error(err, this.logMetadata)
+    const data = results.map((result) => result.result)
+    if (data.length === 0) {
+      return
+    }
+    // can happen during serialization
+    if (!(timestamp instanceof Date)) {
+      timestamp = new Date(timestamp)
+    }
+    try {
+      const payload: CarbonPayload = { data, timestamp: timestamp.getTime() }
+      await this.sendWithRetry(payload, async (p) => await this.sendSpooled(p))
+    } catch (err) {
+      if (this.options.log) {
+        this.options.log.error(err, this.logMetadata)
+      }
+    }
+  }
+
+  /**
+   * Writes the carbon data of a (spooled) payload with its original timestamp.
+   *
+   * @protected
+   * @param {CarbonPayload} payload
+   * @returns {Promise<void>}
+   * @memberof CarbonMetricReporter
+   */
+  protected async sendSpooled (payload: CarbonPayload): Promise<void> {
+    await this.writeTagged(payload.data, new Date(payload.timestamp))
+  }
+
+  /**
+   * Writes all carbon data with the given timestamp - rejects if writing any of them failed.
+   *
+   * @protected
+   * @param {CarbonData[]} data
+   * @param {Date} timestamp
+   * @returns {Promise<void>}
+   * @memberof CarbonMetricReporter
+   */
+  protected async writeTagged (data: CarbonData[], timestamp: Date): Promise<void> {
+    await Promise.all(data.map(async (carbonData) => await new Promise<void>((resolve, reject) => {
+      this.client.writeTagged(carbonData.measurement, carbonData.tags, timestamp, (err: any) => {
+        if (err != null) {
+          reject(err)
+          return
         }
-      })))
+        resolve()
+      })
+    })))
   }
 
   /**
@@ -287,6 +362,7 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     const tags = this.buildTags(ctx.registry, counter)
     tags.group = counter.getGroup()
     tags.name = counter.getName()
+    this.addUnitTag(tags, counter)
 
     const prefix = this.getMetricName(counter)
     const measurement: any = {}
@@ -315,6 +391,7 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     const tags = this.buildTags(ctx.registry, gauge)
     tags.group = gauge.getGroup()
     tags.name = gauge.getName()
+    this.addUnitTag(tags, gauge)
 
     const prefix = this.getMetricName(gauge)
     const measurement: any = {}
@@ -344,6 +421,7 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     const tags = this.buildTags(ctx.registry, histogram)
     tags.group = histogram.getGroup()
     tags.name = histogram.getName()
+    this.addUnitTag(tags, histogram)
 
     const prefix = this.getMetricName(histogram)
     const measurement: any = {}
@@ -382,14 +460,15 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     const tags = this.buildTags(ctx.registry, meter)
     tags.group = meter.getGroup()
     tags.name = meter.getName()
+    this.addUnitTag(tags, meter)
 
     const prefix = this.getMetricName(meter)
     const measurement: any = {}
     measurement[`${prefix}.count`] = meter.getCount() || 0
-    measurement[`${prefix}.m15_rate`] = this.getNumber(meter.get15MinuteRate())
-    measurement[`${prefix}.m1_rate`] = this.getNumber(meter.get1MinuteRate())
-    measurement[`${prefix}.m5_rate`] = this.getNumber(meter.get5MinuteRate())
-    measurement[`${prefix}.mean_rate`] = this.getNumber(meter.getMeanRate())
+    measurement[`${prefix}.m15_rate`] = this.getNumber(this.convertRate(meter.get15MinuteRate()))
+    measurement[`${prefix}.m1_rate`] = this.getNumber(this.convertRate(meter.get1MinuteRate()))
+    measurement[`${prefix}.m5_rate`] = this.getNumber(this.convertRate(meter.get5MinuteRate()))
+    measurement[`${prefix}.mean_rate`] = this.getNumber(this.convertRate(meter.getMeanRate()))
 
     return {
       measurement,
@@ -413,30 +492,29 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     }
     const snapshot = timer.getSnapshot()
     const tags = this.buildTags(ctx.registry, timer)
-    tags.group = timer.getGroup()
-    tags.name = timer.getName()
+    this.addUnitTag(tags, timer)
 
     const prefix = this.getMetricName(timer)
     const measurement: any = {}
     measurement[`${prefix}.count`] = timer.getCount() || 0
-    measurement[`${prefix}.m15_rate`] = this.getNumber(timer.get15MinuteRate())
-    measurement[`${prefix}.m1_rate`] = this.getNumber(timer.get1MinuteRate())
-    measurement[`${prefix}.m5_rate`] = this.getNumber(timer.get5MinuteRate())
-    measurement[`${prefix}.max`] = this.getNumber(snapshot.getMax())
-    measurement[`${prefix}.mean`] = this.getNumber(snapshot.getMean())
-    measurement[`${prefix}.mean_rate`] = this.getNumber(timer.getMeanRate())
-    measurement[`${prefix}.min`] = this.getNumber(snapshot.getMin())
-    measurement[`${prefix}.p50`] = this.getNumber(snapshot.getMedian())
-    measurement[`${prefix}.p75`] = this.getNumber(snapshot.get75thPercentile())
-    measurement[`${prefix}.p95`] = this.getNumber(snapshot.get95thPercentile())
-    measurement[`${prefix}.p98`] = this.getNumber(snapshot.get98thPercentile())
-    measurement[`${prefix}.p99`] = this.getNumber(snapshot.get99thPercentile())
-    measurement[`${prefix}.p999`] = this.getNumber(snapshot.get999thPercentile())
-    measurement[`${prefix}.stddev`] = this.getNumber(snapshot.getStdDev())
+    measurement[`${prefix}.m15_rate`] = this.getNumber(this.convertRate(timer.get15MinuteRate()))
+    measurement[`${prefix}.m1_rate`] = this.getNumber(this.convertRate(timer.get1MinuteRate()))
+    measurement[`${prefix}.m5_rate`] = this.getNumber(this.convertRate(timer.get5MinuteRate()))
+    measurement[`${prefix}.max`] = this.getNumber(this.convertDuration(snapshot.getMax()))
+    measurement[`${prefix}.mean`] = this.getNumber(this.convertDuration(snapshot.getMean()))
+    measurement[`${prefix}.mean_rate`] = this.getNumber(this.convertRate(timer.getMeanRate()))
+    measurement[`${prefix}.min`] = this.getNumber(this.convertDuration(snapshot.getMin()))
+    measurement[`${prefix}.p50`] = this.getNumber(this.convertDuration(snapshot.getMedian()))
+    measurement[`${prefix}.p75`] = this.getNumber(this.convertDuration(snapshot.get75thPercentile()))
+    measurement[`${prefix}.p95`] = this.getNumber(this.convertDuration(snapshot.get95thPercentile()))
+    measurement[`${prefix}.p98`] = this.getNumber(this.convertDuration(snapshot.get98thPercentile()))
+    measurement[`${prefix}.p99`] = this.getNumber(this.convertDuration(snapshot.get99thPercentile()))
+    measurement[`${prefix}.p999`] = this.getNumber(this.convertDuration(snapshot.get999thPercentile()))
+    measurement[`${prefix}.stddev`] = this.getNumber(this.convertDuration(snapshot.getStdDev()))
 
     return {
       measurement,
-      tags: this.buildTags(ctx.registry, timer)
+      tags
     }
   }
 
@@ -454,4 +532,19 @@ export class CarbonMetricReporter extends ScheduledMetricReporter<CarbonMetricRe
     }
     return metric.getName()
   }
+
+  /**
+   * Adds the unit of the metric as tag - if the metric has a unit.
+   *
+   * @protected
+   * @param {Tags} tags
+   * @param {Metric} metric
+   * @memberof CarbonMetricReporter
+   */
+  protected addUnitTag (tags: Tags, metric: Metric): void {
+    const unit = getMetricUnit(metric)
+    if (unit) {
+      tags.unit = unit
+    }
+  }
 }
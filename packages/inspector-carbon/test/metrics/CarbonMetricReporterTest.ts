@@ -3,11 +3,132 @@
 import 'reflect-metadata'
 import 'source-map-support/register'
 
+import * as chai from 'chai'
+import { MetricRegistry, RetryPolicy, Spool } from 'inspector-metrics'
 import { suite, test } from '@testdeck/mocha'
+import { CarbonMetricReporter } from '../../lib/metrics'
+import { MockedClock } from './mocked-clock'
+
+const expect = chai.expect
+
+class MemorySpool implements Spool {
+  private readonly entries: Map<string, string> = new Map()
+  private nextId = 0
+
+  public async append (payload: any): Promise<void> {
+    this.entries.set(`${this.nextId++}`, JSON.stringify(payload))
+  }
+
+  public async list (): Promise<string[]> {
+    return Array.from(this.entries.keys())
+  }
+
+  public async read (id: string): Promise<any> {
+    return this.entries.has(id) ? JSON.parse(this.entries.get(id)) : undefined
+  }
+
+  public async remove (id: string): Promise<void> {
+    this.entries.delete(id)
+  }
+
+  public getDroppedCount (): number {
+    return 0
+  }
+}
 
 @suite
 export class CarbonMetricReporterTest {
+  private readonly clock: MockedClock = new MockedClock();
+  private registry: MetricRegistry;
+  private spool: MemorySpool;
+  private reporter: CarbonMetricReporter;
+  private available: boolean;
+  private failures: number;
+  private writes: Array<{ measurement: any, timestamp: Date }>;
+
+  public before (): void {
+    this.clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 })
+    this.registry = new MetricRegistry()
+    this.spool = new MemorySpool()
+    this.available = false
+    this.failures = 0
+    this.writes = []
+    this.reporter = this.newReporter({ maxAttempts: 1 }, this.spool)
+  }
+
+  @test
+  public async 'check spooled results are replayed with their original timestamps' (): Promise<void> {
+    const counter = this.registry.newCounter('requests')
+    counter.increment(1)
+    await (this.reporter as any).report()
+    expect(await this.spool.list()).to.have.lengthOf(1)
+
+    this.available = true
+    this.clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 })
+    counter.increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.writes).to.have.lengthOf(2)
+    expect(this.writes[0].measurement).to.deep.equal({ 'requests.count': 1 })
+    expect(this.writes[0].timestamp.getTime()).to.equal(1000)
+    expect(this.writes[1].measurement).to.deep.equal({ 'requests.count': 2 })
+    expect(this.writes[1].timestamp.getTime()).to.equal(2000)
+    expect(await this.spool.list()).to.have.lengthOf(0)
+  }
+
   @test
-  public checkNothing (): void {
+  public async 'check failed writes are retried' (): Promise<void> {
+    this.reporter = this.newReporter({ initialDelay: 0, maxAttempts: 2 })
+    this.available = true
+    this.failures = 1
+    this.registry.newCounter('requests').increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.writes).to.have.lengthOf(1)
+    expect(this.writes[0].measurement).to.deep.equal({ 'requests.count': 1 })
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+  }
+
+  @test
+  public async 'check writes failed after all attempts are kept for the next run' (): Promise<void> {
+    this.reporter = this.newReporter({ initialDelay: 0, maxAttempts: 2 })
+    const counter = this.registry.newCounter('requests').increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.writes).to.have.lengthOf(0)
+    expect(this.reporter.getUnsentResultCount()).to.equal(1)
+
+    this.available = true
+    this.clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 })
+    counter.increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.writes).to.have.lengthOf(2)
+    expect(this.writes[0].measurement).to.deep.equal({ 'requests.count': 1 })
+    expect(this.writes[0].timestamp.getTime()).to.equal(1000)
+    expect(this.writes[1].measurement).to.deep.equal({ 'requests.count': 2 })
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+  }
+
+  private newReporter (retryPolicy: RetryPolicy, spool?: Spool): CarbonMetricReporter {
+    const reporter = new CarbonMetricReporter({
+      clock: this.clock,
+      host: 'localhost',
+      log: null,
+      retryPolicy,
+      spool
+    })
+    reporter.addMetricRegistry(this.registry);
+    (reporter as any).client = {
+      writeTagged: (measurement: any, tags: any, timestamp: Date, cb: (err: any) => void) => {
+        if (!this.available || this.failures-- > 0) {
+          cb(new Error('unavailable'))
+          return
+        }
+        this.writes.push({ measurement, timestamp })
+        cb(null)
+      }
+    }
+    return reporter
   }
 }
@@ -10,6 +10,7 @@ import {
   getMetricGroup,
   getMetricMetadata,
   getMetricName,
+  getMetricUnit,
   Histogram,
   InterprocessReportMessage,
   Metadata,
@@ -33,7 +34,8 @@ import * as moment from 'moment-timezone'
 /**
  * Lists all possible column types.
  */
-export type ColumnType = 'date' | 'name' | 'field' | 'group' | 'description' | 'value' | 'tags' | 'type' | 'metadata';
+export type ColumnType =
+  'date' | 'name' | 'field' | 'group' | 'description' | 'unit' | 'value' | 'tags' | 'type' | 'metadata';
 
 /**
  * Shortcut type for a row.
@@ -239,6 +241,7 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
    */
   public constructor ({
     writer,
+    log = console,
     useSingleQuotes = false,
     tagExportMode = ExportMode.ALL_IN_ONE_COLUMN,
     metadataExportMode = ExportMode.ALL_IN_ONE_COLUMN,
@@ -257,26 +260,43 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
     scheduler = setInterval,
     minReportingTimeout = 1,
     tags = new Map(),
-    clusterOptions = new DefaultClusterOptions()
+    clusterOptions = new DefaultClusterOptions(),
+    filter,
+    relabelRules,
+    durationUnit,
+    rateUnit,
+    thresholdRules,
+    selfMetrics,
+    alignToInterval,
+    reportJitter
   }: CsvMetricReporterOptions,
   reporterType?: string) {
     super({
+      alignToInterval,
       clock,
       clusterOptions,
       columns,
       dateFormat,
+      durationUnit,
+      filter,
+      log,
       metadataColumnPrefix,
       metadataDelimiter,
       metadataExportMode,
       metadataFilter,
       minReportingTimeout,
+      rateUnit,
+      relabelRules,
       reportInterval,
+      reportJitter,
       scheduler,
+      selfMetrics,
       tagColumnPrefix,
       tagDelimiter,
       tagExportMode,
       tagFilter,
       tags,
+      thresholdRules,
       timezone,
       unit,
       useSingleQuotes,
@@ -527,10 +547,10 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
   protected reportMeter (meter: Meter, ctx: MetricSetReportContext<Meter>): Fields {
     return {
       count: `${this.getNumber(meter.getCount())}`,
-      m15_rate: `${this.getNumber(meter.get15MinuteRate())}`,
-      m1_rate: `${this.getNumber(meter.get1MinuteRate())}`,
-      m5_rate: `${this.getNumber(meter.get5MinuteRate())}`,
-      mean_rate: `${this.getNumber(meter.getMeanRate())}`
+      m15_rate: `${this.getNumber(this.convertRate(meter.get15MinuteRate()))}`,
+      m1_rate: `${this.getNumber(this.convertRate(meter.get1MinuteRate()))}`,
+      m5_rate: `${this.getNumber(this.convertRate(meter.get5MinuteRate()))}`,
+      mean_rate: `${this.getNumber(this.convertRate(meter.getMeanRate()))}`
     }
   }
 
@@ -555,20 +575,20 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
     return {
       ...bucketFields,
       count: `${timer.getCount() || 0}`,
-      m15_rate: `${this.getNumber(timer.get15MinuteRate())}`,
-      m1_rate: `${this.getNumber(timer.get1MinuteRate())}`,
-      m5_rate: `${this.getNumber(timer.get5MinuteRate())}`,
-      max: `${this.getNumber(snapshot.getMax())}`,
-      mean: `${this.getNumber(snapshot.getMean())}`,
-      mean_rate: `${this.getNumber(timer.getMeanRate())}`,
-      min: `${this.getNumber(snapshot.getMin())}`,
-      p50: `${this.getNumber(snapshot.getMedian())}`,
-      p75: `${this.getNumber(snapshot.get75thPercentile())}`,
-      p95: `${this.getNumber(snapshot.get95thPercentile())}`,
-      p98: `${this.getNumber(snapshot.get98thPercentile())}`,
-      p99: `${this.getNumber(snapshot.get99thPercentile())}`,
-      p999: `${this.getNumber(snapshot.get999thPercentile())}`,
-      stddev: `${this.getNumber(snapshot.getStdDev())}`,
+      m15_rate: `${this.getNumber(this.convertRate(timer.get15MinuteRate()))}`,
+      m1_rate: `${this.getNumber(this.convertRate(timer.get1MinuteRate()))}`,
+      m5_rate: `${this.getNumber(this.convertRate(timer.get5MinuteRate()))}`,
+      max: `${this.getNumber(this.convertDuration(snapshot.getMax()))}`,
+      mean: `${this.getNumber(this.convertDuration(snapshot.getMean()))}`,
+      mean_rate: `${this.getNumber(this.convertRate(timer.getMeanRate()))}`,
+      min: `${this.getNumber(this.convertDuration(snapshot.getMin()))}`,
+      p50: `${this.getNumber(this.convertDuration(snapshot.getMedian()))}`,
+      p75: `${this.getNumber(this.convertDuration(snapshot.get75thPercentile()))}`,
+      p95: `${this.getNumber(this.convertDuration(snapshot.get95thPercentile()))}`,
+      p98: `${this.getNumber(this.convertDuration(snapshot.get98thPercentile()))}`,
+      p99: `${this.getNumber(this.convertDuration(snapshot.get99thPercentile()))}`,
+      p999: `${this.getNumber(this.convertDuration(snapshot.get999thPercentile()))}`,
+      stddev: `${this.getNumber(this.convertDuration(snapshot.getStdDev()))}`,
       sum: timer.getSum().toString()
     }
   }
@@ -761,6 +781,9 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
         case 'type':
           row.push(`${quote}${type || ''}${quote}`)
           break
+        case 'unit':
+          row.push(`${quote}${getMetricUnit(metric) || ''}${quote}`)
+          break
         case 'value':
           row.push(value || '')
           break
@@ -788,6 +811,7 @@ export class CsvMetricReporter extends ScheduledMetricReporter<CsvMetricReporter
   ): Promise<void> {
     for (const row of rows) {
       await this.options.writer.writeRow(metric, row)
+      this.recordSentPayload(row.join(','))
     }
   }
 }
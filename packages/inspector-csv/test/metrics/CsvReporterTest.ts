@@ -76,6 +76,33 @@ export class CsvReporterTest extends AbstractReportTest {
     )
   }
 
+  @test
+  public async 'check unit column' (): Promise<void> {
+    this.reporter = this.newReporter({
+      columns: ['date', 'name', 'field', 'value', 'unit'],
+      writer: this.writer
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    const counter = this.registry.newCounter('test_counter', null, null, 'requests')
+
+    counter.increment(123)
+
+    await this.triggerReporting()
+
+    this.verifyInitCall(['date', 'name', 'field', 'value', 'unit'])
+    this.verifyWriteCall(
+      counter,
+      [
+        '19700101000000.000+00:00',
+        '"test_counter"',
+        '"count"',
+        '123',
+        '"requests"'
+      ],
+      0
+    )
+  }
+
   @test
   public async 'check encoding of description with single quotes' (): Promise<void> {
     this.reporter = this.newReporter({
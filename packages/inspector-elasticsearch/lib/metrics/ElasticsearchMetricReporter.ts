@@ -2,10 +2,12 @@ import 'source-map-support/register'
 
 import { Client } from '@elastic/elasticsearch'
 import {
+  BucketCounting,
   Counter,
   DefaultClusterOptions,
   Event,
   Gauge,
+  getMetricUnit,
   Histogram,
   Logger,
   Meter,
@@ -15,12 +17,15 @@ import {
   MetricType,
   MILLISECOND,
   MonotoneCounter,
+  NANOSECOND,
   OverallReportContext,
   ReportingResult,
   ScheduledMetricReporter,
   ScheduledMetricReporterOptions,
+  SECOND,
   StdClock,
   Tags,
+  TimeUnit,
   Timer
 } from 'inspector-metrics'
 
@@ -131,6 +136,8 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
    *
    *  group: ..., // group of metric
    *
+   *  unit: ..., // unit of metric - only if the metric has a unit
+   *
    *  timestamp: ..., // timestamp from parameter
    *
    *  tags: ..., // combined tags from this reporter and the metric
@@ -142,10 +149,14 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
    * }
    *
    * @static
+   * @param {TimeUnit} [durationUnit=NANOSECOND] the unit of the snapshot values of timers
+   * @param {TimeUnit} [rateUnit=SECOND] the unit of the rates of meters and timers (events per unit)
    * @returns {MetricDocumentBuilder}
    * @memberof ElasticsearchMetricReporter
    */
-  public static defaultDocumentBuilder (): MetricDocumentBuilder {
+  public static defaultDocumentBuilder (
+    durationUnit: TimeUnit = NANOSECOND,
+    rateUnit: TimeUnit = SECOND): MetricDocumentBuilder {
     return (
       registry: MetricRegistry,
       metric: Metric,
@@ -161,9 +172,9 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
       } else if (metric instanceof Histogram) {
         values = ElasticsearchMetricReporter.getHistogramValues(metric)
       } else if (metric instanceof Meter) {
-        values = ElasticsearchMetricReporter.getMeterValues(metric)
+        values = ElasticsearchMetricReporter.getMeterValues(metric, rateUnit)
       } else if (metric instanceof Timer) {
-        values = ElasticsearchMetricReporter.getTimerValues(metric)
+        values = ElasticsearchMetricReporter.getTimerValues(metric, durationUnit, rateUnit)
       } else {
         values = ElasticsearchMetricReporter.getGaugeValue(metric as Gauge<any>)
       }
@@ -174,7 +185,12 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
 
       const name = metric.getName()
       const group = metric.getGroup()
-      return { name, group, tags, timestamp, values, type }
+      const document: any = { name, group, tags, timestamp, values, type }
+      const unit = getMetricUnit(metric)
+      if (unit) {
+        document.unit = unit
+      }
+      return document
     }
   }
 
@@ -256,6 +272,7 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
     values.p99 = this.getNumber(snapshot.get99thPercentile())
     values.p999 = this.getNumber(snapshot.get999thPercentile())
     values.stddev = this.getNumber(snapshot.getStdDev())
+    this.addExemplars(values, histogram, (v) => v)
 
     return values
   }
@@ -265,21 +282,23 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
    *
    * @static
    * @param {Meter} meter
+   * @param {TimeUnit} [rateUnit=SECOND] the unit of the rates (events per unit)
    * @returns {{}}
    * @memberof ElasticsearchMetricReporter
    */
-  public static getMeterValues (meter: Meter): {} {
+  public static getMeterValues (meter: Meter, rateUnit: TimeUnit = SECOND): {} {
     const value = meter.getCount()
     if (!value || isNaN(value)) {
       return null
     }
     const values: any = {}
+    const rateFactor = rateUnit.convertTo(1, SECOND)
 
     values.count = value
-    values.m15_rate = this.getNumber(meter.get15MinuteRate())
-    values.m1_rate = this.getNumber(meter.get1MinuteRate())
-    values.m5_rate = this.getNumber(meter.get5MinuteRate())
-    values.mean_rate = this.getNumber(meter.getMeanRate())
+    values.m15_rate = this.getNumber(meter.get15MinuteRate() * rateFactor)
+    values.m1_rate = this.getNumber(meter.get1MinuteRate() * rateFactor)
+    values.m5_rate = this.getNumber(meter.get5MinuteRate() * rateFactor)
+    values.mean_rate = this.getNumber(meter.getMeanRate() * rateFactor)
 
     return values
   }
@@ -289,36 +308,71 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
    *
    * @static
    * @param {Timer} timer
+   * @param {TimeUnit} [durationUnit=NANOSECOND] the unit of the snapshot values
+   * @param {TimeUnit} [rateUnit=SECOND] the unit of the rates (events per unit)
    * @returns {{}}
    * @memberof ElasticsearchMetricReporter
    */
-  public static getTimerValues (timer: Timer): {} {
+  public static getTimerValues (
+    timer: Timer,
+    durationUnit: TimeUnit = NANOSECOND,
+    rateUnit: TimeUnit = SECOND): {} {
     const value = timer.getCount()
     if (!value || isNaN(value)) {
       return null
     }
     const snapshot = timer.getSnapshot()
     const values: any = {}
+    const rateFactor = rateUnit.convertTo(1, SECOND)
 
     values.count = value
-    values.m15_rate = this.getNumber(timer.get15MinuteRate())
-    values.m1_rate = this.getNumber(timer.get1MinuteRate())
-    values.m5_rate = this.getNumber(timer.get5MinuteRate())
-    values.max = this.getNumber(snapshot.getMax())
-    values.mean = this.getNumber(snapshot.getMean())
-    values.mean_rate = this.getNumber(timer.getMeanRate())
-    values.min = this.getNumber(snapshot.getMin())
-    values.p50 = this.getNumber(snapshot.getMedian())
-    values.p75 = this.getNumber(snapshot.get75thPercentile())
-    values.p95 = this.getNumber(snapshot.get95thPercentile())
-    values.p98 = this.getNumber(snapshot.get98thPercentile())
-    values.p99 = this.getNumber(snapshot.get99thPercentile())
-    values.p999 = this.getNumber(snapshot.get999thPercentile())
-    values.stddev = this.getNumber(snapshot.getStdDev())
+    values.m15_rate = this.getNumber(timer.get15MinuteRate() * rateFactor)
+    values.m1_rate = this.getNumber(timer.get1MinuteRate() * rateFactor)
+    values.m5_rate = this.getNumber(timer.get5MinuteRate() * rateFactor)
+    values.max = this.getNumber(NANOSECOND.convertTo(snapshot.getMax(), durationUnit))
+    values.mean = this.getNumber(NANOSECOND.convertTo(snapshot.getMean(), durationUnit))
+    values.mean_rate = this.getNumber(timer.getMeanRate() * rateFactor)
+    values.min = this.getNumber(NANOSECOND.convertTo(snapshot.getMin(), durationUnit))
+    values.p50 = this.getNumber(NANOSECOND.convertTo(snapshot.getMedian(), durationUnit))
+    values.p75 = this.getNumber(NANOSECOND.convertTo(snapshot.get75thPercentile(), durationUnit))
+    values.p95 = this.getNumber(NANOSECOND.convertTo(snapshot.get95thPercentile(), durationUnit))
+    values.p98 = this.getNumber(NANOSECOND.convertTo(snapshot.get98thPercentile(), durationUnit))
+    values.p99 = this.getNumber(NANOSECOND.convertTo(snapshot.get99thPercentile(), durationUnit))
+    values.p999 = this.getNumber(NANOSECOND.convertTo(snapshot.get999thPercentile(), durationUnit))
+    values.stddev = this.getNumber(NANOSECOND.convertTo(snapshot.getStdDev(), durationUnit))
+    this.addExemplars(values, timer, (v) => NANOSECOND.convertTo(v, durationUnit))
 
     return values
   }
 
+  /**
+   * Adds the most recent exemplar of each bucket as 'exemplars' array - nothing is added if there are no exemplars.
+   *
+   * @private
+   * @static
+   * @param {*} values
+   * @param {BucketCounting} metric
+   * @param {(value: number) => number} convert converts the exemplar value into the reported unit
+   * @memberof ElasticsearchMetricReporter
+   */
+  private static addExemplars (values: any, metric: BucketCounting, convert: (value: number) => number): void {
+    if (!metric.getExemplars) {
+      return
+    }
+    const exemplars: any[] = []
+    for (const [bucket, exemplar] of metric.getExemplars()) {
+      exemplars.push({
+        le: Number.isFinite(bucket) ? `${bucket}` : '+Inf',
+        labels: exemplar.labels,
+        timestamp: new Date(exemplar.timestamp),
+        value: this.getNumber(convert(exemplar.value))
+      })
+    }
+    if (exemplars.length > 0) {
+      values.exemplars = exemplars
+    }
+  }
+
   /**
    * Either gets 0 or the specified value.
    *
@@ -359,7 +413,9 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
   public constructor (
     {
       clientOptions,
-      metricDocumentBuilder = ElasticsearchMetricReporter.defaultDocumentBuilder(),
+      durationUnit,
+      rateUnit,
+      metricDocumentBuilder = ElasticsearchMetricReporter.defaultDocumentBuilder(durationUnit, rateUnit),
       indexnameDeterminator = ElasticsearchMetricReporter.dailyIndex('metric'),
       typeDeterminator = ElasticsearchMetricReporter.defaultTypeDeterminator(),
       log = console,
@@ -369,20 +425,40 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
       scheduler = setInterval,
       minReportingTimeout = 1,
       tags = new Map(),
-      clusterOptions = new DefaultClusterOptions()
+      clusterOptions = new DefaultClusterOptions(),
+      filter,
+      relabelRules,
+      thresholdRules,
+      retryPolicy,
+      maxUnsentResults,
+      spool,
+      selfMetrics,
+      alignToInterval,
+      reportJitter
     }: ElasticsearchMetricReporterOption,
     reporterType?: string) {
     super({
+      alignToInterval,
       clientOptions,
       clock,
       clusterOptions,
+      durationUnit,
+      filter,
       indexnameDeterminator,
       log,
+      maxUnsentResults,
       metricDocumentBuilder,
       minReportingTimeout,
+      rateUnit,
+      relabelRules,
       reportInterval,
+      reportJitter,
+      retryPolicy,
       scheduler,
+      selfMetrics,
+      spool,
       tags,
+      thresholdRules,
       typeDeterminator,
       unit
     }, reporterType)
@@ -453,7 +529,8 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
 
   /**
    * Send the combinations of index and document to the elasticsearch cluster
-   * using the bulk method of the elasticsearch client.
+   * using the bulk method of the elasticsearch client (see {@link #sendBulk}) - failed requests
+   * are retried and kept for the next run according to the retry policy.
    *
    * @protected
    * @param {MetricRegistry | null} registry
@@ -478,15 +555,17 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
     }
 
     try {
-      const response = await this.client.bulk({ body })
-      if (this.options.log) {
-        const warnings = response.warnings
-        this.options.log.debug(
-          // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
-          `wrote ${type} metrics - warnings ${warnings}`,
-          this.logMetadata
-        )
-      }
+      await this.sendWithRetry(body, async (payload) => {
+        const response = await this.sendBulk(payload)
+        if (this.options.log) {
+          const warnings = response.warnings
+          this.options.log.debug(
+            // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+            `wrote ${type} metrics - warnings ${warnings}`,
+            this.logMetadata
+          )
+        }
+      })
     } catch (reason) {
       if (this.options.log) {
         const message = reason.message as string
@@ -496,6 +575,55 @@ export class ElasticsearchMetricReporter extends ScheduledMetricReporter<Elastic
     }
   }
 
+  /**
+   * Sends the bulk body of a spooled request - the documents contain their original timestamps.
+   *
+   * @protected
+   * @param {any[]} body
+   * @returns {Promise<void>}
+   * @memberof ElasticsearchMetricReporter
+   */
+  protected async sendSpooled (body: any[]): Promise<void> {
+    await this.sendBulk(body)
+  }
+
+  /**
+   * Sends the bulk body - rejects if the request failed or if documents were rejected with a retryable
+   * status (429 or 5xx). In the latter case the body is reduced to the rejected documents,
+   * so a retry does not write the accepted documents again. Documents rejected with
+   * other statuses (e.g. mapping errors) are logged and dropped.
+   *
+   * @protected
+   * @param {any[]} body pairs of action and document
+   * @returns {Promise<any>} the response of the client
+   * @memberof ElasticsearchMetricReporter
+   */
+  protected async sendBulk (body: any[]): Promise<any> {
+    const response = await this.client.bulk({ body })
+    const items: any[] = response.body && response.body.errors ? response.body.items || [] : []
+    const retryable: any[] = []
+    let rejected = 0
+    items.forEach((item, index) => {
+      const result = item[Object.keys(item)[0]]
+      if (!result || !result.error) {
+        return
+      }
+      if (result.status === 429 || result.status >= 500) {
+        retryable.push(body[index * 2], body[index * 2 + 1])
+      } else {
+        rejected++
+      }
+    })
+    if (rejected > 0 && this.options.log) {
+      this.options.log.error(`${rejected} documents rejected by elasticsearch`, this.logMetadata)
+    }
+    if (retryable.length > 0) {
+      body.splice(0, body.length, ...retryable)
+      throw new Error(`${retryable.length / 2} documents rejected by elasticsearch - retryable`)
+    }
+    return response
+  }
+
   /**
    * Generalized reporting method of all types of metric instances.
    * Builds the index configuration document and the metric document.
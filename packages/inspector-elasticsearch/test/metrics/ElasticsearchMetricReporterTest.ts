@@ -3,11 +3,137 @@
 import 'reflect-metadata'
 import 'source-map-support/register'
 
+import * as chai from 'chai'
+import { MetricRegistry, RetryPolicy, Spool } from 'inspector-metrics'
 import { suite, test } from '@testdeck/mocha'
+import { ElasticsearchMetricReporter } from '../../lib/metrics'
+import { MockedClock } from './mocked-clock'
+
+const expect = chai.expect
+
+class MemorySpool implements Spool {
+  private readonly entries: Map<string, string> = new Map()
+  private nextId = 0
+
+  public async append (payload: any): Promise<void> {
+    this.entries.set(`${this.nextId++}`, JSON.stringify(payload))
+  }
+
+  public async list (): Promise<string[]> {
+    return Array.from(this.entries.keys())
+  }
+
+  public async read (id: string): Promise<any> {
+    return this.entries.has(id) ? JSON.parse(this.entries.get(id)) : undefined
+  }
+
+  public async remove (id: string): Promise<void> {
+    this.entries.delete(id)
+  }
+
+  public getDroppedCount (): number {
+    return 0
+  }
+}
 
 @suite
 export class ElasticsearchMetricReporterTest {
+  private readonly clock: MockedClock = new MockedClock();
+  private registry: MetricRegistry;
+  private spool: MemorySpool;
+  private reporter: ElasticsearchMetricReporter;
+  private available: boolean;
+  private bodies: any[][];
+  private itemResponses: any[][];
+
+  public before (): void {
+    this.clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 })
+    this.registry = new MetricRegistry()
+    this.spool = new MemorySpool()
+    this.available = false
+    this.bodies = []
+    this.itemResponses = []
+    this.reporter = this.newReporter({ maxAttempts: 1 }, this.spool)
+  }
+
+  @test
+  public async 'check spooled documents are replayed with their original timestamps' (): Promise<void> {
+    const counter = this.registry.newCounter('requests')
+    counter.increment(1)
+    await (this.reporter as any).report()
+    expect(await this.spool.list()).to.have.lengthOf(1)
+
+    this.available = true
+    this.clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 })
+    counter.increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.bodies).to.have.lengthOf(2)
+    expect(this.bodies[0][1].values).to.deep.equal({ count: 1 })
+    expect(new Date(this.bodies[0][1].timestamp).getTime()).to.equal(1000)
+    expect(this.bodies[1][1].values).to.deep.equal({ count: 2 })
+    expect(new Date(this.bodies[1][1].timestamp).getTime()).to.equal(2000)
+    expect(await this.spool.list()).to.have.lengthOf(0)
+  }
+
   @test
-  public checkNothing (): void {
+  public async 'check documents rejected with a retryable status are retried' (): Promise<void> {
+    this.reporter = this.newReporter({ initialDelay: 0, maxAttempts: 2 })
+    this.available = true
+    this.itemResponses.push([
+      { index: { status: 201 } },
+      { index: { error: { type: 'es_rejected_execution_exception' }, status: 429 } },
+      { index: { error: { type: 'mapper_parsing_exception' }, status: 400 } }
+    ])
+    this.registry.newCounter('accepted').increment(1)
+    this.registry.newCounter('throttled').increment(1)
+    this.registry.newCounter('invalid').increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.bodies).to.have.lengthOf(2)
+    expect(this.bodies[1]).to.have.lengthOf(2)
+    expect(this.bodies[1][1].name).to.equal('throttled')
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+  }
+
+  @test
+  public async 'check documents rejected after all attempts are kept for the next run' (): Promise<void> {
+    this.reporter = this.newReporter({ initialDelay: 0, maxAttempts: 2 })
+    this.available = true
+    const throttled = [{ index: { error: { type: 'es_rejected_execution_exception' }, status: 429 } }]
+    this.itemResponses.push(throttled, throttled)
+    const counter = this.registry.newCounter('throttled').increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.bodies).to.have.lengthOf(2)
+    expect(this.reporter.getUnsentResultCount()).to.equal(1)
+
+    counter.increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.bodies).to.have.lengthOf(4)
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+  }
+
+  private newReporter (retryPolicy: RetryPolicy, spool?: Spool): ElasticsearchMetricReporter {
+    const reporter = new ElasticsearchMetricReporter({
+      clientOptions: { node: 'http://localhost:9200' },
+      clock: this.clock,
+      log: null,
+      retryPolicy,
+      spool
+    });
+    (reporter as any).client = {
+      bulk: async ({ body }: { body: any[] }) => {
+        if (!this.available) {
+          throw new Error('unavailable')
+        }
+        this.bodies.push(body.slice())
+        const items = this.itemResponses.shift()
+        return { body: { errors: !!items, items }, warnings: [] as string[] }
+      }
+    }
+    reporter.addMetricRegistry(this.registry)
+    return reporter
   }
 }
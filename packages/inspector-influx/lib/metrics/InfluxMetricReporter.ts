@@ -6,6 +6,7 @@ import {
   DefaultClusterOptions,
   Event,
   Gauge,
+  getMetricUnit,
   Histogram,
   Logger,
   Meter,
@@ -114,18 +115,40 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     scheduler = setInterval,
     minReportingTimeout = 1,
     clusterOptions = new DefaultClusterOptions(),
-    tags = new Map()
+    tags = new Map(),
+    filter,
+    relabelRules,
+    durationUnit,
+    rateUnit,
+    thresholdRules,
+    retryPolicy,
+    maxUnsentResults,
+    spool,
+    selfMetrics,
+    alignToInterval,
+    reportJitter
   }: InfluxMetricReporterOptions,
   reporterType?: string) {
     super({
+      alignToInterval,
       clock,
       clusterOptions,
+      durationUnit,
+      filter,
       log,
+      maxUnsentResults,
       minReportingTimeout,
+      rateUnit,
+      relabelRules,
       reportInterval,
+      reportJitter,
+      retryPolicy,
       scheduler,
+      selfMetrics,
       sender,
+      spool,
       tags,
+      thresholdRules,
       unit
     }, reporterType)
 
@@ -214,21 +237,23 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
   }
 
   /**
-   * Reports the data points for each registered {@link MetricRegistry}.
+   * Reports the data points for each registered {@link MetricRegistry} -
+   * if the sender is not ready the data points are only reported if a spool is configured.
    *
    * @protected
    * @memberof InfluxMetricReporter
    */
   protected async report (): Promise<OverallReportContext> {
     const senderReady = await this.options.sender.isReady()
-    if (senderReady) {
+    if (senderReady || this.options.spool) {
       return await super.report()
     }
     return {}
   }
 
   /**
-   * Uses the sender to report the given data points.
+   * Uses the sender to report the given data points - failed requests are retried
+   * and kept for the next run (or spooled) according to the retry policy.
    *
    * @protected
    * @param {OverallReportContext} ctx
@@ -251,13 +276,7 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     }
 
     try {
-      points.forEach((point) => {
-        if (!(point.timestamp instanceof Date)) {
-          point.timestamp = new Date(point.timestamp)
-        }
-      })
-
-      await this.options.sender.send(points)
+      await this.sendWithRetry(points, async (p) => await this.sendSpooled(p))
       if (this.options.log) {
         this.options.log.debug(`wrote ${type} metrics`, this.logMetadata)
       }
@@ -270,6 +289,27 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     }
   }
 
+  /**
+   * Sends the (spooled) data points with their original timestamps using the sender -
+   * rejects if the sender is not ready.
+   *
+   * @protected
+   * @param {IPoint[]} points
+   * @returns {Promise<void>}
+   * @memberof InfluxMetricReporter
+   */
+  protected async sendSpooled (points: IPoint[]): Promise<void> {
+    if (!await this.options.sender.isReady()) {
+      throw new Error('sender is not ready')
+    }
+    points.forEach((point) => {
+      if (!(point.timestamp instanceof Date)) {
+        point.timestamp = new Date(point.timestamp)
+      }
+    })
+    await this.options.sender.send(points)
+  }
+
   /**
    * Builds an IPoint instance for the given {@link Counter} or  {@link MonotoneCounter}.
    *
@@ -291,6 +331,7 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     const measurement = this.getMeasurementName(counter)
 
     fields[`${fieldNamePrefix}count`] = counter.getCount() || 0
+    this.addUnitField(fields, fieldNamePrefix, counter)
 
     return {
       fields,
@@ -319,6 +360,7 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     const measurement = this.getMeasurementName(gauge)
 
     fields[`${fieldNamePrefix}value`] = gauge.getValue() || 0
+    this.addUnitField(fields, fieldNamePrefix, gauge)
 
     return {
       fields,
@@ -358,6 +400,7 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     fields[`${fieldNamePrefix}p99`] = this.getNumber(snapshot.get99thPercentile())
     fields[`${fieldNamePrefix}p999`] = this.getNumber(snapshot.get999thPercentile())
     fields[`${fieldNamePrefix}stddev`] = this.getNumber(snapshot.getStdDev())
+    this.addUnitField(fields, fieldNamePrefix, histogram)
 
     return {
       fields,
@@ -386,10 +429,11 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     const measurement = this.getMeasurementName(meter)
 
     fields[`${fieldNamePrefix}count`] = meter.getCount() || 0
-    fields[`${fieldNamePrefix}m15_rate`] = this.getNumber(meter.get15MinuteRate())
-    fields[`${fieldNamePrefix}m1_rate`] = this.getNumber(meter.get1MinuteRate())
-    fields[`${fieldNamePrefix}m5_rate`] = this.getNumber(meter.get5MinuteRate())
-    fields[`${fieldNamePrefix}mean_rate`] = this.getNumber(meter.getMeanRate())
+    fields[`${fieldNamePrefix}m15_rate`] = this.getNumber(this.convertRate(meter.get15MinuteRate()))
+    fields[`${fieldNamePrefix}m1_rate`] = this.getNumber(this.convertRate(meter.get1MinuteRate()))
+    fields[`${fieldNamePrefix}m5_rate`] = this.getNumber(this.convertRate(meter.get5MinuteRate()))
+    fields[`${fieldNamePrefix}mean_rate`] = this.getNumber(this.convertRate(meter.getMeanRate()))
+    this.addUnitField(fields, fieldNamePrefix, meter)
 
     return {
       fields,
@@ -419,20 +463,21 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     const measurement = this.getMeasurementName(timer)
 
     fields[`${fieldNamePrefix}count`] = timer.getCount() || 0
-    fields[`${fieldNamePrefix}m15_rate`] = this.getNumber(timer.get15MinuteRate())
-    fields[`${fieldNamePrefix}m1_rate`] = this.getNumber(timer.get1MinuteRate())
-    fields[`${fieldNamePrefix}m5_rate`] = this.getNumber(timer.get5MinuteRate())
-    fields[`${fieldNamePrefix}max`] = this.getNumber(snapshot.getMax())
-    fields[`${fieldNamePrefix}mean`] = this.getNumber(snapshot.getMean())
-    fields[`${fieldNamePrefix}mean_rate`] = this.getNumber(timer.getMeanRate())
-    fields[`${fieldNamePrefix}min`] = this.getNumber(snapshot.getMin())
-    fields[`${fieldNamePrefix}p50`] = this.getNumber(snapshot.getMedian())
-    fields[`${fieldNamePrefix}p75`] = this.getNumber(snapshot.get75thPercentile())
-    fields[`${fieldNamePrefix}p95`] = this.getNumber(snapshot.get95thPercentile())
-    fields[`${fieldNamePrefix}p98`] = this.getNumber(snapshot.get98thPercentile())
-    fields[`${fieldNamePrefix}p99`] = this.getNumber(snapshot.get99thPercentile())
-    fields[`${fieldNamePrefix}p999`] = this.getNumber(snapshot.get999thPercentile())
-    fields[`${fieldNamePrefix}stddev`] = this.getNumber(snapshot.getStdDev())
+    fields[`${fieldNamePrefix}m15_rate`] = this.getNumber(this.convertRate(timer.get15MinuteRate()))
+    fields[`${fieldNamePrefix}m1_rate`] = this.getNumber(this.convertRate(timer.get1MinuteRate()))
+    fields[`${fieldNamePrefix}m5_rate`] = this.getNumber(this.convertRate(timer.get5MinuteRate()))
+    fields[`${fieldNamePrefix}max`] = this.getNumber(this.convertDuration(snapshot.getMax()))
+    fields[`${fieldNamePrefix}mean`] = this.getNumber(this.convertDuration(snapshot.getMean()))
+    fields[`${fieldNamePrefix}mean_rate`] = this.getNumber(this.convertRate(timer.getMeanRate()))
+    fields[`${fieldNamePrefix}min`] = this.getNumber(this.convertDuration(snapshot.getMin()))
+    fields[`${fieldNamePrefix}p50`] = this.getNumber(this.convertDuration(snapshot.getMedian()))
+    fields[`${fieldNamePrefix}p75`] = this.getNumber(this.convertDuration(snapshot.get75thPercentile()))
+    fields[`${fieldNamePrefix}p95`] = this.getNumber(this.convertDuration(snapshot.get95thPercentile()))
+    fields[`${fieldNamePrefix}p98`] = this.getNumber(this.convertDuration(snapshot.get98thPercentile()))
+    fields[`${fieldNamePrefix}p99`] = this.getNumber(this.convertDuration(snapshot.get99thPercentile()))
+    fields[`${fieldNamePrefix}p999`] = this.getNumber(this.convertDuration(snapshot.get999thPercentile()))
+    fields[`${fieldNamePrefix}stddev`] = this.getNumber(this.convertDuration(snapshot.getStdDev()))
+    this.addUnitField(fields, fieldNamePrefix, timer)
 
     return {
       fields,
@@ -442,6 +487,22 @@ export class InfluxMetricReporter extends ScheduledMetricReporter<InfluxMetricRe
     }
   }
 
+  /**
+   * Adds the unit of the metric as field - if the metric has a unit.
+   *
+   * @private
+   * @param {*} fields
+   * @param {string} fieldNamePrefix
+   * @param {Metric} metric
+   * @memberof InfluxMetricReporter
+   */
+  private addUnitField (fields: any, fieldNamePrefix: string, metric: Metric): void {
+    const unit = getMetricUnit(metric)
+    if (unit) {
+      fields[`${fieldNamePrefix}unit`] = unit
+    }
+  }
+
   /**
    * Builds the prefix for a field name.
    *
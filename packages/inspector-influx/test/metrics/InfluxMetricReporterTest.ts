@@ -3,16 +3,96 @@
 import 'reflect-metadata'
 import 'source-map-support/register'
 
-// import * as chai from "chai";
+import * as chai from 'chai'
+import { IPoint } from 'influx'
+import { MetricRegistry, Spool } from 'inspector-metrics'
 import { suite, test } from '@testdeck/mocha'
+import { InfluxMetricReporter, Sender } from '../../lib/metrics'
+import { MockedClock } from './mocked-clock'
 
-// import { InfluxMetricReporter } from "../../lib/metrics/influx-metric-reporter";
+const expect = chai.expect
 
-// const expect = chai.expect;
+class MemorySpool implements Spool {
+  private readonly entries: Map<string, string> = new Map()
+  private nextId = 0
+
+  public async append (payload: any): Promise<void> {
+    this.entries.set(`${this.nextId++}`, JSON.stringify(payload))
+  }
+
+  public async list (): Promise<string[]> {
+    return Array.from(this.entries.keys())
+  }
+
+  public async read (id: string): Promise<any> {
+    return this.entries.has(id) ? JSON.parse(this.entries.get(id)) : undefined
+  }
+
+  public async remove (id: string): Promise<void> {
+    this.entries.delete(id)
+  }
+
+  public getDroppedCount (): number {
+    return 0
+  }
+}
+
+class MockedSender implements Sender {
+  public ready = false
+  public readonly points: IPoint[] = []
+
+  public async isReady (): Promise<boolean> {
+    return this.ready
+  }
+
+  public async init (): Promise<any> {
+  }
+
+  public async send (points: IPoint[]): Promise<void> {
+    this.points.push(...points)
+  }
+}
 
 @suite
 export class InfluxMetricReporterTest {
+  private readonly clock: MockedClock = new MockedClock();
+  private registry: MetricRegistry;
+  private spool: MemorySpool;
+  private sender: MockedSender;
+  private reporter: InfluxMetricReporter;
+
+  public before (): void {
+    this.clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 })
+    this.registry = new MetricRegistry()
+    this.spool = new MemorySpool()
+    this.sender = new MockedSender()
+    this.reporter = new InfluxMetricReporter({
+      clock: this.clock,
+      log: null,
+      retryPolicy: { maxAttempts: 1 },
+      sender: this.sender,
+      spool: this.spool
+    })
+    this.reporter.addMetricRegistry(this.registry)
+  }
+
   @test
-  public checkNothing (): void {
+  public async 'check spooled points are replayed with their original timestamps' (): Promise<void> {
+    const counter = this.registry.newCounter('requests')
+    counter.increment(1)
+    await (this.reporter as any).report()
+    expect(await this.spool.list()).to.have.lengthOf(1)
+
+    this.sender.ready = true
+    this.clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 })
+    counter.increment(1)
+    await (this.reporter as any).report()
+
+    expect(this.sender.points).to.have.lengthOf(2)
+    expect(this.sender.points[0].fields).to.deep.equal({ count: 1 })
+    expect((this.sender.points[0].timestamp as Date).getTime()).to.equal(1000)
+    expect(this.sender.points[1].fields).to.deep.equal({ count: 2 })
+    expect((this.sender.points[1].timestamp as Date).getTime()).to.equal(2000)
+    expect(await this.spool.list()).to.have.lengthOf(0)
   }
 }
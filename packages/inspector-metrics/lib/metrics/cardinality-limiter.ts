@@ -0,0 +1,249 @@
+import 'source-map-support/register'
+
+import { Metric } from './model/metric'
+import { Logger } from './reporter/logger'
+
+/**
+ * The metrics sharing a tag combination.
+ *
+ * @interface Combination
+ */
+interface Combination {
+  /**
+   * Indicates if the combination is the overflow series - not counted against the cap.
+   *
+   * @type {boolean}
+   * @memberof Combination
+   */
+  readonly overflow: boolean
+  /**
+   * The metrics with the tag combination.
+   *
+   * @type {Set<Metric>}
+   * @memberof Combination
+   */
+  readonly metrics: Set<Metric>
+}
+
+/**
+ * Caps the number of distinct tag-value combinations per metric name (and group).
+ *
+ * Once the cap is reached, each new combination is folded into the overflow series -
+ * same tag names, but every value replaced by the overflow value (e.g. "other").
+ * A warning is logged once per metric name when the cap is reached for the first time.
+ *
+ * @export
+ * @class CardinalityLimiter
+ */
+export class CardinalityLimiter {
+  /**
+   * The default tag value of the overflow series.
+   *
+   * @static
+   * @memberof CardinalityLimiter
+   */
+  public static readonly DEFAULT_OVERFLOW_VALUE = 'other'
+
+  /**
+   * The metrics of each tag combination per metric name.
+   *
+   * @private
+   * @type {Map<string, Map<string, Combination>>}
+   * @memberof CardinalityLimiter
+   */
+  private readonly combinations: Map<string, Map<string, Combination>> = new Map()
+  /**
+   * The number of combinations other than the overflow series per metric name.
+   *
+   * @private
+   * @type {Map<string, number>}
+   * @memberof CardinalityLimiter
+   */
+  private readonly counts: Map<string, number> = new Map()
+  /**
+   * The metric name key and the combination key each metric is currently tracked with.
+   *
+   * @private
+   * @type {Map<Metric, [string, string]>}
+   * @memberof CardinalityLimiter
+   */
+  private readonly trackedMetrics: Map<Metric, [string, string]> = new Map()
+  /**
+   * The metric names a warning was already logged for.
+   *
+   * @private
+   * @type {Set<string>}
+   * @memberof CardinalityLimiter
+   */
+  private readonly warnedNames: Set<string> = new Set()
+
+  /**
+   * Creates an instance of CardinalityLimiter.
+   *
+   * @param {number} maxCombinations the max. number of distinct tag combinations per metric name
+   * @param {Logger} [logger=console] used to log a warning once the cap is reached
+   * @param {string} [overflowValue=CardinalityLimiter.DEFAULT_OVERFLOW_VALUE] the tag value of the overflow series
+   * @memberof CardinalityLimiter
+   */
+  public constructor (
+    private readonly maxCombinations: number,
+    private readonly logger: Logger = console,
+    private readonly overflowValue: string = CardinalityLimiter.DEFAULT_OVERFLOW_VALUE) {
+  }
+
+  /**
+   * Gets the max. number of distinct tag combinations per metric name.
+   *
+   * @returns {number}
+   * @memberof CardinalityLimiter
+   */
+  public getMaxCombinations (): number {
+    return this.maxCombinations
+  }
+
+  /**
+   * Determines if the specified tags would be folded into the overflow series for a metric
+   * with the specified name and group.
+   *
+   * @param {string} name
+   * @param {string} group
+   * @param {Map<string, string>} tags
+   * @returns {boolean}
+   * @memberof CardinalityLimiter
+   */
+  public exceeds (name: string, group: string, tags: Map<string, string>): boolean {
+    const nameKey = this.nameKey(name, group)
+    const combinations = this.combinations.get(nameKey)
+    if (!combinations || this.isOverflow(tags) || combinations.has(this.combinationKey(tags))) {
+      return false
+    }
+    return (this.counts.get(nameKey) || 0) >= this.maxCombinations
+  }
+
+  /**
+   * Determines if all values of the specified tags are the overflow value.
+   *
+   * @param {Map<string, string>} tags
+   * @returns {boolean}
+   * @memberof CardinalityLimiter
+   */
+  public isOverflow (tags: Map<string, string>): boolean {
+    return tags.size > 0 && Array.from(tags.values()).every((value) => value === this.overflowValue)
+  }
+
+  /**
+   * Gets the overflow version of the specified tags - all values replaced by the overflow value.
+   *
+   * @param {Map<string, string>} tags
+   * @returns {Map<string, string>}
+   * @memberof CardinalityLimiter
+   */
+  public toOverflowTags (tags: Map<string, string>): Map<string, string> {
+    const overflowTags: Map<string, string> = new Map()
+    tags.forEach((value, name) => overflowTags.set(name, this.overflowValue))
+    return overflowTags
+  }
+
+  /**
+   * Tracks the new tags of the specified metric - returns the overflow version of the tags
+   * if the metric would exceed the max. number of combinations of its name.
+   *
+   * @param {Metric} metric
+   * @param {Map<string, string>} tags the new tags of the metric
+   * @returns {Map<string, string>} the tags to apply to the metric
+   * @memberof CardinalityLimiter
+   */
+  public limit (metric: Metric, tags: Map<string, string>): Map<string, string> {
+    this.release(metric)
+    const nameKey = this.nameKey(metric.getName(), metric.getGroup())
+    if (this.exceeds(metric.getName(), metric.getGroup(), tags)) {
+      this.warn(nameKey, metric)
+      tags = this.toOverflowTags(tags)
+    }
+    const combinationKey = this.combinationKey(tags)
+    if (!this.combinations.has(nameKey)) {
+      this.combinations.set(nameKey, new Map())
+    }
+    const combinations = this.combinations.get(nameKey)
+    if (!combinations.has(combinationKey)) {
+      const overflow = this.isOverflow(tags)
+      combinations.set(combinationKey, { metrics: new Set(), overflow })
+      if (!overflow) {
+        this.counts.set(nameKey, (this.counts.get(nameKey) || 0) + 1)
+      }
+    }
+    combinations.get(combinationKey).metrics.add(metric)
+    this.trackedMetrics.set(metric, [nameKey, combinationKey])
+    return tags
+  }
+
+  /**
+   * Stops tracking the specified metric - frees the tag combination if no other metric uses it.
+   *
+   * @param {Metric} metric
+   * @memberof CardinalityLimiter
+   */
+  public release (metric: Metric): void {
+    const tracked = this.trackedMetrics.get(metric)
+    if (!tracked) {
+      return
+    }
+    const [nameKey, combinationKey] = tracked
+    const combinations = this.combinations.get(nameKey)
+    const combination = combinations.get(combinationKey)
+    combination.metrics.delete(metric)
+    if (combination.metrics.size === 0) {
+      combinations.delete(combinationKey)
+      if (!combination.overflow) {
+        this.counts.set(nameKey, this.counts.get(nameKey) - 1)
+      }
+    }
+    if (combinations.size === 0) {
+      this.combinations.delete(nameKey)
+      this.counts.delete(nameKey)
+    }
+    this.trackedMetrics.delete(metric)
+  }
+
+  /**
+   * Logs a warning the first time the cap is reached for the specified metric name.
+   *
+   * @private
+   * @param {string} nameKey
+   * @param {Metric} metric
+   * @memberof CardinalityLimiter
+   */
+  private warn (nameKey: string, metric: Metric): void {
+    if (this.logger && !this.warnedNames.has(nameKey)) {
+      this.warnedNames.add(nameKey)
+      this.logger.warn(
+        `Metric '${metric.toString()}' exceeds the limit of ${this.maxCombinations} tag combinations - ` +
+        `new combinations are reported with the tag value '${this.overflowValue}'`)
+    }
+  }
+
+  /**
+   * Builds the key of a metric name and group.
+   *
+   * @private
+   * @param {string} name
+   * @param {string} group
+   * @returns {string}
+   * @memberof CardinalityLimiter
+   */
+  private nameKey (name: string, group: string): string {
+    return JSON.stringify([group || null, name])
+  }
+
+  /**
+   * Builds the key of a tag combination - independent of the order of the tags.
+   *
+   * @private
+   * @param {Map<string, string>} tags
+   * @returns {string}
+   * @memberof CardinalityLimiter
+   */
+  private combinationKey (tags: Map<string, string>): string {
+    return JSON.stringify(Array.from(tags.entries()).sort())
+  }
+}
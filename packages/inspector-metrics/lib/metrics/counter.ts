@@ -2,6 +2,7 @@ import 'source-map-support/register'
 
 import { Counting } from './model/counting'
 import { BaseMetric, Metric } from './model/metric'
+import { Restorable } from './model/restorable'
 
 /**
  * A monotonically increasing number.
@@ -12,8 +13,9 @@ import { BaseMetric, Metric } from './model/metric'
  * @extends {BaseMetric}
  * @implements {Counting}
  * @implements {Metric}
+ * @implements {Restorable}
  */
-export class MonotoneCounter extends BaseMetric implements Counting, Metric {
+export class MonotoneCounter extends BaseMetric implements Counting, Metric, Restorable {
   /**
    * Holds the current value.
    *
@@ -34,6 +36,7 @@ export class MonotoneCounter extends BaseMetric implements Counting, Metric {
     super()
     this.name = name
     this.description = description
+    this.markUpdated()
   }
 
   /**
@@ -47,7 +50,12 @@ export class MonotoneCounter extends BaseMetric implements Counting, Metric {
     if (value < 0) {
       throw new Error('MonotoneCounter must not be increased by a negative value')
     }
+    if (this.foldTarget) {
+      this.foldTarget.increment(value)
+      return this
+    }
     this.count += value
+    this.markUpdated()
     return this
   }
 
@@ -83,6 +91,50 @@ export class MonotoneCounter extends BaseMetric implements Counting, Metric {
     json.count = this.count
     return json
   }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof MonotoneCounter
+   */
+  public getStateType (): string {
+    return 'MonotoneCounter'
+  }
+
+  /**
+   * Same as {@link #toJSON()}.
+   *
+   * @returns {*}
+   * @memberof MonotoneCounter
+   */
+  public exportState (): any {
+    return this.toJSON()
+  }
+
+  /**
+   * Restores the count.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof MonotoneCounter
+   */
+  public restoreState (state: any): this {
+    this.count = state.count || 0
+    this.markUpdated()
+    return this
+  }
+
+  /**
+   * Adds the current count to the specified counter - see {@link BaseMetric#foldInto}.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof MonotoneCounter
+   */
+  protected foldValuesInto (target: this): void {
+    target.increment(this.count)
+  }
 }
 
 /**
@@ -115,7 +167,12 @@ export class Counter extends MonotoneCounter implements Counting, Metric {
    * @memberof MonotoneCounter
    */
   public increment (value: number): this {
+    if (this.foldTarget) {
+      this.foldTarget.increment(value)
+      return this
+    }
     this.count += value
+    this.markUpdated()
     return this
   }
 
@@ -127,7 +184,22 @@ export class Counter extends MonotoneCounter implements Counting, Metric {
    * @memberof Counter
    */
   public decrement (value: number): this {
+    if (this.foldTarget) {
+      this.foldTarget.decrement(value)
+      return this
+    }
     this.count -= value
+    this.markUpdated()
     return this
   }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof Counter
+   */
+  public getStateType (): string {
+    return 'Counter'
+  }
 }
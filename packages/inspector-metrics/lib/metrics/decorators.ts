@@ -0,0 +1,251 @@
+import 'source-map-support/register'
+
+import { Counter } from './counter'
+import { Meter } from './meter'
+import { MetricRegistry } from './metric-registry'
+import { Metric } from './model/metric'
+import { Tags } from './model/taggable'
+import { Timer } from './timer'
+
+/**
+ * Resolves the {@link MetricRegistry} for the instance the decorated method is invoked on.
+ */
+export type MetricRegistrySupplier = (instance: any) => MetricRegistry
+
+/**
+ * Marks the replacement of a method returning a promise - keeps the information if decorators are stacked.
+ */
+const PROMISE_METHOD = Symbol('inspector-metrics:promise-method')
+
+/**
+ * Options of all metric decorators.
+ *
+ * @export
+ * @interface MetricDecoratorOptions
+ */
+export interface MetricDecoratorOptions {
+  /**
+   * The registry to record into or a function resolving the registry per instance.
+   *
+   * @type {(MetricRegistry | MetricRegistrySupplier)}
+   * @memberof MetricDecoratorOptions
+   */
+  registry: MetricRegistry | MetricRegistrySupplier
+  /**
+   * The name of the metric - defaults to "&lt;class name&gt;.&lt;method name&gt;".
+   *
+   * @type {string}
+   * @memberof MetricDecoratorOptions
+   */
+  name?: string
+  /**
+   * The group of the metric.
+   *
+   * @type {string}
+   * @memberof MetricDecoratorOptions
+   */
+  group?: string
+  /**
+   * The tags of the metric.
+   *
+   * @type {Tags}
+   * @memberof MetricDecoratorOptions
+   */
+  tags?: Tags
+  /**
+   * The description of the metric.
+   *
+   * @type {string}
+   * @memberof MetricDecoratorOptions
+   */
+  description?: string
+}
+
+/**
+ * Options of the {@link ExceptionMetered} decorator.
+ *
+ * @export
+ * @interface ExceptionMeteredOptions
+ * @extends {MetricDecoratorOptions}
+ */
+export interface ExceptionMeteredOptions extends MetricDecoratorOptions {
+  /**
+   * Only errors of this type are counted - all errors are counted if not set.
+   *
+   * @memberof ExceptionMeteredOptions
+   */
+  cause?: new (...args: any[]) => any
+}
+
+/**
+ * Measures the duration of each invocation of the decorated method with a {@link Timer} -
+ * using {@link Timer#timeAsync} for methods returning a promise (measured until the promise is settled)
+ * and {@link Timer#time} for all other methods.
+ *
+ * Methods returning a promise are recognized by the async keyword (if not transpiled) or
+ * by their declared return type (requires the compiler option "emitDecoratorMetadata").
+ *
+ * @export
+ * @param {MetricDecoratorOptions} options
+ * @returns {MethodDecorator}
+ */
+export function Timed (options: MetricDecoratorOptions): MethodDecorator {
+  return decorate(
+    options,
+    '',
+    (registry, name) => registry.getOrCreateTimer(
+      name, options.tags, options.group, registry.getDefaultClock(), null, options.description),
+    (timer: Timer, invoke, returnsPromise) => returnsPromise
+      ? timer.timeAsync(async () => await invoke())
+      : timer.time(invoke))
+}
+
+/**
+ * Counts the invocations of the decorated method with a {@link Counter}.
+ *
+ * @export
+ * @param {MetricDecoratorOptions} options
+ * @returns {MethodDecorator}
+ */
+export function Counted (options: MetricDecoratorOptions): MethodDecorator {
+  return decorate(
+    options,
+    '',
+    (registry, name) => registry.getOrCreateCounter(name, options.tags, options.group, options.description),
+    (counter: Counter, invoke) => {
+      counter.increment(1)
+      return invoke()
+    })
+}
+
+/**
+ * Measures the rate of invocations of the decorated method with a {@link Meter}.
+ *
+ * @export
+ * @param {MetricDecoratorOptions} options
+ * @returns {MethodDecorator}
+ */
+export function MeteredMethod (options: MetricDecoratorOptions): MethodDecorator {
+  return decorate(
+    options,
+    '',
+    (registry, name) => registry.getOrCreateMeter(
+      name, options.tags, options.group, registry.getDefaultClock(), 1, options.description),
+    (meter: Meter, invoke) => {
+      meter.mark(1)
+      return invoke()
+    })
+}
+
+/**
+ * Measures the rate of errors thrown by the decorated method (or of rejected promises
+ * returned by an async method) with a {@link Meter}. The error is rethrown afterwards.
+ *
+ * The name of the meter defaults to "&lt;class name&gt;.&lt;method name&gt;.exceptions".
+ *
+ * @export
+ * @param {ExceptionMeteredOptions} options
+ * @returns {MethodDecorator}
+ */
+export function ExceptionMetered (options: ExceptionMeteredOptions): MethodDecorator {
+  return decorate(
+    options,
+    '.exceptions',
+    (registry, name) => registry.getOrCreateMeter(
+      name, options.tags, options.group, registry.getDefaultClock(), 1, options.description),
+    (meter: Meter, invoke) => intercept(invoke, (error) => {
+      if (!options.cause || error instanceof options.cause) {
+        meter.mark(1)
+      }
+    }))
+}
+
+/**
+ * Replaces the decorated method with a function that resolves the metric
+ * (once per registry - again once the metric was removed from the registry, e.g. after it expired)
+ * and passes it together with the original invocation to the interceptor.
+ * Methods decorated with the same name, group and tags share the same metric.
+ *
+ * @template M
+ * @param {MetricDecoratorOptions} options
+ * @param {string} defaultNameSuffix appended to the default name
+ * @param {(registry: MetricRegistry, name: string) => M} factory gets or creates the metric in the registry
+ * @param {(metric: M, invoke: () => any, returnsPromise: boolean) => any} interceptor
+ *    invokes the original method and records into the metric
+ * @returns {MethodDecorator}
+ */
+function decorate<M extends Metric> (
+  options: MetricDecoratorOptions,
+  defaultNameSuffix: string,
+  factory: (registry: MetricRegistry, name: string) => M,
+  interceptor: (metric: M, invoke: () => any, returnsPromise: boolean) => any): MethodDecorator {
+  return (target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    const method = descriptor.value
+    if (typeof method !== 'function') {
+      throw new Error(`Metric decorators can only be applied to methods - '${String(propertyKey)}' is not a method`)
+    }
+    const className = typeof target === 'function' ? target.name : target.constructor.name
+    const name = options.name || `${className}.${String(propertyKey)}${defaultNameSuffix}`
+    const metrics = new WeakMap<MetricRegistry, M>()
+    const returnsPromise = isPromiseMethod(target, propertyKey, method)
+
+    descriptor.value = function (this: any, ...args: any[]): any {
+      const registry = typeof options.registry === 'function' ? options.registry(this) : options.registry
+      let metric = metrics.get(registry)
+      if (!metric || !registry.hasMetric(metric)) {
+        metric = factory(registry, name)
+        metrics.set(registry, metric)
+      }
+      return interceptor(metric, () => method.apply(this, args), returnsPromise)
+    }
+    descriptor.value[PROMISE_METHOD] = returnsPromise
+  }
+}
+
+/**
+ * Determines if the method returns a promise - by the async keyword, the declared return type
+ * (design metadata) or the mark of a decorator applied before.
+ *
+ * @param {*} target
+ * @param {(string | symbol)} propertyKey
+ * @param {*} method
+ * @returns {boolean}
+ */
+function isPromiseMethod (target: any, propertyKey: string | symbol, method: any): boolean {
+  if (method[PROMISE_METHOD] !== undefined) {
+    return method[PROMISE_METHOD]
+  }
+  if (method.constructor && method.constructor.name === 'AsyncFunction') {
+    return true
+  }
+  const reflect: any = Reflect
+  return typeof reflect.getMetadata === 'function' &&
+    reflect.getMetadata('design:returntype', target, propertyKey) === Promise
+}
+
+/**
+ * Invokes the function and calls the specified callback if the invocation failed -
+ * for promises once the promise is rejected.
+ *
+ * @param {() => any} invoke
+ * @param {(error: any) => void} onError called with the error thrown / the reason of the rejection
+ * @returns {*} the result of the invocation
+ */
+function intercept (invoke: () => any, onError: (error: any) => void): any {
+  let result: any
+  try {
+    result = invoke()
+  } catch (error) {
+    onError(error)
+    throw error
+  }
+  if (result && typeof result.then === 'function') {
+    return result.then(
+      undefined,
+      (error: any) => {
+        onError(error)
+        throw error
+      })
+  }
+  return result
+}
@@ -0,0 +1,210 @@
+import 'source-map-support/register'
+
+import { Gauge } from './gauge'
+import { BaseMetric } from './model/metric'
+
+/**
+ * Supplies the value of a {@link FunctionGauge}.
+ */
+export type GaugeSupplier<T> = () => T
+
+/**
+ * Supplies the value of an {@link AsyncGauge} - either directly or as promise.
+ */
+export type AsyncGaugeSupplier<T> = () => T | Promise<T>
+
+/**
+ * A gauge which calls the specified supplier function each time the value is requested.
+ *
+ * @export
+ * @class FunctionGauge
+ * @extends {BaseMetric}
+ * @implements {Gauge<T>}
+ * @template T
+ */
+export class FunctionGauge<T> extends BaseMetric implements Gauge<T> {
+  /**
+   * Creates an instance of FunctionGauge.
+   *
+   * @param {string} name The name of the metric
+   * @param {GaugeSupplier<T>} supplier Called to get the current value
+   * @param {string} [description] The description of the metric
+   * @memberof FunctionGauge
+   */
+  public constructor (
+    name: string,
+    private readonly supplier: GaugeSupplier<T>,
+    description?: string) {
+    super()
+    this.name = name
+    this.description = description
+  }
+
+  /**
+   * Gets the value returned by the supplier.
+   *
+   * @returns {T}
+   * @memberof FunctionGauge
+   */
+  public getValue (): T {
+    return this.supplier()
+  }
+
+  /**
+   * Same as {@link BaseMetric#toJSON()}, also adding value property.
+   *
+   * @returns {*}
+   * @memberof FunctionGauge
+   */
+  public toJSON (): any {
+    const json = super.toJSON()
+    json.value = this.getValue()
+    return json
+  }
+}
+
+/**
+ * A gauge which gets its value from an asynchronous supplier function - e.g. the size of a
+ * database connection pool or the depth of a remote queue.
+ *
+ * The supplier is invoked by {@link AsyncGauge#update}, which is called by every
+ * {@link MetricReporter} once per reporting run before the gauge gets reported.
+ * {@link AsyncGauge#getValue} returns the value of the latest successful update.
+ *
+ * @export
+ * @class AsyncGauge
+ * @extends {BaseMetric}
+ * @implements {Gauge<T>}
+ * @template T
+ */
+export class AsyncGauge<T> extends BaseMetric implements Gauge<T> {
+  /**
+   * The value of the latest successful update.
+   *
+   * @private
+   * @type {T}
+   * @memberof AsyncGauge
+   */
+  private value: T
+  /**
+   * The error of the latest update or null if the latest update succeeded.
+   *
+   * @private
+   * @type {*}
+   * @memberof AsyncGauge
+   */
+  private lastError: any = null
+  /**
+   * The time in milliseconds an update waits for the supplier - a non-positive value disables the timeout.
+   *
+   * @private
+   * @type {number}
+   * @memberof AsyncGauge
+   */
+  private updateTimeout: number = 10000
+
+  /**
+   * Creates an instance of AsyncGauge.
+   *
+   * @param {string} name The name of the metric
+   * @param {AsyncGaugeSupplier<T>} supplier Called to get the current value
+   * @param {string} [description] The description of the metric
+   * @param {T} [initialValue] The value returned before the first update
+   * @memberof AsyncGauge
+   */
+  public constructor (
+    name: string,
+    private readonly supplier: AsyncGaugeSupplier<T>,
+    description?: string,
+    initialValue?: T) {
+    super()
+    this.name = name
+    this.description = description
+    this.value = initialValue
+  }
+
+  /**
+   * Gets the value of the latest successful update.
+   *
+   * @returns {T}
+   * @memberof AsyncGauge
+   */
+  public getValue (): T {
+    return this.value
+  }
+
+  /**
+   * Gets the error of the latest update or null if the latest update succeeded.
+   *
+   * @returns {*}
+   * @memberof AsyncGauge
+   */
+  public getLastError (): any {
+    return this.lastError
+  }
+
+  /**
+   * Gets the time in milliseconds an update waits for the supplier (10 seconds by default).
+   *
+   * @returns {number}
+   * @memberof AsyncGauge
+   */
+  public getUpdateTimeout (): number {
+    return this.updateTimeout
+  }
+
+  /**
+   * Sets the time in milliseconds an update waits for the supplier - a non-positive value disables the timeout.
+   *
+   * @param {number} updateTimeout
+   * @returns {this}
+   * @memberof AsyncGauge
+   */
+  public setUpdateTimeout (updateTimeout: number): this {
+    this.updateTimeout = updateTimeout
+    return this
+  }
+
+  /**
+   * Invokes the supplier and stores the resolved value. If the supplier
+   * throws, rejects or does not resolve within the update timeout the previous value
+   * is kept and the error is available through {@link AsyncGauge#getLastError} -
+   * the returned promise never rejects.
+   *
+   * @returns {Promise<this>}
+   * @memberof AsyncGauge
+   */
+  public async update (): Promise<this> {
+    let timeout: NodeJS.Timer = null
+    try {
+      const supplied = Promise.resolve(this.supplier())
+      this.value = this.updateTimeout > 0
+        ? await Promise.race([supplied, new Promise<T>((resolve, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Update of gauge '${this.name}' timed out after ${this.updateTimeout} ms`)),
+            this.updateTimeout)
+        })])
+        : await supplied
+      this.lastError = null
+    } catch (error) {
+      this.lastError = error
+    } finally {
+      if (timeout) {
+        clearTimeout(timeout)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Same as {@link BaseMetric#toJSON()}, also adding value property.
+   *
+   * @returns {*}
+   * @memberof AsyncGauge
+   */
+  public toJSON (): any {
+    const json = super.toJSON()
+    json.value = this.value
+    return json
+  }
+}
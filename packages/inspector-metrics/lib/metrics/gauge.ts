@@ -52,6 +52,7 @@ export class SimpleGauge extends BaseMetric implements Gauge<number> {
     super()
     this.name = name
     this.description = description
+    this.markUpdated()
   }
 
   /**
@@ -72,7 +73,12 @@ export class SimpleGauge extends BaseMetric implements Gauge<number> {
    * @memberof SimpleGauge
    */
   public setValue (value: number): this {
+    if (this.foldTarget) {
+      this.foldTarget.setValue(value)
+      return this
+    }
     this.value = value
+    this.markUpdated()
     return this
   }
 
@@ -6,6 +6,7 @@ import { Metric } from './model/metric'
 import { Sampling } from './model/sampling'
 import { SerializedSnapshot, Snapshot } from './model/snapshot'
 import { Summarizing } from './model/summarizing'
+import { Tags } from './model/taggable'
 
 /**
  * The 'native-hdr-histogram' module (optional).
@@ -204,7 +205,15 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
    * @type {*}
    * @memberof HdrHistogram
    */
-  private readonly histogram: any
+  private histogram: any
+  /**
+   * Second histogram instance used in interval mode - holds the values of the last completed interval.
+   *
+   * @private
+   * @type {*}
+   * @memberof HdrHistogram
+   */
+  private inactiveHistogram: any = null
   /**
    * Snapshot instance.
    *
@@ -228,9 +237,9 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
    * @memberof HdrHistogram
    */
   public constructor (
-    lowest: number = 1,
-    max: number = 100,
-    figures: number = 3,
+    private readonly lowest: number = 1,
+    private readonly max: number = 100,
+    private readonly figures: number = 3,
     name?: string,
     description?: string,
     buckets: Buckets = new Buckets()) {
@@ -246,34 +255,80 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
   }
 
   /**
-   * Returns the internal instance of {@link HdrSnapshot}.
+   * Returns the internal instance of {@link HdrSnapshot} - or the snapshot of the last completed interval in interval mode.
    *
    * @readonly
    * @type {SerializedSnapshot}
    * @memberof HdrHistogram
    */
   public get snapshot (): SerializedSnapshot {
-    return this.hdrSnapshot
+    return this.getSnapshot() as HdrSnapshot
   }
 
   /**
-   * Gets the snapshot instance.
+   * Gets the snapshot instance - or the snapshot of the last completed interval in interval mode.
    *
    * @returns {Snapshot}
    * @memberof HdrHistogram
    */
   public getSnapshot (): Snapshot {
+    if (this.intervalModeEnabled && this.intervalSnapshot) {
+      return this.intervalSnapshot
+    }
     return this.hdrSnapshot
   }
 
+  /**
+   * Enables or disables the interval mode (like the Recorder of other hdr-histogram implementations).
+   *
+   * @param {boolean} intervalMode
+   * @returns {this}
+   * @memberof HdrHistogram
+   */
+  public setIntervalMode (intervalMode: boolean): this {
+    if (intervalMode && !this.inactiveHistogram) {
+      this.inactiveHistogram = new NativeHistogram(this.lowest, this.max, this.figures)
+    }
+    this.intervalModeEnabled = intervalMode
+    this.intervalSnapshot = null
+    return this
+  }
+
+  /**
+   * Swaps the active histogram with a new (reset) one and keeps
+   * the previously active histogram as snapshot of the completed interval.
+   * Does nothing if the interval mode is not enabled.
+   *
+   * @returns {this}
+   * @memberof HdrHistogram
+   */
+  public swapInterval (): this {
+    if (this.intervalModeEnabled) {
+      const recorded = this.histogram
+      this.inactiveHistogram.reset()
+      this.histogram = this.inactiveHistogram
+      this.inactiveHistogram = recorded
+      this.intervalSnapshot = new HdrSnapshot({
+        getCount: () => recorded.totalCount,
+        histogram: recorded
+      })
+    }
+    return this
+  }
+
   /**
    * Updates the histogram, all counters and th overall sum with the given value.
    *
    * @param {number} value
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {this}
    * @memberof HdrHistogram
    */
-  public update (value: number): this {
+  public update (value: number, exemplar?: Tags): this {
+    if (this.foldTarget) {
+      this.foldTarget.update(value, exemplar)
+      return this
+    }
     this.count++
     this.sumInternal.add(value)
     for (const boundary of this.bucketsInternal.boundaries) {
@@ -281,7 +336,9 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
         this.bucketCounts.set(boundary, this.bucketCounts.get(boundary) + 1)
       }
     }
+    this.updateExemplar(value, exemplar)
     this.histogram.record(value)
+    this.markUpdated()
     return this
   }
 
@@ -299,6 +356,7 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
       json.counts[key] = value
     }
     json.buckets = this.bucketsInternal.boundaries
+    json.exemplars = this.exemplars
     json.count = this.count
     json.sum = this.sumInternal.toString()
     json.snapshot = {
@@ -306,4 +364,42 @@ export class HdrHistogram extends Histogram implements BucketCounting, Counting,
     }
     return json
   }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof HdrHistogram
+   */
+  public getStateType (): string {
+    return 'HdrHistogram'
+  }
+
+  /**
+   * Same as {@link #toJSON()}, also adding the encoded hdr histogram (base64) as encodedHistogram property.
+   *
+   * @returns {*}
+   * @memberof HdrHistogram
+   */
+  public exportState (): any {
+    const json = this.toJSON()
+    json.encodedHistogram = this.histogram.encode().toString('base64')
+    return json
+  }
+
+  /**
+   * Same as {@link Histogram#restoreState}, also restoring the values of the hdr histogram.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof HdrHistogram
+   */
+  public restoreState (state: any): this {
+    super.restoreState(state)
+    this.histogram.reset()
+    if (state.encodedHistogram) {
+      this.histogram.add(NativeHistogram.decode(Buffer.from(state.encodedHistogram, 'base64')))
+    }
+    return this
+  }
 }
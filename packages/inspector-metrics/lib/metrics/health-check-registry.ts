@@ -0,0 +1,599 @@
+import 'source-map-support/register'
+
+import { IncomingMessage, ServerResponse } from 'http'
+
+import { Clock, diff, StdClock } from './clock'
+import { Event } from './event'
+import { SimpleGauge } from './gauge'
+import { MetricRegistry } from './metric-registry'
+import { MILLISECOND, NANOSECOND, TimeUnit } from './model/time-unit'
+import { Logger } from './reporter/logger'
+import { IMetricReporter } from './reporter/metric-reporter'
+import { Scheduler } from './reporter/scheduled-reporter'
+import { Timer } from './timer'
+
+/**
+ * The outcome of a single health check.
+ *
+ * @export
+ * @interface HealthCheckStatus
+ */
+export interface HealthCheckStatus {
+  /**
+   * Indicates if the checked component is healthy.
+   *
+   * @type {boolean}
+   * @memberof HealthCheckStatus
+   */
+  healthy: boolean
+  /**
+   * Optional details, e.g. the reason for being unhealthy.
+   *
+   * @type {string}
+   * @memberof HealthCheckStatus
+   */
+  message?: string
+}
+
+/**
+ * A (sync or async) health check - returns a {@link HealthCheckStatus} or a boolean indicating
+ * if the checked component is healthy. Errors thrown (or rejected promises) are unhealthy results.
+ */
+export type HealthCheck = () => boolean | HealthCheckStatus | Promise<boolean | HealthCheckStatus>
+
+/**
+ * Options of a single health check.
+ *
+ * @export
+ * @interface HealthCheckOptions
+ */
+export interface HealthCheckOptions {
+  /**
+   * Time in milliseconds after which the check is considered unhealthy -
+   * defaults to the timeout of the {@link HealthCheckRegistry}.
+   *
+   * @type {number}
+   * @memberof HealthCheckOptions
+   */
+  timeout?: number
+}
+
+/**
+ * The result of a health check run.
+ *
+ * @export
+ * @interface HealthCheckResult
+ * @extends {HealthCheckStatus}
+ */
+export interface HealthCheckResult extends HealthCheckStatus {
+  /**
+   * The name of the health check.
+   *
+   * @type {string}
+   * @memberof HealthCheckResult
+   */
+  name: string
+  /**
+   * The duration of the check in milliseconds.
+   *
+   * @type {number}
+   * @memberof HealthCheckResult
+   */
+  duration: number
+  /**
+   * The time the check was completed.
+   *
+   * @type {Date}
+   * @memberof HealthCheckResult
+   */
+  timestamp: Date
+}
+
+/**
+ * JSON document with the latest results of all health checks.
+ *
+ * @export
+ * @interface HealthReport
+ */
+export interface HealthReport {
+  /**
+   * True if all checks are healthy - checks not run yet are unhealthy.
+   *
+   * @type {boolean}
+   * @memberof HealthReport
+   */
+  healthy: boolean
+  /**
+   * The latest result of each check by name - {@code null} if the check was not run yet.
+   *
+   * @type {{ [name: string]: HealthCheckResult }}
+   * @memberof HealthReport
+   */
+  checks: { [name: string]: HealthCheckResult }
+}
+
+/**
+ * Listener for state transitions of health checks (healthy to unhealthy and vice versa, as well as the
+ * first result of a check). The event has the name of the health check metric, the value 1 (healthy) or 0
+ * (unhealthy), the message as description and the name of the check as "check" tag.
+ */
+export type HealthCheckListener = (event: Event<number>, result: HealthCheckResult) => void
+
+/**
+ * Options for the {@link HealthCheckRegistry}.
+ *
+ * @export
+ * @interface HealthCheckRegistryOptions
+ */
+export interface HealthCheckRegistryOptions {
+  /**
+   * Clock used to measure the duration of the checks - defaults to {@link StdClock}.
+   *
+   * @type {Clock}
+   * @memberof HealthCheckRegistryOptions
+   */
+  clock?: Clock
+  /**
+   * Registry to publish the results of the checks to - a gauge (1 = healthy, 0 = unhealthy) and a timer
+   * (duration) per check, tagged with the name of the check. Results are not published if not set.
+   *
+   * @type {MetricRegistry}
+   * @memberof HealthCheckRegistryOptions
+   */
+  metricRegistry?: MetricRegistry
+  /**
+   * The name of the gauges - the timers are named "&lt;metricName&gt;_duration". Defaults to "health_check".
+   *
+   * @type {string}
+   * @memberof HealthCheckRegistryOptions
+   */
+  metricName?: string
+  /**
+   * Default timeout of all checks in milliseconds - defaults to 10 seconds.
+   *
+   * @type {number}
+   * @memberof HealthCheckRegistryOptions
+   */
+  timeout?: number
+  /**
+   * Scheduler function used to run the checks periodically - defaults to {@code setInterval}.
+   *
+   * @type {Scheduler}
+   * @memberof HealthCheckRegistryOptions
+   */
+  scheduler?: Scheduler
+  /**
+   * Logs errors thrown by listeners and errors of periodic runs - the errors are ignored if not set.
+   *
+   * @type {Logger}
+   * @memberof HealthCheckRegistryOptions
+   */
+  log?: Logger
+}
+
+/**
+ * A registered health check with its latest result and metrics.
+ *
+ * @interface HealthCheckEntry
+ */
+interface HealthCheckEntry {
+  check: HealthCheck
+  timeout: number
+  result: HealthCheckResult
+  gauge: SimpleGauge
+  timer: Timer
+}
+
+/**
+ * Registry of named health checks - runs the checks on demand or periodically and publishes
+ * the results as gauges in a {@link MetricRegistry}, as JSON document and as events on state transitions.
+ *
+ * @export
+ * @class HealthCheckRegistry
+ */
+export class HealthCheckRegistry {
+  /**
+   * The default name of the health check gauges.
+   *
+   * @static
+   * @memberof HealthCheckRegistry
+   */
+  public static readonly DEFAULT_METRIC_NAME = 'health_check'
+  /**
+   * The default timeout of all checks in milliseconds.
+   *
+   * @static
+   * @memberof HealthCheckRegistry
+   */
+  public static readonly DEFAULT_TIMEOUT = 10000
+
+  /**
+   * The registered checks by name.
+   *
+   * @private
+   * @type {Map<string, HealthCheckEntry>}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly checks: Map<string, HealthCheckEntry> = new Map()
+  /**
+   * The listeners for state transitions.
+   *
+   * @private
+   * @type {HealthCheckListener[]}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly listeners: HealthCheckListener[] = []
+  /**
+   * The clock used to measure the duration of the checks.
+   *
+   * @private
+   * @type {Clock}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly clock: Clock
+  /**
+   * The registry the results are published to.
+   *
+   * @private
+   * @type {MetricRegistry}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly metricRegistry: MetricRegistry
+  /**
+   * The name of the health check gauges.
+   *
+   * @private
+   * @type {string}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly metricName: string
+  /**
+   * The default timeout in milliseconds.
+   *
+   * @private
+   * @type {number}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly timeout: number
+  /**
+   * The scheduler function.
+   *
+   * @private
+   * @type {Scheduler}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly scheduler: Scheduler
+  /**
+   * The timer of the periodic runs - {@code null} if not started.
+   *
+   * @private
+   * @type {NodeJS.Timer}
+   * @memberof HealthCheckRegistry
+   */
+  private scheduledRun: NodeJS.Timer = null
+  /**
+   * The logger for errors of listeners and periodic runs.
+   *
+   * @private
+   * @type {Logger}
+   * @memberof HealthCheckRegistry
+   */
+  private readonly log: Logger
+
+  /**
+   * Creates an instance of HealthCheckRegistry.
+   *
+   * @param {HealthCheckRegistryOptions} [options={}]
+   * @memberof HealthCheckRegistry
+   */
+  public constructor ({
+    clock = new StdClock(),
+    metricRegistry = null,
+    metricName = HealthCheckRegistry.DEFAULT_METRIC_NAME,
+    timeout = HealthCheckRegistry.DEFAULT_TIMEOUT,
+    scheduler = setInterval,
+    log = null
+  }: HealthCheckRegistryOptions = {}) {
+    this.clock = clock
+    this.metricRegistry = metricRegistry
+    this.metricName = metricName
+    this.timeout = timeout
+    this.scheduler = scheduler
+    this.log = log
+  }
+
+  /**
+   * Registers a health check - throws an error if a check with the same name is already registered.
+   *
+   * @param {string} name
+   * @param {HealthCheck} check
+   * @param {HealthCheckOptions} [options={}]
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public register (name: string, check: HealthCheck, options: HealthCheckOptions = {}): this {
+    if (this.checks.has(name)) {
+      throw new Error(`A health check named '${name}' is already registered`)
+    }
+    const tags = { check: name }
+    this.checks.set(name, {
+      check,
+      gauge: this.metricRegistry ? this.metricRegistry.getOrCreateGauge(this.metricName, tags) : null,
+      result: null,
+      timeout: options.timeout || this.timeout,
+      timer: this.metricRegistry
+        ? this.metricRegistry.getOrCreateTimer(`${this.metricName}_duration`, tags, null, this.clock)
+        : null
+    })
+    return this
+  }
+
+  /**
+   * Removes the health check with the specified name and its metrics.
+   *
+   * @param {string} name
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public unregister (name: string): this {
+    const entry = this.checks.get(name)
+    if (entry) {
+      this.checks.delete(name)
+      if (this.metricRegistry) {
+        this.metricRegistry.unregisterMetric(entry.gauge)
+        this.metricRegistry.unregisterMetric(entry.timer)
+      }
+    }
+    return this
+  }
+
+  /**
+   * Gets the names of all registered health checks.
+   *
+   * @returns {string[]}
+   * @memberof HealthCheckRegistry
+   */
+  public getNames (): string[] {
+    return Array.from(this.checks.keys())
+  }
+
+  /**
+   * Adds a listener for state transitions of the health checks.
+   *
+   * @param {HealthCheckListener} listener
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public addListener (listener: HealthCheckListener): this {
+    this.listeners.push(listener)
+    return this
+  }
+
+  /**
+   * Removes the specified listener.
+   *
+   * @param {HealthCheckListener} listener
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public removeListener (listener: HealthCheckListener): this {
+    const index = this.listeners.indexOf(listener)
+    if (index !== -1) {
+      this.listeners.splice(index, 1)
+    }
+    return this
+  }
+
+  /**
+   * Reports each state transition as event with the specified metric reporter.
+   *
+   * @param {IMetricReporter} reporter
+   * @returns {HealthCheckListener} the listener added - to be passed to {@link #removeListener}
+   * @memberof HealthCheckRegistry
+   */
+  public reportEventsTo (reporter: IMetricReporter): HealthCheckListener {
+    const listener: HealthCheckListener = (event) => {
+      reporter.reportEvent(event).catch(() => {})
+    }
+    this.addListener(listener)
+    return listener
+  }
+
+  /**
+   * Runs the health check with the specified name - throws an error if there is no such check.
+   *
+   * @param {string} name
+   * @returns {Promise<HealthCheckResult>}
+   * @memberof HealthCheckRegistry
+   */
+  public async runHealthCheck (name: string): Promise<HealthCheckResult> {
+    const entry = this.checks.get(name)
+    if (!entry) {
+      throw new Error(`No health check named '${name}' registered`)
+    }
+    const startTime = this.clock.time()
+    const status = await this.execute(entry.check, entry.timeout)
+    const endTime = this.clock.time()
+    const duration = diff(startTime, endTime)
+    const result: HealthCheckResult = {
+      duration: NANOSECOND.convertTo(duration, MILLISECOND),
+      healthy: status.healthy,
+      message: status.message || null,
+      name,
+      timestamp: new Date(endTime.milliseconds)
+    }
+
+    const previous = entry.result
+    entry.result = result
+    if (entry.gauge) {
+      entry.gauge.setValue(result.healthy ? 1 : 0)
+      entry.timer.addDuration(duration, NANOSECOND)
+    }
+    if (!previous || previous.healthy !== result.healthy) {
+      this.fireStateChanged(result)
+    }
+    return result
+  }
+
+  /**
+   * Runs all health checks concurrently.
+   *
+   * @returns {Promise<HealthReport>} the report with the results of all checks
+   * @memberof HealthCheckRegistry
+   */
+  public async runHealthChecks (): Promise<HealthReport> {
+    await Promise.all(this.getNames().map(async (name) => this.runHealthCheck(name)))
+    return this.getReport()
+  }
+
+  /**
+   * Gets the report of the latest results of all health checks - without running the checks.
+   *
+   * @returns {HealthReport}
+   * @memberof HealthCheckRegistry
+   */
+  public getReport (): HealthReport {
+    const checks: { [name: string]: HealthCheckResult } = {}
+    let healthy = true
+    this.checks.forEach((entry, name) => {
+      checks[name] = entry.result
+      healthy = healthy && !!entry.result && entry.result.healthy
+    })
+    return { checks, healthy }
+  }
+
+  /**
+   * Same as {@link #getReport}.
+   *
+   * @returns {*}
+   * @memberof HealthCheckRegistry
+   */
+  public toJSON (): any {
+    return this.getReport()
+  }
+
+  /**
+   * Runs all health checks periodically.
+   *
+   * @param {number} interval
+   * @param {TimeUnit} [unit=MILLISECOND]
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public start (interval: number, unit: TimeUnit = MILLISECOND): this {
+    this.stop()
+    this.scheduledRun = this.scheduler(
+      async () => await this.runHealthChecks().catch((error) => this.logError('error running the health checks', error)),
+      unit.convertTo(interval, MILLISECOND))
+    return this
+  }
+
+  /**
+   * Stops running the health checks periodically.
+   *
+   * @returns {this}
+   * @memberof HealthCheckRegistry
+   */
+  public stop (): this {
+    if (this.scheduledRun) {
+      clearInterval(this.scheduledRun)
+      this.scheduledRun = null
+    }
+    return this
+  }
+
+  /**
+   * Creates a request handler for the node http module (or express, ...) which runs all health checks
+   * and responds with the {@link HealthReport} as JSON - with status code 200 if all checks are healthy,
+   * 503 otherwise and 500 if the checks could not be run.
+   *
+   * @returns {(request: IncomingMessage, response: ServerResponse) => Promise<void>}
+   * @memberof HealthCheckRegistry
+   */
+  public createHttpHandler (): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+    return async (request: IncomingMessage, response: ServerResponse) => {
+      let report: HealthReport
+      try {
+        report = await this.runHealthChecks()
+      } catch (error) {
+        this.logError('error running the health checks', error)
+        response.writeHead(500, { 'Content-Type': 'application/json' })
+        response.end(JSON.stringify({ healthy: false, message: error && error.message ? error.message : String(error) }))
+        return
+      }
+      response.writeHead(report.healthy ? 200 : 503, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify(report))
+    }
+  }
+
+  /**
+   * Executes the check - errors, timeouts and results other than a boolean or
+   * a {@link HealthCheckStatus} (e.g. {@code undefined}) result in an unhealthy status.
+   *
+   * @private
+   * @param {HealthCheck} check
+   * @param {number} timeout
+   * @returns {Promise<HealthCheckStatus>}
+   * @memberof HealthCheckRegistry
+   */
+  private async execute (check: HealthCheck, timeout: number): Promise<HealthCheckStatus> {
+    let timeoutHandle: NodeJS.Timer
+    const timeoutPromise = new Promise<HealthCheckStatus>((resolve) => {
+      timeoutHandle = setTimeout(
+        () => resolve({ healthy: false, message: `Health check timed out after ${timeout} ms` }),
+        timeout)
+    })
+    try {
+      const status = await Promise.race([Promise.resolve().then(check), timeoutPromise])
+      if (typeof status === 'boolean') {
+        return { healthy: status }
+      }
+      if (!status || typeof status.healthy !== 'boolean') {
+        return { healthy: false, message: `Health check returned no status: ${String(status)}` }
+      }
+      return status
+    } catch (error) {
+      return { healthy: false, message: error && error.message ? error.message : String(error) }
+    } finally {
+      clearTimeout(timeoutHandle)
+    }
+  }
+
+  /**
+   * Notifies all listeners about the state transition of a check - errors thrown by a listener are logged
+   * and do not affect the other listeners.
+   *
+   * @private
+   * @param {HealthCheckResult} result
+   * @memberof HealthCheckRegistry
+   */
+  private fireStateChanged (result: HealthCheckResult): void {
+    if (this.listeners.length === 0) {
+      return
+    }
+    const event = new Event<number>(this.metricName, result.message, null, result.timestamp)
+      .setValue(result.healthy ? 1 : 0)
+      .setTag('check', result.name)
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event, result)
+      } catch (error) {
+        this.logError(`error notifying a listener about the state of health check '${result.name}'`, error)
+      }
+    })
+  }
+
+  /**
+   * Logs the specified error using the logger of this registry (if any).
+   *
+   * @private
+   * @param {string} message
+   * @param {*} error
+   * @memberof HealthCheckRegistry
+   */
+  private logError (message: string, error: any): void {
+    if (this.log) {
+      this.log.error(`${message} - reason: ${error && error.message}`, error)
+    }
+  }
+}
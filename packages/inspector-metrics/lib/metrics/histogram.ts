@@ -1,12 +1,23 @@
 import 'source-map-support/register'
 
-import { BucketCounting, Buckets, BucketToCountMap, Counting, SerializableBucketCounting } from './model/counting'
+import {
+  BucketCounting,
+  Buckets,
+  BucketToCountMap,
+  BucketToExemplarMap,
+  Counting,
+  Exemplar,
+  SerializableBucketCounting
+} from './model/counting'
 import { Int64Wrapper } from './model/int64'
+import { IntervalRecording, SerializableIntervalRecording } from './model/interval-recording'
 import { BaseMetric, Metric } from './model/metric'
 import { Reservoir } from './model/reservoir'
+import { Restorable } from './model/restorable'
 import { Sampling, SerializableSampling } from './model/sampling'
 import { SerializedSnapshot, Snapshot } from './model/snapshot'
 import { SerializableSummarizing, Summarizing } from './model/summarizing'
+import { Tags } from './model/taggable'
 
 /**
  * Represents the distribution of values - e.g. number of logged-in users, search result count.
@@ -17,11 +28,13 @@ import { SerializableSummarizing, Summarizing } from './model/summarizing'
  * @implements {Counting}
  * @implements {Metric}
  * @implements {Sampling}
+ * @implements {IntervalRecording}
+ * @implements {Restorable}
  */
 export class Histogram extends BaseMetric implements
-    BucketCounting, Counting, Metric, Sampling, Summarizing,
+    BucketCounting, Counting, IntervalRecording, Metric, Restorable, Sampling, Summarizing,
     SerializableSummarizing, SerializableBucketCounting,
-    SerializableSampling {
+    SerializableIntervalRecording, SerializableSampling {
   /**
    * The value reservoir used to do sampling.
    *
@@ -54,6 +67,14 @@ export class Histogram extends BaseMetric implements
    * @memberof Histogram
    */
   protected readonly bucketCounts: Map<number, number> = new Map()
+  /**
+   * Contains the most recent exemplar per bucket - values above all boundaries are mapped to {@link Infinity}.
+   *
+   * @protected
+   * @type {Map<number, Exemplar>}
+   * @memberof Histogram
+   */
+  protected readonly bucketExemplars: Map<number, Exemplar> = new Map()
   /**
    * The bucket config used to count.
    *
@@ -62,6 +83,22 @@ export class Histogram extends BaseMetric implements
    * @memberof Histogram
    */
   protected readonly bucketsInternal: Buckets
+  /**
+   * Indicates if the snapshot only contains the values of the last completed interval.
+   *
+   * @protected
+   * @type {boolean}
+   * @memberof Histogram
+   */
+  protected intervalModeEnabled: boolean = false
+  /**
+   * The snapshot of the last completed interval - only used in interval mode.
+   *
+   * @protected
+   * @type {Snapshot}
+   * @memberof Histogram
+   */
+  protected intervalSnapshot: Snapshot = null
 
   /**
    * Creates an instance of Histogram.
@@ -80,6 +117,7 @@ export class Histogram extends BaseMetric implements
     for (const boundary of this.bucketsInternal.boundaries) {
       this.bucketCounts.set(boundary, 0)
     }
+    this.markUpdated()
   }
 
   /**
@@ -106,6 +144,20 @@ export class Histogram extends BaseMetric implements
     return counts
   }
 
+  /**
+   * Gets the most recent exemplars per bucket in serialized form.
+   *
+   * @returns {BucketToExemplarMap}
+   * @memberof Histogram
+   */
+  public get exemplars (): BucketToExemplarMap {
+    const exemplars: BucketToExemplarMap = {}
+    for (const [bucket, exemplar] of this.bucketExemplars) {
+      exemplars[bucket] = exemplar
+    }
+    return exemplars
+  }
+
   /**
    * Getter for sum property extracting the string representation from internal sum property (64bit number).
    *
@@ -118,7 +170,7 @@ export class Histogram extends BaseMetric implements
   }
 
   /**
-   * Gets the {@link SerializedSnapshot} from the reservoir.
+   * Gets the {@link SerializedSnapshot} from the reservoir - or of the last completed interval in interval mode.
    *
    * @readonly
    * @type {SerializedSnapshot}
@@ -126,10 +178,21 @@ export class Histogram extends BaseMetric implements
    */
   public get snapshot (): SerializedSnapshot {
     return {
-      values: this.reservoir.snapshot().getValues()
+      values: this.getSnapshot().getValues()
     }
   }
 
+  /**
+   * Indicates if the interval mode is enabled.
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof Histogram
+   */
+  public get intervalMode (): boolean {
+    return this.intervalModeEnabled
+  }
+
   /**
    * Increases the total count, updates the reservoir,
    * updates the bucket counts and adds the specified value
@@ -145,11 +208,19 @@ export class Histogram extends BaseMetric implements
    *
    * the value 31 is increasing none of the buckets
    *
+   * If exemplar labels (e.g. a trace id) are specified the observation is kept as the
+   * most recent exemplar of the smallest bucket containing the value.
+   *
    * @param {number} value
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {this}
    * @memberof Histogram
    */
-  public update (value: number): this {
+  public update (value: number, exemplar?: Tags): this {
+    if (this.foldTarget) {
+      this.foldTarget.update(value, exemplar)
+      return this
+    }
     this.count++
     this.sumInternal.add(value)
     for (const boundary of this.bucketsInternal.boundaries) {
@@ -157,20 +228,70 @@ export class Histogram extends BaseMetric implements
         this.bucketCounts.set(boundary, this.bucketCounts.get(boundary) + 1)
       }
     }
+    this.updateExemplar(value, exemplar)
     this.reservoir.update(value)
+    this.markUpdated()
     return this
   }
 
   /**
-   * Gets the snapshot of the reservoir.
+   * Gets the snapshot of the reservoir - in interval mode the snapshot of the
+   * last completed interval (or of the current interval if no interval was completed yet).
    *
    * @returns {Snapshot}
    * @memberof Histogram
    */
   public getSnapshot (): Snapshot {
+    if (this.intervalModeEnabled && this.intervalSnapshot) {
+      return this.intervalSnapshot
+    }
     return this.reservoir.snapshot()
   }
 
+  /**
+   * Determines if the interval mode is enabled.
+   *
+   * @returns {boolean}
+   * @memberof Histogram
+   */
+  public isIntervalMode (): boolean {
+    return this.intervalModeEnabled
+  }
+
+  /**
+   * Enables or disables the interval mode - requires a reservoir which can be reset.
+   *
+   * In interval mode the snapshot only contains the values recorded between the last two calls to
+   * {@link Histogram#swapInterval}. Count, sum and bucket counts are not affected by the interval mode.
+   *
+   * @param {boolean} intervalMode
+   * @returns {this}
+   * @memberof Histogram
+   */
+  public setIntervalMode (intervalMode: boolean): this {
+    if (intervalMode && (!this.reservoir || typeof this.reservoir.reset !== 'function')) {
+      throw new Error(`The reservoir of histogram '${this.getName()}' does not support the interval mode`)
+    }
+    this.intervalModeEnabled = intervalMode
+    this.intervalSnapshot = null
+    return this
+  }
+
+  /**
+   * Takes the snapshot of the current interval and resets the reservoir to start a new interval.
+   * Does nothing if the interval mode is not enabled.
+   *
+   * @returns {this}
+   * @memberof Histogram
+   */
+  public swapInterval (): this {
+    if (this.intervalModeEnabled) {
+      this.intervalSnapshot = this.reservoir.snapshot()
+      this.reservoir.reset()
+    }
+    return this
+  }
+
   /**
    * Gets the count of update operations executed.
    *
@@ -211,9 +332,19 @@ export class Histogram extends BaseMetric implements
     return this.bucketCounts
   }
 
+  /**
+   * Gets the most recent exemplars per bucket.
+   *
+   * @returns {Map<number, Exemplar>}
+   * @memberof Histogram
+   */
+  public getExemplars (): Map<number, Exemplar> {
+    return this.bucketExemplars
+  }
+
   /**
    * Same as {@link BaseMetric#toJSON()}, also adding
-   * bucketCounts, buckets, count and sum (64bit number stringified) property.
+   * bucketCounts, buckets, exemplars, count, intervalMode and sum (64bit number stringified) property.
    *
    * @returns {*}
    * @memberof Histogram
@@ -225,9 +356,93 @@ export class Histogram extends BaseMetric implements
       json.counts[key] = value
     }
     json.buckets = this.bucketsInternal.boundaries
+    json.exemplars = this.exemplars
     json.count = this.count
     json.sum = this.sumInternal.toString()
+    json.intervalMode = this.intervalModeEnabled
     json.snapshot = this.snapshot
     return json
   }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof Histogram
+   */
+  public getStateType (): string {
+    return 'Histogram'
+  }
+
+  /**
+   * Same as {@link #toJSON()}.
+   *
+   * @returns {*}
+   * @memberof Histogram
+   */
+  public exportState (): any {
+    return this.toJSON()
+  }
+
+  /**
+   * Restores the count, the sum, the counts and exemplars of all buckets known to this histogram -
+   * the values of the reservoir are not restored.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof Histogram
+   */
+  public restoreState (state: any): this {
+    this.count = state.count || 0
+    this.sumInternal = new Int64Wrapper(state.sum || '0')
+    const counts: BucketToCountMap = state.counts || {}
+    for (const boundary of this.bucketsInternal.boundaries) {
+      this.bucketCounts.set(boundary, counts[boundary] || 0)
+    }
+    this.bucketExemplars.clear()
+    const exemplars: BucketToExemplarMap = state.exemplars || {}
+    for (const bucket of Object.keys(exemplars)) {
+      this.bucketExemplars.set(parseFloat(bucket), exemplars[bucket as any])
+    }
+    this.markUpdated()
+    return this
+  }
+
+  /**
+   * Adds the values of the current snapshot to the specified histogram - see {@link BaseMetric#foldInto}.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof Histogram
+   */
+  protected foldValuesInto (target: this): void {
+    this.getSnapshot().getValues().forEach((value) => target.update(value))
+  }
+
+  /**
+   * Keeps the value as most recent exemplar of the smallest bucket containing it,
+   * does nothing if no exemplar labels are specified.
+   *
+   * @protected
+   * @param {number} value
+   * @param {Tags} [exemplar]
+   * @memberof Histogram
+   */
+  protected updateExemplar (value: number, exemplar?: Tags): void {
+    if (!exemplar) {
+      return
+    }
+    let bucket = Infinity
+    for (const boundary of this.bucketsInternal.boundaries) {
+      if (value < boundary) {
+        bucket = boundary
+        break
+      }
+    }
+    this.bucketExemplars.set(bucket, {
+      labels: { ...exemplar },
+      timestamp: this.getUpdateTime(),
+      value
+    })
+  }
 }
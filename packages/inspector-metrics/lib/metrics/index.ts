@@ -1,22 +1,31 @@
+export * from './cardinality-limiter'
 export * from './clock'
 export * from './counter'
+export * from './decorators'
 export * from './event'
+export * from './function-gauge'
 export * from './gauge'
 export * from './hdr-histogram'
+export * from './health-check-registry'
 export * from './histogram'
 export * from './meter'
+export * from './metric-family'
 export * from './metric-registry'
 export * from './metric-registry-listener'
 export * from './metric-set'
 export * from './model/counting'
+export * from './model/expirable'
 export * from './model/groupable'
 export * from './model/int64'
+export * from './model/interval-recording'
 export * from './model/metadata-container'
 export * from './model/metered'
 export * from './model/metric'
 export * from './model/moving-average'
 export * from './model/reservoir'
+export * from './model/restorable'
 export * from './model/sampling'
+export * from './model/sketch'
 export * from './model/snapshot'
 export * from './model/summarizing'
 export * from './model/taggable'
@@ -25,13 +34,23 @@ export * from './reporter/interprocess-message'
 export * from './reporter/logger'
 export * from './reporter/logger-reporter'
 export * from './reporter/metric-entry'
+export * from './reporter/metric-filter'
 export * from './reporter/metric-reporter'
 export * from './reporter/metric-reporter-options'
 export * from './reporter/metric-set-report-context'
 export * from './reporter/metric-type'
 export * from './reporter/overall-report-context'
+export * from './reporter/relabel-rule'
 export * from './reporter/report-message-receiver'
+export * from './reporter/reporter-metrics'
 export * from './reporter/reporting-result'
+export * from './reporter/retry-policy'
 export * from './reporter/scheduled-reporter'
+export * from './reporter/shutdown-manager'
+export * from './reporter/spool'
+export * from './reporter/threshold-rule'
+export * from './reporter/unsent-result-queue'
+export * from './shared-metric-registries'
 export * from './size-gauge'
+export * from './sketch-histogram'
 export * from './timer'
@@ -4,6 +4,7 @@ import { Clock, diff, Time } from './clock'
 import { Metered, MeteredRates, SerializableMetered } from './model/metered'
 import { BaseMetric } from './model/metric'
 import { ExponentiallyWeightedMovingAverage, MovingAverage } from './model/moving-average'
+import { Restorable } from './model/restorable'
 import { NANOSECOND, SECOND } from './model/time-unit'
 
 /**
@@ -13,8 +14,9 @@ import { NANOSECOND, SECOND } from './model/time-unit'
  * @class Meter
  * @extends {BaseMetric}
  * @implements {Metered}
+ * @implements {Restorable}
  */
-export class Meter extends BaseMetric implements Metered, SerializableMetered {
+export class Meter extends BaseMetric implements Metered, Restorable, SerializableMetered {
   /**
    * Alpha value for 1 min within a {@link ExponentiallyWeightedMovingAverage}.
    *
@@ -135,10 +137,12 @@ export class Meter extends BaseMetric implements Metered, SerializableMetered {
     this.name = name
     this.description = description
     this.clock = clock
+    this.updateClock = clock
     this.startTime = clock.time()
     this.lastTime = this.startTime
     this.sampleRate = sampleRate
     this.interval = Meter.SECOND_1_NANOS / this.sampleRate
+    this.markUpdated()
   }
 
   /**
@@ -186,11 +190,16 @@ export class Meter extends BaseMetric implements Metered, SerializableMetered {
    * @memberof Meter
    */
   public mark (value: number): this {
+    if (this.foldTarget) {
+      this.foldTarget.mark(value)
+      return this
+    }
     this.tickIfNeeded()
     this.countInternal += value
     this.avg15Minute.update(value)
     this.avg5Minute.update(value)
     this.avg1Minute.update(value)
+    this.markUpdated()
     return this
   }
 
@@ -266,6 +275,39 @@ export class Meter extends BaseMetric implements Metered, SerializableMetered {
     return json
   }
 
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof Meter
+   */
+  public getStateType (): string {
+    return 'Meter'
+  }
+
+  /**
+   * Same as {@link #toJSON()}.
+   *
+   * @returns {*}
+   * @memberof Meter
+   */
+  public exportState (): any {
+    return this.toJSON()
+  }
+
+  /**
+   * Restores the count - the rates are not restored, they build up again with new events.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof Meter
+   */
+  public restoreState (state: any): this {
+    this.countInternal = state.count || 0
+    this.markUpdated()
+    return this
+  }
+
   /**
    * Calls the {@link MovingAverage#tick} for each tick.
    *
@@ -281,6 +323,17 @@ export class Meter extends BaseMetric implements Metered, SerializableMetered {
     }
   }
 
+  /**
+   * Adds the current count to the specified meter - see {@link BaseMetric#foldInto}.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof Meter
+   */
+  protected foldValuesInto (target: this): void {
+    target.mark(this.countInternal)
+  }
+
   /**
    * Checks for if an update of the averages is needed and if so updates the {@link Meter#lastTime}.
    *
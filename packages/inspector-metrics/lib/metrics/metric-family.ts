@@ -0,0 +1,229 @@
+import 'source-map-support/register'
+
+import { Metric } from './model/metric'
+import { Tags } from './model/taggable'
+
+/**
+ * Creates a new (unregistered) child metric of a {@link MetricFamily}.
+ */
+export type MetricFamilyFactory<M extends Metric> = () => M
+
+/**
+ * Looks up all child metrics of a {@link MetricFamily} registered with the specified name.
+ */
+export type MetricFamilyLookup<M extends Metric> = (name: string) => M[]
+
+/**
+ * Registers a child metric of a {@link MetricFamily} - returns the registered metric,
+ * which is an already registered metric if the tags of the new child got folded into an existing series.
+ */
+export type MetricFamilyRegistrar<M extends Metric> = (metric: M) => M
+
+/**
+ * Removes a child metric of a {@link MetricFamily}.
+ */
+export type MetricFamilyRemover<M extends Metric> = (metric: M) => void
+
+/**
+ * A collection of metrics sharing the same name, group and description, which
+ * only differ in the values of a fixed set of labels (tags) - a.k.a. metric "vector".
+ *
+ * Each unique combination of label values results in exactly one child metric,
+ * which is registered as ordinary tagged metric, so every metric reporter
+ * treats it like any other metric.
+ *
+ * @export
+ * @class MetricFamily
+ * @template M type of the child metrics
+ */
+export class MetricFamily<M extends Metric> {
+  /**
+   * Creates an instance of MetricFamily.
+   *
+   * @param {string} name the name of all child metrics
+   * @param {string[]} labelNames the names of the labels (tags) distinguishing the child metrics
+   * @param {Tags} constantTags tags all child metrics carry in addition to the labels (e.g. the tags of a scope)
+   * @param {MetricFamilyFactory<M>} factory creates new child metrics
+   * @param {MetricFamilyLookup<M>} lookup finds already registered child metrics by name
+   * @param {MetricFamilyRegistrar<M>} registrar registers new child metrics
+   * @param {MetricFamilyRemover<M>} remover removes child metrics
+   * @memberof MetricFamily
+   */
+  public constructor (
+    private readonly name: string,
+    private readonly labelNames: string[],
+    private readonly constantTags: Tags,
+    private readonly factory: MetricFamilyFactory<M>,
+    private readonly lookup: MetricFamilyLookup<M>,
+    private readonly registrar: MetricFamilyRegistrar<M>,
+    private readonly remover: MetricFamilyRemover<M>) {
+    if (new Set(labelNames).size !== labelNames.length) {
+      throw new Error(`Metric family '${name}' contains duplicate label names: ${labelNames.join(', ')}`)
+    }
+  }
+
+  /**
+   * Gets the name of the child metrics.
+   *
+   * @returns {string}
+   * @memberof MetricFamily
+   */
+  public getName (): string {
+    return this.name
+  }
+
+  /**
+   * Gets the names of the labels.
+   *
+   * @returns {string[]}
+   * @memberof MetricFamily
+   */
+  public getLabelNames (): string[] {
+    return this.labelNames.slice()
+  }
+
+  /**
+   * Gets the child metric for the specified label values - the values are expected
+   * in the same order as the label names. Creates and registers a new child metric
+   * if no child exists for the label values.
+   *
+   * @param {...string[]} labelValues
+   * @returns {M}
+   * @memberof MetricFamily
+   */
+  public labels (...labelValues: string[]): M {
+    return this.with(this.toTags(labelValues))
+  }
+
+  /**
+   * Gets the child metric for the specified label-name to label-value mapping.
+   * Creates and registers a new child metric if no child exists for the labels.
+   *
+   * @param {Tags} labels
+   * @returns {M}
+   * @memberof MetricFamily
+   */
+  public with (labels: Tags): M {
+    this.checkLabels(labels)
+    const existing = this.find(labels)
+    if (existing) {
+      return existing
+    }
+    const metric = this.factory()
+    for (const labelName of this.labelNames) {
+      metric.setTag(labelName, labels[labelName])
+    }
+    return this.registrar(metric)
+  }
+
+  /**
+   * Gets all child metrics created so far.
+   *
+   * @returns {M[]}
+   * @memberof MetricFamily
+   */
+  public getChildren (): M[] {
+    return this.lookup(this.name).filter((metric) => this.isChild(metric))
+  }
+
+  /**
+   * Removes the child metric for the specified label values (if present).
+   *
+   * @param {...string[]} labelValues
+   * @returns {this}
+   * @memberof MetricFamily
+   */
+  public remove (...labelValues: string[]): this {
+    const labels = this.toTags(labelValues)
+    this.checkLabels(labels)
+    const existing = this.find(labels)
+    if (existing) {
+      this.remover(existing)
+    }
+    return this
+  }
+
+  /**
+   * Removes all child metrics.
+   *
+   * @returns {this}
+   * @memberof MetricFamily
+   */
+  public clear (): this {
+    this.getChildren().forEach((metric) => this.remover(metric))
+    return this
+  }
+
+  /**
+   * Finds the registered child metric with exactly the specified labels.
+   *
+   * @private
+   * @param {Tags} labels
+   * @returns {M}
+   * @memberof MetricFamily
+   */
+  private find (labels: Tags): M {
+    return this.getChildren()
+      .find((metric) => this.labelNames.every((labelName) => metric.getTag(labelName) === labels[labelName])) ||
+      null
+  }
+
+  /**
+   * Checks if the specified metric carries all labels of this family.
+   *
+   * @private
+   * @param {M} metric
+   * @returns {boolean}
+   * @memberof MetricFamily
+   */
+  private isChild (metric: M): boolean {
+    const tags = metric.getTags()
+    const constantTagNames = Object.keys(this.constantTags)
+      .filter((tag) => this.labelNames.indexOf(tag) === -1)
+    return tags.size === this.labelNames.length + constantTagNames.length &&
+      constantTagNames.every((tag) => tags.get(tag) === this.constantTags[tag]) &&
+      this.labelNames.every((labelName) => tags.has(labelName))
+  }
+
+  /**
+   * Maps the specified label values to the label names.
+   *
+   * @private
+   * @param {string[]} labelValues
+   * @returns {Tags}
+   * @memberof MetricFamily
+   */
+  private toTags (labelValues: string[]): Tags {
+    if (labelValues.length !== this.labelNames.length) {
+      throw new Error(`Metric family '${this.name}' expects ${this.labelNames.length} label values ` +
+        `(${this.labelNames.join(', ')}), got ${labelValues.length}`)
+    }
+    const tags: Tags = {}
+    this.labelNames.forEach((labelName, index) => {
+      tags[labelName] = labelValues[index]
+    })
+    return tags
+  }
+
+  /**
+   * Verifies that exactly the labels of this family are specified.
+   *
+   * @private
+   * @param {Tags} labels
+   * @memberof MetricFamily
+   */
+  private checkLabels (labels: Tags): void {
+    const names = Object.keys(labels)
+    const unknown = names.filter((name) => this.labelNames.indexOf(name) < 0)
+    const missing = this.labelNames.filter((name) => names.indexOf(name) < 0)
+    if (unknown.length > 0 || missing.length > 0) {
+      throw new Error(`Metric family '${this.name}' expects the labels (${this.labelNames.join(', ')}), ` +
+        `got (${names.join(', ')})`)
+    }
+    for (const name of names) {
+      if (typeof labels[name] !== 'string') {
+        throw new Error(`Metric family '${this.name}' expects a string value for label '${name}'`)
+      }
+    }
+  }
+}
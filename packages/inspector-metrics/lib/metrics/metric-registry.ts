@@ -1,20 +1,36 @@
 import 'source-map-support/register'
 
+import { CardinalityLimiter } from './cardinality-limiter'
 import { Clock, StdClock } from './clock'
 import { Counter, MonotoneCounter } from './counter'
-import { Gauge } from './gauge'
+import { AsyncGauge, AsyncGaugeSupplier, FunctionGauge, GaugeSupplier } from './function-gauge'
+import { Gauge, SimpleGauge } from './gauge'
 import { HdrHistogram } from './hdr-histogram'
 import { Histogram } from './histogram'
 import { Meter } from './meter'
+import { MetricFamily } from './metric-family'
 import { MetricRegistryListener } from './metric-registry-listener'
 import { MetricSet } from './metric-set'
 import { Buckets } from './model/counting'
-import { BaseMetric, Metric } from './model/metric'
+import { isExpirable } from './model/expirable'
+import { BaseMetric, Metric, TagGuard } from './model/metric'
 import { Reservoir, SlidingWindowReservoir } from './model/reservoir'
+import { isRestorable, MetricRegistryState, MetricState, Restorable } from './model/restorable'
+import { DDSketch } from './model/sketch'
+import { mapToTags, Tags } from './model/taggable'
+import { MILLISECOND, MINUTE, TimeUnit } from './model/time-unit'
+import { Logger } from './reporter/logger'
+import { SketchHistogram } from './sketch-histogram'
 import { Timer } from './timer'
 
 export type NameFactory = (baseName: string, metricName: string, metric: Metric) => string
 
+/**
+ * Creates a new {@link Reservoir} instance - gets the clock of the metric (or the registry),
+ * so time-based reservoirs share the notion of time with the metric.
+ */
+export type ReservoirFactory = (clock: Clock) => Reservoir
+
 /**
  * Represents a registration of a {@link MetricRegistryListener}.
  * This instance can be used to safely remove the listener from registry again.
@@ -71,11 +87,12 @@ export class MetricRegistration<T extends Metric> {
    * Creates an instance of MetricRegistration.
    *
    * @param {T} metricRef
+   * @param {string} [name=metricRef.getName()]
    * @memberof MetricRegistration
    */
-  public constructor (metricRef: T) {
+  public constructor (metricRef: T, name: string = metricRef.getName()) {
     this.metricRef = metricRef
-    this.name = metricRef.getName()
+    this.name = name
   }
 }
 
@@ -190,6 +207,47 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     return !!instance.getMetrics && instance.getMetrics instanceof Function
   }
 
+  /**
+   * Determines if the specified metric has exactly the specified tags.
+   *
+   * @private
+   * @static
+   * @param {Metric} metric
+   * @param {Tags} tags
+   * @returns {boolean}
+   * @memberof MetricRegistry
+   */
+  private static hasTags (metric: Metric, tags: Tags): boolean {
+    const metricTags = metric.getTags()
+    const tagNames = Object.keys(tags)
+    return metricTags.size === tagNames.length &&
+      tagNames.every((tag) => metricTags.get(tag) === tags[tag])
+  }
+
+  /**
+   * Determines if the specified state was exported from a metric with the same type, name, group and tags.
+   *
+   * @private
+   * @static
+   * @param {Metric & Restorable} metric
+   * @param {MetricState} state
+   * @param {Map<string, string>} [tags=metric.getTags()] the (new) tags of the metric
+   * @returns {boolean}
+   * @memberof MetricRegistry
+   */
+  private static matchesState (
+    metric: Metric & Restorable,
+    state: MetricState,
+    tags: Map<string, string> = metric.getTags()): boolean {
+    const stateTags = state.tags || {}
+    const tagNames = Object.keys(stateTags)
+    return metric.getStateType() === state.type &&
+      metric.getName() === state.name &&
+      (metric.getGroup() || null) === (state.group || null) &&
+      tags.size === tagNames.length &&
+      tagNames.every((tag) => tags.get(tag) === stateTags[tag])
+  }
+
   /**
    * Standard function to generate the name for a metric.
    *
@@ -224,11 +282,51 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
   /**
    * The name factory to build metric names.
    *
-   * @private
+   * @protected
    * @type {NameFactory}
    * @memberof MetricRegistry
    */
-  private nameFactory: NameFactory = MetricRegistry.defaultNameFactory
+  protected nameFactory: NameFactory = MetricRegistry.defaultNameFactory
+  /**
+   * The time-to-live of all metrics without an own TTL in milliseconds - {@code null} if metrics never expire.
+   *
+   * @private
+   * @type {number}
+   * @memberof MetricRegistry
+   */
+  private metricTTL: number = null
+  /**
+   * Limits the number of distinct tag combinations per metric name - {@code null} if there is no limit.
+   *
+   * @private
+   * @type {CardinalityLimiter}
+   * @memberof MetricRegistry
+   */
+  private cardinalityLimiter: CardinalityLimiter = null
+  /**
+   * The imported metric states not restored yet - restored as soon as a matching metric is registered.
+   *
+   * @private
+   * @type {MetricState[]}
+   * @memberof MetricRegistry
+   */
+  private pendingStates: MetricState[] = []
+  /**
+   * The time (in milliseconds of the default clock) the pending states are discarded at.
+   *
+   * @private
+   * @type {number}
+   * @memberof MetricRegistry
+   */
+  private pendingStatesExpiry: number = null
+  /**
+   * The tag guards set by this registry - see {@link #guardTags}.
+   *
+   * @private
+   * @type {WeakMap<Metric, TagGuard>}
+   * @memberof MetricRegistry
+   */
+  private readonly tagGuards: WeakMap<Metric, TagGuard> = new WeakMap()
   /**
    * A collection of metric listeners.
    *
@@ -279,6 +377,195 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     return this
   }
 
+  /**
+   * Builds a view of this registry, which registers all metrics into this registry -
+   * the names of the metrics are prefixed with the specified name (using the {@link NameFactory})
+   * and the specified tags are added to each metric.
+   *
+   * @param {string} name the prefix of all metrics registered through the scope
+   * @param {Tags} [tags={}] tags added to all metrics registered through the scope
+   * @returns {MetricRegistryScope}
+   * @memberof MetricRegistry
+   */
+  public scope (name: string, tags: Tags = {}): MetricRegistryScope {
+    return new MetricRegistryScope(this, name, tags)
+  }
+
+  /**
+   * Gets the tags added to all metrics registered through this registry -
+   * always empty for a registry that is no {@link MetricRegistryScope}.
+   *
+   * @returns {Tags}
+   * @memberof MetricRegistry
+   */
+  public getScopeTags (): Tags {
+    return {}
+  }
+
+  /**
+   * Sets the time-to-live of all metrics without an own TTL (see {@link Expirable#setTTL}) -
+   * metrics not updated for this duration are removed by {@link MetricRegistry#removeExpiredMetrics}.
+   * Setting {@code null} disables the expiry.
+   *
+   * @param {number} ttl
+   * @param {TimeUnit} [unit=MILLISECOND]
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public setMetricTTL (ttl: number, unit: TimeUnit = MILLISECOND): this {
+    this.metricTTL = ttl === null || ttl === undefined ? null : unit.convertTo(ttl, MILLISECOND)
+    return this
+  }
+
+  /**
+   * Gets the time-to-live of all metrics without an own TTL in milliseconds.
+   *
+   * @returns {number}
+   * @memberof MetricRegistry
+   */
+  public getMetricTTL (): number {
+    return this.metricTTL
+  }
+
+  /**
+   * Caps the number of distinct tag combinations per metric name (and group) -
+   * new combinations exceeding the cap are folded into a single series with all tag values set to the overflow value.
+   * Applies to all registered metrics, metrics created through this registry and tags changed on registered metrics.
+   *
+   * The get-or-create methods and metric families return the metric of the overflow series. A metric getting
+   * the tags of an already registered overflow series (e.g. by {@code newCounter(...).setTag(...)}) is folded into
+   * the overflow series and removed from this registry - its values are added to the overflow series
+   * and all further updates are forwarded to it (see {@link BaseMetric#foldInto}).
+   * Setting {@code null} removes the limit.
+   *
+   * @param {number} maxCombinations
+   * @param {Logger} [logger=console] logs a warning when the cap of a metric name is reached for the first time
+   * @param {string} [overflowValue=CardinalityLimiter.DEFAULT_OVERFLOW_VALUE]
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public setCardinalityLimit (
+    maxCombinations: number,
+    logger: Logger = console,
+    overflowValue: string = CardinalityLimiter.DEFAULT_OVERFLOW_VALUE): this {
+    const metrics = this.getMetricList()
+    metrics.forEach((metric) => this.releaseTags(metric))
+    this.cardinalityLimiter = maxCombinations === null || maxCombinations === undefined
+      ? null
+      : new CardinalityLimiter(maxCombinations, logger, overflowValue)
+    metrics
+      .filter((metric) => !this.guardTags(metric))
+      .forEach((metric) => this.unregisterMetric(metric))
+    return this
+  }
+
+  /**
+   * Gets the cardinality limiter of this registry - {@code null} if there is no limit.
+   *
+   * @returns {CardinalityLimiter}
+   * @memberof MetricRegistry
+   */
+  public getCardinalityLimiter (): CardinalityLimiter {
+    return this.cardinalityLimiter
+  }
+
+  /**
+   * Removes all metrics which have not been updated within their TTL (or the TTL of this registry) -
+   * invokes {@link MetricRegistryListener#metricRemoved} for each metric removed.
+   * Called by the metric reporters at the start of each reporting run.
+   *
+   * @param {number} [now=this.getDefaultClock().time().milliseconds] the current time in milliseconds
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public removeExpiredMetrics (now: number = this.getDefaultClock().time().milliseconds): this {
+    const expired = this.metrics
+      .map((registration) => registration.metricRef)
+      .filter((metric) => {
+        if (!isExpirable(metric)) {
+          return false
+        }
+        const ttl = metric.getTTL() !== null ? metric.getTTL() : this.metricTTL
+        return ttl !== null && metric.getLastUpdate() + ttl < now
+      })
+    new Set(expired).forEach((metric) => this.unregisterMetric(metric))
+    return this
+  }
+
+  /**
+   * Exports the values of all restorable metrics (counters, histograms, meters, timers - not gauges)
+   * as plain JSON, e.g. to be persisted before the process exits and restored with {@link #importState} on startup.
+   *
+   * @returns {MetricRegistryState}
+   * @memberof MetricRegistry
+   */
+  public exportState (): MetricRegistryState {
+    return {
+      metrics: this.getMetricList()
+        .filter((metric): metric is Metric & Restorable => isRestorable(metric))
+        .map((metric) => {
+          const state: MetricState = metric.exportState()
+          state.type = metric.getStateType()
+          return state
+        })
+    }
+  }
+
+  /**
+   * Restores the values of all metrics previously exported with {@link #exportState} into the metrics
+   * with the same type, name, group and tags. The states of metrics not registered yet are kept and
+   * restored as soon as a matching metric is registered or a registered metric gets matching tags -
+   * replacing the pending states of previous imports. Pending states not restored within the specified
+   * time are discarded.
+   *
+   * @param {MetricRegistryState} state
+   * @param {number} [pendingTTL=10] the time to keep the states of metrics not registered yet
+   * @param {TimeUnit} [unit=MINUTE]
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public importState (state: MetricRegistryState, pendingTTL: number = 10, unit: TimeUnit = MINUTE): this {
+    const restorables = this.getMetricList()
+      .filter((metric): metric is Metric & Restorable => isRestorable(metric))
+    this.pendingStates = (state.metrics || []).filter((metricState) => {
+      const metric = restorables.find((candidate) => MetricRegistry.matchesState(candidate, metricState))
+      if (metric) {
+        metric.restoreState(metricState)
+        return false
+      }
+      return true
+    })
+    this.pendingStatesExpiry = this.getDefaultClock().time().milliseconds + unit.convertTo(pendingTTL, MILLISECOND)
+    if (this.pendingStates.length > 0) {
+      this.getMetricList()
+        .filter((metric) => !this.tagGuards.has(metric))
+        .forEach((metric) => this.guardTags(metric))
+    }
+    return this
+  }
+
+  /**
+   * Gets the imported states not restored yet - see {@link #importState}.
+   *
+   * @returns {MetricState[]}
+   * @memberof MetricRegistry
+   */
+  public getPendingStates (): MetricState[] {
+    this.discardExpiredStates()
+    return this.pendingStates.slice()
+  }
+
+  /**
+   * Discards the imported states not restored yet.
+   *
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public clearPendingStates (): this {
+    this.pendingStates = []
+    return this
+  }
+
   /**
    * Gets the default clock.
    *
@@ -451,6 +738,17 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     return this.metrics.map((metric) => metric.metricRef)
   }
 
+  /**
+   * Determines if the specified metric instance is registered in this registry.
+   *
+   * @param {Metric} metric
+   * @returns {boolean}
+   * @memberof MetricRegistry
+   */
+  public hasMetric (metric: Metric): boolean {
+    return this.metrics.some((registration) => registration.metricRef === metric)
+  }
+
   /**
    * @deprecated since version 1.3 - use {@link getMetricsByName} instead
    */
@@ -583,6 +881,7 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
       if (index > -1) {
         this.metrics.splice(index, 1)
       }
+      this.releaseTags(metrics[0])
       this.fireMetricRemoved(name, metrics[0])
     }
     return this
@@ -605,6 +904,7 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
       if (index > -1) {
         this.metrics.splice(index, 1)
       }
+      this.releaseTags(metric)
       this.fireMetricRemoved(name, metric)
     })
     return this
@@ -652,11 +952,16 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
    * @param {string} name
    * @param {string} [group=null]
    * @param {string} [description=null]
+   * @param {string} [unit=null]
    * @returns {Counter}
    * @memberof MetricRegistry
    */
-  public newCounter (name: string, group: string = null, description: string = null): Counter {
-    const counter = new Counter(name, description)
+  public newCounter (
+    name: string,
+    group: string = null,
+    description: string = null,
+    unit: string = null): Counter {
+    const counter = new Counter(name, description).setUnit(unit)
     this.registerMetric(counter, group, description)
     return counter
   }
@@ -668,34 +973,91 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
    * @param {string} name
    * @param {string} [group=null]
    * @param {string} [description=null]
+   * @param {string} [unit=null]
    * @returns {MonotoneCounter}
    * @memberof MetricRegistry
    */
-  public newMonotoneCounter (name: string, group: string = null, description: string = null): MonotoneCounter {
-    const counter = new MonotoneCounter(name, description)
+  public newMonotoneCounter (
+    name: string,
+    group: string = null,
+    description: string = null,
+    unit: string = null): MonotoneCounter {
+    const counter = new MonotoneCounter(name, description).setUnit(unit)
     this.registerMetric(counter, group, description)
     return counter
   }
 
+  /**
+   * Builds a new gauge with the given name, which calls the specified supplier
+   * each time its value is requested, and adds it to the registry.
+   *
+   * @template T
+   * @param {string} name
+   * @param {GaugeSupplier<T>} supplier
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @param {string} [unit=null]
+   * @returns {FunctionGauge<T>}
+   * @memberof MetricRegistry
+   */
+  public newFunctionGauge<T> (
+    name: string,
+    supplier: GaugeSupplier<T>,
+    group: string = null,
+    description: string = null,
+    unit: string = null): FunctionGauge<T> {
+    const gauge = new FunctionGauge<T>(name, supplier, description).setUnit(unit)
+    this.registerMetric(gauge, group, description)
+    return gauge
+  }
+
+  /**
+   * Builds a new gauge with the given name, which resolves the specified (asynchronous) supplier
+   * once per reporting run, and adds it to the registry.
+   *
+   * @template T
+   * @param {string} name
+   * @param {AsyncGaugeSupplier<T>} supplier
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @param {T} [initialValue] the value of the gauge until the supplier was resolved the first time
+   * @param {string} [unit=null]
+   * @returns {AsyncGauge<T>}
+   * @memberof MetricRegistry
+   */
+  public newAsyncGauge<T> (
+    name: string,
+    supplier: AsyncGaugeSupplier<T>,
+    group: string = null,
+    description: string = null,
+    initialValue?: T,
+    unit: string = null): AsyncGauge<T> {
+    const gauge = new AsyncGauge<T>(name, supplier, description, initialValue).setUnit(unit)
+    this.registerMetric(gauge, group, description)
+    return gauge
+  }
+
   /**
    * Builds a new meter with the given name and adds it
    * to the registry.
    *
    * @param {string} name
    * @param {string} [group=null]
-   * @param {Clock} [clock=this.defaultClock]
+   * @param {Clock} [clock=this.getDefaultClock()]
    * @param {number} [sampleRate=1]
    * @param {string} [description=null]
+   * @param {string} [unit=null]
    * @returns {Meter}
    * @memberof MetricRegistry
    */
   public newMeter (
     name: string,
     group: string = null,
-    clock: Clock = this.defaultClock,
+    clock: Clock = this.getDefaultClock(),
     sampleRate: number = 1,
-    description: string = null): Meter {
-    const meter = new Meter(clock, sampleRate, name, description)
+    description: string = null,
+    unit: string = null): Meter {
+    const meter = new Meter(clock, sampleRate, name, description).setUnit(unit)
     this.registerMetric(meter, group, description)
     return meter
   }
@@ -712,6 +1074,7 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
    * @param {string} [group=null]
    * @param {string} [description=null]
    * @param {Reservoir} [reservoir=null]
+   * @param {string} [unit=null]
    * @returns {HdrHistogram}
    * @memberof MetricRegistry
    */
@@ -722,8 +1085,9 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     figures: number = 3,
     group: string = null,
     description: string = null,
-    buckets: Buckets = new Buckets()): HdrHistogram {
-    const histogram = new HdrHistogram(lowest, max, figures, name, description, buckets)
+    buckets: Buckets = new Buckets(),
+    unit: string = null): HdrHistogram {
+    const histogram = new HdrHistogram(lowest, max, figures, name, description, buckets).setUnit(unit)
     this.registerMetric(histogram, group, description)
     return histogram
   }
@@ -734,21 +1098,47 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
    *
    * @param {string} name
    * @param {string} [group=null]
+   * @param {Reservoir | ReservoirFactory} [reservoir=null]
+   *      the reservoir or a factory which gets the default clock of this registry
    * @param {string} [description=null]
-   * @param {Reservoir} [reservoir=null]
+   * @param {string} [unit=null]
    * @returns {Histogram}
    * @memberof MetricRegistry
    */
   public newHistogram (
     name: string,
     group: string = null,
-    reservoir: Reservoir = null,
+    reservoir: Reservoir | ReservoirFactory = null,
     description: string = null,
-    buckets: Buckets = new Buckets()): Histogram {
-    if (!reservoir) {
-      reservoir = new SlidingWindowReservoir(1024)
-    }
-    const histogram = new Histogram(reservoir, name, description, buckets)
+    buckets: Buckets = new Buckets(),
+    unit: string = null): Histogram {
+    const histogram = new Histogram(this.createReservoir(reservoir, this.getDefaultClock()), name, description, buckets)
+      .setUnit(unit)
+    this.registerMetric(histogram, group, description)
+    return histogram
+  }
+
+  /**
+   * Builds a new histogram backed by a mergeable sketch with the given name and adds it
+   * to the registry.
+   *
+   * @param {string} name
+   * @param {string} [group=null]
+   * @param {number} [relativeAccuracy=DDSketch.DEFAULT_RELATIVE_ACCURACY]
+   * @param {string} [description=null]
+   * @param {Buckets} [buckets=new Buckets()]
+   * @param {string} [unit=null]
+   * @returns {SketchHistogram}
+   * @memberof MetricRegistry
+   */
+  public newSketchHistogram (
+    name: string,
+    group: string = null,
+    relativeAccuracy: number = DDSketch.DEFAULT_RELATIVE_ACCURACY,
+    description: string = null,
+    buckets: Buckets = new Buckets(),
+    unit: string = null): SketchHistogram {
+    const histogram = new SketchHistogram(relativeAccuracy, name, description, buckets).setUnit(unit)
     this.registerMetric(histogram, group, description)
     return histogram
   }
@@ -759,99 +1149,770 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
    *
    * @param {string} name
    * @param {string} [group=null]
+   * @param {Clock} [clock=this.getDefaultClock()]
+   * @param {Reservoir | ReservoirFactory} [reservoir=null]
+   *      the reservoir or a factory which gets the clock of the timer
    * @param {string} [description=null]
-   * @param {Clock} [clock=this.defaultClock]
-   * @param {Reservoir} [reservoir=null]
+   * @param {string} [unit=null]
    * @returns {Timer}
    * @memberof MetricRegistry
    */
   public newTimer (
     name: string,
     group: string = null,
-    clock: Clock = this.defaultClock,
-    reservoir: Reservoir = null,
+    clock: Clock = this.getDefaultClock(),
+    reservoir: Reservoir | ReservoirFactory = null,
     description: string = null,
-    buckets: Buckets = new Buckets()): Timer {
-    if (!reservoir) {
-      reservoir = new SlidingWindowReservoir(1024)
-    }
-    const timer = new Timer(clock, reservoir, name, description, buckets)
+    buckets: Buckets = new Buckets(),
+    unit: string = null): Timer {
+    const timer = new Timer(clock, this.createReservoir(reservoir, clock), name, description, buckets)
+      .setUnit(unit)
     this.registerMetric(timer, group, description)
     return timer
   }
 
   /**
-   * Registers the given metric under it's name in this registry.
-   *
-   * If the metric is a metric-set the child-metrics are
-   * registered using their names the name of the metric-set is set as group.
+   * Builds a new family of counters with the given name - one {@link Counter}
+   * for each unique combination of values for the specified label names.
    *
-   * @param {Metric} metric
+   * @param {string} name
+   * @param {string[]} labelNames
    * @param {string} [group=null]
-   * @returns {this}
+   * @param {string} [description=null]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<Counter>}
    * @memberof MetricRegistry
    */
-  public registerMetric (metric: Metric, group: string = null, description: string = null): this {
-    if (group) {
-      metric.setGroup(group)
-    }
-
-    if (description) {
-      metric.setDescription(description)
-    }
-
-    if (metric instanceof Meter ||
-            metric instanceof Counter ||
-            metric instanceof MonotoneCounter ||
-            MetricRegistry.isGauge<any>(metric) ||
-            metric instanceof Histogram ||
-            metric instanceof Timer) {
-      this.metrics.push(new MetricRegistration(metric))
-      this.fireMetricAdded(metric.getName(), metric)
-    } else if (MetricRegistry.isMetricSet(metric)) {
-      metric.getMetricList().forEach((m: Metric) => {
-        m.setGroup(metric.getName())
-        this.registerMetric(m)
-      })
-    }
-    return this
+  public newCounterFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    description: string = null,
+    unit: string = null): MetricFamily<Counter> {
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new Counter(name, description).setUnit(unit),
+      MetricRegistry.isCounter)
   }
 
   /**
-   * Registers a metric by name
+   * Builds a new family of monotone counters with the given name - one {@link MonotoneCounter}
+   * for each unique combination of values for the specified label names.
    *
    * @param {string} name
-   * @param {Metric} metric
+   * @param {string[]} labelNames
    * @param {string} [group=null]
-   * @deprecated since version 1.5 - use {@link registerMetric} instead
-   * @returns {this}
+   * @param {string} [description=null]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<MonotoneCounter>}
    * @memberof MetricRegistry
    */
-  public register (name: string, metric: Metric, group: string = null, description: string = null): this {
-    if (group) {
-      metric.setGroup(group)
-    }
-    if (description) {
-      metric.setDescription(description)
-    }
-
-    metric.setName(this.generateName(name, metric))
-
-    if (metric instanceof Meter ||
-            metric instanceof Counter ||
-            metric instanceof MonotoneCounter ||
-            MetricRegistry.isGauge<any>(metric) ||
-            metric instanceof Histogram ||
-            metric instanceof Timer) {
-      this.metrics.push(new MetricRegistration(metric))
-      this.fireMetricAdded(name, metric)
-    } else if (MetricRegistry.isMetricSet(metric)) {
-      metric.getMetrics().forEach((m: Metric) => {
-        const metricName = this.nameFactory(name, m.getName(), m)
-        this.register(metricName, m)
-      })
-    }
-    return this
+  public newMonotoneCounterFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    description: string = null,
+    unit: string = null): MetricFamily<MonotoneCounter> {
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new MonotoneCounter(name, description).setUnit(unit),
+      MetricRegistry.isPureMonotoneCounter)
+  }
+
+  /**
+   * Builds a new family of gauges with the given name - one {@link SimpleGauge}
+   * for each unique combination of values for the specified label names.
+   *
+   * @param {string} name
+   * @param {string[]} labelNames
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<SimpleGauge>}
+   * @memberof MetricRegistry
+   */
+  public newGaugeFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    description: string = null,
+    unit: string = null): MetricFamily<SimpleGauge> {
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new SimpleGauge(name, description).setUnit(unit),
+      (metric: Metric): metric is SimpleGauge => metric instanceof SimpleGauge)
+  }
+
+  /**
+   * Builds a new family of meters with the given name - one {@link Meter}
+   * for each unique combination of values for the specified label names.
+   *
+   * @param {string} name
+   * @param {string[]} labelNames
+   * @param {string} [group=null]
+   * @param {Clock} [clock=this.getDefaultClock()]
+   * @param {number} [sampleRate=1]
+   * @param {string} [description=null]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<Meter>}
+   * @memberof MetricRegistry
+   */
+  public newMeterFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    clock: Clock = this.getDefaultClock(),
+    sampleRate: number = 1,
+    description: string = null,
+    unit: string = null): MetricFamily<Meter> {
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new Meter(clock, sampleRate, name, description).setUnit(unit),
+      MetricRegistry.isMeter)
+  }
+
+  /**
+   * Builds a new family of histograms with the given name - one {@link Histogram}
+   * for each unique combination of values for the specified label names.
+   *
+   * @param {string} name
+   * @param {string[]} labelNames
+   * @param {string} [group=null]
+   * @param {ReservoirFactory} [reservoirFactory=null] creates the reservoir for each histogram
+   * @param {string} [description=null]
+   * @param {Buckets} [buckets=new Buckets()]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<Histogram>}
+   * @memberof MetricRegistry
+   */
+  public newHistogramFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    reservoirFactory: ReservoirFactory = null,
+    description: string = null,
+    buckets: Buckets = new Buckets(),
+    unit: string = null): MetricFamily<Histogram> {
+    if (!reservoirFactory) {
+      reservoirFactory = () => new SlidingWindowReservoir(1024)
+    }
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new Histogram(reservoirFactory(this.getDefaultClock()), name, description, buckets).setUnit(unit),
+      MetricRegistry.isHistogram)
+  }
+
+  /**
+   * Builds a new family of timers with the given name - one {@link Timer}
+   * for each unique combination of values for the specified label names.
+   *
+   * @param {string} name
+   * @param {string[]} labelNames
+   * @param {string} [group=null]
+   * @param {Clock} [clock=this.getDefaultClock()]
+   * @param {ReservoirFactory} [reservoirFactory=null] creates the reservoir for each timer
+   * @param {string} [description=null]
+   * @param {Buckets} [buckets=new Buckets()]
+   * @param {string} [unit=null]
+   * @returns {MetricFamily<Timer>}
+   * @memberof MetricRegistry
+   */
+  public newTimerFamily (
+    name: string,
+    labelNames: string[],
+    group: string = null,
+    clock: Clock = this.getDefaultClock(),
+    reservoirFactory: ReservoirFactory = null,
+    description: string = null,
+    buckets: Buckets = new Buckets(),
+    unit: string = null): MetricFamily<Timer> {
+    if (!reservoirFactory) {
+      reservoirFactory = () => new SlidingWindowReservoir(1024)
+    }
+    return this.newMetricFamily(
+      name,
+      labelNames,
+      group,
+      description,
+      () => new Timer(clock, reservoirFactory(clock), name, description, buckets).setUnit(unit),
+      MetricRegistry.isTimer)
+  }
+
+  /**
+   * Gets the counter with the given name, group and tags -
+   * builds and registers a new counter if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @returns {Counter}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateCounter (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    description: string = null): Counter {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'Counter',
+      MetricRegistry.isCounter,
+      () => new Counter(name, description))
+  }
+
+  /**
+   * Gets the monotone counter with the given name, group and tags -
+   * builds and registers a new monotone counter if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @returns {MonotoneCounter}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateMonotoneCounter (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    description: string = null): MonotoneCounter {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'MonotoneCounter',
+      MetricRegistry.isPureMonotoneCounter,
+      () => new MonotoneCounter(name, description))
+  }
+
+  /**
+   * Gets the gauge with the given name, group and tags -
+   * builds and registers a new {@link SimpleGauge} if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @returns {SimpleGauge}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateGauge (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    description: string = null): SimpleGauge {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'SimpleGauge',
+      (metric: Metric): metric is SimpleGauge => metric instanceof SimpleGauge,
+      () => new SimpleGauge(name, description))
+  }
+
+  /**
+   * Gets the meter with the given name, group and tags -
+   * builds and registers a new meter if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {Clock} [clock=this.getDefaultClock()] only used for a new meter
+   * @param {number} [sampleRate=1] only used for a new meter
+   * @param {string} [description=null]
+   * @returns {Meter}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateMeter (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    clock: Clock = this.getDefaultClock(),
+    sampleRate: number = 1,
+    description: string = null): Meter {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'Meter',
+      MetricRegistry.isMeter,
+      () => new Meter(clock, sampleRate, name, description))
+  }
+
+  /**
+   * Gets the histogram with the given name, group and tags -
+   * builds and registers a new histogram if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {Reservoir | ReservoirFactory} [reservoir=null] only used for a new histogram
+   * @param {string} [description=null]
+   * @param {Buckets} [buckets=new Buckets()] only used for a new histogram
+   * @returns {Histogram}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateHistogram (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    reservoir: Reservoir | ReservoirFactory = null,
+    description: string = null,
+    buckets: Buckets = new Buckets()): Histogram {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'Histogram',
+      MetricRegistry.isHistogram,
+      () => new Histogram(this.createReservoir(reservoir, this.getDefaultClock()), name, description, buckets))
+  }
+
+  /**
+   * Gets the timer with the given name, group and tags -
+   * builds and registers a new timer if there is none.
+   *
+   * @param {string} name
+   * @param {Tags} [tags={}]
+   * @param {string} [group=null]
+   * @param {Clock} [clock=this.getDefaultClock()] only used for a new timer
+   * @param {Reservoir | ReservoirFactory} [reservoir=null] only used for a new timer
+   * @param {string} [description=null]
+   * @param {Buckets} [buckets=new Buckets()] only used for a new timer
+   * @returns {Timer}
+   * @memberof MetricRegistry
+   */
+  public getOrCreateTimer (
+    name: string,
+    tags: Tags = {},
+    group: string = null,
+    clock: Clock = this.getDefaultClock(),
+    reservoir: Reservoir | ReservoirFactory = null,
+    description: string = null,
+    buckets: Buckets = new Buckets()): Timer {
+    return this.getOrCreate(
+      name,
+      tags,
+      group,
+      description,
+      'Timer',
+      MetricRegistry.isTimer,
+      () => new Timer(clock, this.createReservoir(reservoir, clock), name, description, buckets))
+  }
+
+  /**
+   * Registers the given metric under it's name in this registry.
+   *
+   * If the metric is a metric-set the child-metrics are
+   * registered using their names the name of the metric-set is set as group.
+   *
+   * @param {Metric} metric
+   * @param {string} [group=null]
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public registerMetric (metric: Metric, group: string = null, description: string = null): this {
+    if (group) {
+      metric.setGroup(group)
+    }
+
+    if (description) {
+      metric.setDescription(description)
+    }
+
+    if (metric instanceof Meter ||
+            metric instanceof Counter ||
+            metric instanceof MonotoneCounter ||
+            MetricRegistry.isGauge<any>(metric) ||
+            metric instanceof Histogram ||
+            metric instanceof Timer) {
+      if (this.guardTags(metric)) {
+        this.trackUpdates(metric)
+        this.metrics.push(new MetricRegistration(metric))
+        this.restorePendingState(metric)
+        this.fireMetricAdded(metric.getName(), metric)
+      }
+    } else if (MetricRegistry.isMetricSet(metric)) {
+      metric.getMetricList().forEach((m: Metric) => {
+        m.setGroup(metric.getName())
+        this.registerMetric(m)
+      })
+    }
+    return this
+  }
+
+  /**
+   * Removes the specified metric instance from this registry regardless of the name it is registered with.
+   *
+   * @param {Metric} metric
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public unregisterMetric (metric: Metric): this {
+    let index: number
+    while ((index = this.metrics.findIndex((registration) => registration.metricRef === metric)) > -1) {
+      const registration = this.metrics[index]
+      this.metrics.splice(index, 1)
+      this.releaseTags(metric)
+      this.fireMetricRemoved(registration.name, metric)
+    }
+    return this
+  }
+
+  /**
+   * Registers a metric by name
+   *
+   * @param {string} name
+   * @param {Metric} metric
+   * @param {string} [group=null]
+   * @deprecated since version 1.5 - use {@link registerMetric} instead
+   * @returns {this}
+   * @memberof MetricRegistry
+   */
+  public register (name: string, metric: Metric, group: string = null, description: string = null): this {
+    if (group) {
+      metric.setGroup(group)
+    }
+    if (description) {
+      metric.setDescription(description)
+    }
+
+    metric.setName(this.generateName(name, metric))
+
+    if (metric instanceof Meter ||
+            metric instanceof Counter ||
+            metric instanceof MonotoneCounter ||
+            MetricRegistry.isGauge<any>(metric) ||
+            metric instanceof Histogram ||
+            metric instanceof Timer) {
+      if (this.guardTags(metric)) {
+        this.trackUpdates(metric)
+        this.metrics.push(new MetricRegistration(metric))
+        this.restorePendingState(metric)
+        this.fireMetricAdded(name, metric)
+      }
+    } else if (MetricRegistry.isMetricSet(metric)) {
+      metric.getMetrics().forEach((m: Metric) => {
+        const metricName = this.nameFactory(name, m.getName(), m)
+        this.register(metricName, m)
+      })
+    }
+    return this
+  }
+
+  /**
+   * Builds a new {@link MetricFamily} whose child metrics are registered in this registry.
+   *
+   * @private
+   * @template M
+   * @param {string} name
+   * @param {string[]} labelNames
+   * @param {string} group
+   * @param {string} description
+   * @param {() => M} factory
+   * @param {(metric: Metric) => metric is M} isOfType
+   * @returns {MetricFamily<M>}
+   * @memberof MetricRegistry
+   */
+  private newMetricFamily<M extends Metric> (
+    name: string,
+    labelNames: string[],
+    group: string,
+    description: string,
+    factory: () => M,
+    isOfType: (metric: Metric) => metric is M): MetricFamily<M> {
+    return new MetricFamily<M>(
+      name,
+      labelNames,
+      this.getScopeTags(),
+      factory,
+      (metricName) => this.getByName(metricName)
+        .filter((metric) => isOfType(metric) && (metric.getGroup() || null) === (group || null)) as M[],
+      (metric) => this.registerLimited(metric, group, description, isOfType),
+      (metric) => this.unregisterMetric(metric))
+  }
+
+  /**
+   * Invokes {@link #getOrCreate} of the specified registry - used by scopes to delegate to their parent.
+   *
+   * @protected
+   * @static
+   * @template M
+   * @param {MetricRegistry} registry
+   * @param {string} name
+   * @param {Tags} tags
+   * @param {string} group
+   * @param {string} description
+   * @param {string} typeName
+   * @param {(metric: Metric) => metric is M} isOfType
+   * @param {() => M} factory
+   * @returns {M}
+   * @memberof MetricRegistry
+   */
+  protected static getOrCreateIn<M extends Metric> (
+    registry: MetricRegistry,
+    name: string,
+    tags: Tags,
+    group: string,
+    description: string,
+    typeName: string,
+    isOfType: (metric: Metric) => metric is M,
+    factory: () => M): M {
+    return registry.getOrCreate(name, tags, group, description, typeName, isOfType, factory)
+  }
+
+  /**
+   * Gets the metric registered with exactly the specified name, group and tags
+   * or builds, tags and registers a new metric.
+   *
+   * @protected
+   * @template M
+   * @param {string} name
+   * @param {Tags} tags
+   * @param {string} group
+   * @param {string} description
+   * @param {string} typeName the name of the expected type used in the error message
+   * @param {(metric: Metric) => metric is M} isOfType
+   * @param {() => M} factory
+   * @returns {M}
+   * @memberof MetricRegistry
+   * @throws {Error} if the registered metric is not of the expected type
+   */
+  protected getOrCreate<M extends Metric> (
+    name: string,
+    tags: Tags,
+    group: string,
+    description: string,
+    typeName: string,
+    isOfType: (metric: Metric) => metric is M,
+    factory: () => M): M {
+    tags = { ...this.getScopeTags(), ...tags }
+    const existing = this.findMetric(name, group, tags)
+    if (existing) {
+      if (!isOfType(existing)) {
+        throw new Error(`Metric '${name}' (group: ${group || null}, tags: ${JSON.stringify(tags)}) ` +
+          `is already registered as ${existing.constructor.name} - cannot get it as ${typeName}`)
+      }
+      return existing
+    }
+    const metric = factory()
+    Object.keys(tags).forEach((tag) => metric.setTag(tag, tags[tag]))
+    return this.registerLimited(metric, group, description, isOfType)
+  }
+
+  /**
+   * Finds the metric registered with exactly the specified name, group and tags.
+   *
+   * @protected
+   * @param {string} name
+   * @param {string} group
+   * @param {Tags} tags
+   * @returns {Metric}
+   * @memberof MetricRegistry
+   */
+  protected findMetric (name: string, group: string, tags: Tags): Metric {
+    return this.getMetricsByName(name)
+      .find((metric) => (metric.getGroup() || null) === (group || null) && MetricRegistry.hasTags(metric, tags)) ||
+      null
+  }
+
+  /**
+   * Registers the new metric - or returns the already registered metric of the overflow series
+   * if the tags of the new metric exceed the cardinality limit.
+   *
+   * @private
+   * @template M
+   * @param {M} metric
+   * @param {string} group
+   * @param {string} description
+   * @param {(metric: Metric) => metric is M} isOfType
+   * @returns {M}
+   * @memberof MetricRegistry
+   */
+  private registerLimited<M extends Metric> (
+    metric: M,
+    group: string,
+    description: string,
+    isOfType: (metric: Metric) => metric is M): M {
+    if (this.cardinalityLimiter && this.cardinalityLimiter.exceeds(metric.getName(), group, metric.getTags())) {
+      const overflowTags = mapToTags(this.cardinalityLimiter.toOverflowTags(metric.getTags()))
+      const existing = this.findMetric(metric.getName(), group, overflowTags)
+      if (existing && isOfType(existing)) {
+        return existing
+      }
+    }
+    this.registerMetric(metric, group, description)
+    return metric
+  }
+
+  /**
+   * Lets the metric track its updates with the default clock of this registry unless it has an own clock -
+   * so the expiry (see {@link #removeExpiredMetrics}) compares times of the same clock.
+   *
+   * @private
+   * @param {Metric} metric
+   * @memberof MetricRegistry
+   */
+  private trackUpdates (metric: Metric): void {
+    if (metric instanceof BaseMetric && !metric.getUpdateClock()) {
+      metric.setUpdateClock(this.getDefaultClock())
+    }
+  }
+
+  /**
+   * Restores the pending imported state of the specified metric (if any) - see {@link #importState}.
+   *
+   * @private
+   * @param {Metric} metric
+   * @param {Map<string, string>} [tags=metric.getTags()] the (new) tags of the metric
+   * @memberof MetricRegistry
+   */
+  private restorePendingState (metric: Metric, tags: Map<string, string> = metric.getTags()): void {
+    this.discardExpiredStates()
+    if (this.pendingStates.length === 0 || !isRestorable(metric)) {
+      return
+    }
+    const index = this.pendingStates.findIndex((state) => MetricRegistry.matchesState(metric, state, tags))
+    if (index !== -1) {
+      metric.restoreState(this.pendingStates[index])
+      this.pendingStates.splice(index, 1)
+    }
+  }
+
+  /**
+   * Discards the pending states once their time-to-live is over - see {@link #importState}.
+   *
+   * @private
+   * @memberof MetricRegistry
+   */
+  private discardExpiredStates (): void {
+    if (this.pendingStates.length > 0 && this.getDefaultClock().time().milliseconds >= this.pendingStatesExpiry) {
+      this.pendingStates = []
+    }
+  }
+
+  /**
+   * Guards all tag changes of the metric - with the cardinality limiter (if any) a registered metric
+   * getting the tags of an already registered overflow series is folded into it and removed from this registry,
+   * with pending imported states (see {@link #importState}) the state matching the new tags is restored.
+   *
+   * @private
+   * @param {Metric} metric
+   * @returns {boolean} false if the metric is folded into an already registered overflow series
+   * @memberof MetricRegistry
+   */
+  private guardTags (metric: Metric): boolean {
+    const limiter = this.cardinalityLimiter
+    if ((!limiter && this.pendingStates.length === 0) || !(metric instanceof BaseMetric)) {
+      return true
+    }
+    let guarded = false
+    const tagGuard: TagGuard = (guardedMetric, tags) => {
+      const limitedTags = limiter ? limiter.limit(guardedMetric, tags) : tags
+      const overflowSeries = this.findOverflowSeries(guardedMetric, limitedTags)
+      if (overflowSeries instanceof BaseMetric && guardedMetric instanceof BaseMetric) {
+        this.unregisterMetric(guardedMetric)
+        guardedMetric.foldInto(overflowSeries)
+      } else if (guarded) {
+        this.restorePendingState(guardedMetric, limitedTags)
+      }
+      return limitedTags
+    }
+    this.tagGuards.set(metric, tagGuard)
+    metric.setTagGuard(tagGuard)
+    guarded = true
+    const overflowSeries = this.findOverflowSeries(metric, metric.getTags())
+    if (overflowSeries instanceof BaseMetric) {
+      this.releaseTags(metric)
+      metric.foldInto(overflowSeries)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Finds the registered overflow series (other than the specified metric) the metric would be folded into
+   * with the specified tags - {@code null} if the tags are no overflow tags or there is no such series.
+   *
+   * @private
+   * @param {Metric} metric
+   * @param {Map<string, string>} tags
+   * @returns {Metric}
+   * @memberof MetricRegistry
+   */
+  private findOverflowSeries (metric: Metric, tags: Map<string, string>): Metric {
+    if (!this.cardinalityLimiter || !this.cardinalityLimiter.isOverflow(tags)) {
+      return null
+    }
+    const overflowTags = mapToTags(tags)
+    return this.getMetricsByName(metric.getName())
+      .find((registered) => registered !== metric &&
+        registered.constructor === metric.constructor &&
+        (registered.getGroup() || null) === (metric.getGroup() || null) &&
+        MetricRegistry.hasTags(registered, overflowTags)) || null
+  }
+
+  /**
+   * Releases the tag combination of a removed metric and removes the tag guard of this registry.
+   *
+   * @private
+   * @param {Metric} metric
+   * @memberof MetricRegistry
+   */
+  private releaseTags (metric: Metric): void {
+    if (this.cardinalityLimiter) {
+      this.cardinalityLimiter.release(metric)
+    }
+    const tagGuard = this.tagGuards.get(metric)
+    if (tagGuard) {
+      this.tagGuards.delete(metric)
+      if (metric instanceof BaseMetric && metric.getTagGuard() === tagGuard) {
+        metric.setTagGuard(null)
+      }
+    }
+  }
+
+  /**
+   * Resolves the reservoir of a new metric - invokes the factory with the specified clock
+   * or falls back to a {@link SlidingWindowReservoir} if no reservoir is specified.
+   *
+   * @private
+   * @param {Reservoir | ReservoirFactory} reservoir
+   * @param {Clock} clock
+   * @returns {Reservoir}
+   * @memberof MetricRegistry
+   */
+  private createReservoir (reservoir: Reservoir | ReservoirFactory, clock: Clock): Reservoir {
+    if (!reservoir) {
+      return new SlidingWindowReservoir(1024)
+    }
+    if (typeof reservoir === 'function') {
+      return reservoir(clock)
+    }
+    return reservoir
   }
 
   /**
@@ -902,6 +1963,20 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     return name
   }
 
+  /**
+   * Adds a registration of the already registered metric under the specified name
+   * without applying the cardinality limit or restoring state.
+   *
+   * @protected
+   * @param {string} name
+   * @param {Metric} metric
+   * @memberof MetricRegistry
+   */
+  protected addRegistration (name: string, metric: Metric): void {
+    this.metrics.push(new MetricRegistration(metric, name))
+    this.fireMetricAdded(name, metric)
+  }
+
   /**
    * Invokes all metric listeners when a new metric was added.
    *
@@ -926,3 +2001,237 @@ export class MetricRegistry extends BaseMetric implements MetricSet {
     this.listeners.forEach((listener) => listener.metricRemoved(name, metric))
   }
 }
+
+/**
+ * A view of a {@link MetricRegistry} (see {@link MetricRegistry#scope}) offering the same API.
+ *
+ * Each metric registered through the scope is also registered in the parent registry -
+ * the name is prefixed with the name of the scope using the {@link NameFactory}
+ * and the tags of the scope are added unless the metric already has a tag with the same name.
+ *
+ * @export
+ * @class MetricRegistryScope
+ * @extends {MetricRegistry}
+ */
+export class MetricRegistryScope extends MetricRegistry {
+  /**
+   * The clock set explicitly for this scope - {@code null} to use the clock of the parent registry.
+   *
+   * @private
+   * @type {Clock}
+   * @memberof MetricRegistryScope
+   */
+  private scopeClock: Clock = null
+
+  /**
+   * Creates an instance of MetricRegistryScope.
+   *
+   * @param {MetricRegistry} parent the registry all metrics are registered into
+   * @param {string} name the prefix of all metrics registered through this scope
+   * @param {Tags} [tags={}] tags added to all metrics registered through this scope
+   * @memberof MetricRegistryScope
+   */
+  public constructor (private readonly parent: MetricRegistry, name: string, tags: Tags = {}) {
+    super()
+    this.setName(name)
+    Object.keys(tags).forEach((tag) => this.setTag(tag, tags[tag]))
+  }
+
+  /**
+   * Gets the clock set for this scope or the current default clock of the parent registry.
+   *
+   * @returns {Clock}
+   * @memberof MetricRegistryScope
+   */
+  public getDefaultClock (): Clock {
+    return this.scopeClock || this.parent.getDefaultClock()
+  }
+
+  /**
+   * Sets the default clock of this scope - {@code null} to use the clock of the parent registry again.
+   *
+   * @param {Clock} defaultClock
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public setDefaultClock (defaultClock: Clock): this {
+    this.scopeClock = defaultClock
+    return this
+  }
+
+  /**
+   * Determines if the specified metric instance is registered in this scope and still in the parent registry.
+   *
+   * @param {Metric} metric
+   * @returns {boolean}
+   * @memberof MetricRegistryScope
+   */
+  public hasMetric (metric: Metric): boolean {
+    return super.hasMetric(metric) && this.parent.hasMetric(metric)
+  }
+
+  /**
+   * Gets the registry this scope registers its metrics into.
+   *
+   * @returns {MetricRegistry}
+   * @memberof MetricRegistryScope
+   */
+  public getParent (): MetricRegistry {
+    return this.parent
+  }
+
+  /**
+   * Gets the tags of this scope merged with the tags of all parent scopes.
+   *
+   * @returns {Tags}
+   * @memberof MetricRegistryScope
+   */
+  public getScopeTags (): Tags {
+    return { ...this.parent.getScopeTags(), ...mapToTags(this.getTags()) }
+  }
+
+  /**
+   * Registers the metric in this scope (with the name of the metric)
+   * and in the parent registry (with the name prefixed and the tags of this scope added).
+   *
+   * @param {Metric} metric
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public registerMetric (metric: Metric, group: string = null, description: string = null): this {
+    super.registerMetric(metric, group, description)
+    if (!MetricRegistry.isMetricSet(metric)) {
+      this.applyScope(metric)
+      this.parent.registerMetric(metric)
+    }
+    return this
+  }
+
+  /**
+   * Registers the metric in this scope and in the parent registry.
+   *
+   * @param {string} name
+   * @param {Metric} metric
+   * @param {string} [group=null]
+   * @param {string} [description=null]
+   * @deprecated since version 1.5 - use {@link registerMetric} instead
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public register (name: string, metric: Metric, group: string = null, description: string = null): this {
+    super.register(name, metric, group, description)
+    if (!MetricRegistry.isMetricSet(metric)) {
+      this.applyScope(metric)
+      this.parent.registerMetric(metric)
+    }
+    return this
+  }
+
+  /**
+   * Removes the specified metric instance from this scope and from the parent registry.
+   *
+   * @param {Metric} metric
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public unregisterMetric (metric: Metric): this {
+    super.unregisterMetric(metric)
+    this.parent.unregisterMetric(metric)
+    return this
+  }
+
+  /**
+   * Removes all metric instances with the specified name (without prefix)
+   * from this scope and from the parent registry.
+   *
+   * @param {string} name
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public removeMetrics (name: string): this {
+    this.getMetricsByName(name).forEach((metric) => this.unregisterMetric(metric))
+    return this
+  }
+
+  /**
+   * @deprecated since version 1.3 - use {@link removeMetrics} instead
+   */
+  public removeMetric (name: string): this {
+    const metrics = this.getMetricsByName(name)
+    if (metrics.length > 0) {
+      this.unregisterMetric(metrics[0])
+    }
+    return this
+  }
+
+  /**
+   * Removes all metrics registered through this scope (and its child scopes) from the parent registry.
+   *
+   * @returns {this}
+   * @memberof MetricRegistryScope
+   */
+  public remove (): this {
+    this.getMetricList().forEach((metric) => this.unregisterMetric(metric))
+    return this
+  }
+
+  /**
+   * Gets the metric from the parent registry (with the name prefixed and the tags of this scope added),
+   * so all scopes with the same name and tags share the same metric instance.
+   *
+   * @protected
+   * @template M
+   * @param {string} name
+   * @param {Tags} tags
+   * @param {string} group
+   * @param {string} description
+   * @param {string} typeName
+   * @param {(metric: Metric) => metric is M} isOfType
+   * @param {() => M} factory
+   * @returns {M}
+   * @memberof MetricRegistryScope
+   */
+  protected getOrCreate<M extends Metric> (
+    name: string,
+    tags: Tags,
+    group: string,
+    description: string,
+    typeName: string,
+    isOfType: (metric: Metric) => metric is M,
+    factory: () => M): M {
+    const scopedTags = { ...mapToTags(this.getTags()), ...tags }
+    const existing = this.findMetric(name, group, { ...this.parent.getScopeTags(), ...scopedTags })
+    if (existing && !this.parent.hasMetric(existing)) {
+      super.unregisterMetric(existing)
+    } else if (existing && isOfType(existing)) {
+      return existing
+    }
+    let candidate: M = null
+    const create = (): M => candidate || (candidate = factory())
+    const scopedName = this.nameFactory(this.getName(), name, create())
+    const metric = MetricRegistry.getOrCreateIn(
+      this.parent, scopedName, scopedTags, group, description, typeName, isOfType, () => create().setName(scopedName))
+    if (!super.hasMetric(metric)) {
+      this.addRegistration(name, metric)
+    }
+    return metric
+  }
+
+  /**
+   * Prefixes the name of the metric and adds the tags of this scope.
+   *
+   * @private
+   * @param {Metric} metric
+   * @memberof MetricRegistryScope
+   */
+  private applyScope (metric: Metric): void {
+    metric.setName(this.nameFactory(this.getName(), metric.getName(), metric))
+    this.getTags().forEach((value, tag) => {
+      if (!metric.getTags().has(tag)) {
+        metric.setTag(tag, value)
+      }
+    })
+  }
+}
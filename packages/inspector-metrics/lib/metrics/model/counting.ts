@@ -1,6 +1,7 @@
 import "source-map-support/register";
 
 import { Metric, SerializableMetric } from "./metric";
+import { Tags } from "./taggable";
 
 /**
  * Represents everything that is countable ({@link Counter}, {@link MonotoneCounter}, {@link Histogram}).
@@ -129,6 +130,57 @@ export interface BucketCounting extends Metric {
    */
   getCounts(): Map<number, number>;
 
+  /**
+   * Gets a mapping from the boundary to the most recent {@link Exemplar}
+   * recorded within the corresponding boundary - values above all boundaries
+   * are mapped to {@link Infinity}. Optional - implementations without exemplars may omit it.
+   *
+   * @returns {Map<number, Exemplar>}
+   * @memberof BucketCounting
+   */
+  getExemplars?(): Map<number, Exemplar>;
+
+}
+
+/**
+ * An example observation attached to a bucket (e.g. the trace id of a slow request).
+ *
+ * @export
+ * @interface Exemplar
+ */
+export interface Exemplar {
+
+  /**
+   * The labels identifying the example - e.g. { trace_id: "4bf92f35" }.
+   *
+   * @type {Tags}
+   * @memberof Exemplar
+   */
+  labels: Tags;
+
+  /**
+   * The observed value.
+   *
+   * @type {number}
+   * @memberof Exemplar
+   */
+  value: number;
+
+  /**
+   * The time of the observation in milliseconds since 01.01.1970 - according to the update clock of the metric.
+   *
+   * @type {number}
+   * @memberof Exemplar
+   */
+  timestamp: number;
+
+}
+
+/**
+ * Helper interface for serialized exemplars.
+ */
+export interface BucketToExemplarMap {
+  [bucket: number]: Exemplar;
 }
 
 /**
@@ -164,6 +216,14 @@ export interface SerializableBucketCounting extends SerializableMetric {
    */
   counts: BucketToCountMap;
 
+  /**
+   * Mapping: boundary to the most recent exemplar within boundary.
+   *
+   * @returns {BucketToExemplarMap}
+   * @memberof SerializableBucketCounting
+   */
+  exemplars?: BucketToExemplarMap;
+
 }
 
 /**
@@ -218,3 +278,26 @@ export function getMetricCounts(metric: BucketCounting | SerializableBucketCount
     return counts;
   }
 }
+
+/**
+ * Convenience method the get the exemplars of a
+ * {@link BucketCounting} or a {@link SerializableBucketCounting} - empty if the metric has no exemplars.
+ *
+ * @export
+ * @param {(BucketCounting | SerializableBucketCounting)} metric
+ * @returns {BucketToExemplarMap}
+ */
+export function getMetricExemplars(metric: BucketCounting | SerializableBucketCounting): BucketToExemplarMap {
+  if (isSerializableBucketCounting(metric)) {
+    return metric.exemplars || {};
+  } else {
+    const exemplars: BucketToExemplarMap = {};
+    if (!metric.getExemplars) {
+      return exemplars;
+    }
+    for (const [bucket, exemplar] of metric.getExemplars()) {
+      exemplars[bucket] = exemplar;
+    }
+    return exemplars;
+  }
+}
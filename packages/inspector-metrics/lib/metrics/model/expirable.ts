@@ -0,0 +1,57 @@
+import "source-map-support/register";
+
+import { TimeUnit } from "./time-unit";
+
+/**
+ * Interface for metrics which track the time of their last update, so they can be
+ * removed from a {@link MetricRegistry} if they have not been updated for a configured duration (TTL).
+ *
+ * @export
+ * @interface Expirable
+ */
+export interface Expirable {
+
+  /**
+   * Gets the time of the last update in milliseconds since 01.01.1970 -
+   * {@code null} if the metric does not track updates (e.g. a gauge backed by a function).
+   *
+   * @returns {number}
+   * @memberof Expirable
+   */
+  getLastUpdate(): number;
+
+  /**
+   * Gets the time-to-live of this metric in milliseconds -
+   * {@code null} if the TTL of the registry applies.
+   *
+   * @returns {number}
+   * @memberof Expirable
+   */
+  getTTL(): number;
+
+  /**
+   * Sets the time-to-live of this metric - {@code null} to apply the TTL of the registry,
+   * {@code Infinity} to never expire.
+   *
+   * @param {number} ttl
+   * @param {TimeUnit} [unit]
+   * @returns {this}
+   * @memberof Expirable
+   */
+  setTTL(ttl: number, unit?: TimeUnit): this;
+
+}
+
+/**
+ * Determines if the metric passed is an {@link Expirable} which tracks its updates.
+ *
+ * @export
+ * @param {*} metric
+ * @returns {metric is Expirable}
+ */
+export function isExpirable(metric: any): metric is Expirable {
+  return !!metric &&
+    typeof metric.getLastUpdate === "function" &&
+    typeof metric.getTTL === "function" &&
+    metric.getLastUpdate() !== null;
+}
@@ -23,22 +23,22 @@ export class Int64Wrapper {
   /**
    * Creates an instance of Int64Wrapper.
    *
-   * @param {number} [initial=0]
+   * @param {number | string} [initial=0] a number or the string representation of a 64bit integer
    * @memberof Int64Wrapper
    */
-  public constructor(initial: number = 0) {
+  public constructor(initial: number | string = 0) {
     this.num = new Int64(initial);
   }
 
   /**
    * Adds the specified value.
    *
-   * @param {number} value
+   * @param {number | Int64Wrapper} value
    * @returns {this}
    * @memberof Int64Wrapper
    */
-  public add(value: number): this {
-    this.num = this.num.add(value);
+  public add(value: number | Int64Wrapper): this {
+    this.num = this.num.add(value instanceof Int64Wrapper ? value.num : value);
     return this;
   }
 
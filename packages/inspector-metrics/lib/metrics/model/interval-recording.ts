@@ -0,0 +1,73 @@
+import "source-map-support/register";
+
+/**
+ * Interface for all sampling metric classes that support the interval (reset-on-read) mode.
+ *
+ * In interval mode the snapshot only contains the values recorded within the last
+ * completed interval. Each call to {@link IntervalRecording#swapInterval} completes the
+ * current interval and starts a new one - the {@link MetricReporter} calls it once per reporting run.
+ *
+ * @export
+ * @interface IntervalRecording
+ */
+export interface IntervalRecording {
+
+  /**
+   * Determines if the interval mode is enabled.
+   *
+   * @returns {boolean}
+   * @memberof IntervalRecording
+   */
+  isIntervalMode(): boolean;
+
+  /**
+   * Enables or disables the interval mode.
+   *
+   * @param {boolean} intervalMode
+   * @returns {this}
+   * @memberof IntervalRecording
+   */
+  setIntervalMode(intervalMode: boolean): this;
+
+  /**
+   * Completes the current interval - the snapshot contains the values of the completed interval
+   * afterwards and new values are recorded to a new interval.
+   *
+   * @returns {this}
+   * @memberof IntervalRecording
+   */
+  swapInterval(): this;
+
+}
+
+/**
+ * The serialized version of {@link IntervalRecording}.
+ *
+ * @export
+ * @interface SerializableIntervalRecording
+ */
+export interface SerializableIntervalRecording {
+
+  /**
+   * Indicates that the snapshot only contains the values of the last completed interval.
+   *
+   * @type {boolean}
+   * @memberof SerializableIntervalRecording
+   */
+  intervalMode: boolean;
+
+}
+
+/**
+ * Determines if the metric passed is an {@link IntervalRecording} with interval mode enabled.
+ *
+ * @export
+ * @param {*} metric
+ * @returns {metric is IntervalRecording}
+ */
+export function isIntervalMode(metric: any): metric is IntervalRecording {
+  return !!metric &&
+    typeof metric.isIntervalMode === "function" &&
+    typeof metric.swapInterval === "function" &&
+    metric.isIntervalMode();
+}
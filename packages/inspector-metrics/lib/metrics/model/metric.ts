@@ -1,8 +1,17 @@
 import "source-map-support/register";
 
+import { Clock } from "../clock";
+import { Expirable } from "./expirable";
 import { Groupable } from "./groupable";
 import { mapToMetadata, Metadata, MetadataContainer } from "./metadata-container";
 import { mapToTags, Taggable, Tags } from "./taggable";
+import { MILLISECOND, TimeUnit } from "./time-unit";
+
+/**
+ * Gets the new tags of a metric and returns the tags actually applied to the metric -
+ * e.g. to limit the number of distinct tag combinations of registered metrics.
+ */
+export type TagGuard = (metric: Metric, tags: Map<string, string>) => Map<string, string>;
 
 /**
  * Determines if the metric passed is a {@link SerializableMetric} or not.
@@ -53,6 +62,22 @@ export function getMetricDescription(metric: Metric | SerializableMetric): strin
   }
 }
 
+/**
+ * Convenience method the get the unit of a {@link Metric} or a {@link SerializableMetric} -
+ * {@code undefined} if the metric does not support units.
+ *
+ * @export
+ * @param {(Metric | SerializableMetric)} metric
+ * @returns {string}
+ */
+export function getMetricUnit(metric: Metric | SerializableMetric): string {
+  if (isSerializableMetric(metric)) {
+    return metric.unit;
+  } else {
+    return metric.getUnit ? metric.getUnit() : undefined;
+  }
+}
+
 /**
  * Convenience method the get the group of a {@link Metric} or a {@link SerializableMetric}.
  *
@@ -143,6 +168,24 @@ export interface Metric extends Groupable, MetadataContainer, Taggable {
    */
   setDescription(description: string): this;
 
+  /**
+   * Gets the unit of the reported values of the metric (e.g. "seconds", "bytes", "requests") -
+   * optional, use {@link getMetricUnit} to get the unit of any metric.
+   *
+   * @returns {string}
+   * @memberof Metric
+   */
+  getUnit?(): string;
+
+  /**
+   * Sets the unit of the reported values of the metric - optional.
+   *
+   * @param {string} unit
+   * @returns {this}
+   * @memberof Metric
+   */
+  setUnit?(unit: string): this;
+
 }
 
 /**
@@ -188,12 +231,20 @@ export interface SerializableMetric extends Metric {
    * @memberof SerializableMetric
    */
   tags: Tags;
+  /**
+   * Unit of the metric.
+   *
+   * @type {string}
+   * @memberof SerializableMetric
+   */
+  unit: string;
 }
 
 /**
  * Abstract base-class for a metric which implements commonly needed functions:
  * - get / set name
  * - get / set description
+ * - get / set unit
  * - get / set tags
  * - get / set metadata
  * - get / set group
@@ -203,8 +254,9 @@ export interface SerializableMetric extends Metric {
  * @class BaseMetric
  * @implements {Metric}
  * @implements {SerializableMetric}
+ * @implements {Expirable}
  */
-export abstract class BaseMetric implements Metric, SerializableMetric {
+export abstract class BaseMetric implements Metric, SerializableMetric, Expirable {
 
   /**
    * A static number instance to give an unique id within an application instance.
@@ -247,6 +299,14 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
    * @memberof BaseMetric
    */
   public description: string;
+  /**
+   * The unit of the values of this metric.
+   *
+   * @protected
+   * @type {string}
+   * @memberof BaseMetric
+   */
+  public unit: string;
   /**
    * The metadata associated with an instance of class.
    *
@@ -263,6 +323,46 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
    * @memberof BaseMetric
    */
   protected tagMap: Map<string, string> = new Map();
+  /**
+   * The time of the last update in milliseconds - {@code null} if the metric does not track its updates.
+   *
+   * @protected
+   * @type {number}
+   * @memberof BaseMetric
+   */
+  protected lastUpdate: number = null;
+  /**
+   * The time-to-live in milliseconds - {@code null} if the TTL of the registry applies.
+   *
+   * @protected
+   * @type {number}
+   * @memberof BaseMetric
+   */
+  protected ttl: number = null;
+  /**
+   * Guards all changes of the tags - {@code null} if tags are applied unchanged.
+   *
+   * @protected
+   * @type {TagGuard}
+   * @memberof BaseMetric
+   */
+  protected tagGuard: TagGuard = null;
+  /**
+   * The clock providing the time of the updates - {@code null} to use the system time.
+   *
+   * @protected
+   * @type {Clock}
+   * @memberof BaseMetric
+   */
+  protected updateClock: Clock = null;
+  /**
+   * The metric all updates of this metric are forwarded to - see {@link #foldInto}.
+   *
+   * @protected
+   * @type {this}
+   * @memberof BaseMetric
+   */
+  protected foldTarget: this = null;
 
   public get metadata(): Metadata {
     return mapToMetadata(this.metadataMap);
@@ -309,6 +409,15 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
     return this;
   }
 
+  public getUnit(): string {
+    return this.unit;
+  }
+
+  public setUnit(unit: string): this {
+    this.unit = unit;
+    return this;
+  }
+
   public getGroup(): string {
     return this.group;
   }
@@ -327,30 +436,135 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
   }
 
   public setTag(name: string, value: string): this {
+    if (this.tagGuard) {
+      return this.setTags(new Map(this.tagMap).set(name, value));
+    }
     this.tagMap.set(name, value);
     return this;
   }
 
   public setTags(tags: Map<string, string>): this {
-    this.tagMap = tags;
+    this.tagMap = this.tagGuard ? this.tagGuard(this, tags) : tags;
     return this;
   }
 
   public addTags(tags: Map<string, string>): this {
+    if (this.tagGuard) {
+      const newTags = new Map(this.tagMap);
+      tags.forEach((value, key) => newTags.set(key, value));
+      return this.setTags(newTags);
+    }
     tags.forEach((value, key) => this.tagMap.set(key, value));
     return this;
   }
 
   public removeTag(name: string): this {
+    if (this.tagGuard) {
+      const newTags = new Map(this.tagMap);
+      newTags.delete(name);
+      return this.setTags(newTags);
+    }
     this.tagMap.delete(name);
     return this;
   }
 
+  /**
+   * Gets the guard of all changes of the tags - {@code null} if there is none.
+   *
+   * @returns {TagGuard}
+   * @memberof BaseMetric
+   */
+  public getTagGuard(): TagGuard {
+    return this.tagGuard;
+  }
+
+  /**
+   * Sets the guard for all subsequent changes of the tags and applies it to the current tags.
+   *
+   * @param {TagGuard} tagGuard the guard or {@code null} to remove the guard
+   * @returns {this}
+   * @memberof BaseMetric
+   */
+  public setTagGuard(tagGuard: TagGuard): this {
+    this.tagGuard = tagGuard;
+    if (tagGuard) {
+      this.tagMap = tagGuard(this, this.tagMap);
+    }
+    return this;
+  }
+
   public removeTags(...names: string[]): this {
     names.forEach((name) => this.removeTag(name));
     return this;
   }
 
+  public getLastUpdate(): number {
+    return this.lastUpdate;
+  }
+
+  /**
+   * Gets the clock providing the time of the updates - {@code null} if the system time is used.
+   *
+   * @returns {Clock}
+   * @memberof BaseMetric
+   */
+  public getUpdateClock(): Clock {
+    return this.updateClock;
+  }
+
+  /**
+   * Sets the clock providing the time of the updates - a metric tracking its updates
+   * is marked as updated with the time of the new clock.
+   *
+   * @param {Clock} updateClock the clock or {@code null} to use the system time
+   * @returns {this}
+   * @memberof BaseMetric
+   */
+  public setUpdateClock(updateClock: Clock): this {
+    this.updateClock = updateClock;
+    if (this.lastUpdate !== null) {
+      this.markUpdated();
+    }
+    return this;
+  }
+
+  public getTTL(): number {
+    return this.ttl;
+  }
+
+  public setTTL(ttl: number, unit: TimeUnit = MILLISECOND): this {
+    this.ttl = ttl === null || ttl === undefined ? null : unit.convertTo(ttl, MILLISECOND);
+    return this;
+  }
+
+  /**
+   * Gets the metric this metric is folded into - {@code null} if the metric is not folded.
+   *
+   * @returns {this}
+   * @memberof BaseMetric
+   */
+  public getFoldTarget(): this {
+    return this.foldTarget;
+  }
+
+  /**
+   * Folds this metric into the specified metric of the same type - the current values of this metric
+   * are added to the specified metric (see {@link #foldValuesInto}) and all further updates of this metric
+   * are forwarded to it. Used by the {@link MetricRegistry} to fold metrics exceeding the cardinality limit
+   * into the overflow series.
+   *
+   * @param {this} target
+   * @returns {this}
+   * @memberof BaseMetric
+   */
+  public foldInto(target: this): this {
+    if (target && target !== this && !this.foldTarget) {
+      this.foldValuesInto(target);
+      this.foldTarget = target;
+    }
+    return this;
+  }
+
   public toString(): string {
     if (this.group) {
       return `${this.group}.${this.name}`;
@@ -358,6 +572,39 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
     return this.name;
   }
 
+  /**
+   * Adds the current values of this metric to the specified metric - called by {@link #foldInto},
+   * does nothing by default.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof BaseMetric
+   */
+  protected foldValuesInto(target: this): void {
+  }
+
+  /**
+   * Sets the time of the last update to the current time of the update clock -
+   * called by all metrics tracking their updates.
+   *
+   * @protected
+   * @memberof BaseMetric
+   */
+  protected markUpdated(): void {
+    this.lastUpdate = this.getUpdateTime();
+  }
+
+  /**
+   * Gets the current time of the update clock in milliseconds - the system time if there is no update clock.
+   *
+   * @protected
+   * @returns {number}
+   * @memberof BaseMetric
+   */
+  protected getUpdateTime(): number {
+    return this.updateClock ? this.updateClock.time().milliseconds : Date.now();
+  }
+
   /**
    * Generates a serialized version of this metric.
    *
@@ -371,6 +618,7 @@ export abstract class BaseMetric implements Metric, SerializableMetric {
       metadata: this.metadata,
       name: this.getName(),
       tags: this.tags,
+      unit: this.getUnit(),
     };
   }
 
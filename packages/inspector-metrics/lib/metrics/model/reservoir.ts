@@ -1,6 +1,8 @@
 import "source-map-support/register";
 
-import { SimpleSnapshot, Snapshot } from "./snapshot";
+import { Clock, StdClock, Time } from "../clock";
+import { SimpleSnapshot, Snapshot, WeightedSample, WeightedSnapshot } from "./snapshot";
+import { NANOSECOND, SECOND, TimeUnit } from "./time-unit";
 
 /**
  * Represents a collection of values.
@@ -35,6 +37,14 @@ export interface Reservoir {
    */
   snapshot(): Snapshot;
 
+  /**
+   * Removes all values from the reservoir - needed for the interval mode of histograms and timers.
+   *
+   * @returns {this}
+   * @memberof Reservoir
+   */
+  reset?(): this;
+
 }
 
 /**
@@ -114,6 +124,17 @@ export class DefaultReservoir implements Reservoir {
     return new SimpleSnapshot(this.values);
   }
 
+  /**
+   * Removes all values.
+   *
+   * @returns {this}
+   * @memberof DefaultReservoir
+   */
+  public reset(): this {
+    this.values = [];
+    return this;
+  }
+
 }
 
 /**
@@ -199,4 +220,462 @@ export class SlidingWindowReservoir implements Reservoir {
     return new SimpleSnapshot(this.values);
   }
 
+  /**
+   * Removes all values.
+   *
+   * @returns {this}
+   * @memberof SlidingWindowReservoir
+   */
+  public reset(): this {
+    this.values = [];
+    this.index = 0;
+    return this;
+  }
+
+}
+
+/**
+ * A reservoir that only keeps the values recorded within the last window of time,
+ * e.g. the last 60 seconds - up to the specified maximum number of values,
+ * the oldest values are evicted first if the maximum is reached.
+ *
+ * Outdated values are evicted lazily when the reservoir is updated or read,
+ * the progress in time is determined by the specified {@link Clock}.
+ *
+ * @export
+ * @class SlidingTimeWindowReservoir
+ * @implements {Reservoir}
+ */
+export class SlidingTimeWindowReservoir implements Reservoir {
+
+  /**
+   * Default maximum number of values within the window.
+   *
+   * @static
+   * @type {number}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public static readonly DEFAULT_MAX_SIZE: number = 100000;
+
+  /**
+   * The values in the order they were recorded - evicted values are located before the start index.
+   *
+   * @private
+   * @type {number[]}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private values: number[] = [];
+  /**
+   * The points in time (in nanoseconds relative to the origin) the values were recorded - same order as the values.
+   *
+   * @private
+   * @type {number[]}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private timestamps: number[] = [];
+  /**
+   * The index of the oldest value within the window - the evicted values are
+   * removed from the arrays once they make up half of the arrays.
+   *
+   * @private
+   * @type {number}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private start: number = 0;
+  /**
+   * The length of the window in nanoseconds.
+   *
+   * @private
+   * @type {number}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private windowInNanoseconds: number;
+  /**
+   * The first time read from the clock - the timestamps are relative to this time, so they stay
+   * within the exact integer range of a number (nanoseconds since epoch exceed it).
+   *
+   * @private
+   * @type {Time}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private origin: Time = null;
+
+  /**
+   * Creates an instance of SlidingTimeWindowReservoir.
+   *
+   * @param {number} window the length of the window
+   * @param {TimeUnit} [unit=SECOND] the time unit of the window
+   * @param {Clock} [clock=new StdClock()] the clock used to determine the age of the values
+   * @param {number} [maxSize=SlidingTimeWindowReservoir.DEFAULT_MAX_SIZE] the maximum number of values to keep
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public constructor(
+    window: number,
+    unit: TimeUnit = SECOND,
+    private readonly clock: Clock = new StdClock(),
+    private readonly maxSize: number = SlidingTimeWindowReservoir.DEFAULT_MAX_SIZE) {
+    this.windowInNanoseconds = unit.convertTo(window, NANOSECOND);
+  }
+
+  /**
+   * Gets the number of values recorded within the window.
+   *
+   * @returns {number}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public size(): number {
+    this.evict(this.currentTimeInNanoseconds());
+    return this.values.length - this.start;
+  }
+
+  /**
+   * Adds the value with the current time of the clock and
+   * evicts all values outside the window - and the oldest value if the maximum size is reached.
+   *
+   * @param {number} value
+   * @returns {this}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public update(value: number): this {
+    const now = this.currentTimeInNanoseconds();
+    this.evict(now);
+    if (this.values.length - this.start >= this.maxSize) {
+      this.start++;
+    }
+    this.values.push(value);
+    this.timestamps.push(now);
+    return this;
+  }
+
+  /**
+   * Creates a new snapshot of all values recorded within the window.
+   *
+   * @returns {Snapshot}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public snapshot(): Snapshot {
+    this.evict(this.currentTimeInNanoseconds());
+    return new SimpleSnapshot(this.values.slice(this.start));
+  }
+
+  /**
+   * Removes all values.
+   *
+   * @returns {this}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  public reset(): this {
+    this.values = [];
+    this.timestamps = [];
+    this.start = 0;
+    return this;
+  }
+
+  /**
+   * Gets the current time of the clock in nanoseconds relative to the origin.
+   *
+   * @private
+   * @returns {number}
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private currentTimeInNanoseconds(): number {
+    const time = this.clock.time();
+    if (!this.origin) {
+      this.origin = time;
+    }
+    return (time.milliseconds - this.origin.milliseconds) * 1000000 + (time.nanoseconds - this.origin.nanoseconds);
+  }
+
+  /**
+   * Evicts all values recorded before the beginning of the window by moving the start index.
+   * The evicted values are removed from the arrays once they make up half of the arrays,
+   * so each value is copied at most once on average.
+   *
+   * @private
+   * @param {number} now the current time in nanoseconds relative to the origin
+   * @memberof SlidingTimeWindowReservoir
+   */
+  private evict(now: number): void {
+    const windowStart = now - this.windowInNanoseconds;
+    while (this.start < this.timestamps.length && this.timestamps[this.start] < windowStart) {
+      this.start++;
+    }
+    if (this.start > 0 && this.start * 2 >= this.timestamps.length) {
+      this.values = this.values.slice(this.start);
+      this.timestamps = this.timestamps.slice(this.start);
+      this.start = 0;
+    }
+  }
+
+}
+
+/**
+ * A value of the {@link ExponentiallyDecayingReservoir} with its priority.
+ *
+ * @interface PrioritizedSample
+ * @extends {WeightedSample}
+ */
+interface PrioritizedSample extends WeightedSample {
+  /**
+   * The priority of the sample - samples with a lower priority get replaced first.
+   *
+   * @type {number}
+   * @memberof PrioritizedSample
+   */
+  priority: number;
+}
+
+/**
+ * A reservoir that uses forward-decaying priority sampling to maintain a statistically
+ * representative sample of values, weighted towards recent values - the same approach
+ * as the ExponentiallyDecayingReservoir of dropwizard metrics.
+ *
+ * Recent values have a higher weight within the snapshot than older values,
+ * the degree of the bias is controlled by the alpha factor.
+ *
+ * The progress in time is determined by the specified {@link Clock},
+ * use the clock of the registry to get reproducible results.
+ *
+ * @see http://dimacs.rutgers.edu/~graham/pubs/papers/fwddecay.pdf
+ * @export
+ * @class ExponentiallyDecayingReservoir
+ * @implements {Reservoir}
+ */
+export class ExponentiallyDecayingReservoir implements Reservoir {
+
+  /**
+   * Default number of samples - about 99.9% confidence level with a 5% margin of error
+   * (assuming a normal distribution).
+   *
+   * @static
+   * @type {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public static readonly DEFAULT_SIZE: number = 1028;
+  /**
+   * Default alpha factor - heavily biases the reservoir to the past 5 minutes of values.
+   *
+   * @static
+   * @type {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public static readonly DEFAULT_ALPHA: number = 0.015;
+  /**
+   * Interval of the landmark rescaling in seconds - prevents the weights from overflowing.
+   *
+   * @private
+   * @static
+   * @type {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private static readonly RESCALE_THRESHOLD: number = 60 * 60;
+
+  /**
+   * The samples organized as binary min-heap ordered by priority.
+   *
+   * @private
+   * @type {PrioritizedSample[]}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private samples: PrioritizedSample[] = [];
+  /**
+   * The landmark (in seconds) used to calculate the weight of new values.
+   *
+   * @private
+   * @type {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private startTime: number;
+  /**
+   * The point in time (in seconds) when the next rescale takes place.
+   *
+   * @private
+   * @type {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private nextScaleTime: number;
+
+  /**
+   * Creates an instance of ExponentiallyDecayingReservoir.
+   *
+   * @param {number} [maxSize=ExponentiallyDecayingReservoir.DEFAULT_SIZE] the number of samples to keep
+   * @param {number} [alpha=ExponentiallyDecayingReservoir.DEFAULT_ALPHA]
+   *      the exponential decay factor - the higher, the more biased the reservoir is towards newer values
+   * @param {Clock} [clock=new StdClock()] the clock used to determine the age of the values
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public constructor(
+    private readonly maxSize: number = ExponentiallyDecayingReservoir.DEFAULT_SIZE,
+    private readonly alpha: number = ExponentiallyDecayingReservoir.DEFAULT_ALPHA,
+    private readonly clock: Clock = new StdClock()) {
+    this.startTime = this.currentTimeInSeconds();
+    this.nextScaleTime = this.startTime + ExponentiallyDecayingReservoir.RESCALE_THRESHOLD;
+  }
+
+  /**
+   * Gets the number of samples, but at max the capacity of the reservoir.
+   *
+   * @returns {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public size(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Adds the value with a weight according to the current time of the clock.
+   * If the capacity of the reservoir is reached the sample with the lowest
+   * priority is replaced, as long as the priority of the new value is higher.
+   *
+   * @param {number} value
+   * @returns {this}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public update(value: number): this {
+    const timestamp = this.currentTimeInSeconds();
+    this.rescaleIfNeeded(timestamp);
+
+    const weight = Math.exp(this.alpha * (timestamp - this.startTime));
+    // Math.random() may return 0 but never 1
+    const priority = weight / (1.0 - Math.random());
+    const sample: PrioritizedSample = { priority, value, weight };
+
+    if (this.samples.length < this.maxSize) {
+      this.samples.push(sample);
+      this.siftUp(this.samples.length - 1);
+    } else if (this.samples[0].priority < priority) {
+      this.samples[0] = sample;
+      this.siftDown(0);
+    }
+    return this;
+  }
+
+  /**
+   * Creates a new weighted snapshot of the samples.
+   *
+   * @returns {Snapshot}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public snapshot(): Snapshot {
+    this.rescaleIfNeeded(this.currentTimeInSeconds());
+    return new WeightedSnapshot(this.samples);
+  }
+
+  /**
+   * Removes all values.
+   *
+   * @returns {this}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  public reset(): this {
+    this.samples = [];
+    this.startTime = this.currentTimeInSeconds();
+    this.nextScaleTime = this.startTime + ExponentiallyDecayingReservoir.RESCALE_THRESHOLD;
+    return this;
+  }
+
+  /**
+   * Gets the current time of the clock in seconds.
+   *
+   * @private
+   * @returns {number}
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private currentTimeInSeconds(): number {
+    const time = this.clock.time();
+    return (time.milliseconds * 1000000 + time.nanoseconds) / 1000000000;
+  }
+
+  /**
+   * Moves the landmark to the specified time if the rescale threshold is passed.
+   * All priorities and weights are multiplied by the same factor,
+   * so the order of the samples is not affected. Samples whose weight drops to zero
+   * (e.g. after a long idle period) are removed - they would distort the snapshot.
+   *
+   * @private
+   * @param {number} timestamp the current time in seconds
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private rescaleIfNeeded(timestamp: number): void {
+    if (timestamp < this.nextScaleTime) {
+      return;
+    }
+
+    const oldStartTime = this.startTime;
+    this.startTime = timestamp;
+    this.nextScaleTime = timestamp + ExponentiallyDecayingReservoir.RESCALE_THRESHOLD;
+
+    const scalingFactor = Math.exp(-this.alpha * (this.startTime - oldStartTime));
+    for (const sample of this.samples) {
+      sample.priority *= scalingFactor;
+      sample.weight *= scalingFactor;
+    }
+    const samples = this.samples.filter((sample) => sample.weight > 0);
+    if (samples.length < this.samples.length) {
+      this.samples = samples;
+      for (let index = (samples.length >> 1) - 1; index >= 0; index--) {
+        this.siftDown(index);
+      }
+    }
+  }
+
+  /**
+   * Moves the sample at the specified index up the heap until the heap property is restored.
+   *
+   * @private
+   * @param {number} index
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.samples[parent].priority <= this.samples[index].priority) {
+        return;
+      }
+      this.swap(parent, index);
+      index = parent;
+    }
+  }
+
+  /**
+   * Moves the sample at the specified index down the heap until the heap property is restored.
+   *
+   * @private
+   * @param {number} index
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private siftDown(index: number): void {
+    const length = this.samples.length;
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.samples[left].priority < this.samples[smallest].priority) {
+        smallest = left;
+      }
+      if (right < length && this.samples[right].priority < this.samples[smallest].priority) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+      this.swap(smallest, index);
+      index = smallest;
+    }
+  }
+
+  /**
+   * Swaps the samples at the specified indices.
+   *
+   * @private
+   * @param {number} a
+   * @param {number} b
+   * @memberof ExponentiallyDecayingReservoir
+   */
+  private swap(a: number, b: number): void {
+    const sample = this.samples[a];
+    this.samples[a] = this.samples[b];
+    this.samples[b] = sample;
+  }
+
 }
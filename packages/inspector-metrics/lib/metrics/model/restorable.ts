@@ -0,0 +1,115 @@
+import "source-map-support/register";
+
+import { Tags } from "./taggable";
+
+/**
+ * The exported state of a single metric - the serialized metric (see {@code toJSON})
+ * plus the type of the metric.
+ *
+ * @export
+ * @interface MetricState
+ */
+export interface MetricState {
+  /**
+   * The type of the metric (see {@link Restorable#getStateType}) - the state is only restored into metrics of the same type.
+   *
+   * @type {string}
+   * @memberof MetricState
+   */
+  type: string;
+  /**
+   * The name of the metric.
+   *
+   * @type {string}
+   * @memberof MetricState
+   */
+  name: string;
+  /**
+   * The group of the metric.
+   *
+   * @type {string}
+   * @memberof MetricState
+   */
+  group?: string;
+  /**
+   * The tags of the metric.
+   *
+   * @type {Tags}
+   * @memberof MetricState
+   */
+  tags: Tags;
+  /**
+   * The type specific values of the metric.
+   *
+   * @type {*}
+   * @memberof MetricState
+   */
+  [key: string]: any;
+}
+
+/**
+ * The exported state of all metrics of a {@link MetricRegistry}.
+ *
+ * @export
+ * @interface MetricRegistryState
+ */
+export interface MetricRegistryState {
+  /**
+   * The states of all restorable metrics.
+   *
+   * @type {MetricState[]}
+   * @memberof MetricRegistryState
+   */
+  metrics: MetricState[];
+}
+
+/**
+ * Interface for metrics whose values can be exported and restored later on,
+ * e.g. to keep the totals of counters across restarts of a process.
+ *
+ * @export
+ * @interface Restorable
+ */
+export interface Restorable {
+
+  /**
+   * Gets the type of the exported state (e.g. "Counter") - the state is only restored
+   * into metrics with the same state type.
+   *
+   * @returns {string}
+   * @memberof Restorable
+   */
+  getStateType(): string;
+
+  /**
+   * Gets the values of this metric as plain JSON.
+   *
+   * @returns {*}
+   * @memberof Restorable
+   */
+  exportState(): any;
+
+  /**
+   * Replaces the values of this metric with the ones previously exported with {@link #exportState}.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof Restorable
+   */
+  restoreState(state: any): this;
+
+}
+
+/**
+ * Determines if the metric passed is a {@link Restorable}.
+ *
+ * @export
+ * @param {*} metric
+ * @returns {metric is Restorable}
+ */
+export function isRestorable(metric: any): metric is Restorable {
+  return !!metric &&
+    typeof metric.getStateType === "function" &&
+    typeof metric.exportState === "function" &&
+    typeof metric.restoreState === "function";
+}
@@ -1,5 +1,6 @@
 import "source-map-support/register";
 
+import { isSerializedSketchSnapshot, SketchSnapshot } from "./sketch";
 import { SerializedSnapshot, SimpleSnapshot, Snapshot } from "./snapshot";
 
 /**
@@ -55,6 +56,7 @@ export function isSerializableSampling(metric: Sampling | SerializableSampling):
 
 /**
  * Convenience method to get the snapshot of a {@link Sampling} or a {@link SerializableSampling}.
+ * Serialized sketches are restored as {@link SketchSnapshot}.
  *
  * @export
  * @param {(Sampling | SerializableSampling)} metric
@@ -62,6 +64,9 @@ export function isSerializableSampling(metric: Sampling | SerializableSampling):
  */
 export function getSnapshot(metric: Sampling | SerializableSampling): Snapshot {
   if (isSerializableSampling(metric)) {
+    if (isSerializedSketchSnapshot(metric.snapshot)) {
+      return new SketchSnapshot(metric.snapshot.sketch);
+    }
     return new SimpleSnapshot(metric.snapshot.values);
   } else {
     return metric.getSnapshot();
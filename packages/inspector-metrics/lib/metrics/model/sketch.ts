@@ -0,0 +1,628 @@
+import "source-map-support/register";
+
+import { Reservoir } from "./reservoir";
+import { SerializedSnapshot, Snapshot } from "./snapshot";
+
+/**
+ * Serialized version of a {@link DDSketch} - can be sent to other processes and merged there.
+ *
+ * @export
+ * @interface SerializedSketch
+ */
+export interface SerializedSketch {
+  /**
+   * The relative accuracy of the sketch.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  relativeAccuracy: number;
+  /**
+   * The number of values added to the sketch.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  count: number;
+  /**
+   * The number of values equal to zero.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  zeroCount: number;
+  /**
+   * The smallest value added or null if the sketch is empty.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  min: number;
+  /**
+   * The biggest value added or null if the sketch is empty.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  max: number;
+  /**
+   * The sum of all values added.
+   *
+   * @type {number}
+   * @memberof SerializedSketch
+   */
+  sum: number;
+  /**
+   * Bin index to count mapping for all positive values.
+   *
+   * @type {{ [index: string]: number }}
+   * @memberof SerializedSketch
+   */
+  positive: { [index: string]: number };
+  /**
+   * Bin index to count mapping for all negative values (index of the absolute value).
+   *
+   * @type {{ [index: string]: number }}
+   * @memberof SerializedSketch
+   */
+  negative: { [index: string]: number };
+}
+
+/**
+ * A {@link SerializedSnapshot} which also carries the serialized sketch.
+ *
+ * @export
+ * @interface SerializedSketchSnapshot
+ * @extends {SerializedSnapshot}
+ */
+export interface SerializedSketchSnapshot extends SerializedSnapshot {
+  /**
+   * The serialized sketch.
+   *
+   * @type {SerializedSketch}
+   * @memberof SerializedSketchSnapshot
+   */
+  sketch: SerializedSketch;
+}
+
+/**
+ * Determines if the specified snapshot is a {@link SerializedSketchSnapshot}.
+ *
+ * @export
+ * @param {*} snapshot
+ * @returns {snapshot is SerializedSketchSnapshot}
+ */
+export function isSerializedSketchSnapshot(snapshot: any): snapshot is SerializedSketchSnapshot {
+  return !!snapshot && !!snapshot.sketch;
+}
+
+/**
+ * A quantile sketch with relative-error guarantees (DDSketch).
+ *
+ * Each value is counted in a logarithmically sized bin, so each quantile
+ * is accurate up to the configured relative accuracy - e.g. with an accuracy of 1%
+ * the p99 of 100ms is reported between 99ms and 101ms.
+ * Sketches with the same relative accuracy can be merged without loss of accuracy,
+ * which makes them suitable to calculate percentiles across processes.
+ *
+ * @see https://arxiv.org/abs/1908.10693
+ * @export
+ * @class DDSketch
+ * @implements {Reservoir}
+ */
+export class DDSketch implements Reservoir {
+
+  /**
+   * Default relative accuracy of 1%.
+   *
+   * @static
+   * @type {number}
+   * @memberof DDSketch
+   */
+  public static readonly DEFAULT_RELATIVE_ACCURACY: number = 0.01;
+
+  /**
+   * Creates a new sketch from the serialized version.
+   *
+   * @static
+   * @param {SerializedSketch} serialized
+   * @returns {DDSketch}
+   * @memberof DDSketch
+   */
+  public static fromJSON(serialized: SerializedSketch): DDSketch {
+    return new DDSketch(serialized.relativeAccuracy).merge(serialized);
+  }
+
+  /**
+   * The base of the logarithmic bin boundaries.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private readonly gamma: number;
+  /**
+   * The natural logarithm of gamma.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private readonly logGamma: number;
+  /**
+   * Bin index to count mapping for all positive values.
+   *
+   * @private
+   * @type {Map<number, number>}
+   * @memberof DDSketch
+   */
+  private readonly positive: Map<number, number> = new Map();
+  /**
+   * Bin index to count mapping for all negative values.
+   *
+   * @private
+   * @type {Map<number, number>}
+   * @memberof DDSketch
+   */
+  private readonly negative: Map<number, number> = new Map();
+  /**
+   * The number of values equal to zero.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private zeroCount: number = 0;
+  /**
+   * The number of values.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private count: number = 0;
+  /**
+   * The smallest value.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private min: number = Infinity;
+  /**
+   * The biggest value.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private max: number = -Infinity;
+  /**
+   * The sum of all values.
+   *
+   * @private
+   * @type {number}
+   * @memberof DDSketch
+   */
+  private sum: number = 0;
+
+  /**
+   * Creates an instance of DDSketch.
+   *
+   * @param {number} [relativeAccuracy=DDSketch.DEFAULT_RELATIVE_ACCURACY] needs to be between 0 and 1 (exclusive)
+   * @memberof DDSketch
+   */
+  public constructor(private readonly relativeAccuracy: number = DDSketch.DEFAULT_RELATIVE_ACCURACY) {
+    if (!(relativeAccuracy > 0.0 && relativeAccuracy < 1.0)) {
+      throw new Error(`relative accuracy needs to be between 0 and 1, got ${relativeAccuracy}`);
+    }
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  /**
+   * Gets the relative accuracy.
+   *
+   * @returns {number}
+   * @memberof DDSketch
+   */
+  public getRelativeAccuracy(): number {
+    return this.relativeAccuracy;
+  }
+
+  /**
+   * Gets the number of values added to the sketch.
+   *
+   * @returns {number}
+   * @memberof DDSketch
+   */
+  public size(): number {
+    return this.count;
+  }
+
+  /**
+   * Adds the value to the corresponding bin - {@code NaN} and infinite values are ignored,
+   * since they cannot be mapped to a bin.
+   *
+   * @param {number} value
+   * @returns {this}
+   * @memberof DDSketch
+   */
+  public update(value: number): this {
+    if (!isFinite(value)) {
+      return this;
+    }
+    if (value > 0) {
+      this.addToBin(this.positive, this.getIndex(value), 1);
+    } else if (value < 0) {
+      this.addToBin(this.negative, this.getIndex(-value), 1);
+    } else {
+      this.zeroCount++;
+    }
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+    return this;
+  }
+
+  /**
+   * Adds all values of the specified sketch to this sketch.
+   *
+   * @param {DDSketch | SerializedSketch} other
+   * @returns {this}
+   * @memberof DDSketch
+   */
+  public merge(other: DDSketch | SerializedSketch): this {
+    const serialized = other instanceof DDSketch ? other.toJSON() : other;
+    if (serialized.relativeAccuracy !== this.relativeAccuracy) {
+      throw new Error(`cannot merge sketches with different relative accuracies ` +
+        `(${this.relativeAccuracy} and ${serialized.relativeAccuracy})`);
+    }
+    if (serialized.count === 0) {
+      return this;
+    }
+    Object.keys(serialized.positive)
+      .forEach((index) => this.addToBin(this.positive, parseInt(index, 10), serialized.positive[index]));
+    Object.keys(serialized.negative)
+      .forEach((index) => this.addToBin(this.negative, parseInt(index, 10), serialized.negative[index]));
+    this.zeroCount += serialized.zeroCount;
+    this.count += serialized.count;
+    this.sum += serialized.sum;
+    this.min = Math.min(this.min, serialized.min);
+    this.max = Math.max(this.max, serialized.max);
+    return this;
+  }
+
+  /**
+   * Creates a new snapshot of the sketch.
+   *
+   * @returns {SketchSnapshot}
+   * @memberof DDSketch
+   */
+  public snapshot(): SketchSnapshot {
+    return new SketchSnapshot(this.toJSON());
+  }
+
+  /**
+   * Removes all values.
+   *
+   * @returns {this}
+   * @memberof DDSketch
+   */
+  public reset(): this {
+    this.positive.clear();
+    this.negative.clear();
+    this.zeroCount = 0;
+    this.count = 0;
+    this.min = Infinity;
+    this.max = -Infinity;
+    this.sum = 0;
+    return this;
+  }
+
+  /**
+   * Gets the serialized version of this sketch.
+   *
+   * @returns {SerializedSketch}
+   * @memberof DDSketch
+   */
+  public toJSON(): SerializedSketch {
+    const positive: { [index: string]: number } = {};
+    const negative: { [index: string]: number } = {};
+    this.positive.forEach((count, index) => positive[index] = count);
+    this.negative.forEach((count, index) => negative[index] = count);
+    return {
+      count: this.count,
+      max: this.count > 0 ? this.max : null,
+      min: this.count > 0 ? this.min : null,
+      negative,
+      positive,
+      relativeAccuracy: this.relativeAccuracy,
+      sum: this.sum,
+      zeroCount: this.zeroCount,
+    };
+  }
+
+  /**
+   * Gets the index of the bin for the specified (positive) value.
+   *
+   * @private
+   * @param {number} value
+   * @returns {number}
+   * @memberof DDSketch
+   */
+  private getIndex(value: number): number {
+    return Math.ceil(Math.log(value) / this.logGamma);
+  }
+
+  /**
+   * Adds the count to the specified bin.
+   *
+   * @private
+   * @param {Map<number, number>} bins
+   * @param {number} index
+   * @param {number} count
+   * @memberof DDSketch
+   */
+  private addToBin(bins: Map<number, number>, index: number, count: number): void {
+    bins.set(index, (bins.get(index) || 0) + count);
+  }
+
+}
+
+/**
+ * A bin of a {@link SketchSnapshot}.
+ *
+ * @interface SketchBin
+ */
+interface SketchBin {
+  /**
+   * The representative value of the bin.
+   *
+   * @type {number}
+   * @memberof SketchBin
+   */
+  value: number;
+  /**
+   * The number of values within the bin.
+   *
+   * @type {number}
+   * @memberof SketchBin
+   */
+  count: number;
+}
+
+/**
+ * Snapshot of a {@link DDSketch} - all quantiles are accurate up
+ * to the relative accuracy of the sketch.
+ *
+ * The values of the snapshot are the representative values of all non-empty bins.
+ *
+ * @export
+ * @class SketchSnapshot
+ * @implements {Snapshot}
+ * @implements {SerializedSketchSnapshot}
+ */
+export class SketchSnapshot implements Snapshot, SerializedSketchSnapshot {
+
+  /**
+   * Sorted representative values of all non-empty bins.
+   *
+   * @type {number[]}
+   * @memberof SketchSnapshot
+   */
+  public values: number[] = [];
+  /**
+   * The serialized sketch.
+   *
+   * @type {SerializedSketch}
+   * @memberof SketchSnapshot
+   */
+  public readonly sketch: SerializedSketch;
+  /**
+   * All non-empty bins in ascending order.
+   *
+   * @private
+   * @type {SketchBin[]}
+   * @memberof SketchSnapshot
+   */
+  private bins: SketchBin[] = [];
+
+  /**
+   * Creates an instance of SketchSnapshot.
+   *
+   * @param {SerializedSketch} sketch
+   * @memberof SketchSnapshot
+   */
+  public constructor(sketch: SerializedSketch) {
+    this.sketch = sketch;
+    const gamma = (1 + sketch.relativeAccuracy) / (1 - sketch.relativeAccuracy);
+    const toBins = (bins: { [index: string]: number }, sign: number) => Object.keys(bins)
+      .map((index) => ({
+        count: bins[index],
+        value: sign * 2 * Math.pow(gamma, parseInt(index, 10)) / (1 + gamma),
+      }));
+
+    this.bins = toBins(sketch.negative, -1)
+      .concat(sketch.zeroCount > 0 ? [{ count: sketch.zeroCount, value: 0 }] : [])
+      .concat(toBins(sketch.positive, 1))
+      .map((bin) => ({ count: bin.count, value: this.clamp(bin.value) }))
+      .sort((a, b) => a.value - b.value);
+    this.values = this.bins.map((bin) => bin.value);
+  }
+
+  /**
+   * Calls getValue(0.75) to get the value of the 75% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public get75thPercentile(): number {
+    return this.getValue(0.75);
+  }
+
+  /**
+   * Calls getValue(0.95) to get the value of the 95% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public get95thPercentile(): number {
+    return this.getValue(0.95);
+  }
+
+  /**
+   * Calls getValue(0.98) to get the value of the 98% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public get98thPercentile(): number {
+    return this.getValue(0.98);
+  }
+
+  /**
+   * Calls getValue(0.999) to get the value of the 99.9% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public get999thPercentile(): number {
+    return this.getValue(0.999);
+  }
+
+  /**
+   * Calls getValue(0.99) to get the value of the 99% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public get99thPercentile(): number {
+    return this.getValue(0.99);
+  }
+
+  /**
+   * Calls getValue(0.5) to get the value of the 50% boundary
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getMedian(): number {
+    return this.getValue(0.5);
+  }
+
+  /**
+   * Gets the exact maximum value.
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getMax(): number {
+    return this.sketch.count > 0 ? this.sketch.max : undefined;
+  }
+
+  /**
+   * Gets the exact minimum value.
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getMin(): number {
+    return this.sketch.count > 0 ? this.sketch.min : undefined;
+  }
+
+  /**
+   * Gets the representative values of all non-empty bins.
+   *
+   * @returns {number[]}
+   * @memberof SketchSnapshot
+   */
+  public getValues(): number[] {
+    return this.values;
+  }
+
+  /**
+   * Gets the number of values added to the sketch.
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public size(): number {
+    return this.sketch.count;
+  }
+
+  /**
+   * Gets the exact average of all values.
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getMean(): number {
+    if (this.sketch.count === 0) {
+      return 0;
+    }
+    return this.sketch.sum / this.sketch.count;
+  }
+
+  /**
+   * Gets the standard deviation among the representative values of the bins.
+   *
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getStdDev(): number {
+    if (this.sketch.count <= 1) {
+      return 0;
+    }
+
+    const mean = this.getMean();
+    let sum = 0;
+    for (const bin of this.bins) {
+      const diff = bin.value - mean;
+      sum += bin.count * diff * diff;
+    }
+
+    return Math.sqrt(sum / (this.sketch.count - 1));
+  }
+
+  /**
+   * Gets the representative value of the bin containing the specified quantile.
+   *
+   * @param {number} quantile
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  public getValue(quantile: number): number {
+    if (quantile < 0.0 || quantile > 1.0 || isNaN(quantile)) {
+      return NaN;
+    }
+
+    if (this.bins.length === 0) {
+      return 0;
+    }
+
+    const rank = quantile * (this.sketch.count - 1);
+    let cumulative = 0;
+    for (const bin of this.bins) {
+      cumulative += bin.count;
+      if (cumulative > rank) {
+        return bin.value;
+      }
+    }
+    return this.bins[this.bins.length - 1].value;
+  }
+
+  /**
+   * Limits the value to the exact minimum and maximum of the sketch.
+   *
+   * @private
+   * @param {number} value
+   * @returns {number}
+   * @memberof SketchSnapshot
+   */
+  private clamp(value: number): number {
+    return Math.min(Math.max(value, this.sketch.min), this.sketch.max);
+  }
+
+}
@@ -340,3 +340,251 @@ export class SimpleSnapshot implements Snapshot, SerializedSnapshot {
   }
 
 }
+
+/**
+ * A value with an associated weight - used by the {@link WeightedSnapshot}.
+ *
+ * @export
+ * @interface WeightedSample
+ */
+export interface WeightedSample {
+  /**
+   * The sampled value.
+   *
+   * @type {number}
+   * @memberof WeightedSample
+   */
+  value: number;
+  /**
+   * The weight of the value.
+   *
+   * @type {number}
+   * @memberof WeightedSample
+   */
+  weight: number;
+}
+
+/**
+ * A {@link Snapshot} implementation where each value has a weight - e.g. created by
+ * the {@link ExponentiallyDecayingReservoir} which weights recent values higher than older values.
+ *
+ * @export
+ * @class WeightedSnapshot
+ * @implements {Snapshot}
+ */
+export class WeightedSnapshot implements Snapshot, SerializedSnapshot {
+
+  /**
+   * Sorted collection of values.
+   *
+   * @public
+   * @type {number[]}
+   * @memberof WeightedSnapshot
+   */
+  public values: number[] = [];
+  /**
+   * Normalized weights (sum equals 1) - same order as the values.
+   *
+   * @private
+   * @type {number[]}
+   * @memberof WeightedSnapshot
+   */
+  private normWeights: number[] = [];
+  /**
+   * Cumulative normalized weights of all values before the value at the same index.
+   *
+   * @private
+   * @type {number[]}
+   * @memberof WeightedSnapshot
+   */
+  private quantiles: number[] = [];
+
+  /**
+   * Creates an instance of WeightedSnapshot.
+   *
+   * @param {WeightedSample[]} samples
+   * @memberof WeightedSnapshot
+   */
+  public constructor(samples: WeightedSample[]) {
+    const sorted = samples.slice(0, samples.length).sort((a, b) => a.value - b.value);
+    let sumWeight = 0;
+    sorted.forEach((sample) => sumWeight += sample.weight);
+
+    let cumulative = 0;
+    for (const sample of sorted) {
+      const normWeight = sumWeight !== 0 ? sample.weight / sumWeight : 0;
+      this.values.push(sample.value);
+      this.normWeights.push(normWeight);
+      this.quantiles.push(cumulative);
+      cumulative += normWeight;
+    }
+  }
+
+  /**
+   * Calls getValue(0.75) to get the value of the 75% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public get75thPercentile(): number {
+    return this.getValue(0.75);
+  }
+
+  /**
+   * Calls getValue(0.95) to get the value of the 95% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public get95thPercentile(): number {
+    return this.getValue(0.95);
+  }
+
+  /**
+   * Calls getValue(0.98) to get the value of the 98% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public get98thPercentile(): number {
+    return this.getValue(0.98);
+  }
+
+  /**
+   * Calls getValue(0.999) to get the value of the 99.9% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public get999thPercentile(): number {
+    return this.getValue(0.999);
+  }
+
+  /**
+   * Calls getValue(0.99) to get the value of the 99% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public get99thPercentile(): number {
+    return this.getValue(0.99);
+  }
+
+  /**
+   * Calls getValue(0.5) to get the value of the 50% boundary
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getMedian(): number {
+    return this.getValue(0.5);
+  }
+
+  /**
+   * Gets the last value of the value array.
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getMax(): number {
+    return this.values[this.values.length - 1];
+  }
+
+  /**
+   * Gets the first value of the value array.
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getMin(): number {
+    return this.values[0];
+  }
+
+  /**
+   * Gets the value array.
+   *
+   * @returns {number[]}
+   * @memberof WeightedSnapshot
+   */
+  public getValues(): number[] {
+    return this.values;
+  }
+
+  /**
+   * Gets the length of the value array.
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public size(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Gets the weighted average of the values.
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getMean(): number {
+    if (this.values.length === 0) {
+      return 0;
+    }
+
+    let sum = 0;
+    this.values.forEach((value, index) => sum += value * this.normWeights[index]);
+    return sum;
+  }
+
+  /**
+   * Gets the weighted standard deviation among the values.
+   *
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getStdDev(): number {
+    if (this.values.length <= 1) {
+      return 0;
+    }
+
+    const mean = this.getMean();
+    let variance = 0;
+    this.values.forEach((value, index) => {
+      const diff = value - mean;
+      variance += this.normWeights[index] * diff * diff;
+    });
+
+    return Math.sqrt(variance);
+  }
+
+  /**
+   * Gets the value of the boundary specified - the value whose cumulative
+   * weight range contains the quantile.
+   *
+   * @param {number} quantile
+   * @returns {number}
+   * @memberof WeightedSnapshot
+   */
+  public getValue(quantile: number): number {
+    if (quantile < 0.0 || quantile > 1.0 || isNaN(quantile)) {
+      return NaN;
+    }
+
+    if (this.values.length === 0) {
+      return 0;
+    }
+
+    let low = 0;
+    let high = this.quantiles.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.quantiles[middle] <= quantile) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return this.values[low];
+  }
+
+}
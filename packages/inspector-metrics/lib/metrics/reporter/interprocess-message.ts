@@ -50,6 +50,14 @@ export interface InterprocessReportMessage<T> extends InterprocessMessage {
    * @memberof InterprocessReportMessage
    */
   date: Date;
+  /**
+   * Indicates if the forked process already applied its relabel rules - the names and tags
+   * of the metrics are final in this case.
+   *
+   * @type {boolean}
+   * @memberof InterprocessReportMessage
+   */
+  relabeled?: boolean;
   /**
    * Tags from originating {@link MetricRegistry}.
    *
@@ -105,16 +105,38 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
       minReportingTimeout = 1,
       tags = new Map(),
       clusterOptions = new DefaultClusterOptions(),
+      filter,
+      relabelRules,
+      durationUnit,
+      rateUnit,
+      thresholdRules,
+      retryPolicy,
+      maxUnsentResults,
+      spool,
+      selfMetrics,
+      alignToInterval,
+      reportJitter,
   }: LoggerReporterOptions,
                      reporterType?: string) {
       super({
+          alignToInterval,
           clock,
           clusterOptions,
+          durationUnit,
+          filter,
           log,
+          maxUnsentResults,
           minReportingTimeout,
+          rateUnit,
+          relabelRules,
           reportInterval,
+          reportJitter,
+          retryPolicy,
           scheduler,
+          selfMetrics,
+          spool,
           tags,
+          thresholdRules,
           unit,
       }, reporterType);
       this.logMetadata = {
@@ -215,6 +237,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
       results: Array<ReportingResult<any, LogLine>>) {
       for (const logLine of results) {
           this.options.log.info(logLine.result.message, logLine.result.metadata);
+          this.recordSentPayload(logLine.result.message);
       }
   }
 
@@ -225,7 +248,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
    * Reported fields:
    * - count
    *
-   * Also the metadata (tags, metric group, metric name) and the date is included.
+   * Also the metadata (tags, metric group, metric name, metric unit) and the date is included.
    *
    * @protected
    * @param {(MonotoneCounter | Counter)} counter
@@ -240,6 +263,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
           ctx.logMetadata.measurement = name;
           ctx.logMetadata.group = counter.getGroup();
           ctx.logMetadata.tags = this.buildTags(ctx.registry, counter);
+          ctx.logMetadata.unit = counter.getUnit();
           return {
               message: `${ctx.date} - counter ${name}: ${counter.getCount()}`,
               metadata: Object.assign({}, ctx.logMetadata),
@@ -255,7 +279,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
    * Reported fields:
    * - value
    *
-   * Also the metadata (tags, metric group, metric name) and the date is included.
+   * Also the metadata (tags, metric group, metric name, metric unit) and the date is included.
    *
    * @protected
    * @param {Gauge<any>} gauge
@@ -269,6 +293,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
           ctx.logMetadata.measurement = name;
           ctx.logMetadata.group = gauge.getGroup();
           ctx.logMetadata.tags = this.buildTags(ctx.registry, gauge);
+          ctx.logMetadata.unit = gauge.getUnit();
           return {
               message: `${ctx.date} - gauge ${name}: ${gauge.getValue()}`,
               metadata: Object.assign({}, ctx.logMetadata),
@@ -294,7 +319,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
    * - p999 (value of the 99.9% boundary)
    * - stddev (average deviation among the values)
    *
-   * Also the metadata (tags, metric group, metric name) and the date is included.
+   * Also the metadata (tags, metric group, metric name, metric unit) and the date is included.
    *
    * @protected
    * @param {Histogram} histogram
@@ -310,6 +335,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
           ctx.logMetadata.measurement = name;
           ctx.logMetadata.group = histogram.getGroup();
           ctx.logMetadata.tags = this.buildTags(ctx.registry, histogram);
+          ctx.logMetadata.unit = histogram.getUnit();
           return {
               message: `${ctx.date} - histogram ${name}\
                           \n\tcount: ${histogram.getCount()}\
@@ -340,7 +366,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
    * - m1_rate (1 min rate)
    * - mean_rate
    *
-   * Also the metadata (tags, metric group, metric name) and the date is included.
+   * Also the metadata (tags, metric group, metric name, metric unit) and the date is included.
    *
    * @protected
    * @param {Meter} meter
@@ -355,13 +381,14 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
           ctx.logMetadata.measurement = name;
           ctx.logMetadata.group = meter.getGroup();
           ctx.logMetadata.tags = this.buildTags(ctx.registry, meter);
+          ctx.logMetadata.unit = meter.getUnit();
           return {
               message: `${ctx.date} - meter ${name}\
                           \n\tcount: ${meter.getCount()}\
-                          \n\tm15_rate: ${this.getNumber(meter.get15MinuteRate())}\
-                          \n\tm5_rate: ${this.getNumber(meter.get5MinuteRate())}\
-                          \n\tm1_rate: ${this.getNumber(meter.get1MinuteRate())}\
-                          \n\tmean_rate: ${this.getNumber(meter.getMeanRate())}`,
+                          \n\tm15_rate: ${this.getNumber(this.convertRate(meter.get15MinuteRate()))}\
+                          \n\tm5_rate: ${this.getNumber(this.convertRate(meter.get5MinuteRate()))}\
+                          \n\tm1_rate: ${this.getNumber(this.convertRate(meter.get1MinuteRate()))}\
+                          \n\tmean_rate: ${this.getNumber(this.convertRate(meter.getMeanRate()))}`,
               metadata: Object.assign({}, ctx.logMetadata),
           };
       }
@@ -389,7 +416,7 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
    * - m1_rate (1 min rate)
    * - mean_rate
    *
-   * Also the metadata (tags, metric group, metric name) and the date is included.
+   * Also the metadata (tags, metric group, metric name, metric unit) and the date is included.
    *
    * @protected
    * @param {Timer} timer
@@ -405,23 +432,24 @@ export class LoggerReporter extends ScheduledMetricReporter<LoggerReporterOption
           ctx.logMetadata.measurement = name;
           ctx.logMetadata.group = timer.getGroup();
           ctx.logMetadata.tags = this.buildTags(ctx.registry, timer);
+          ctx.logMetadata.unit = timer.getUnit();
           return {
               message: `${ctx.date} - timer ${name}\
                           \n\tcount: ${timer.getCount()}\
-                          \n\tm15_rate: ${this.getNumber(timer.get15MinuteRate())}\
-                          \n\tm5_rate: ${this.getNumber(timer.get5MinuteRate())}\
-                          \n\tm1_rate: ${this.getNumber(timer.get1MinuteRate())}\
-                          \n\tmean_rate: ${this.getNumber(timer.getMeanRate())}\
-                          \n\tmax: ${this.getNumber(snapshot.getMax())}\
-                          \n\tmean: ${this.getNumber(snapshot.getMean())}\
-                          \n\tmin: ${this.getNumber(snapshot.getMin())}\
-                          \n\tp50: ${this.getNumber(snapshot.getMedian())}\
-                          \n\tp75: ${this.getNumber(snapshot.get75thPercentile())}\
-                          \n\tp95: ${this.getNumber(snapshot.get95thPercentile())}\
-                          \n\tp98: ${this.getNumber(snapshot.get98thPercentile())}\
-                          \n\tp99: ${this.getNumber(snapshot.get99thPercentile())}\
-                          \n\tp999: ${this.getNumber(snapshot.get999thPercentile())}\
-                          \n\tstddev: ${this.getNumber(snapshot.getStdDev())}`,
+                          \n\tm15_rate: ${this.getNumber(this.convertRate(timer.get15MinuteRate()))}\
+                          \n\tm5_rate: ${this.getNumber(this.convertRate(timer.get5MinuteRate()))}\
+                          \n\tm1_rate: ${this.getNumber(this.convertRate(timer.get1MinuteRate()))}\
+                          \n\tmean_rate: ${this.getNumber(this.convertRate(timer.getMeanRate()))}\
+                          \n\tmax: ${this.getNumber(this.convertDuration(snapshot.getMax()))}\
+                          \n\tmean: ${this.getNumber(this.convertDuration(snapshot.getMean()))}\
+                          \n\tmin: ${this.getNumber(this.convertDuration(snapshot.getMin()))}\
+                          \n\tp50: ${this.getNumber(this.convertDuration(snapshot.getMedian()))}\
+                          \n\tp75: ${this.getNumber(this.convertDuration(snapshot.get75thPercentile()))}\
+                          \n\tp95: ${this.getNumber(this.convertDuration(snapshot.get95thPercentile()))}\
+                          \n\tp98: ${this.getNumber(this.convertDuration(snapshot.get98thPercentile()))}\
+                          \n\tp99: ${this.getNumber(this.convertDuration(snapshot.get99thPercentile()))}\
+                          \n\tp999: ${this.getNumber(this.convertDuration(snapshot.get999thPercentile()))}\
+                          \n\tstddev: ${this.getNumber(this.convertDuration(snapshot.getStdDev()))}`,
               metadata: Object.assign({}, ctx.logMetadata),
           };
       }
@@ -0,0 +1,152 @@
+import "source-map-support/register";
+
+import { getMetricGroup, getMetricName, getMetricTags, Metric, SerializableMetric } from "../model/metric";
+import { MetricType } from "./metric-type";
+
+/**
+ * A pattern to match a string against - either a glob-like pattern supporting
+ * "*" (any number of characters) and "?" (exactly one character) or a regular expression.
+ */
+export type MetricFilterPattern = string | RegExp;
+
+/**
+ * A single include / exclude rule of a {@link MetricFilter}.
+ * A metric matches a rule if it matches all conditions set in the rule.
+ *
+ * @export
+ * @interface MetricFilterRule
+ */
+export interface MetricFilterRule {
+  /**
+   * Pattern for the name of the metric.
+   *
+   * @type {MetricFilterPattern}
+   * @memberof MetricFilterRule
+   */
+  name?: MetricFilterPattern;
+  /**
+   * Pattern for the group of the metric.
+   *
+   * @type {MetricFilterPattern}
+   * @memberof MetricFilterRule
+   */
+  group?: MetricFilterPattern;
+  /**
+   * The metric type(s) the rule applies to.
+   *
+   * @type {(MetricType | MetricType[])}
+   * @memberof MetricFilterRule
+   */
+  type?: MetricType | MetricType[];
+  /**
+   * Patterns for tag values by tag name - a metric without the tag does not match.
+   *
+   * @type {{ [name: string]: MetricFilterPattern }}
+   * @memberof MetricFilterRule
+   */
+  tags?: { [name: string]: MetricFilterPattern };
+}
+
+/**
+ * Declarative filter of the metrics to report.
+ *
+ * A metric is reported if it matches any of the include rules (or no include rules are set)
+ * and none of the exclude rules.
+ *
+ * @export
+ * @interface MetricFilter
+ */
+export interface MetricFilter {
+  /**
+   * Rules for the metrics to report - all metrics are included if not set or empty.
+   *
+   * @type {MetricFilterRule[]}
+   * @memberof MetricFilter
+   */
+  include?: MetricFilterRule[];
+  /**
+   * Rules for the metrics not to report - takes precedence over the include rules.
+   *
+   * @type {MetricFilterRule[]}
+   * @memberof MetricFilter
+   */
+  exclude?: MetricFilterRule[];
+}
+
+/**
+ * Determines if the specified metric (or serialized metric) of the given type passes the filter.
+ *
+ * @export
+ * @param {MetricFilter} filter
+ * @param {(Metric | SerializableMetric)} metric
+ * @param {MetricType} type
+ * @returns {boolean}
+ */
+export function matchesFilter(filter: MetricFilter, metric: Metric | SerializableMetric, type: MetricType): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (filter.include && filter.include.length > 0 &&
+      !filter.include.some((rule) => matchesRule(rule, metric, type))) {
+    return false;
+  }
+  return !filter.exclude || !filter.exclude.some((rule) => matchesRule(rule, metric, type));
+}
+
+/**
+ * Determines if the specified metric matches all conditions of the rule.
+ *
+ * @param {MetricFilterRule} rule
+ * @param {(Metric | SerializableMetric)} metric
+ * @param {MetricType} type
+ * @returns {boolean}
+ */
+function matchesRule(rule: MetricFilterRule, metric: Metric | SerializableMetric, type: MetricType): boolean {
+  if (rule.type) {
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (types.indexOf(type) === -1) {
+      return false;
+    }
+  }
+  if (rule.name && !matchesPattern(rule.name, getMetricName(metric))) {
+    return false;
+  }
+  if (rule.group && !matchesPattern(rule.group, getMetricGroup(metric))) {
+    return false;
+  }
+  if (rule.tags) {
+    const tags = getMetricTags(metric) || {};
+    return Object.keys(rule.tags)
+        .every((tag) => tags.hasOwnProperty(tag) && matchesPattern(rule.tags[tag], tags[tag]));
+  }
+  return true;
+}
+
+/**
+ * Matches the value against a glob-like pattern or a regular expression.
+ *
+ * @param {MetricFilterPattern} pattern
+ * @param {string} value
+ * @returns {boolean}
+ */
+function matchesPattern(pattern: MetricFilterPattern, value: string): boolean {
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  }
+  const regex = pattern
+      .split("")
+      .map((char) => {
+          if (char === "*") {
+              return ".*";
+          } else if (char === "?") {
+              return ".";
+          }
+          return char.replace(/[\\^$.|+()[\]{}]/g, "\\$&");
+      })
+      .join("");
+  return new RegExp(`^${regex}$`).test(value);
+}
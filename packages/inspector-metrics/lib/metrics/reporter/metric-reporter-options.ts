@@ -3,6 +3,11 @@ import "source-map-support/register";
 import * as cluster from "cluster";
 
 import { Clock } from "../clock";
+import { MetricRegistry } from "../metric-registry";
+import { TimeUnit } from "../model/time-unit";
+import { Logger } from "./logger";
+import { MetricFilter } from "./metric-filter";
+import { RelabelRule } from "./relabel-rule";
 import { ReportMessageReceiver } from "./report-message-receiver";
 
 /**
@@ -96,6 +101,52 @@ export interface MetricReporterOptions {
    * @memberof MetricReporterOptions
    */
   tags?: Map<string, string>;
+  /**
+   * Include / exclude rules for the metrics to report - applied to the metrics of all registries
+   * as well as to the metrics received from forked processes.
+   *
+   * @type {MetricFilter}
+   * @memberof MetricReporterOptions
+   */
+  filter?: MetricFilter;
+  /**
+   * Rules to rename metrics, to drop, add or rename tags or to drop metrics - applied in order
+   * to the name and the combined tags of each metric before it is reported.
+   *
+   * @type {RelabelRule[]}
+   * @memberof MetricReporterOptions
+   */
+  relabelRules?: RelabelRule[];
+  /**
+   * The unit durations (the snapshot values of timers) are reported in - defaults to {@link NANOSECOND}.
+   *
+   * @type {TimeUnit}
+   * @memberof MetricReporterOptions
+   */
+  durationUnit?: TimeUnit;
+  /**
+   * The unit rates (of meters and timers) are reported in - e.g. {@link MINUTE} for events per minute,
+   * defaults to {@link SECOND}.
+   *
+   * @type {TimeUnit}
+   * @memberof MetricReporterOptions
+   */
+  rateUnit?: TimeUnit;
+  /**
+   * Registry the reporter publishes metrics about itself into (e.g. duration of the reporting runs,
+   * send failures, bytes sent) - see {@link ReporterMetrics}.
+   *
+   * @type {MetricRegistry}
+   * @memberof MetricReporterOptions
+   */
+  selfMetrics?: MetricRegistry;
+  /**
+   * Logs errors of the reporting (e.g. metrics which could not be reported).
+   *
+   * @type {Logger}
+   * @memberof MetricReporterOptions
+   */
+  log?: Logger;
 }
 
 /**
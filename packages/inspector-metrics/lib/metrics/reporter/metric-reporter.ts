@@ -1,22 +1,35 @@
 import "source-map-support/register";
 
 import * as cluster from "cluster";
+import { diff } from "../clock";
 import { Counter, MonotoneCounter } from "../counter";
 import { Event } from "../event";
+import { AsyncGauge } from "../function-gauge";
 import { Gauge } from "../gauge";
 import { Histogram } from "../histogram";
 import { Meter } from "../meter";
-import { MetricRegistry } from "../metric-registry";
-import { getMetricTags, Metric } from "../model/metric";
+import { MetricRegistry, MetricRegistryListenerRegistration } from "../metric-registry";
+import { Buckets } from "../model/counting";
+import { IntervalRecording, isIntervalMode } from "../model/interval-recording";
+import { getMetricName, getMetricTags, isSerializableMetric, Metric, SerializableMetric } from "../model/metric";
 import { Taggable, Tags, tagsToMap } from "../model/taggable";
-import { MILLISECOND, MINUTE } from "../model/time-unit";
+import { MILLISECOND, MINUTE, NANOSECOND, SECOND } from "../model/time-unit";
+import {
+    isSharedMetricRegistries,
+    SharedMetricRegistries,
+    SharedMetricRegistriesListenerRegistration,
+} from "../shared-metric-registries";
+import { isSerializedSketchHistogram, SerializedSketchHistogram, SketchHistogram } from "../sketch-histogram";
 import { Timer } from "../timer";
 import { InterprocessMessage, InterprocessReportMessage } from "./interprocess-message";
 import { MetricEntry } from "./metric-entry";
+import { matchesFilter } from "./metric-filter";
 import { MetricReporterOptions } from "./metric-reporter-options";
 import { MetricSetReportContext } from "./metric-set-report-context";
 import { MetricType } from "./metric-type";
 import { OverallReportContext } from "./overall-report-context";
+import { relabel, RelabeledMetric, validateRelabelRules } from "./relabel-rule";
+import { ReporterMetrics } from "./reporter-metrics";
 import { ReportingResult } from "./reporting-result";
 
 /**
@@ -56,28 +69,31 @@ export interface IMetricReporter {
    * Implementations stop reporting metrics when called.
    *
    * @abstract
+   * @param {number} [timeout] the max time in milliseconds to wait for a final report
    * @returns {Promise<this>}
    * @memberof IMetricReporter
    */
-  stop(): Promise<this>;
+  stop(timeout?: number): Promise<this>;
 
   /**
-   * Adds a new {@link MetricRegistry} to be reported.
+   * Adds a new {@link MetricRegistry} to be reported -
+   * or all {@link SharedMetricRegistries} (including the ones added later) if {@link SharedMetricRegistries} is passed.
    *
-   * @param {MetricRegistry} metricRegistry
+   * @param {(MetricRegistry | typeof SharedMetricRegistries)} metricRegistry
    * @returns {this}
    * @memberof IMetricReporter
    */
-  addMetricRegistry(metricRegistry: MetricRegistry): this;
+  addMetricRegistry(metricRegistry: MetricRegistry | typeof SharedMetricRegistries): this;
 
   /**
-   * Removes the given {@link MetricRegistry} if it was previously added.
+   * Removes the given {@link MetricRegistry} if it was previously added -
+   * or all {@link SharedMetricRegistries} if {@link SharedMetricRegistries} is passed.
    *
-   * @param {MetricRegistry} metricRegistry
+   * @param {(MetricRegistry | typeof SharedMetricRegistries)} metricRegistry
    * @returns {this}
    * @memberof IMetricReporter
    */
-  removeMetricRegistry(metricRegistry: MetricRegistry): this;
+  removeMetricRegistry(metricRegistry: MetricRegistry | typeof SharedMetricRegistries): this;
 
   /**
    * Reports an {@link Event}.
@@ -144,6 +160,88 @@ class TagsOnlyMetricRegistry {
 
 }
 
+/**
+ * The ownership of the intervals of metrics in interval mode - released once the owning reporter
+ * is stopped or a registry is removed from it.
+ *
+ * @interface IntervalOwnership
+ */
+interface IntervalOwnership {
+  released: boolean;
+}
+
+/**
+ * The latest serialized {@link SketchHistogram} instances of the worker processes for a single metric identity.
+ *
+ * @interface WorkerSketchHistograms
+ */
+interface WorkerSketchHistograms {
+  /**
+   * The reporter tags of the latest worker report containing the metric.
+   *
+   * @type {Tags}
+   * @memberof WorkerSketchHistograms
+   */
+  tags: Tags;
+  /**
+   * The latest histogram by id of the worker.
+   *
+   * @type {Map<number, SerializedSketchHistogram>}
+   * @memberof WorkerSketchHistograms
+   */
+  histograms: Map<number, SerializedSketchHistogram>;
+  /**
+   * The time in milliseconds of the latest report by id of the worker.
+   *
+   * @type {Map<number, number>}
+   * @memberof WorkerSketchHistograms
+   */
+  updates: Map<number, number>;
+  /**
+   * Indicates if the worker already applied its relabel rules to the histograms.
+   *
+   * @type {boolean}
+   * @memberof WorkerSketchHistograms
+   */
+  relabeled: boolean;
+}
+
+/**
+ * Creates a view of the specified (serialized) metric with the relabeled name and tags - all other
+ * properties and methods are delegated to the metric.
+ *
+ * @template M type of the metric
+ * @param {M} metric
+ * @param {RelabeledMetric} relabeled
+ * @returns {M}
+ */
+function createRelabeledView<M extends Metric | SerializableMetric>(metric: M, relabeled: RelabeledMetric): M {
+    const serialized = isSerializableMetric(metric);
+    const tagMap = tagsToMap(relabeled.tags);
+    return new Proxy(metric, {
+        get: (target, property, receiver) => {
+            if (property === "name") {
+                return relabeled.name;
+            } else if (property === "tags") {
+                return relabeled.tags;
+            } else if (!serialized && property === "getName") {
+                return () => relabeled.name;
+            } else if (!serialized && property === "getTags") {
+                return () => tagMap;
+            } else if (!serialized && property === "getTag") {
+                return (name: string) => tagMap.get(name);
+            }
+            return Reflect.get(target, property, receiver);
+        },
+    });
+}
+
+/**
+ * The reporter owning the intervals of each metric in interval mode - only the owner completes the intervals,
+ * so multiple reporters of the same registry do not reset the intervals of each other.
+ */
+const intervalOwners: WeakMap<IntervalRecording, IntervalOwnership> = new WeakMap();
+
 /**
  * Base-class for metric-reporter implementations.
  *
@@ -189,6 +287,52 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
    * @memberof MetricReporter
    */
   protected readonly metricStates: Map<number, MetricEntry> = new Map();
+  /**
+   * The registrations of the listeners removing the reporting state of each metric
+   * removed from one of the {@link MetricRegistry} instances.
+   *
+   * @protected
+   * @readonly
+   * @type {Map<MetricRegistry, MetricRegistryListenerRegistration>}
+   * @memberof MetricReporter
+   */
+  protected readonly metricRegistryListeners: Map<MetricRegistry, MetricRegistryListenerRegistration> = new Map();
+  /**
+   * The registration of the listener adding / removing the {@link SharedMetricRegistries} -
+   * {@code null} if the shared registries are not reported.
+   *
+   * @protected
+   * @type {SharedMetricRegistriesListenerRegistration}
+   * @memberof MetricReporter
+   */
+  protected sharedRegistriesListener: SharedMetricRegistriesListenerRegistration = null;
+  /**
+   * Indicates if the {@link SharedMetricRegistries} are reported - the listener is only registered
+   * while the reporter is started (or until it is stopped).
+   *
+   * @protected
+   * @type {boolean}
+   * @memberof MetricReporter
+   */
+  protected reportSharedRegistries: boolean = false;
+  /**
+   * The registries passed to {@link #addMetricRegistry} explicitly.
+   *
+   * @private
+   * @readonly
+   * @type {Set<MetricRegistry>}
+   * @memberof MetricReporter
+   */
+  private readonly addedRegistries: Set<MetricRegistry> = new Set();
+  /**
+   * The registries reported as part of the {@link SharedMetricRegistries}.
+   *
+   * @private
+   * @readonly
+   * @type {Set<MetricRegistry>}
+   * @memberof MetricReporter
+   */
+  private readonly sharedRegistries: Set<MetricRegistry> = new Set();
   /**
    * The type of the reporter implementation - for internal use.
    *
@@ -198,6 +342,55 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
    * @memberof MetricReporter
    */
   protected readonly reporterType: string;
+  /**
+   * The relabeled views of the metrics of the current reporting run - their tags are
+   * the final tags, see {@link #buildTags}.
+   *
+   * @protected
+   * @readonly
+   * @type {WeakSet<Taggable>}
+   * @memberof MetricReporter
+   */
+  protected readonly relabeledMetrics: WeakSet<Taggable> = new WeakSet();
+  /**
+   * The ownership of the intervals completed by this reporter - see {@link #swapIntervals}.
+   *
+   * @private
+   * @type {IntervalOwnership}
+   * @memberof MetricReporter
+   */
+  private intervalOwnership: IntervalOwnership = { released: false };
+  /**
+   * The latest serialized {@link SketchHistogram} instances of each worker process
+   * by metric identity - used to merge the sketches of all workers in the master process.
+   * The histograms of a worker are removed once the worker exits or if they were not
+   * refreshed within the max age (see {@link #getWorkerSketchMaxAge}).
+   *
+   * @private
+   * @readonly
+   * @type {Map<string, WorkerSketchHistograms>}
+   * @memberof MetricReporter
+   */
+  private readonly workerSketchHistograms: Map<string, WorkerSketchHistograms> = new Map();
+  /**
+   * The single listener for the 'exit' event of the workers - registered with the first
+   * sketch histogram of a worker and removed in {@link #removeWorkerExitListener}.
+   *
+   * @private
+   * @type {(worker: cluster.Worker) => void}
+   * @memberof MetricReporter
+   */
+  private workerExitListener: (worker: cluster.Worker) => void = null;
+  /**
+   * The metrics about this reporter - {@code null} if no {@link MetricReporterOptions#selfMetrics}
+   * registry is specified.
+   *
+   * @protected
+   * @readonly
+   * @type {ReporterMetrics}
+   * @memberof MetricReporter
+   */
+  protected readonly reporterMetrics: ReporterMetrics = null;
 
   /**
    * Creates an instance of MetricReporter.
@@ -209,6 +402,10 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
   public constructor(options: O, reporterType?: string) {
       this.options = options;
       this.reporterType = reporterType || this.constructor.name;
+      validateRelabelRules(this.options.relabelRules);
+      if (this.options.selfMetrics) {
+          this.reporterMetrics = new ReporterMetrics(this.options.selfMetrics, this.reporterType, this.options.clock);
+      }
       const clusterOptions = this.options.clusterOptions;
       if (clusterOptions &&
           clusterOptions.enabled &&
@@ -253,34 +450,50 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
    * Implementations stop reporting metrics when called.
    *
    * @abstract
+   * @param {number} [timeout] the max time in milliseconds to wait for a final report
    * @returns {Promise<this>}
    * @memberof MetricReporter
    */
-  public abstract stop(): Promise<this>;
+  public abstract stop(timeout?: number): Promise<this>;
 
   /**
-   * Adds a new {@link MetricRegistry} to be reported.
+   * Adds a new {@link MetricRegistry} to be reported -
+   * or all {@link SharedMetricRegistries} (including the ones added later) if {@link SharedMetricRegistries} is passed.
+   * A registry added explicitly and as shared registry is reported once.
    *
-   * @param {MetricRegistry} metricRegistry
+   * @param {(MetricRegistry | typeof SharedMetricRegistries)} metricRegistry
    * @returns {this}
    * @memberof MetricReporter
    */
-  public addMetricRegistry(metricRegistry: MetricRegistry): this {
-      this.metricRegistries.push(metricRegistry);
+  public addMetricRegistry(metricRegistry: MetricRegistry | typeof SharedMetricRegistries): this {
+      if (isSharedMetricRegistries(metricRegistry)) {
+          this.reportSharedRegistries = true;
+          this.attachSharedRegistries();
+          return this;
+      }
+      this.addedRegistries.add(metricRegistry);
+      this.includeRegistry(metricRegistry);
       return this;
   }
 
   /**
-   * Removes the given {@link MetricRegistry} if it was previously added.
+   * Removes the given {@link MetricRegistry} if it was previously added -
+   * or all {@link SharedMetricRegistries} if {@link SharedMetricRegistries} is passed.
+   * Registries added explicitly and as shared registry are only removed once they are removed both ways.
    *
-   * @param {MetricRegistry} metricRegistry
+   * @param {(MetricRegistry | typeof SharedMetricRegistries)} metricRegistry
    * @returns {this}
    * @memberof MetricReporter
    */
-  public removeMetricRegistry(metricRegistry: MetricRegistry): this {
-      const index: number = this.metricRegistries.indexOf(metricRegistry);
-      if (index > -1) {
-          this.metricRegistries.splice(index, 1);
+  public removeMetricRegistry(metricRegistry: MetricRegistry | typeof SharedMetricRegistries): this {
+      if (isSharedMetricRegistries(metricRegistry)) {
+          this.reportSharedRegistries = false;
+          this.detachSharedRegistries();
+          return this;
+      }
+      this.addedRegistries.delete(metricRegistry);
+      if (!this.sharedRegistries.has(metricRegistry)) {
+          this.excludeRegistry(metricRegistry);
       }
       return this;
   }
@@ -344,13 +557,241 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
       if (this.canHandleMessage(message)) {
           const report: InterprocessReportMessage<T> = message;
           const reg: MetricRegistry = (new TagsOnlyMetricRegistry(report.tags) as any) as MetricRegistry;
-          await this.handleResults(report.ctx, reg, report.date, "counter", report.metrics.monotoneCounters);
-          await this.handleResults(report.ctx, reg, report.date, "counter", report.metrics.counters);
-          await this.handleResults(report.ctx, reg, report.date, "gauge", report.metrics.gauges);
-          await this.handleResults(report.ctx, reg, report.date, "histogram", report.metrics.histograms);
-          await this.handleResults(report.ctx, reg, report.date, "meter", report.metrics.meters);
-          await this.handleResults(report.ctx, reg, report.date, "timer", report.metrics.timers);
+          const prepare = (results: Array<ReportingResult<any, T>>, type: MetricType) =>
+              this.relabelResults(reg, this.filterResults(results, type), !!report.relabeled);
+          await this.handleResults(report.ctx, reg, report.date, "counter",
+              prepare(report.metrics.monotoneCounters, "counter"));
+          await this.handleResults(report.ctx, reg, report.date, "counter",
+              prepare(report.metrics.counters, "counter"));
+          await this.handleResults(report.ctx, reg, report.date, "gauge",
+              prepare(report.metrics.gauges, "gauge"));
+          await this.handleResults(report.ctx, reg, report.date, "histogram",
+              prepare(this.collectSketchHistograms(worker, report), "histogram"));
+          await this.handleResults(report.ctx, reg, report.date, "meter",
+              prepare(report.metrics.meters, "meter"));
+          await this.handleResults(report.ctx, reg, report.date, "timer",
+              prepare(report.metrics.timers, "timer"));
+      }
+  }
+
+  /**
+   * Removes the results of all (serialized) metrics not passing the filter of this reporter.
+   *
+   * @protected
+   * @param {Array<ReportingResult<any, T>>} results
+   * @param {MetricType} type
+   * @returns {Array<ReportingResult<any, T>>}
+   * @memberof MetricReporter
+   */
+  protected filterResults(
+      results: Array<ReportingResult<any, T>>,
+      type: MetricType): Array<ReportingResult<any, T>> {
+      return results.filter((result) => matchesFilter(this.options.filter, result.metric, type));
+  }
+
+  /**
+   * Applies the relabel rules of this reporter to the (serialized) metrics of the results
+   * from a worker process (see {@link #relabelMetric}) and removes the results of dropped metrics.
+   * The metrics are reported with their names and tags unchanged if the worker already relabeled them.
+   *
+   * @protected
+   * @param {MetricRegistry} registry
+   * @param {Array<ReportingResult<any, T>>} results
+   * @param {boolean} relabeled
+   * @returns {Array<ReportingResult<any, T>>}
+   * @memberof MetricReporter
+   */
+  protected relabelResults(
+      registry: MetricRegistry,
+      results: Array<ReportingResult<any, T>>,
+      relabeled: boolean): Array<ReportingResult<any, T>> {
+      const relabeledResults: Array<ReportingResult<any, T>> = [];
+      for (const result of results) {
+          if (!result.metric) {
+              relabeledResults.push(result);
+          } else if (relabeled) {
+              this.relabeledMetrics.add(result.metric);
+              relabeledResults.push(result);
+          } else {
+              const metric = this.relabelMetric(registry, result.metric);
+              if (metric) {
+                  relabeledResults.push({ metric, result: result.result });
+              }
+          }
+      }
+      return relabeledResults;
+  }
+
+  /**
+   * Called in {@link #handleReportMessage} to store the {@link SketchHistogram} instances
+   * of the reporting worker - the sketches of all workers are merged and reported
+   * once per reporting run of the master (see {@link #reportSketchHistograms}),
+   * so the reported percentiles represent all worker processes.
+   *
+   * @protected
+   * @param {cluster.Worker} worker
+   * @param {InterprocessReportMessage<T>} report
+   * @returns {Array<ReportingResult<any, T>>} the results of all other histograms - passed through unchanged
+   * @memberof MetricReporter
+   */
+  protected collectSketchHistograms(
+      worker: cluster.Worker,
+      report: InterprocessReportMessage<T>): Array<ReportingResult<any, T>> {
+
+      const now = this.options.clock.time().milliseconds;
+      return report.metrics.histograms
+          .filter((result) => {
+              if (!isSerializedSketchHistogram(result.metric)) {
+                  return true;
+              }
+              const serialized = result.metric;
+              const key = JSON.stringify([
+                  serialized.name,
+                  serialized.group,
+                  Object.keys(serialized.tags || {}).sort().map((tag) => [tag, serialized.tags[tag]]),
+              ]);
+              if (!this.workerSketchHistograms.has(key)) {
+                  this.workerSketchHistograms.set(
+                      key, { histograms: new Map(), relabeled: false, tags: null, updates: new Map() });
+              }
+              const workerHistograms = this.workerSketchHistograms.get(key);
+              workerHistograms.tags = report.tags;
+              workerHistograms.relabeled = !!report.relabeled;
+              workerHistograms.histograms.set(worker ? worker.id : null, serialized);
+              workerHistograms.updates.set(worker ? worker.id : null, now);
+              this.addWorkerExitListener();
+              return false;
+          });
+  }
+
+  /**
+   * Gets the max age in milliseconds of the sketch histograms of a worker - histograms which were not
+   * refreshed within this time are dropped before merging (see {@link #reportSketchHistograms}).
+   * Returns {@code Infinity} by default, so histograms are only dropped once the worker exits.
+   *
+   * @protected
+   * @returns {number}
+   * @memberof MetricReporter
+   */
+  protected getWorkerSketchMaxAge(): number {
+      return Infinity;
+  }
+
+  /**
+   * Removes the listener for the 'exit' event of the workers (if registered) and the collected
+   * sketch histograms of all workers - called when the reporter is stopped.
+   *
+   * @protected
+   * @memberof MetricReporter
+   */
+  protected removeWorkerExitListener(): void {
+      const eventReceiver = this.options.clusterOptions ? this.options.clusterOptions.eventReceiver : null;
+      if (this.workerExitListener && eventReceiver && eventReceiver.removeListener) {
+          eventReceiver.removeListener("exit", this.workerExitListener);
+      }
+      this.workerExitListener = null;
+      this.workerSketchHistograms.clear();
+  }
+
+  /**
+   * Merges the latest {@link SketchHistogram} instances of all workers (see {@link #collectSketchHistograms})
+   * and reports a single merged histogram per metric - filtered and relabeled like the metrics
+   * of the registries. Histograms of workers which were not refreshed within the max age
+   * (see {@link #getWorkerSketchMaxAge}) are dropped first. Called once per reporting run.
+   *
+   * @protected
+   * @param {OverallReportContext} ctx
+   * @returns {Promise<void>}
+   * @memberof MetricReporter
+   */
+  protected async reportSketchHistograms(ctx: OverallReportContext): Promise<void> {
+      const date: Date = new Date(this.options.clock.time().milliseconds);
+      this.removeStaleWorkerSketchHistograms(date.getTime() - this.getWorkerSketchMaxAge());
+      for (const workerHistograms of this.workerSketchHistograms.values()) {
+          const reg: MetricRegistry = (new TagsOnlyMetricRegistry(workerHistograms.tags) as any) as MetricRegistry;
+          const histogramCtx: MetricSetReportContext<Histogram> = this
+              .createMetricSetReportContext(ctx, reg, date, "histogram");
+          let merged: SketchHistogram = null;
+          workerHistograms.histograms.forEach((serialized) => {
+              if (!merged) {
+                  merged = new SketchHistogram(
+                      serialized.snapshot.sketch.relativeAccuracy,
+                      serialized.name,
+                      serialized.description,
+                      new Buckets(serialized.buckets));
+                  merged.setGroup(serialized.group);
+                  merged.setTags(tagsToMap(serialized.tags));
+              }
+              merged.merge(serialized);
+          });
+          if (!matchesFilter(this.options.filter, merged, "histogram")) {
+              continue;
+          }
+          const [histogram] = this.relabelResults(reg, [{ metric: merged, result: null }], workerHistograms.relabeled)
+              .map((result) => result.metric as Histogram);
+          if (!histogram) {
+              continue;
+          }
+          histogramCtx.metrics = [histogram];
+          const result = this.reportHistogram(histogram, histogramCtx);
+          if (result) {
+              await this.handleResults(ctx, reg, date, "histogram", [{ metric: histogram, result }]);
+          }
+      }
+  }
+
+  /**
+   * Removes the {@link SketchHistogram} instances of the specified worker - called when the worker exits.
+   *
+   * @protected
+   * @param {cluster.Worker} worker
+   * @memberof MetricReporter
+   */
+  protected removeWorkerSketchHistograms(worker: cluster.Worker): void {
+      const id = worker ? worker.id : null;
+      this.workerSketchHistograms.forEach((workerHistograms, key) => {
+          workerHistograms.histograms.delete(id);
+          workerHistograms.updates.delete(id);
+          if (workerHistograms.histograms.size === 0) {
+              this.workerSketchHistograms.delete(key);
+          }
+      });
+  }
+
+  /**
+   * Removes the {@link SketchHistogram} instances of all workers which were last refreshed before the specified time.
+   *
+   * @private
+   * @param {number} oldest the time in milliseconds of the oldest histograms to keep
+   * @memberof MetricReporter
+   */
+  private removeStaleWorkerSketchHistograms(oldest: number): void {
+      this.workerSketchHistograms.forEach((workerHistograms, key) => {
+          workerHistograms.updates.forEach((time, id) => {
+              if (time < oldest) {
+                  workerHistograms.histograms.delete(id);
+                  workerHistograms.updates.delete(id);
+              }
+          });
+          if (workerHistograms.histograms.size === 0) {
+              this.workerSketchHistograms.delete(key);
+          }
+      });
+  }
+
+  /**
+   * Registers the single listener for the 'exit' event of the workers, unless already registered.
+   *
+   * @private
+   * @memberof MetricReporter
+   */
+  private addWorkerExitListener(): void {
+      const eventReceiver = this.options.clusterOptions ? this.options.clusterOptions.eventReceiver : null;
+      if (this.workerExitListener || !eventReceiver) {
+          return;
       }
+      this.workerExitListener = (worker) => this.removeWorkerSketchHistograms(worker);
+      eventReceiver.on("exit", this.workerExitListener);
   }
 
   /**
@@ -374,19 +815,24 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
   /**
    * Run the reporting procedures. Calls {@link #beforeReport} before each
    * {@link MetricRegistry}'s metrics are reported and {@link #afterReport}
-   * afterwards.
+   * afterwards. The merged sketch histograms of the workers are reported after the registries.
    *
    * @protected
    * @memberof MetricReporter
    */
   protected async report(): Promise<OverallReportContext> {
-      if (this.metricRegistries && this.metricRegistries.length > 0) {
+      if ((this.metricRegistries && this.metricRegistries.length > 0) || this.workerSketchHistograms.size > 0) {
+          const startTime = this.options.clock ? this.options.clock.time() : null;
           const ctx = this.createOverallReportContext();
           await this.beforeReport(ctx);
           for (const registry of this.metricRegistries) {
               await this.reportMetricRegistry(ctx, registry);
           }
+          await this.reportSketchHistograms(ctx);
           await this.afterReport(ctx);
+          if (this.reporterMetrics && startTime) {
+              this.reporterMetrics.addReportDuration(diff(startTime, this.options.clock.time()));
+          }
           return ctx;
       }
       return {};
@@ -394,6 +840,7 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
 
   /**
    * Reporting function for a single {@link MetricRegistry}.
+   * Removes the expired metrics of the registry first (see {@link MetricRegistry#removeExpiredMetrics}).
    * Calls {@link #createReportingContext} for each metric type.
    * Afterwards calls {@link #reportMetrics} for each of the
    * registry's metrics - grouped by type.
@@ -408,6 +855,7 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
       ctx: OverallReportContext,
       registry: MetricRegistry | null) {
 
+      registry.removeExpiredMetrics();
       const date: Date = new Date(this.options.clock.time().milliseconds);
       const counterCtx: MetricSetReportContext<MonotoneCounter | Counter> = this
           .createMetricSetReportContext(ctx, registry, date, "counter");
@@ -431,11 +879,13 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
           (counter: Counter) => counter.getCount());
 
       gaugeCtx.metrics = registry.getGaugeList();
+      await this.updateAsyncGauges(gaugeCtx.metrics);
       const gaugeResults = this.reportMetrics(ctx, gaugeCtx,
           (gauge: Gauge<any>) => this.reportGauge(gauge, gaugeCtx),
           (gauge: Gauge<any>) => gauge.getValue());
 
       histogramCtx.metrics = registry.getHistogramList();
+      this.swapIntervals(histogramCtx.metrics);
       const histogramResults = this.reportMetrics(ctx, histogramCtx,
           (histogram: Histogram) => this.reportHistogram(histogram, histogramCtx),
           (histogram: Histogram) => histogram.getCount());
@@ -446,6 +896,7 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
           (meter: Meter) => meter.getCount());
 
       timerCtx.metrics = registry.getTimerList();
+      this.swapIntervals(timerCtx.metrics);
       const timerResults = this.reportMetrics(ctx, timerCtx,
           (timer: Timer) => this.reportTimer(timer, timerCtx),
           (timer: Timer) => timer.getCount());
@@ -462,6 +913,7 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
                   monotoneCounters: monotoneCounterResults,
                   timers: timerResults,
               },
+              relabeled: this.hasRelabelRules(),
               tags: this.buildTags(registry, null),
               targetReporterType: this.reporterType,
               type: MetricReporter.MESSAGE_TYPE,
@@ -477,6 +929,157 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
       }
   }
 
+  /**
+   * Resolves the values of all {@link AsyncGauge} instances in the specified list (concurrently) -
+   * each update is bounded by the update timeout of the gauge (see {@link AsyncGauge#setUpdateTimeout}).
+   * Called in {@link #reportMetricRegistry} before the gauges get reported.
+   *
+   * @protected
+   * @param {Array<Gauge<any>>} gauges
+   * @returns {Promise<void>}
+   * @memberof MetricReporter
+   */
+  protected async updateAsyncGauges(gauges: Array<Gauge<any>>): Promise<void> {
+      await Promise.all(gauges
+          .filter((gauge) => gauge instanceof AsyncGauge)
+          .map((gauge: AsyncGauge<any>) => gauge.update()));
+  }
+
+  /**
+   * Reports all {@link SharedMetricRegistries} (including the ones added later) if they were added to this reporter -
+   * registers the listener on the shared registries. Called by {@link #addMetricRegistry} and when the reporter is started.
+   *
+   * @protected
+   * @memberof MetricReporter
+   */
+  protected attachSharedRegistries(): void {
+      if (!this.reportSharedRegistries || this.sharedRegistriesListener) {
+          return;
+      }
+      SharedMetricRegistries.getRegistries().forEach((registry) => this.includeSharedRegistry(registry));
+      this.sharedRegistriesListener = SharedMetricRegistries.addListener({
+          registryAdded: (name, registry) => this.includeSharedRegistry(registry),
+          registryRemoved: (name, registry) => this.excludeSharedRegistry(registry),
+      });
+  }
+
+  /**
+   * Removes the listener on the {@link SharedMetricRegistries} and stops reporting the shared registries
+   * (unless added explicitly) - called by {@link #removeMetricRegistry} and when the reporter is stopped,
+   * so a stopped reporter is not referenced by the shared registries anymore.
+   *
+   * @protected
+   * @memberof MetricReporter
+   */
+  protected detachSharedRegistries(): void {
+      if (!this.sharedRegistriesListener) {
+          return;
+      }
+      this.sharedRegistriesListener.remove();
+      this.sharedRegistriesListener = null;
+      Array.from(this.sharedRegistries).forEach((registry) => this.excludeSharedRegistry(registry));
+  }
+
+  /**
+   * Called in {@link #reportMetricRegistry} before the histograms and timers get reported.
+   * Completes the current interval of all metrics with interval mode enabled,
+   * so each reporting run reports the values recorded since the previous run.
+   *
+   * Only the first reporter completing the interval of a metric owns it (until the reporter releases its intervals) -
+   * all other reporters of the metric report the last interval completed by the owner.
+   *
+   * @protected
+   * @param {Metric[]} metrics
+   * @memberof MetricReporter
+   */
+  protected swapIntervals(metrics: Metric[]): void {
+      for (const metric of metrics) {
+          if (isIntervalMode(metric)) {
+              const owner = intervalOwners.get(metric);
+              if (!owner || owner === this.intervalOwnership || owner.released) {
+                  intervalOwners.set(metric, this.intervalOwnership);
+                  metric.swapInterval();
+              }
+          }
+      }
+  }
+
+  /**
+   * Releases the ownership of all intervals completed by this reporter (see {@link #swapIntervals}),
+   * so another reporter of the metrics takes them over - called when the reporter is stopped
+   * or a registry is removed.
+   *
+   * @protected
+   * @memberof MetricReporter
+   */
+  protected releaseIntervals(): void {
+      this.intervalOwnership.released = true;
+      this.intervalOwnership = { released: false };
+  }
+
+  /**
+   * Reports the shared registry.
+   *
+   * @private
+   * @param {MetricRegistry} registry
+   * @memberof MetricReporter
+   */
+  private includeSharedRegistry(registry: MetricRegistry): void {
+      this.sharedRegistries.add(registry);
+      this.includeRegistry(registry);
+  }
+
+  /**
+   * Stops reporting the shared registry unless it was added explicitly.
+   *
+   * @private
+   * @param {MetricRegistry} registry
+   * @memberof MetricReporter
+   */
+  private excludeSharedRegistry(registry: MetricRegistry): void {
+      this.sharedRegistries.delete(registry);
+      if (!this.addedRegistries.has(registry)) {
+          this.excludeRegistry(registry);
+      }
+  }
+
+  /**
+   * Adds the registry to the reported registries (once) and registers the listener
+   * removing the reporting state of each metric removed from the registry.
+   *
+   * @private
+   * @param {MetricRegistry} registry
+   * @memberof MetricReporter
+   */
+  private includeRegistry(registry: MetricRegistry): void {
+      if (this.metricRegistries.indexOf(registry) !== -1) {
+          return;
+      }
+      this.metricRegistries.push(registry);
+      this.metricRegistryListeners.set(registry, registry.addListener({
+          metricAdded: () => {},
+          metricRemoved: (name: string, metric: Metric) => this.metricStates.delete((metric as any).id),
+      }));
+  }
+
+  /**
+   * Removes the registry from the reported registries and removes its listener.
+   *
+   * @private
+   * @param {MetricRegistry} registry
+   * @memberof MetricReporter
+   */
+  private excludeRegistry(registry: MetricRegistry): void {
+      const index: number = this.metricRegistries.indexOf(registry);
+      if (index === -1) {
+          return;
+      }
+      this.metricRegistries.splice(index, 1);
+      this.metricRegistryListeners.get(registry).remove();
+      this.metricRegistryListeners.delete(registry);
+      this.releaseIntervals();
+  }
+
   /**
    * Called in {@link #reportMetricRegistry} to determine to send a reporting-message to the master process.
    *
@@ -529,7 +1132,8 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
 
   /**
    * Filters out each metric that does not necessarily need to be reported
-   * and calls the specified reporting function for the remaining.
+   * and calls the specified reporting function for the remaining. A metric that
+   * throws while being reported is left out of the results - the error is logged (see {@link #logError}).
    *
    * @protected
    * @template M type of the metric
@@ -546,16 +1150,129 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
       reportFunction: (metric: M, ctx: C) => T,
       lastModifiedFunction: (metric: M, ctx: C) => number): Array<ReportingResult<M, T>> {
 
-      return ctx.metrics
-          .filter((metric) => {
-              const metricId = (metric as any).id;
-              return !metricId || this.hasChanged(metricId, lastModifiedFunction(metric, ctx), ctx.date.getTime());
-          })
-          .map((metric) => ({
-              metric,
-              result: reportFunction(metric, ctx),
-          }))
-          .filter((result) => !!result.result);
+      const results: Array<ReportingResult<M, T>> = [];
+      for (const metric of ctx.metrics) {
+          if (!matchesFilter(this.options.filter, metric, ctx.type)) {
+              continue;
+          }
+          try {
+              const result = this.reportSingleMetric(ctx, metric, reportFunction, lastModifiedFunction);
+              if (result) {
+                  results.push(result);
+              }
+          } catch (reason) {
+              this.logError(`error reporting ${ctx.type} '${metric.getName()}'`, reason);
+              if (this.reporterMetrics) {
+                  this.reporterMetrics.failedMetrics.increment(1);
+              }
+          }
+      }
+      return results;
+  }
+
+  /**
+   * Reports a single metric for {@link #reportMetrics} - skips unchanged metrics and
+   * applies the relabel rules (see {@link #relabelMetric}).
+   *
+   * @protected
+   * @template M type of the metric
+   * @template C typed ReportingContext
+   * @param {C} ctx
+   * @param {M} metric
+   * @param {(metric: M, ctx: C) => T} reportFunction
+   * @param {(metric: M, ctx: C) => number} lastModifiedFunction
+   * @returns {ReportingResult<M, T>} the result or null if the metric is not reported
+   * @memberof MetricReporter
+   */
+  protected reportSingleMetric<M extends Metric, C extends MetricSetReportContext<M>>(
+      ctx: C,
+      metric: M,
+      reportFunction: (metric: M, ctx: C) => T,
+      lastModifiedFunction: (metric: M, ctx: C) => number): ReportingResult<M, T> {
+
+      const metricId = (metric as any).id;
+      if (metricId && !this.hasChanged(metricId, lastModifiedFunction(metric, ctx), ctx.date.getTime())) {
+          if (this.reporterMetrics) {
+              this.reporterMetrics.skippedMetrics.increment(1);
+          }
+          return null;
+      }
+      const relabeled = this.relabelMetric(ctx.registry, metric);
+      const result = relabeled ? reportFunction(relabeled, ctx) : null;
+      if (!result) {
+          return null;
+      }
+      if (this.reporterMetrics) {
+          this.reporterMetrics.reportedMetrics.increment(1);
+      }
+      return { metric: relabeled, result };
+  }
+
+  /**
+   * Logs the specified error using the {@link MetricReporterOptions#log} (if any).
+   *
+   * @protected
+   * @param {string} message
+   * @param {*} reason
+   * @memberof MetricReporter
+   */
+  protected logError(message: string, reason: any): void {
+      if (this.options.log) {
+          this.options.log.error(`${message} - reason: ${reason && reason.message}`, reason);
+      }
+  }
+
+  /**
+   * Adds the size of the specified payload to the bytes sent of the {@link ReporterMetrics} -
+   * the size of payloads other than strings is the size of their JSON representation.
+   *
+   * @protected
+   * @param {*} payload
+   * @memberof MetricReporter
+   */
+  protected recordSentPayload(payload: any): void {
+      if (this.reporterMetrics && payload !== null && payload !== undefined) {
+          const data = typeof payload === "string" ? payload : JSON.stringify(payload);
+          this.reporterMetrics.payloadBytes.increment(Buffer.byteLength(data || ""));
+      }
+  }
+
+  /**
+   * Applies the relabel rules of this reporter to the name and the tags (see {@link #buildTags})
+   * of the specified metric.
+   *
+   * The result is a view of the metric with the relabeled name and tags passed to the report functions -
+   * {@link #buildTags} returns the tags of the view unchanged.
+   *
+   * @protected
+   * @template M type of the metric
+   * @param {MetricRegistry | null} registry
+   * @param {M} metric
+   * @returns {M} the metric itself if there are no rules, the relabeled view or null if the metric is dropped
+   * @memberof MetricReporter
+   */
+  protected relabelMetric<M extends Metric | SerializableMetric>(registry: MetricRegistry | null, metric: M): M {
+      if (!this.hasRelabelRules()) {
+          return metric;
+      }
+      const relabeled = relabel(this.options.relabelRules, getMetricName(metric), this.buildTags(registry, metric));
+      if (!relabeled) {
+          return null;
+      }
+      const view = createRelabeledView(metric, relabeled);
+      this.relabeledMetrics.add(view);
+      return view;
+  }
+
+  /**
+   * Checks if there are relabel rules for this reporter.
+   *
+   * @protected
+   * @returns {boolean}
+   * @memberof MetricReporter
+   */
+  protected hasRelabelRules(): boolean {
+      return !!this.options.relabelRules && this.options.relabelRules.length > 0;
   }
 
   /**
@@ -674,7 +1391,7 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
 
   /**
    * Combines the tags of this reporter instance, the specified {@link MetricRegistry}
-   * and the specified taggable metric (in this order).
+   * and the specified taggable metric (in this order) - the tags of relabeled metrics are final.
    *
    * @protected
    * @param {MetricRegistry | null} registry
@@ -683,6 +1400,9 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
    * @memberof MetricReporter
    */
   protected buildTags(registry: MetricRegistry | null, taggable: Taggable): Tags {
+      if (taggable && this.relabeledMetrics.has(taggable)) {
+          return getMetricTags(taggable);
+      }
       const tags: Tags = {};
       if (this.options.tags) {
           this.options.tags.forEach((tag, key) => tags[key] = tag);
@@ -697,6 +1417,32 @@ export abstract class MetricReporter<O extends MetricReporterOptions, T> impleme
       return tags;
   }
 
+  /**
+   * Converts a duration in nanoseconds (like the snapshot values of timers)
+   * into the {@link MetricReporterOptions#durationUnit}.
+   *
+   * @protected
+   * @param {number} duration
+   * @returns {number}
+   * @memberof MetricReporter
+   */
+  protected convertDuration(duration: number): number {
+      return NANOSECOND.convertTo(duration, this.options.durationUnit || NANOSECOND);
+  }
+
+  /**
+   * Converts a rate in events per second (like the rates of meters and timers)
+   * into events per {@link MetricReporterOptions#rateUnit}.
+   *
+   * @protected
+   * @param {number} rate
+   * @returns {number}
+   * @memberof MetricReporter
+   */
+  protected convertRate(rate: number): number {
+      return rate * (this.options.rateUnit || SECOND).convertTo(1, SECOND);
+  }
+
   /**
    * Checks the number and gives it back or zero (0) if it's not a number.
    *
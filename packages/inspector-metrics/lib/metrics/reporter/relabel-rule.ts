@@ -0,0 +1,209 @@
+import "source-map-support/register";
+
+import { Tags } from "../model/taggable";
+
+/**
+ * Name of the pseudo tag holding the name of the metric while relabeling -
+ * can be used as source or target tag of a rule.
+ */
+export const METRIC_NAME_TAG = "__name__";
+
+/**
+ * Actions of a {@link RelabelRule} (same semantics as the relabel actions of prometheus):
+ *
+ * - replace: sets the target tag to the replacement if the regex matches the source value
+ * - keep: drops the metric if the regex does not match the source value
+ * - drop: drops the metric if the regex matches the source value
+ * - labeldrop: removes all tags with a name matching the regex
+ * - labelkeep: removes all tags with a name not matching the regex
+ * - labelmap: copies the value of all tags with a name matching the regex to the tag named by the replacement
+ */
+export type RelabelAction = "replace" | "keep" | "drop" | "labeldrop" | "labelkeep" | "labelmap";
+
+/**
+ * A relabel rule - plain JSON, so rules can be part of a configuration file.
+ *
+ * @export
+ * @interface RelabelRule
+ */
+export interface RelabelRule {
+  /**
+   * The action to perform - defaults to "replace".
+   *
+   * @type {RelabelAction}
+   * @memberof RelabelRule
+   */
+  action?: RelabelAction;
+  /**
+   * The tags (or {@link METRIC_NAME_TAG}) whose values are concatenated with the separator
+   * to build the source value - missing tags are treated as empty string.
+   *
+   * @type {string[]}
+   * @memberof RelabelRule
+   */
+  sourceTags?: string[];
+  /**
+   * The separator of the source values - defaults to ";".
+   *
+   * @type {string}
+   * @memberof RelabelRule
+   */
+  separator?: string;
+  /**
+   * Regular expression matched against the whole source value (or tag name) - defaults to "(.*)".
+   *
+   * @type {string}
+   * @memberof RelabelRule
+   */
+  regex?: string;
+  /**
+   * The tag (or {@link METRIC_NAME_TAG}) to write the replacement to - required for the "replace" action.
+   *
+   * @type {string}
+   * @memberof RelabelRule
+   */
+  targetTag?: string;
+  /**
+   * The replacement - may reference the capture groups of the regex with "$1", "$2", ... - defaults to "$1".
+   *
+   * @type {string}
+   * @memberof RelabelRule
+   */
+  replacement?: string;
+}
+
+/**
+ * The name and tags of a metric after relabeling.
+ *
+ * @export
+ * @interface RelabeledMetric
+ */
+export interface RelabeledMetric {
+  name: string;
+  tags: Tags;
+}
+
+/**
+ * Compiled regular expressions of the rules.
+ */
+const compiledRegexes: WeakMap<RelabelRule, RegExp> = new WeakMap();
+
+/**
+ * Checks the specified rules - throws an error for unknown actions, invalid regular expressions
+ * or "replace" rules without target tag.
+ *
+ * @export
+ * @param {RelabelRule[]} rules
+ */
+export function validateRelabelRules(rules: RelabelRule[]): void {
+  for (const rule of rules || []) {
+    const action = rule.action || "replace";
+    if (["replace", "keep", "drop", "labeldrop", "labelkeep", "labelmap"].indexOf(action) === -1) {
+      throw new Error(`Unknown relabel action '${action}'`);
+    }
+    if (action === "replace" && !rule.targetTag) {
+      throw new Error(`Relabel rule with action 'replace' needs a targetTag`);
+    }
+    getRegex(rule);
+  }
+}
+
+/**
+ * Applies the rules (in order) to the specified metric name and tags.
+ *
+ * @export
+ * @param {RelabelRule[]} rules
+ * @param {string} name
+ * @param {Tags} tags
+ * @returns {RelabeledMetric} the relabeled metric or null if the metric is dropped
+ */
+export function relabel(rules: RelabelRule[], name: string, tags: Tags): RelabeledMetric | null {
+  const labels: Tags = Object.assign({}, tags, { [METRIC_NAME_TAG]: name });
+  for (const rule of rules) {
+    const regex = getRegex(rule);
+    const replacement = rule.replacement === undefined ? "$1" : rule.replacement;
+    switch (rule.action || "replace") {
+      case "replace": {
+        const value = getSourceValue(rule, labels);
+        if (regex.test(value)) {
+          const result = value.replace(regex, replacement);
+          if (result) {
+            labels[rule.targetTag] = result;
+          } else if (rule.targetTag !== METRIC_NAME_TAG) {
+            delete labels[rule.targetTag];
+          }
+        }
+        break;
+      }
+      case "keep":
+        if (!regex.test(getSourceValue(rule, labels))) {
+          return null;
+        }
+        break;
+      case "drop":
+        if (regex.test(getSourceValue(rule, labels))) {
+          return null;
+        }
+        break;
+      case "labeldrop":
+        getTagNames(labels)
+            .filter((tag) => regex.test(tag))
+            .forEach((tag) => delete labels[tag]);
+        break;
+      case "labelkeep":
+        getTagNames(labels)
+            .filter((tag) => !regex.test(tag))
+            .forEach((tag) => delete labels[tag]);
+        break;
+      case "labelmap":
+        getTagNames(labels)
+            .filter((tag) => regex.test(tag))
+            .forEach((tag) => labels[tag.replace(regex, replacement)] = labels[tag]);
+        break;
+    }
+  }
+  const relabeledName = labels[METRIC_NAME_TAG];
+  delete labels[METRIC_NAME_TAG];
+  return {
+    name: relabeledName,
+    tags: labels,
+  };
+}
+
+/**
+ * Gets the anchored regular expression of the rule.
+ *
+ * @param {RelabelRule} rule
+ * @returns {RegExp}
+ */
+function getRegex(rule: RelabelRule): RegExp {
+  let regex = compiledRegexes.get(rule);
+  if (!regex) {
+    regex = new RegExp(`^(?:${rule.regex === undefined ? "(.*)" : rule.regex})$`);
+    compiledRegexes.set(rule, regex);
+  }
+  return regex;
+}
+
+/**
+ * Concatenates the values of the source tags of the rule.
+ *
+ * @param {RelabelRule} rule
+ * @param {Tags} labels
+ * @returns {string}
+ */
+function getSourceValue(rule: RelabelRule, labels: Tags): string {
+  return (rule.sourceTags || [])
+      .map((tag) => labels[tag] === undefined || labels[tag] === null ? "" : labels[tag])
+      .join(rule.separator === undefined ? ";" : rule.separator);
+}
+
+/**
+ * Gets the names of all tags - without the metric name pseudo tag.
+ *
+ * @param {Tags} labels
+ * @returns {string[]}
+ */
+function getTagNames(labels: Tags): string[] {
+  return Object.keys(labels).filter((tag) => tag !== METRIC_NAME_TAG);
+}
@@ -19,4 +19,13 @@ export interface ReportMessageReceiver {
    * @memberof ReportMessageReceiver
    */
   on(messageType: string, callback: (worker: Worker, message: any, handle: any) => any): any;
+  /**
+   * Removes the specified callback - optional, if not implemented the callback is never removed.
+   *
+   * @param {string} messageType - usually 'exit'
+   * @param {(worker: Worker, message: any, handle: any) => any} callback
+   * @returns {*}
+   * @memberof ReportMessageReceiver
+   */
+  removeListener?(messageType: string, callback: (worker: Worker, message: any, handle: any) => any): any;
 }
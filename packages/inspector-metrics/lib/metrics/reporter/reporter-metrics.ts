@@ -0,0 +1,106 @@
+import "source-map-support/register";
+
+import { Clock } from "../clock";
+import { MonotoneCounter } from "../counter";
+import { MetricRegistry } from "../metric-registry";
+import { NANOSECOND } from "../model/time-unit";
+import { Timer } from "../timer";
+
+/**
+ * The metrics a reporter publishes about itself (see {@link MetricReporterOptions#selfMetrics}) -
+ * all metrics are tagged with the type of the reporter ("reporterType").
+ *
+ * @export
+ * @class ReporterMetrics
+ */
+export class ReporterMetrics {
+
+  /**
+   * Duration of the reporting runs.
+   *
+   * @type {Timer}
+   * @memberof ReporterMetrics
+   */
+  public readonly reportDuration: Timer;
+  /**
+   * Number of metrics reported.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly reportedMetrics: MonotoneCounter;
+  /**
+   * Number of metrics skipped because they did not change since the last report.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly skippedMetrics: MonotoneCounter;
+  /**
+   * Number of metrics not reported because reading or reporting them failed - e.g. a throwing gauge supplier.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly failedMetrics: MonotoneCounter;
+  /**
+   * Number of send operations failed after all attempts.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly sendFailures: MonotoneCounter;
+  /**
+   * Number of retried send attempts.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly retries: MonotoneCounter;
+  /**
+   * Number of bytes sent.
+   *
+   * @type {MonotoneCounter}
+   * @memberof ReporterMetrics
+   */
+  public readonly payloadBytes: MonotoneCounter;
+
+  /**
+   * Creates (or gets) the metrics of the specified reporter type in the registry.
+   *
+   * @param {MetricRegistry} registry
+   * @param {string} reporterType
+   * @param {Clock} [clock] the clock of the reporter - the default clock of the registry if not specified
+   * @memberof ReporterMetrics
+   */
+  public constructor(registry: MetricRegistry, reporterType: string, clock?: Clock) {
+      const tags = { reporterType };
+      this.reportDuration = registry.getOrCreateTimer(
+          "reporter_report_duration", tags, null, clock || registry.getDefaultClock(), null,
+          "duration of the reporting runs");
+      this.reportedMetrics = registry.getOrCreateMonotoneCounter(
+          "reporter_metrics_reported_total", tags, null, "number of metrics reported");
+      this.skippedMetrics = registry.getOrCreateMonotoneCounter(
+          "reporter_metrics_skipped_total", tags, null, "number of unchanged metrics skipped");
+      this.failedMetrics = registry.getOrCreateMonotoneCounter(
+          "reporter_metrics_failed_total", tags, null, "number of metrics failed to report");
+      this.sendFailures = registry.getOrCreateMonotoneCounter(
+          "reporter_send_failures_total", tags, null, "number of send operations failed after all attempts");
+      this.retries = registry.getOrCreateMonotoneCounter(
+          "reporter_send_retries_total", tags, null, "number of retried send attempts");
+      this.payloadBytes = registry.getOrCreateMonotoneCounter(
+          "reporter_payload_bytes_total", tags, null, "number of bytes sent").setUnit("bytes");
+  }
+
+  /**
+   * Adds the duration of a reporting run.
+   *
+   * @param {number} duration in nanoseconds
+   * @returns {this}
+   * @memberof ReporterMetrics
+   */
+  public addReportDuration(duration: number): this {
+      this.reportDuration.addDuration(duration, NANOSECOND);
+      return this;
+  }
+}
@@ -0,0 +1,91 @@
+import "source-map-support/register";
+
+/**
+ * Configuration of the retries of a failed send operation - the delay before the n-th retry is
+ * {@code initialDelay * multiplier ^ (n - 1)} (at most {@code maxDelay}), randomized by {@code jitter}.
+ *
+ * @export
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+  /**
+   * The max number of attempts including the first one - 1 disables retries.
+   *
+   * @type {number}
+   * @memberof RetryPolicy
+   */
+  readonly maxAttempts?: number;
+  /**
+   * The delay before the first retry in milliseconds.
+   *
+   * @type {number}
+   * @memberof RetryPolicy
+   */
+  readonly initialDelay?: number;
+  /**
+   * The max delay between two attempts in milliseconds.
+   *
+   * @type {number}
+   * @memberof RetryPolicy
+   */
+  readonly maxDelay?: number;
+  /**
+   * The factor the delay is multiplied with after each retry.
+   *
+   * @type {number}
+   * @memberof RetryPolicy
+   */
+  readonly multiplier?: number;
+  /**
+   * The fraction of the delay used to randomize it (0 - 1) - e.g. 0.2 results in a delay between 80% and 120%.
+   *
+   * @type {number}
+   * @memberof RetryPolicy
+   */
+  readonly jitter?: number;
+}
+
+/**
+ * The retry policy used if none or only parts of it are specified.
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  initialDelay: 500,
+  jitter: 0.2,
+  maxAttempts: 3,
+  maxDelay: 10000,
+  multiplier: 2,
+};
+
+/**
+ * Completes the specified retry policy with the values of the {@link DEFAULT_RETRY_POLICY}.
+ *
+ * @export
+ * @param {RetryPolicy} [policy]
+ * @returns {Required<RetryPolicy>}
+ */
+export function getRetryPolicy(policy?: RetryPolicy): Required<RetryPolicy> {
+  let result: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const key of Object.keys(policy || {}) as Array<keyof RetryPolicy>) {
+    const value = policy[key];
+    if (value !== undefined && value !== null) {
+      result = { ...result, [key]: value };
+    }
+  }
+  return result as Required<RetryPolicy>;
+}
+
+/**
+ * Gets the delay in milliseconds before the specified retry (starting with 1).
+ *
+ * @export
+ * @param {Required<RetryPolicy>} policy
+ * @param {number} retry
+ * @param {() => number} [random=Math.random] random number generator returning values between 0 and 1
+ * @returns {number}
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>, retry: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.initialDelay * Math.pow(policy.multiplier, retry - 1), policy.maxDelay);
+  const jitter = delay * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+}
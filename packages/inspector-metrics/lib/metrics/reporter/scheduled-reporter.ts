@@ -3,12 +3,35 @@ import "source-map-support/register";
 import { MILLISECOND, TimeUnit } from "../model/time-unit";
 import { MetricReporter } from "./metric-reporter";
 import { MetricReporterOptions } from "./metric-reporter-options";
+import { OverallReportContext } from "./overall-report-context";
+import { getRetryDelay, getRetryPolicy, RetryPolicy } from "./retry-policy";
+import { Spool } from "./spool";
+import { ThresholdListener, ThresholdRule, ThresholdRuleEngine } from "./threshold-rule";
+import { UnsentResult, UnsentResultQueue } from "./unsent-result-queue";
 
 /**
  * Scheduler function type definition.
  */
 export type Scheduler = (prog: () => Promise<any>, interval: number) => NodeJS.Timer;
 
+/**
+ * Gets the delay in milliseconds until the next multiple of the interval (wall-clock boundary)
+ * plus a random jitter - e.g. 12 seconds at 10:00:18 with an interval of 30 seconds and no jitter.
+ *
+ * @export
+ * @param {number} now the current time in milliseconds since epoch
+ * @param {number} interval the reporting interval in milliseconds
+ * @param {number} [jitter=0] the max random delay in milliseconds added to the boundary
+ * @param {() => number} [random=Math.random] random number generator returning values between 0 and 1
+ * @returns {number}
+ */
+export function getAlignedDelay(
+  now: number, interval: number, jitter: number = 0, random: () => number = Math.random): number {
+  const remainder = interval > 0 ? now % interval : 0;
+  const delay = remainder > 0 ? interval - remainder : 0;
+  return delay + Math.floor(Math.max(jitter, 0) * random());
+}
+
 /**
  * Options for the {@link ScheduledMetricReporter}.
  *
@@ -38,6 +61,55 @@ export interface ScheduledMetricReporterOptions extends MetricReporterOptions {
    * @memberof ScheduledMetricReporterOptions
    */
   readonly scheduler?: Scheduler;
+  /**
+   * Rules evaluated after each scheduled reporting run - state changes are reported as events.
+   *
+   * @type {ThresholdRule[]}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly thresholdRules?: ThresholdRule[];
+  /**
+   * The retries of failed send operations - see {@link DEFAULT_RETRY_POLICY} for the defaults.
+   *
+   * @type {RetryPolicy}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly retryPolicy?: RetryPolicy;
+  /**
+   * The max number of results kept in memory after all retries failed (default 1000) -
+   * the oldest results are dropped first.
+   *
+   * @type {number}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly maxUnsentResults?: number;
+  /**
+   * Optional persistent storage for results which could not be sent (e.g. a {@link FileSpool}) -
+   * replaces the in-memory queue of unsent results. The spooled results are replayed in order
+   * before the next result is sent. Only supported by reporters implementing {@link #sendSpooled}.
+   *
+   * @type {Spool}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly spool?: Spool;
+  /**
+   * Indicates if the reporting runs are aligned to the wall-clock boundaries of the interval (default false) -
+   * e.g. every :00 and :30 seconds with an interval of 30 seconds, based on the time of the {@link #clock}.
+   * The delay until the next boundary is computed from the clock before each run, so the runs do not drift -
+   * the {@link #scheduler} function is not used in this case.
+   *
+   * @type {boolean}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly alignToInterval?: boolean;
+  /**
+   * The max random delay of the reporting runs in the time-unit specified in {@link #unit} (default 0) -
+   * determined once on {@link ScheduledMetricReporter#start}, so all runs of a reporter keep the same offset.
+   *
+   * @type {number}
+   * @memberof ScheduledMetricReporterOptions
+   */
+  readonly reportJitter?: number;
 }
 
 /**
@@ -58,6 +130,71 @@ export abstract class ScheduledMetricReporter<O extends ScheduledMetricReporterO
    * @memberof ScheduledMetricReporter
    */
   private timer: NodeJS.Timer;
+  /**
+   * Timer of the next aligned reporting run or delaying the invocation of the scheduler function by the jitter.
+   *
+   * @private
+   * @type {NodeJS.Timer}
+   * @memberof ScheduledMetricReporter
+   */
+  private startTimer: NodeJS.Timer;
+  /**
+   * Indicates if the reporter was started and not stopped yet.
+   *
+   * @private
+   * @type {boolean}
+   * @memberof ScheduledMetricReporter
+   */
+  private started = false;
+  /**
+   * The currently running scheduled reporting run - {@code null} if there is none.
+   *
+   * @private
+   * @type {Promise<OverallReportContext>}
+   * @memberof ScheduledMetricReporter
+   */
+  private runningReport: Promise<OverallReportContext> = null;
+  /**
+   * Indicates if a send operation of the running scheduled reporting run failed after all attempts -
+   * the remaining send operations of the run are attempted only once, so the run does not outlast the interval.
+   *
+   * @private
+   * @type {boolean}
+   * @memberof ScheduledMetricReporter
+   */
+  private runSendFailed = false;
+  /**
+   * Evaluates the threshold rules after each scheduled reporting run.
+   *
+   * @protected
+   * @type {ThresholdRuleEngine}
+   * @memberof ScheduledMetricReporter
+   */
+  protected readonly thresholdRuleEngine: ThresholdRuleEngine;
+  /**
+   * The retry policy completed with the default values.
+   *
+   * @protected
+   * @type {Required<RetryPolicy>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected readonly retryPolicy: Required<RetryPolicy>;
+  /**
+   * Results which could not be sent - resent before the next result is sent.
+   *
+   * @protected
+   * @type {UnsentResultQueue<UnsentResult<any>>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected readonly unsentResults: UnsentResultQueue<UnsentResult<any>>;
+  /**
+   * The currently running replay of the spool - shared by concurrent send operations.
+   *
+   * @private
+   * @type {Promise<Error>}
+   * @memberof ScheduledMetricReporter
+   */
+  private spoolReplay: Promise<Error> = null;
 
   /**
    * Creates an instance of ScheduledMetricReporter.
@@ -68,31 +205,393 @@ export abstract class ScheduledMetricReporter<O extends ScheduledMetricReporterO
    */
   public constructor(options: O, reporterType?: string) {
     super(options, reporterType);
+    this.thresholdRuleEngine = new ThresholdRuleEngine(options.thresholdRules, options.log);
+    this.retryPolicy = getRetryPolicy(options.retryPolicy);
+    const maxUnsentResults = options.maxUnsentResults;
+    this.unsentResults = new UnsentResultQueue(
+        typeof maxUnsentResults === "number" ? maxUnsentResults : 1000);
+  }
+
+  /**
+   * Gets the number of results waiting to be resent.
+   *
+   * @returns {number}
+   * @memberof ScheduledMetricReporter
+   */
+  public getUnsentResultCount(): number {
+    return this.unsentResults.size();
+  }
+
+  /**
+   * Gets the number of unsent results dropped because the queue of unsent results was full.
+   *
+   * @returns {number}
+   * @memberof ScheduledMetricReporter
+   */
+  public getDroppedResultCount(): number {
+    return this.unsentResults.getDroppedCount();
+  }
+
+  /**
+   * Adds a listener invoked for each state change of a threshold rule.
+   *
+   * @param {ThresholdListener} listener
+   * @returns {this}
+   * @memberof ScheduledMetricReporter
+   */
+  public addThresholdListener(listener: ThresholdListener): this {
+    this.thresholdRuleEngine.addListener(listener);
+    return this;
+  }
+
+  /**
+   * Removes the specified threshold rule listener.
+   *
+   * @param {ThresholdListener} listener
+   * @returns {this}
+   * @memberof ScheduledMetricReporter
+   */
+  public removeThresholdListener(listener: ThresholdListener): this {
+    this.thresholdRuleEngine.removeListener(listener);
+    return this;
   }
 
   /**
    * Uses the scheduler function to call the {@link #report} function
-   * in the interval specified. The interval is converted into {@link MILLISECOND}s.
+   * in the interval specified, followed by the evaluation of the threshold rules.
+   * The interval is converted into {@link MILLISECOND}s.
+   *
+   * If {@link ScheduledMetricReporterOptions#alignToInterval} is set, each run is scheduled
+   * at the next boundary of the interval (plus the jitter) using {@link #scheduleTimeout} - starting with
+   * the next boundary after the start. If only a {@link ScheduledMetricReporterOptions#reportJitter} is set,
+   * the scheduler function is invoked after the jitter.
    *
    * @returns {Promise<this>}
    * @memberof ScheduledMetricReporter
    */
   public async start(): Promise<this> {
     const interval: number = this.options.unit.convertTo(this.options.reportInterval, MILLISECOND);
-    this.timer = this.options.scheduler(async () => this.report(), interval);
+    const jitter: number = this.options.unit.convertTo(this.options.reportJitter || 0, MILLISECOND);
+    const run = async () => {
+        try {
+            return await this.runScheduledReport();
+        } catch (reason) {
+            this.logError("error in scheduled reporting run", reason);
+            return null;
+        }
+    };
+    this.started = true;
+    this.attachSharedRegistries();
+    const now = this.options.clock.time().milliseconds;
+    if (this.options.alignToInterval) {
+        let nextRun = now + getAlignedDelay(now, interval, jitter);
+        const scheduleNext = () => {
+            this.startTimer = this.scheduleTimeout(() => {
+                if (!this.started) {
+                    return;
+                }
+                const time = this.options.clock.time().milliseconds;
+                do {
+                    nextRun += interval;
+                } while (nextRun <= time);
+                scheduleNext();
+                run();
+            }, Math.max(nextRun - this.options.clock.time().milliseconds, 0));
+        };
+        scheduleNext();
+    } else if (jitter > 0) {
+        this.startTimer = this.scheduleTimeout(() => {
+            this.startTimer = null;
+            this.timer = this.options.scheduler(run, interval);
+        }, getAlignedDelay(now, 0, jitter));
+    } else {
+        this.timer = this.options.scheduler(run, interval);
+    }
     return this;
   }
 
   /**
-   * Stops reporting metrics.
+   * Stops reporting metrics: cancels the schedule (using {@code clearInterval} on the timer returned by
+   * the scheduler function), waits for a running reporting run, reports the metrics a last time,
+   * flushes the events and stops listening to the {@link SharedMetricRegistries} and the exits of the workers.
+   * Does nothing if the reporter is not started.
+   * Errors of the final report are logged - the reporter is detached from the registries in any case.
    *
+   * @param {number} [timeout] the max time in milliseconds to wait for the final report and the flush of the events
    * @returns {Promise<this>}
    * @memberof ScheduledMetricReporter
    */
-  public async stop(): Promise<this> {
+  public async stop(timeout?: number): Promise<this> {
+    if (!this.started) {
+        return this;
+    }
+    this.started = false;
+    if (this.startTimer) {
+        clearTimeout(this.startTimer);
+        this.startTimer = null;
+    }
     if (this.timer) {
-        this.timer.unref();
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+    let timer: NodeJS.Timer = null;
+    try {
+        const finalReport = (async () => {
+            if (this.runningReport) {
+                await this.runningReport.catch(() => null);
+            }
+            await this.report();
+            await this.flushEvents();
+        })();
+        if (timeout > 0) {
+            await Promise.race([
+                finalReport,
+                new Promise((resolve, reject) => {
+                    timer = setTimeout(
+                        () => reject(new Error(`final report not finished within ${timeout} ms`)), timeout);
+                }),
+            ]);
+        } else {
+            await finalReport;
+        }
+    } catch (reason) {
+        this.logError("error in final reporting run", reason);
+    } finally {
+        if (timer) {
+            clearTimeout(timer);
+        }
+        this.releaseIntervals();
+        this.detachSharedRegistries();
+        this.removeWorkerExitListener();
     }
     return this;
   }
+
+  /**
+   * Gets the report interval in milliseconds - the sketch histograms of a worker which
+   * were not refreshed within a report interval are dropped.
+   *
+   * @protected
+   * @returns {number}
+   * @memberof ScheduledMetricReporter
+   */
+  protected getWorkerSketchMaxAge(): number {
+    return this.options.unit.convertTo(this.options.reportInterval, MILLISECOND);
+  }
+
+  /**
+   * Evaluates the threshold rules on the metrics of all registries and reports
+   * the event of each state change using {@link #reportEvent} - events which could not be reported are logged.
+   *
+   * @protected
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected async evaluateThresholdRules(): Promise<void> {
+    const alerts = this.thresholdRuleEngine.evaluate(
+        this.metricRegistries, this.options.clock.time().milliseconds);
+    for (const alert of alerts) {
+        try {
+            await this.reportEvent(alert.event);
+        } catch (reason) {
+            this.logError(`error reporting alert '${alert.rule.name}' (${alert.state})`, reason);
+        }
+    }
+  }
+
+  /**
+   * Resends the queued (or spooled) results oldest first and sends the specified payload afterwards -
+   * retrying according to the {@link RetryPolicy}. If all attempts fail the payload is queued
+   * (or spooled) and the error of the last attempt is thrown. If the replay of the spool fails
+   * the payload is spooled right away to keep the order. Once a send operation of a scheduled
+   * reporting run failed, the following payloads of the run are sent without retries.
+   *
+   * @protected
+   * @template P
+   * @param {P} payload
+   * @param {(payload: P) => Promise<void>} send sends the payload, rejects if sending failed
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected async sendWithRetry<P>(payload: P, send: (payload: P) => Promise<void>): Promise<void> {
+    await this.resendUnsentResults();
+    const spoolError = await this.replaySpool();
+    if (spoolError) {
+        if (this.reporterMetrics) {
+            this.reporterMetrics.sendFailures.increment(1);
+        }
+        await this.options.spool.append(payload);
+        throw spoolError;
+    }
+    try {
+        await this.sendWithBackoff(payload, send);
+    } catch (reason) {
+        if (this.reporterMetrics) {
+            this.reporterMetrics.sendFailures.increment(1);
+        }
+        if (this.options.spool) {
+            await this.options.spool.append(payload);
+        } else {
+            this.unsentResults.push({ payload, send });
+        }
+        throw reason;
+    }
+  }
+
+  /**
+   * Sends the deserialized payload of a spooled result - needs to be implemented by reporters supporting
+   * the {@link ScheduledMetricReporterOptions#spool} option. The payload contains all data needed to send
+   * it after a restart (e.g. the original timestamps).
+   *
+   * @protected
+   * @param {*} payload
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected async sendSpooled(payload: any): Promise<void> {
+    throw new Error(`${this.constructor.name} does not support spooling`);
+  }
+
+  /**
+   * Replays the spooled results in order using {@link #sendSpooled} - stops at the first failure
+   * (including read errors, which keep the entry). Corrupted entries are skipped.
+   *
+   * @protected
+   * @returns {Promise<Error>} the error of the failed replay - {@code null} if all results were sent
+   * @memberof ScheduledMetricReporter
+   */
+  protected async replaySpool(): Promise<Error> {
+    if (!this.options.spool) {
+        return null;
+    }
+    if (!this.spoolReplay) {
+        this.spoolReplay = (async () => {
+            const spool = this.options.spool;
+            for (const id of await spool.list()) {
+                try {
+                    const payload = await spool.read(id);
+                    if (payload !== undefined) {
+                        await this.sendSpooled(payload);
+                        this.recordSentPayload(payload);
+                    }
+                } catch (reason) {
+                    return reason;
+                }
+                await spool.remove(id);
+            }
+            return null;
+        })();
+        this.spoolReplay
+            .then(() => this.spoolReplay = null)
+            .catch(() => this.spoolReplay = null);
+    }
+    return await this.spoolReplay;
+  }
+
+  /**
+   * Resends the queued results (oldest first) with a single attempt each -
+   * stops at the first failure and keeps the remaining results.
+   *
+   * @protected
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected async resendUnsentResults(): Promise<void> {
+    let result = this.unsentResults.shift();
+    while (result) {
+        try {
+            await result.send(result.payload);
+            this.recordSentPayload(result.payload);
+        } catch (reason) {
+            this.unsentResults.unshift(result);
+            return;
+        }
+        result = this.unsentResults.shift();
+    }
+  }
+
+  /**
+   * Calls the specified function after the delay in milliseconds - used for the aligned reporting runs.
+   *
+   * @protected
+   * @param {() => void} callback
+   * @param {number} delay
+   * @returns {NodeJS.Timer}
+   * @memberof ScheduledMetricReporter
+   */
+  protected scheduleTimeout(callback: () => void, delay: number): NodeJS.Timer {
+    return setTimeout(callback, delay);
+  }
+
+  /**
+   * Waits the specified amount of milliseconds.
+   *
+   * @protected
+   * @param {number} millis
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  protected async wait(millis: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, millis));
+  }
+
+  /**
+   * Sends the payload - retries with exponential backoff until the max number of attempts is reached.
+   *
+   * @private
+   * @template P
+   * @param {P} payload
+   * @param {(payload: P) => Promise<void>} send
+   * @returns {Promise<void>}
+   * @memberof ScheduledMetricReporter
+   */
+  private async sendWithBackoff<P>(payload: P, send: (payload: P) => Promise<void>): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await send(payload);
+            this.recordSentPayload(payload);
+            return;
+        } catch (reason) {
+            if (this.runSendFailed || attempt >= this.retryPolicy.maxAttempts) {
+                this.runSendFailed = !!this.runningReport;
+                throw reason;
+            }
+        }
+        await this.wait(getRetryDelay(this.retryPolicy, attempt));
+        if (this.reporterMetrics) {
+            this.reporterMetrics.retries.increment(1);
+        }
+    }
+  }
+
+  /**
+   * Runs a scheduled reporting run followed by the evaluation of the threshold rules -
+   * the run is tracked until it is finished, so {@link #stop} can wait for it.
+   * The run is skipped if the previous run is still running (e.g. while retrying to send).
+   *
+   * @private
+   * @returns {Promise<OverallReportContext>}
+   * @memberof ScheduledMetricReporter
+   */
+  private async runScheduledReport(): Promise<OverallReportContext> {
+    if (this.runningReport) {
+        this.logError("skipped scheduled reporting run", new Error("previous run is still running"));
+        return null;
+    }
+    this.runSendFailed = false;
+    const run = (async () => {
+        const result = await this.report();
+        await this.evaluateThresholdRules();
+        return result;
+    })();
+    this.runningReport = run;
+    const finished = () => {
+        if (this.runningReport === run) {
+            this.runningReport = null;
+            this.runSendFailed = false;
+        }
+    };
+    run.then(finished, finished);
+    return await run;
+  }
 }
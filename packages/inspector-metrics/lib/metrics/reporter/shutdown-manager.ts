@@ -0,0 +1,276 @@
+import "source-map-support/register";
+
+import { constants } from "os";
+import { Logger } from "./logger";
+import { IMetricReporter } from "./metric-reporter";
+
+/**
+ * The parts of the node process used by the {@link ShutdownManager}.
+ *
+ * @export
+ * @interface ShutdownProcess
+ */
+export interface ShutdownProcess {
+  on(event: string, listener: (...args: any[]) => void): any;
+  removeListener(event: string, listener: (...args: any[]) => void): any;
+  listenerCount(event: string): number;
+  exit(code?: number): void;
+}
+
+/**
+ * Options for the {@link ShutdownManager}.
+ *
+ * @export
+ * @interface ShutdownManagerOptions
+ */
+export interface ShutdownManagerOptions {
+  /**
+   * The max time in milliseconds to wait for all reporters to stop (default 5000).
+   *
+   * @type {number}
+   * @memberof ShutdownManagerOptions
+   */
+  readonly timeout?: number;
+  /**
+   * The signals triggering the shutdown (default SIGTERM and SIGINT).
+   *
+   * @type {NodeJS.Signals[]}
+   * @memberof ShutdownManagerOptions
+   */
+  readonly signals?: NodeJS.Signals[];
+  /**
+   * Indicates if the process is exited after a signal triggered the shutdown - the exit code is 128 + the number
+   * of the signal. By default the process is only exited if there are no other listeners for the signal
+   * (like node does without listeners), so the signal handling of the application (e.g. closing a http server)
+   * is not cut off.
+   *
+   * @type {boolean}
+   * @memberof ShutdownManagerOptions
+   */
+  readonly exitOnSignal?: boolean;
+  /**
+   * The logger for reporters failing to stop - {@code null} disables logging.
+   *
+   * @type {Logger}
+   * @memberof ShutdownManagerOptions
+   */
+  readonly log?: Logger;
+  /**
+   * The process to listen to - for internal use.
+   *
+   * @type {ShutdownProcess}
+   * @memberof ShutdownManagerOptions
+   */
+  readonly process?: ShutdownProcess;
+}
+
+/**
+ * Stops all added reporters when the process is terminated by one of the configured signals
+ * or the event loop runs empty ("beforeExit") - giving each reporter the chance to report
+ * the metrics a last time within the configured timeout.
+ *
+ * @example
+ * const shutdownManager = new ShutdownManager({ timeout: 10000 })
+ *     .addReporter(reporter)
+ *     .install();
+ *
+ * @export
+ * @class ShutdownManager
+ */
+export class ShutdownManager {
+
+  /**
+   * The reporters stopped on shutdown.
+   *
+   * @private
+   * @type {IMetricReporter[]}
+   * @memberof ShutdownManager
+   */
+  private readonly reporters: IMetricReporter[] = [];
+  /**
+   * The options completed with the default values.
+   *
+   * @private
+   * @type {ShutdownManagerOptions}
+   * @memberof ShutdownManager
+   */
+  private readonly options: ShutdownManagerOptions;
+  /**
+   * The listeners registered for the signals by {@link #install}.
+   *
+   * @private
+   * @type {Map<NodeJS.Signals, () => void>}
+   * @memberof ShutdownManager
+   */
+  private readonly signalListeners: Map<NodeJS.Signals, () => void> = new Map();
+  /**
+   * The "beforeExit" listener registered by {@link #install}.
+   *
+   * @private
+   * @memberof ShutdownManager
+   */
+  private beforeExitListener: () => void = null;
+  /**
+   * The running or finished shutdown - the shutdown is only done once.
+   *
+   * @private
+   * @type {Promise<void>}
+   * @memberof ShutdownManager
+   */
+  private shutdownPromise: Promise<void> = null;
+
+  /**
+   * Creates an instance of ShutdownManager.
+   *
+   * @param {ShutdownManagerOptions} [options={}]
+   * @memberof ShutdownManager
+   */
+  public constructor({
+      timeout = 5000,
+      signals = ["SIGTERM", "SIGINT"],
+      exitOnSignal,
+      log = console,
+      process: shutdownProcess = process,
+  }: ShutdownManagerOptions = {}) {
+      this.options = {
+          exitOnSignal,
+          log,
+          process: shutdownProcess,
+          signals,
+          timeout,
+      };
+  }
+
+  /**
+   * Adds a reporter to stop on shutdown.
+   *
+   * @param {IMetricReporter} reporter
+   * @returns {this}
+   * @memberof ShutdownManager
+   */
+  public addReporter(reporter: IMetricReporter): this {
+      if (this.reporters.indexOf(reporter) === -1) {
+        this.reporters.push(reporter);
+      }
+      return this;
+  }
+
+  /**
+   * Removes the specified reporter.
+   *
+   * @param {IMetricReporter} reporter
+   * @returns {this}
+   * @memberof ShutdownManager
+   */
+  public removeReporter(reporter: IMetricReporter): this {
+      const index = this.reporters.indexOf(reporter);
+      if (index > -1) {
+        this.reporters.splice(index, 1);
+      }
+      return this;
+  }
+
+  /**
+   * Registers the listeners for the signals and the "beforeExit" event - only once.
+   *
+   * @returns {this}
+   * @memberof ShutdownManager
+   */
+  public install(): this {
+      if (this.beforeExitListener) {
+        return this;
+      }
+      const proc = this.options.process;
+      for (const signal of this.options.signals) {
+        const listener = () => this.handleSignal(signal);
+        this.signalListeners.set(signal, listener);
+        proc.on(signal, listener);
+      }
+      this.beforeExitListener = () => {
+        this.shutdown().catch(() => null);
+      };
+      proc.on("beforeExit", this.beforeExitListener);
+      return this;
+  }
+
+  /**
+   * Removes the listeners registered by {@link #install}.
+   *
+   * @returns {this}
+   * @memberof ShutdownManager
+   */
+  public uninstall(): this {
+      const proc = this.options.process;
+      this.signalListeners.forEach((listener, signal) => proc.removeListener(signal, listener));
+      this.signalListeners.clear();
+      if (this.beforeExitListener) {
+        proc.removeListener("beforeExit", this.beforeExitListener);
+        this.beforeExitListener = null;
+      }
+      return this;
+  }
+
+  /**
+   * Stops all reporters in parallel - resolves once all reporters are stopped or the timeout elapsed.
+   * Errors of the reporters are logged, the shutdown is only done once.
+   *
+   * @returns {Promise<void>}
+   * @memberof ShutdownManager
+   */
+  public shutdown(): Promise<void> {
+      if (!this.shutdownPromise) {
+        this.shutdownPromise = this.stopReporters();
+      }
+      return this.shutdownPromise;
+  }
+
+  /**
+   * Runs the shutdown and exits the process afterwards if configured -
+   * see {@link ShutdownManagerOptions#exitOnSignal}.
+   *
+   * @private
+   * @param {NodeJS.Signals} signal
+   * @memberof ShutdownManager
+   */
+  private handleSignal(signal: NodeJS.Signals): void {
+      const exitOnSignal = this.options.exitOnSignal;
+      const exit = exitOnSignal === undefined ? this.options.process.listenerCount(signal) <= 1 : exitOnSignal;
+      this.shutdown()
+        .catch(() => null)
+        .then(() => {
+          if (exit) {
+            this.options.process.exit(128 + (constants.signals[signal] || 0));
+          }
+        });
+  }
+
+  /**
+   * Stops all reporters and waits at most until the timeout elapsed.
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof ShutdownManager
+   */
+  private async stopReporters(): Promise<void> {
+      const log = this.options.log;
+      const stopped = Promise.all(this.reporters.map(async (reporter) => {
+        try {
+          await reporter.stop(this.options.timeout);
+        } catch (reason) {
+          if (log) {
+            log.error(`error stopping reporter - reason: ${reason.message}`, reason);
+          }
+        }
+      }));
+      let timer: NodeJS.Timer;
+      const timeout = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), this.options.timeout);
+        timer.unref();
+      });
+      const timedOut = await Promise.race([stopped.then(() => false), timeout]);
+      clearTimeout(timer);
+      if (timedOut && log) {
+        log.warn(`reporters not stopped within ${this.options.timeout} ms`);
+      }
+  }
+}
@@ -0,0 +1,405 @@
+import "source-map-support/register";
+
+import * as fs from "fs";
+import { join } from "path";
+import { promisify } from "util";
+
+const close = promisify(fs.close);
+const fsync = promisify(fs.fsync);
+const mkdir = promisify(fs.mkdir);
+const open = promisify(fs.open);
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const rename = promisify(fs.rename);
+const stat = promisify(fs.stat);
+const unlink = promisify(fs.unlink);
+const write = promisify(fs.write);
+
+/**
+ * Persistent FIFO storage for serialized results which could not be sent -
+ * entries are identified by ids sorting in the order the entries were appended.
+ *
+ * @export
+ * @interface Spool
+ */
+export interface Spool {
+
+  /**
+   * Appends the payload - the payload needs to be serializable as JSON.
+   *
+   * @param {*} payload
+   * @returns {Promise<void>}
+   * @memberof Spool
+   */
+  append(payload: any): Promise<void>;
+
+  /**
+   * Lists the ids of all entries - oldest first.
+   *
+   * @returns {Promise<string[]>}
+   * @memberof Spool
+   */
+  list(): Promise<string[]>;
+
+  /**
+   * Reads the payload of the specified entry - {@code undefined} if the entry is missing or corrupted,
+   * rejects on all other errors (e.g. a read error), so the entry is kept.
+   *
+   * @param {string} id
+   * @returns {Promise<any>}
+   * @memberof Spool
+   */
+  read(id: string): Promise<any>;
+
+  /**
+   * Removes the specified entry.
+   *
+   * @param {string} id
+   * @returns {Promise<void>}
+   * @memberof Spool
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Gets the number of entries dropped by the retention of this spool.
+   *
+   * @returns {number}
+   * @memberof Spool
+   */
+  getDroppedCount(): number;
+
+}
+
+/**
+ * Options for the {@link FileSpool}.
+ *
+ * @export
+ * @interface FileSpoolOptions
+ */
+export interface FileSpoolOptions {
+  /**
+   * The directory the entries are written to - created if missing.
+   *
+   * @type {string}
+   * @memberof FileSpoolOptions
+   */
+  readonly directory: string;
+  /**
+   * The max size of all entries in bytes (default 100 MB) - the oldest entries are dropped first.
+   *
+   * @type {number}
+   * @memberof FileSpoolOptions
+   */
+  readonly maxSize?: number;
+}
+
+/**
+ * {@link Spool} writing each entry to a file of its own.
+ *
+ * An entry is written to a temporary file which is synced to disk and renamed afterwards
+ * (syncing the directory as well), so a crash leaves either the complete entry or a temporary file - which is removed
+ * when the spool is used the next time. Entries are removed after they were sent, so
+ * an entry sent right before a crash is sent again after the restart.
+ *
+ * @export
+ * @class FileSpool
+ * @implements {Spool}
+ */
+export class FileSpool implements Spool {
+
+  /**
+   * The extension of complete entries.
+   *
+   * @private
+   * @static
+   * @memberof FileSpool
+   */
+  private static readonly EXTENSION = ".json";
+  /**
+   * The extension of entries being written.
+   *
+   * @private
+   * @static
+   * @memberof FileSpool
+   */
+  private static readonly TMP_EXTENSION = ".tmp";
+
+  /**
+   * The directory of the entries.
+   *
+   * @private
+   * @type {string}
+   * @memberof FileSpool
+   */
+  private readonly directory: string;
+  /**
+   * The max size of all entries in bytes.
+   *
+   * @private
+   * @type {number}
+   * @memberof FileSpool
+   */
+  private readonly maxSize: number;
+  /**
+   * Monotonically increasing sequence number of the next entry - continues the sequence of the newest entry
+   * of a previous run, so the ids of entries appended within the same millisecond keep their order.
+   *
+   * @private
+   * @type {number}
+   * @memberof FileSpool
+   */
+  private sequence = 0;
+  /**
+   * The id of the newest entry - also of entries written by a previous run.
+   *
+   * @private
+   * @type {string}
+   * @memberof FileSpool
+   */
+  private lastId = "";
+  /**
+   * The number of entries dropped by the retention.
+   *
+   * @private
+   * @type {number}
+   * @memberof FileSpool
+   */
+  private dropped = 0;
+  /**
+   * The sizes of all entries in bytes by id - oldest first.
+   *
+   * @private
+   * @type {Map<string, number>}
+   * @memberof FileSpool
+   */
+  private readonly sizes: Map<string, number> = new Map();
+  /**
+   * The size of all entries in bytes.
+   *
+   * @private
+   * @type {number}
+   * @memberof FileSpool
+   */
+  private totalSize = 0;
+  /**
+   * Resolved once the directory exists, stale temporary files are removed and the sizes of the entries are known.
+   *
+   * @private
+   * @type {Promise<void>}
+   * @memberof FileSpool
+   */
+  private initialized: Promise<void>;
+
+  /**
+   * Creates an instance of FileSpool.
+   *
+   * @param {FileSpoolOptions} options
+   * @memberof FileSpool
+   */
+  public constructor({
+      directory,
+      maxSize = 100 * 1024 * 1024,
+  }: FileSpoolOptions) {
+      this.directory = directory;
+      this.maxSize = maxSize;
+  }
+
+  /**
+   * Writes the payload to a new file and drops the oldest entries if the max size is exceeded.
+   *
+   * @param {*} payload
+   * @returns {Promise<void>}
+   * @memberof FileSpool
+   */
+  public async append(payload: any): Promise<void> {
+      await this.initialize();
+      const id = this.nextId();
+      const tmpFile = join(this.directory, id + FileSpool.TMP_EXTENSION);
+      const data = Buffer.from(JSON.stringify(payload), "utf8");
+      const fd = await open(tmpFile, "w");
+      try {
+        await write(fd, data);
+        await fsync(fd);
+      } finally {
+        await close(fd);
+      }
+      await rename(tmpFile, this.getFile(id));
+      await this.syncDirectory();
+      this.sizes.set(id, data.length);
+      this.totalSize += data.length;
+      await this.applyRetention();
+  }
+
+  /**
+   * Lists the ids of all complete entries - oldest first.
+   *
+   * @returns {Promise<string[]>}
+   * @memberof FileSpool
+   */
+  public async list(): Promise<string[]> {
+      await this.initialize();
+      return (await readdir(this.directory))
+        .filter((file) => file.endsWith(FileSpool.EXTENSION))
+        .map((file) => file.substring(0, file.length - FileSpool.EXTENSION.length))
+        .sort();
+  }
+
+  /**
+   * Reads and parses the file of the specified entry - {@code undefined} if the file is missing
+   * or no valid JSON, rejects on read errors.
+   *
+   * @param {string} id
+   * @returns {Promise<any>}
+   * @memberof FileSpool
+   */
+  public async read(id: string): Promise<any> {
+      let content: string;
+      try {
+        content = await readFile(this.getFile(id), "utf8");
+      } catch (e) {
+        if (e.code === "ENOENT") {
+          return undefined;
+        }
+        throw e;
+      }
+      try {
+        return JSON.parse(content);
+      } catch (e) {
+        return undefined;
+      }
+  }
+
+  /**
+   * Deletes the file of the specified entry - missing files are ignored.
+   *
+   * @param {string} id
+   * @returns {Promise<void>}
+   * @memberof FileSpool
+   */
+  public async remove(id: string): Promise<void> {
+      try {
+        await unlink(this.getFile(id));
+      } catch (e) {
+        if (e.code !== "ENOENT") {
+          throw e;
+        }
+      }
+      if (this.sizes.has(id)) {
+        this.totalSize -= this.sizes.get(id);
+        this.sizes.delete(id);
+      }
+  }
+
+  /**
+   * Gets the number of entries dropped because the max size was exceeded.
+   *
+   * @returns {number}
+   * @memberof FileSpool
+   */
+  public getDroppedCount(): number {
+      return this.dropped;
+  }
+
+  /**
+   * Creates the directory if missing, removes temporary files of interrupted writes
+   * and reads the sizes of the existing entries - only once.
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof FileSpool
+   */
+  private async initialize(): Promise<void> {
+      if (!this.initialized) {
+        this.initialized = (async () => {
+          try {
+            await mkdir(this.directory, { recursive: true });
+          } catch (e) {
+            if (e.code !== "EEXIST") {
+              throw e;
+            }
+          }
+          const files = (await readdir(this.directory)).sort();
+          this.sizes.clear();
+          this.totalSize = 0;
+          for (const file of files) {
+            if (file.endsWith(FileSpool.TMP_EXTENSION)) {
+              await unlink(join(this.directory, file));
+            } else if (file.endsWith(FileSpool.EXTENSION)) {
+              const size = (await stat(join(this.directory, file))).size;
+              this.lastId = file.substring(0, file.length - FileSpool.EXTENSION.length);
+              this.sizes.set(this.lastId, size);
+              this.totalSize += size;
+            }
+          }
+          if (this.lastId) {
+            this.sequence = Math.max(this.sequence, (parseInt(this.lastId.substring(16), 10) || 0) + 1);
+          }
+        })();
+        this.initialized.catch(() => this.initialized = null);
+      }
+      await this.initialized;
+  }
+
+  /**
+   * Removes the oldest entries until the size of all entries is within the max size -
+   * the latest entry is always kept.
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof FileSpool
+   */
+  private async applyRetention(): Promise<void> {
+      while (this.totalSize > this.maxSize && this.sizes.size > 1) {
+        await this.remove(this.sizes.keys().next().value);
+        this.dropped++;
+      }
+  }
+
+  /**
+   * Syncs the directory to disk, so a renamed entry survives a crash - not supported on windows.
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof FileSpool
+   */
+  private async syncDirectory(): Promise<void> {
+      if (process.platform === "win32") {
+        return;
+      }
+      const fd = await open(this.directory, "r");
+      try {
+        await fsync(fd);
+      } finally {
+        await close(fd);
+      }
+  }
+
+  /**
+   * Builds an id sorting after all existing ids - the current time (or the time of the newest entry if it is newer)
+   * followed by the zero-padded sequence number, which never wraps.
+   *
+   * @private
+   * @returns {string}
+   * @memberof FileSpool
+   */
+  private nextId(): string {
+      let time = ("000000000000000" + Date.now()).slice(-15);
+      if (time < this.lastId.substring(0, 15)) {
+        time = this.lastId.substring(0, 15);
+      }
+      this.lastId = `${time}-${("0000000000000000" + this.sequence++).slice(-16)}`;
+      return this.lastId;
+  }
+
+  /**
+   * Gets the path of the file of the specified entry.
+   *
+   * @private
+   * @param {string} id
+   * @returns {string}
+   * @memberof FileSpool
+   */
+  private getFile(id: string): string {
+      return join(this.directory, id + FileSpool.EXTENSION);
+  }
+}
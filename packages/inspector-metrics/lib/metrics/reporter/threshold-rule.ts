@@ -0,0 +1,495 @@
+import "source-map-support/register";
+
+import { Counter, MonotoneCounter } from "../counter";
+import { Event } from "../event";
+import { Gauge } from "../gauge";
+import { Histogram } from "../histogram";
+import { Meter } from "../meter";
+import { MetricRegistry } from "../metric-registry";
+import { Metric } from "../model/metric";
+import { Snapshot } from "../model/snapshot";
+import { MILLISECOND, NANOSECOND, SECOND, TimeUnit } from "../model/time-unit";
+import { Timer } from "../timer";
+import { Logger } from "./logger";
+import { matchesFilter, MetricFilterRule } from "./metric-filter";
+import { MetricType } from "./metric-type";
+
+/**
+ * The value of a metric a {@link ThresholdRule} is evaluated on:
+ *
+ * - count: the count of counters, histograms, meters and timers
+ * - rate: the 1 minute rate of meters and timers, the change of the count of counters and histograms
+ *   since the previous evaluation - per {@link ThresholdRule#rateUnit}
+ * - value: the value of gauges
+ * - min, max, mean, p50, p75, p95, p98, p99, p999: the snapshot of histograms and timers
+ */
+export type ThresholdValue =
+  "count" | "rate" | "value" | "min" | "max" | "mean" | "p50" | "p75" | "p95" | "p98" | "p99" | "p999";
+
+/**
+ * Comparison of the value with the threshold.
+ */
+export type ThresholdOperator = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+/**
+ * The state of a {@link ThresholdRule} for a single metric - "firing" once the condition is met
+ * for the configured number of intervals, "resolved" once the condition is not met anymore.
+ */
+export type ThresholdAlertState = "firing" | "resolved";
+
+/**
+ * A condition on the value of metrics - e.g. "p99 of timer api.latency > 500ms for 3 intervals".
+ * The rule is evaluated for each matching metric separately.
+ *
+ * @export
+ * @interface ThresholdRule
+ */
+export interface ThresholdRule {
+  /**
+   * The name of the rule - used as the name of the alert events.
+   *
+   * @type {string}
+   * @memberof ThresholdRule
+   */
+  name: string;
+  /**
+   * Selects the metrics the rule is evaluated on (name, group, type, tags).
+   *
+   * @type {MetricFilterRule}
+   * @memberof ThresholdRule
+   */
+  metrics: MetricFilterRule;
+  /**
+   * The value of the metric to compare.
+   *
+   * @type {ThresholdValue}
+   * @memberof ThresholdRule
+   */
+  value: ThresholdValue;
+  /**
+   * The comparison operator.
+   *
+   * @type {ThresholdOperator}
+   * @memberof ThresholdRule
+   */
+  operator: ThresholdOperator;
+  /**
+   * The threshold.
+   *
+   * @type {number}
+   * @memberof ThresholdRule
+   */
+  threshold: number;
+  /**
+   * The number of consecutive evaluations the condition needs to be met before the rule fires - defaults to 1.
+   *
+   * @type {number}
+   * @memberof ThresholdRule
+   */
+  intervals?: number;
+  /**
+   * The unit of the threshold for durations of timers - defaults to {@link MILLISECOND}.
+   *
+   * @type {TimeUnit}
+   * @memberof ThresholdRule
+   */
+  durationUnit?: TimeUnit;
+  /**
+   * The unit of the threshold for rates (events per unit) - defaults to {@link SECOND}.
+   *
+   * @type {TimeUnit}
+   * @memberof ThresholdRule
+   */
+  rateUnit?: TimeUnit;
+}
+
+/**
+ * A state change of a {@link ThresholdRule} for a single metric.
+ *
+ * @export
+ * @interface ThresholdAlert
+ */
+export interface ThresholdAlert {
+  /**
+   * The rule which changed the state.
+   *
+   * @type {ThresholdRule}
+   * @memberof ThresholdAlert
+   */
+  rule: ThresholdRule;
+  /**
+   * The new state.
+   *
+   * @type {ThresholdAlertState}
+   * @memberof ThresholdAlert
+   */
+  state: ThresholdAlertState;
+  /**
+   * The metric the rule was evaluated on.
+   *
+   * @type {Metric}
+   * @memberof ThresholdAlert
+   */
+  metric: Metric;
+  /**
+   * The value of the metric (in the units of the rule).
+   *
+   * @type {number}
+   * @memberof ThresholdAlert
+   */
+  value: number;
+  /**
+   * The event describing the state change - the name of the rule as name, the value as value,
+   * the tags of the metric as well as the tags "metric" (metric name) and "alertstate".
+   *
+   * @type {Event<number>}
+   * @memberof ThresholdAlert
+   */
+  event: Event<number>;
+}
+
+/**
+ * Callback invoked for each state change of a {@link ThresholdRule}.
+ */
+export type ThresholdListener = (alert: ThresholdAlert) => void;
+
+/**
+ * Checks the specified rules - throws an error for rules without name, unknown values or unknown operators.
+ *
+ * @export
+ * @param {ThresholdRule[]} rules
+ */
+export function validateThresholdRules(rules: ThresholdRule[]): void {
+  for (const rule of rules || []) {
+    if (!rule.name) {
+      throw new Error(`Threshold rule needs a name`);
+    }
+    if (["count", "rate", "value", "min", "max", "mean", "p50", "p75", "p95", "p98", "p99", "p999"]
+        .indexOf(rule.value) === -1) {
+      throw new Error(`Unknown value '${rule.value}' of threshold rule '${rule.name}'`);
+    }
+    if ([">", ">=", "<", "<=", "==", "!="].indexOf(rule.operator) === -1) {
+      throw new Error(`Unknown operator '${rule.operator}' of threshold rule '${rule.name}'`);
+    }
+  }
+}
+
+/**
+ * The evaluation state of a rule for a single metric.
+ *
+ * @interface RuleState
+ */
+interface RuleState {
+  matches: number;
+  firing: boolean;
+  count: number;
+  time: number;
+}
+
+/**
+ * Evaluates {@link ThresholdRule}s on the metrics of {@link MetricRegistry} instances.
+ *
+ * @export
+ * @class ThresholdRuleEngine
+ */
+export class ThresholdRuleEngine {
+
+  /**
+   * The evaluation state of each rule by metric.
+   *
+   * @private
+   * @type {Map<ThresholdRule, Map<Metric, RuleState>>}
+   * @memberof ThresholdRuleEngine
+   */
+  private readonly states: Map<ThresholdRule, Map<Metric, RuleState>> = new Map();
+  /**
+   * The listeners invoked for each state change.
+   *
+   * @private
+   * @type {ThresholdListener[]}
+   * @memberof ThresholdRuleEngine
+   */
+  private readonly listeners: ThresholdListener[] = [];
+
+  /**
+   * Creates an instance of ThresholdRuleEngine.
+   *
+   * @param {ThresholdRule[]} [rules=[]]
+   * @param {Logger} [log] logs the errors of failing listeners
+   * @memberof ThresholdRuleEngine
+   */
+  public constructor(private readonly rules: ThresholdRule[] = [], private readonly log?: Logger) {
+      validateThresholdRules(rules);
+      rules.forEach((rule) => this.states.set(rule, new Map()));
+  }
+
+  /**
+   * Gets the rules.
+   *
+   * @returns {ThresholdRule[]}
+   * @memberof ThresholdRuleEngine
+   */
+  public getRules(): ThresholdRule[] {
+      return this.rules;
+  }
+
+  /**
+   * Adds a listener invoked for each state change.
+   *
+   * @param {ThresholdListener} listener
+   * @returns {this}
+   * @memberof ThresholdRuleEngine
+   */
+  public addListener(listener: ThresholdListener): this {
+      this.listeners.push(listener);
+      return this;
+  }
+
+  /**
+   * Removes the specified listener.
+   *
+   * @param {ThresholdListener} listener
+   * @returns {this}
+   * @memberof ThresholdRuleEngine
+   */
+  public removeListener(listener: ThresholdListener): this {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+          this.listeners.splice(index, 1);
+      }
+      return this;
+  }
+
+  /**
+   * Evaluates all rules on the metrics of the specified registries and invokes the listeners for each state change -
+   * errors of listeners are logged and do not affect other listeners.
+   *
+   * @param {MetricRegistry[]} registries
+   * @param {number} time the current time in milliseconds
+   * @returns {ThresholdAlert[]} the state changes
+   * @memberof ThresholdRuleEngine
+   */
+  public evaluate(registries: MetricRegistry[], time: number): ThresholdAlert[] {
+      if (this.rules.length === 0) {
+          return [];
+      }
+      const metrics: Array<[Metric, MetricType]> = [];
+      for (const registry of registries) {
+          registry.getMonotoneCounterList().forEach((metric) => metrics.push([metric, "counter"]));
+          registry.getCounterList().forEach((metric) => metrics.push([metric, "counter"]));
+          registry.getGaugeList().forEach((metric) => metrics.push([metric, "gauge"]));
+          registry.getHistogramList().forEach((metric) => metrics.push([metric, "histogram"]));
+          registry.getMeterList().forEach((metric) => metrics.push([metric, "meter"]));
+          registry.getTimerList().forEach((metric) => metrics.push([metric, "timer"]));
+      }
+
+      const alerts: ThresholdAlert[] = [];
+      for (const rule of this.rules) {
+          const states = this.states.get(rule);
+          const evaluated: Set<Metric> = new Set();
+          for (const [metric, type] of metrics) {
+              if (evaluated.has(metric) || !matchesFilter({ include: [rule.metrics] }, metric, type)) {
+                  continue;
+              }
+              evaluated.add(metric);
+              if (!states.has(metric)) {
+                  states.set(metric, { count: null, firing: false, matches: 0, time: null });
+              }
+              const alert = this.evaluateRule(rule, metric, states.get(metric), time);
+              if (alert) {
+                  alerts.push(alert);
+              }
+          }
+          Array.from(states.keys())
+              .filter((metric) => !evaluated.has(metric))
+              .forEach((metric) => states.delete(metric));
+      }
+      alerts.forEach((alert) => this.listeners.forEach((listener) => this.notify(listener, alert)));
+      return alerts;
+  }
+
+  /**
+   * Invokes the listener with the specified alert - logs the error if the listener throws.
+   *
+   * @private
+   * @param {ThresholdListener} listener
+   * @param {ThresholdAlert} alert
+   * @memberof ThresholdRuleEngine
+   */
+  private notify(listener: ThresholdListener, alert: ThresholdAlert): void {
+      try {
+          listener(alert);
+      } catch (reason) {
+          if (this.log) {
+              this.log.error(`error in threshold listener of rule '${alert.rule.name}' - reason: ${reason.message}`,
+                  reason);
+          }
+      }
+  }
+
+  /**
+   * Evaluates the rule on the specified metric and updates the state.
+   *
+   * @private
+   * @param {ThresholdRule} rule
+   * @param {Metric} metric
+   * @param {RuleState} state
+   * @param {number} time
+   * @returns {ThresholdAlert} the state change or null if the state did not change
+   * @memberof ThresholdRuleEngine
+   */
+  private evaluateRule(rule: ThresholdRule, metric: Metric, state: RuleState, time: number): ThresholdAlert {
+      const value = this.getValue(rule, metric, state, time);
+      if (value === null || value === undefined || isNaN(value)) {
+          return null;
+      }
+      if (this.compare(value, rule.operator, rule.threshold)) {
+          state.matches++;
+          if (!state.firing && state.matches >= (rule.intervals || 1)) {
+              state.firing = true;
+              return this.createAlert(rule, metric, "firing", value, time);
+          }
+      } else {
+          state.matches = 0;
+          if (state.firing) {
+              state.firing = false;
+              return this.createAlert(rule, metric, "resolved", value, time);
+          }
+      }
+      return null;
+  }
+
+  /**
+   * Gets the value of the metric specified by the rule.
+   *
+   * @private
+   * @param {ThresholdRule} rule
+   * @param {Metric} metric
+   * @param {RuleState} state
+   * @param {number} time
+   * @returns {number} the value or null if the value is not available (yet)
+   * @memberof ThresholdRuleEngine
+   */
+  private getValue(rule: ThresholdRule, metric: Metric, state: RuleState, time: number): number {
+      const rateFactor = (rule.rateUnit || SECOND).convertTo(1, MILLISECOND);
+      switch (rule.value) {
+          case "count":
+              return this.getCount(metric);
+          case "rate":
+              if (metric instanceof Meter || metric instanceof Timer) {
+                  return metric.get1MinuteRate() / SECOND.convertTo(1, MILLISECOND) * rateFactor;
+              } else {
+                  const count = this.getCount(metric);
+                  const previousCount = state.count;
+                  const previousTime = state.time;
+                  state.count = count;
+                  state.time = time;
+                  if (count === null || previousCount === null || time <= previousTime) {
+                      return null;
+                  }
+                  return (count - previousCount) / (time - previousTime) * rateFactor;
+              }
+          case "value":
+              return MetricRegistry.isGauge<any>(metric) ? (metric as Gauge<any>).getValue() : null;
+          default:
+              if (metric instanceof Histogram || metric instanceof Timer) {
+                  const value = this.getSnapshotValue(rule.value, metric.getSnapshot());
+                  return metric instanceof Timer
+                      ? NANOSECOND.convertTo(value, rule.durationUnit || MILLISECOND)
+                      : value;
+              }
+              return null;
+      }
+  }
+
+  /**
+   * Gets the count of counters, histograms, meters and timers.
+   *
+   * @private
+   * @param {Metric} metric
+   * @returns {number}
+   * @memberof ThresholdRuleEngine
+   */
+  private getCount(metric: Metric): number {
+      if (metric instanceof MonotoneCounter || metric instanceof Counter ||
+          metric instanceof Histogram || metric instanceof Meter || metric instanceof Timer) {
+          return metric.getCount();
+      }
+      return null;
+  }
+
+  /**
+   * Gets the specified value of the snapshot.
+   *
+   * @private
+   * @param {ThresholdValue} value
+   * @param {Snapshot} snapshot
+   * @returns {number}
+   * @memberof ThresholdRuleEngine
+   */
+  private getSnapshotValue(value: ThresholdValue, snapshot: Snapshot): number {
+      switch (value) {
+          case "min": return snapshot.getMin();
+          case "max": return snapshot.getMax();
+          case "mean": return snapshot.getMean();
+          case "p50": return snapshot.getMedian();
+          case "p75": return snapshot.get75thPercentile();
+          case "p95": return snapshot.get95thPercentile();
+          case "p98": return snapshot.get98thPercentile();
+          case "p99": return snapshot.get99thPercentile();
+          case "p999": return snapshot.get999thPercentile();
+          default: return null;
+      }
+  }
+
+  /**
+   * Compares the value with the threshold.
+   *
+   * @private
+   * @param {number} value
+   * @param {ThresholdOperator} operator
+   * @param {number} threshold
+   * @returns {boolean}
+   * @memberof ThresholdRuleEngine
+   */
+  private compare(value: number, operator: ThresholdOperator, threshold: number): boolean {
+      switch (operator) {
+          case ">": return value > threshold;
+          case ">=": return value >= threshold;
+          case "<": return value < threshold;
+          case "<=": return value <= threshold;
+          case "==": return value === threshold;
+          case "!=": return value !== threshold;
+          default: return false;
+      }
+  }
+
+  /**
+   * Creates the alert (including the event) for a state change.
+   *
+   * @private
+   * @param {ThresholdRule} rule
+   * @param {Metric} metric
+   * @param {ThresholdAlertState} state
+   * @param {number} value
+   * @param {number} time
+   * @returns {ThresholdAlert}
+   * @memberof ThresholdRuleEngine
+   */
+  private createAlert(
+      rule: ThresholdRule,
+      metric: Metric,
+      state: ThresholdAlertState,
+      value: number,
+      time: number): ThresholdAlert {
+
+      const description = `${rule.value} of ${metric.getName()} is ${value} ` +
+          `(${state === "firing" ? "" : "not "}${rule.operator} ${rule.threshold})`;
+      const event = new Event<number>(rule.name, description, metric.getGroup(), new Date(time))
+          .setValue(value)
+          .setTags(new Map(metric.getTags()))
+          .setTag("metric", metric.getName())
+          .setTag("alertstate", state);
+      return { event, metric, rule, state, value };
+  }
+}
@@ -0,0 +1,145 @@
+import "source-map-support/register";
+
+/**
+ * A result which could not be sent together with the function sending it.
+ *
+ * @export
+ * @interface UnsentResult
+ * @template P
+ */
+export interface UnsentResult<P> {
+  /**
+   * The payload to send - implementation specific.
+   *
+   * @type {P}
+   * @memberof UnsentResult
+   */
+  readonly payload: P;
+  /**
+   * Sends the payload, rejects if sending failed.
+   *
+   * @memberof UnsentResult
+   */
+  readonly send: (payload: P) => Promise<void>;
+}
+
+/**
+ * Bounded FIFO queue of results which could not be sent - if the queue is full
+ * the oldest result is dropped and counted.
+ *
+ * @export
+ * @class UnsentResultQueue
+ * @template T
+ */
+export class UnsentResultQueue<T> {
+
+  /**
+   * The queued results - oldest first.
+   *
+   * @private
+   * @type {T[]}
+   * @memberof UnsentResultQueue
+   */
+  private readonly items: T[] = [];
+  /**
+   * The number of results dropped because the queue was full.
+   *
+   * @private
+   * @type {number}
+   * @memberof UnsentResultQueue
+   */
+  private dropped = 0;
+
+  /**
+   * Creates an instance of UnsentResultQueue.
+   *
+   * @param {number} capacity the max number of queued results - 0 drops all results
+   * @memberof UnsentResultQueue
+   */
+  public constructor(private readonly capacity: number) {
+  }
+
+  /**
+   * Adds the result to the end of the queue - drops the oldest results if the capacity is exceeded.
+   *
+   * @param {T} item
+   * @returns {this}
+   * @memberof UnsentResultQueue
+   */
+  public push(item: T): this {
+    this.items.push(item);
+    while (this.items.length > Math.max(this.capacity, 0)) {
+        this.items.shift();
+        this.dropped++;
+    }
+    return this;
+  }
+
+  /**
+   * Adds the result to the front of the queue (e.g. a result which failed again) -
+   * the result is dropped if the queue is full.
+   *
+   * @param {T} item
+   * @returns {this}
+   * @memberof UnsentResultQueue
+   */
+  public unshift(item: T): this {
+    if (this.items.length < this.capacity) {
+        this.items.unshift(item);
+    } else {
+        this.dropped++;
+    }
+    return this;
+  }
+
+  /**
+   * Removes and returns the oldest result - {@code undefined} if the queue is empty.
+   *
+   * @returns {T}
+   * @memberof UnsentResultQueue
+   */
+  public shift(): T {
+    return this.items.shift();
+  }
+
+  /**
+   * Removes all queued results (e.g. results replaced by a newer one) - the results are not counted as dropped.
+   *
+   * @returns {this}
+   * @memberof UnsentResultQueue
+   */
+  public clear(): this {
+    this.items.length = 0;
+    return this;
+  }
+
+  /**
+   * Gets the number of queued results.
+   *
+   * @returns {number}
+   * @memberof UnsentResultQueue
+   */
+  public size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Gets the capacity of the queue.
+   *
+   * @returns {number}
+   * @memberof UnsentResultQueue
+   */
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Gets the total number of results dropped because the queue was full.
+   *
+   * @returns {number}
+   * @memberof UnsentResultQueue
+   */
+  public getDroppedCount(): number {
+    return this.dropped;
+  }
+}
@@ -0,0 +1,271 @@
+import 'source-map-support/register'
+
+import { MetricRegistry } from './metric-registry'
+
+/**
+ * Listener for registries added to or removed from the {@link SharedMetricRegistries}.
+ *
+ * @export
+ * @interface SharedMetricRegistriesListener
+ */
+export interface SharedMetricRegistriesListener {
+  /**
+   * Called when a registry is added.
+   *
+   * @param {string} name
+   * @param {MetricRegistry} registry
+   * @memberof SharedMetricRegistriesListener
+   */
+  registryAdded (name: string, registry: MetricRegistry): void
+
+  /**
+   * Called when a registry is removed.
+   *
+   * @param {string} name
+   * @param {MetricRegistry} registry
+   * @memberof SharedMetricRegistriesListener
+   */
+  registryRemoved (name: string, registry: MetricRegistry): void
+}
+
+/**
+ * Registration of a {@link SharedMetricRegistriesListener} - used to remove the listener.
+ *
+ * @export
+ * @class SharedMetricRegistriesListenerRegistration
+ */
+export class SharedMetricRegistriesListenerRegistration {
+  /**
+   * Creates an instance of SharedMetricRegistriesListenerRegistration.
+   *
+   * @param {SharedMetricRegistriesListener} listener
+   * @memberof SharedMetricRegistriesListenerRegistration
+   */
+  public constructor (private readonly listener: SharedMetricRegistriesListener) {}
+
+  /**
+   * Removes the listener.
+   *
+   * @returns {this}
+   * @memberof SharedMetricRegistriesListenerRegistration
+   */
+  public remove (): this {
+    SharedMetricRegistries.removeListener(this.listener)
+    return this
+  }
+}
+
+/**
+ * The state of the shared registries - kept in a global variable,
+ * so it is shared by all copies of this module loaded in the process.
+ *
+ * @interface SharedState
+ */
+interface SharedState {
+  registries: Map<string, MetricRegistry>
+  listeners: SharedMetricRegistriesListener[]
+}
+
+/**
+ * Key of the global variable holding the {@link SharedState}.
+ */
+const SHARED_STATE_KEY = Symbol.for('inspector-metrics:shared-metric-registries')
+
+/**
+ * Brand of the {@link SharedMetricRegistries} class - identifies the class in all copies of this module
+ * loaded in the process, see {@link isSharedMetricRegistries}.
+ */
+const SHARED_REGISTRIES_BRAND: unique symbol = Symbol.for('inspector-metrics:shared-metric-registries-class')
+
+/**
+ * Gets (or initializes) the process-wide state.
+ *
+ * @returns {SharedState}
+ */
+function getSharedState (): SharedState {
+  const anyGlobal: any = global
+  if (!anyGlobal[SHARED_STATE_KEY]) {
+    anyGlobal[SHARED_STATE_KEY] = {
+      listeners: [],
+      registries: new Map()
+    }
+  }
+  return anyGlobal[SHARED_STATE_KEY]
+}
+
+/**
+ * Process-wide named {@link MetricRegistry} instances - libraries can publish metrics into a shared
+ * registry without the application wiring a registry through every constructor.
+ *
+ * Metric reporters report the metrics of all shared registries (including the ones added later)
+ * if {@link SharedMetricRegistries} itself is passed to {@link MetricReporter#addMetricRegistry}.
+ *
+ * @export
+ * @class SharedMetricRegistries
+ */
+export class SharedMetricRegistries {
+  /**
+   * Brand identifying the class - see {@link isSharedMetricRegistries}.
+   *
+   * @static
+   * @memberof SharedMetricRegistries
+   */
+  public static readonly [SHARED_REGISTRIES_BRAND] = true
+
+  /**
+   * The name of the default registry.
+   *
+   * @static
+   * @memberof SharedMetricRegistries
+   */
+  public static readonly DEFAULT_REGISTRY_NAME = 'default'
+
+  /**
+   * Gets the registry with the specified name - creates and adds a new registry if there is none.
+   *
+   * @static
+   * @param {string} name
+   * @returns {MetricRegistry}
+   * @memberof SharedMetricRegistries
+   */
+  public static getOrCreate (name: string): MetricRegistry {
+    const existing = SharedMetricRegistries.get(name)
+    if (existing) {
+      return existing
+    }
+    return SharedMetricRegistries.add(name, new MetricRegistry())
+  }
+
+  /**
+   * Gets the default registry - created on the first call if not added before.
+   *
+   * @static
+   * @returns {MetricRegistry}
+   * @memberof SharedMetricRegistries
+   */
+  public static getDefault (): MetricRegistry {
+    return SharedMetricRegistries.getOrCreate(SharedMetricRegistries.DEFAULT_REGISTRY_NAME)
+  }
+
+  /**
+   * Gets the registry with the specified name or {@code null} if there is none.
+   *
+   * @static
+   * @param {string} name
+   * @returns {MetricRegistry}
+   * @memberof SharedMetricRegistries
+   */
+  public static get (name: string): MetricRegistry {
+    return getSharedState().registries.get(name) || null
+  }
+
+  /**
+   * Adds the specified registry with the specified name - throws an error if the name is already taken.
+   *
+   * @static
+   * @param {string} name
+   * @param {MetricRegistry} registry
+   * @returns {MetricRegistry} the registry added
+   * @memberof SharedMetricRegistries
+   */
+  public static add (name: string, registry: MetricRegistry): MetricRegistry {
+    const state = getSharedState()
+    if (state.registries.has(name)) {
+      throw new Error(`A shared metric registry named '${name}' already exists`)
+    }
+    state.registries.set(name, registry)
+    state.listeners.forEach((listener) => listener.registryAdded(name, registry))
+    return registry
+  }
+
+  /**
+   * Removes the registry with the specified name.
+   *
+   * @static
+   * @param {string} name
+   * @returns {MetricRegistry} the removed registry or {@code null} if there is none
+   * @memberof SharedMetricRegistries
+   */
+  public static remove (name: string): MetricRegistry {
+    const state = getSharedState()
+    const registry = state.registries.get(name)
+    if (!registry) {
+      return null
+    }
+    state.registries.delete(name)
+    state.listeners.forEach((listener) => listener.registryRemoved(name, registry))
+    return registry
+  }
+
+  /**
+   * Removes all registries.
+   *
+   * @static
+   * @memberof SharedMetricRegistries
+   */
+  public static clear (): void {
+    SharedMetricRegistries.names().forEach((name) => SharedMetricRegistries.remove(name))
+  }
+
+  /**
+   * Gets the names of all registries.
+   *
+   * @static
+   * @returns {string[]}
+   * @memberof SharedMetricRegistries
+   */
+  public static names (): string[] {
+    return Array.from(getSharedState().registries.keys())
+  }
+
+  /**
+   * Gets all registries.
+   *
+   * @static
+   * @returns {MetricRegistry[]}
+   * @memberof SharedMetricRegistries
+   */
+  public static getRegistries (): MetricRegistry[] {
+    return Array.from(getSharedState().registries.values())
+  }
+
+  /**
+   * Adds the specified listener - it is not invoked for the registries already added.
+   *
+   * @static
+   * @param {SharedMetricRegistriesListener} listener
+   * @returns {SharedMetricRegistriesListenerRegistration}
+   * @memberof SharedMetricRegistries
+   */
+  public static addListener (listener: SharedMetricRegistriesListener): SharedMetricRegistriesListenerRegistration {
+    getSharedState().listeners.push(listener)
+    return new SharedMetricRegistriesListenerRegistration(listener)
+  }
+
+  /**
+   * Removes the specified listener.
+   *
+   * @static
+   * @param {SharedMetricRegistriesListener} listener
+   * @memberof SharedMetricRegistries
+   */
+  public static removeListener (listener: SharedMetricRegistriesListener): void {
+    const listeners = getSharedState().listeners
+    const index = listeners.indexOf(listener)
+    if (index !== -1) {
+      listeners.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Determines if the specified value is the {@link SharedMetricRegistries} class -
+ * of this or of any other copy of this module loaded in the process.
+ *
+ * @export
+ * @param {*} value
+ * @returns {value is typeof SharedMetricRegistries}
+ */
+export function isSharedMetricRegistries (value: any): value is typeof SharedMetricRegistries {
+  return !!value && value[SHARED_REGISTRIES_BRAND] === true
+}
@@ -0,0 +1,161 @@
+import 'source-map-support/register'
+
+import { Histogram } from './histogram'
+import { Buckets, BucketToCountMap } from './model/counting'
+import { Int64Wrapper } from './model/int64'
+import { SerializableMetric } from './model/metric'
+import { DDSketch, isSerializedSketchSnapshot, SerializedSketchSnapshot, SketchSnapshot } from './model/sketch'
+import { SerializedSnapshot } from './model/snapshot'
+
+/**
+ * Serialized version of a {@link SketchHistogram} - as sent from forked processes to the master process.
+ *
+ * @export
+ * @interface SerializedSketchHistogram
+ * @extends {SerializableMetric}
+ */
+export interface SerializedSketchHistogram extends SerializableMetric {
+  buckets: number[]
+  counts: BucketToCountMap
+  count: number
+  sum: string
+  snapshot: SerializedSketchSnapshot
+}
+
+/**
+ * Determines if the specified (serialized) metric is a {@link SerializedSketchHistogram}.
+ *
+ * @export
+ * @param {*} metric
+ * @returns {metric is SerializedSketchHistogram}
+ */
+export function isSerializedSketchHistogram (metric: any): metric is SerializedSketchHistogram {
+  return !!metric && isSerializedSketchSnapshot(metric.snapshot)
+}
+
+/**
+ * A {@link Histogram} backed by a mergeable quantile sketch ({@link DDSketch}) with relative-error guarantees.
+ *
+ * The serialized version contains the sketch, so the sketches of several processes
+ * can be merged into percentiles across all processes - e.g. in the master process of a cluster.
+ *
+ * @export
+ * @class SketchHistogram
+ * @extends {Histogram}
+ */
+export class SketchHistogram extends Histogram {
+  /**
+   * The sketch used as reservoir.
+   *
+   * @protected
+   * @type {DDSketch}
+   * @memberof SketchHistogram
+   */
+  protected readonly sketch: DDSketch
+
+  /**
+   * Creates an instance of SketchHistogram.
+   *
+   * @param {number} [relativeAccuracy=DDSketch.DEFAULT_RELATIVE_ACCURACY] the relative accuracy of all quantiles
+   * @param {string} [name] optional metric name.
+   * @param {string} [description] optional metric description.
+   * @param {Buckets} [buckets=new Buckets()] optional bucket config.
+   * @memberof SketchHistogram
+   */
+  public constructor (
+    relativeAccuracy: number = DDSketch.DEFAULT_RELATIVE_ACCURACY,
+    name?: string,
+    description?: string,
+    buckets: Buckets = new Buckets()) {
+    const sketch = new DDSketch(relativeAccuracy)
+    super(sketch, name, description, buckets)
+    this.sketch = sketch
+  }
+
+  /**
+   * Gets the serialized snapshot including the sketch.
+   *
+   * @readonly
+   * @type {SerializedSnapshot}
+   * @memberof SketchHistogram
+   */
+  public get snapshot (): SerializedSnapshot {
+    return this.getSnapshot()
+  }
+
+  /**
+   * Gets the sketch.
+   *
+   * @returns {DDSketch}
+   * @memberof SketchHistogram
+   */
+  public getSketch (): DDSketch {
+    return this.sketch
+  }
+
+  /**
+   * Gets a snapshot of the sketch - or of the last completed interval in interval mode.
+   *
+   * @returns {SketchSnapshot}
+   * @memberof SketchHistogram
+   */
+  public getSnapshot (): SketchSnapshot {
+    return super.getSnapshot() as SketchSnapshot
+  }
+
+  /**
+   * Adds the values of the specified histogram (or it's serialized version) to this histogram -
+   * the sketch, the count, the sum and the counts of the buckets known to this histogram.
+   *
+   * @param {SketchHistogram | SerializedSketchHistogram} histogram
+   * @returns {this}
+   * @memberof SketchHistogram
+   */
+  public merge (histogram: SketchHistogram | SerializedSketchHistogram): this {
+    const serialized: SerializedSketchHistogram = histogram instanceof SketchHistogram ? histogram.toJSON() : histogram
+    this.sketch.merge(serialized.snapshot.sketch)
+    this.count += serialized.count
+    this.sumInternal.add(new Int64Wrapper(serialized.sum))
+    for (const [boundary, count] of this.bucketCounts) {
+      this.bucketCounts.set(boundary, count + (serialized.counts[boundary] || 0))
+    }
+    return this
+  }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof SketchHistogram
+   */
+  public getStateType (): string {
+    return 'SketchHistogram'
+  }
+
+  /**
+   * Same as {@link Histogram#restoreState}, also restoring the sketch.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof SketchHistogram
+   */
+  public restoreState (state: any): this {
+    super.restoreState(state)
+    this.sketch.reset()
+    if (state.snapshot && isSerializedSketchSnapshot(state.snapshot)) {
+      this.sketch.merge(state.snapshot.sketch)
+    }
+    return this
+  }
+
+  /**
+   * Merges this histogram into the specified histogram - see {@link BaseMetric#foldInto}.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof SketchHistogram
+   */
+  protected foldValuesInto (target: this): void {
+    target.merge(this)
+  }
+}
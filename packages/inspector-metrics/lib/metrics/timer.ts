@@ -3,14 +3,24 @@ import 'source-map-support/register'
 import { Clock, diff, Time } from './clock'
 import { Histogram } from './histogram'
 import { Meter } from './meter'
-import { BucketCounting, Buckets, BucketToCountMap, SerializableBucketCounting } from './model/counting'
+import {
+  BucketCounting,
+  Buckets,
+  BucketToCountMap,
+  BucketToExemplarMap,
+  Exemplar,
+  SerializableBucketCounting
+} from './model/counting'
 import { Int64Wrapper } from './model/int64'
+import { IntervalRecording, SerializableIntervalRecording } from './model/interval-recording'
 import { Metered, MeteredRates, SerializableMetered } from './model/metered'
 import { BaseMetric } from './model/metric'
 import { Reservoir } from './model/reservoir'
+import { Restorable } from './model/restorable'
 import { Sampling, SerializableSampling } from './model/sampling'
 import { SerializedSnapshot, Snapshot } from './model/snapshot'
 import { SerializableSummarizing, Summarizing } from './model/summarizing'
+import { Tags } from './model/taggable'
 import { NANOSECOND, TimeUnit } from './model/time-unit'
 
 /**
@@ -72,11 +82,12 @@ export class StopWatch {
    * Adds the duration between the last invocation of the start function
    * and this invocation to the timer in nanoseconds.
    *
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {this}
    * @memberof StopWatch
    */
-  public stop (): this {
-    this.timer.addDuration(diff(this.startTime, this.clock.time()), NANOSECOND)
+  public stop (exemplar?: Tags): this {
+    this.timer.addDuration(diff(this.startTime, this.clock.time()), NANOSECOND, exemplar)
     return this
   }
 }
@@ -90,11 +101,13 @@ export class StopWatch {
  * @extends {BaseMetric}
  * @implements {Metered}
  * @implements {Sampling}
+ * @implements {IntervalRecording}
+ * @implements {Restorable}
  */
 export class Timer extends BaseMetric implements
-    BucketCounting, Metered, Sampling, Summarizing,
+    BucketCounting, IntervalRecording, Metered, Restorable, Sampling, Summarizing,
     SerializableSummarizing, SerializableBucketCounting,
-    SerializableSampling, SerializableMetered {
+    SerializableIntervalRecording, SerializableSampling, SerializableMetered {
   /**
    * Used to determine a duration.
    *
@@ -138,10 +151,12 @@ export class Timer extends BaseMetric implements
     buckets: Buckets = new Buckets()) {
     super()
     this.clock = clock
+    this.updateClock = clock
     this.name = name
     this.description = description
     this.meter = new Meter(clock, 1, name)
-    this.histogram = new Histogram(reservoir, name, description, buckets)
+    this.histogram = new Histogram(reservoir, name, description, buckets).setUpdateClock(clock)
+    this.markUpdated()
   }
 
   /**
@@ -164,6 +179,16 @@ export class Timer extends BaseMetric implements
     return this.histogram.counts
   }
 
+  /**
+   * Gets the {@link BucketToExemplarMap} from the internal {@link Histogram}.
+   *
+   * @returns {BucketToExemplarMap}
+   * @memberof Timer
+   */
+  public get exemplars (): BucketToExemplarMap {
+    return this.histogram.exemplars
+  }
+
   /**
    * Gets the 64bit number as string from the internal {@link Histogram}.
    *
@@ -186,6 +211,17 @@ export class Timer extends BaseMetric implements
     return this.histogram.snapshot
   }
 
+  /**
+   * Indicates if the interval mode of the embedded {@link Histogram} is enabled.
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof Timer
+   */
+  public get intervalMode (): boolean {
+    return this.histogram.intervalMode
+  }
+
   /**
    * Gets the count of event reported.
    *
@@ -224,17 +260,21 @@ export class Timer extends BaseMetric implements
   }
 
   /**
-   * Adds a duration manually.
+   * Adds a duration manually - the exemplar value is recorded in nanoseconds.
    *
    * @param {number} duration
    * @param {TimeUnit} unit
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {this}
    * @memberof Timer
    */
-  public addDuration (duration: number, unit: TimeUnit): this {
-    if (duration >= 0) {
-      this.histogram.update(unit.convertTo(duration, NANOSECOND))
+  public addDuration (duration: number, unit: TimeUnit, exemplar?: Tags): this {
+    if (this.foldTarget) {
+      this.foldTarget.addDuration(duration, unit, exemplar)
+    } else if (duration >= 0) {
+      this.histogram.update(unit.convertTo(duration, NANOSECOND), exemplar)
       this.meter.mark(1)
+      this.markUpdated()
     }
     return this
   }
@@ -249,6 +289,40 @@ export class Timer extends BaseMetric implements
     return this.histogram.getSnapshot()
   }
 
+  /**
+   * Determines if the interval mode of the embedded {@link Histogram} is enabled.
+   *
+   * @returns {boolean}
+   * @memberof Timer
+   */
+  public isIntervalMode (): boolean {
+    return this.histogram.isIntervalMode()
+  }
+
+  /**
+   * Enables or disables the interval mode of the embedded {@link Histogram} -
+   * the snapshot then only contains the durations of the last completed interval.
+   *
+   * @param {boolean} intervalMode
+   * @returns {this}
+   * @memberof Timer
+   */
+  public setIntervalMode (intervalMode: boolean): this {
+    this.histogram.setIntervalMode(intervalMode)
+    return this
+  }
+
+  /**
+   * Completes the current interval of the embedded {@link Histogram}.
+   *
+   * @returns {this}
+   * @memberof Timer
+   */
+  public swapInterval (): this {
+    this.histogram.swapInterval()
+    return this
+  }
+
   /**
    * Gets the count from the embedded {@link Histogram}.
    *
@@ -329,20 +403,32 @@ export class Timer extends BaseMetric implements
     return this.histogram.getCounts()
   }
 
+  /**
+   * Gets the most recent exemplars per bucket from the internal {@link Histogram}.
+   *
+   * @returns {Map<number, Exemplar>}
+   * @memberof Timer
+   */
+  public getExemplars (): Map<number, Exemplar> {
+    return this.histogram.getExemplars()
+  }
+
   /**
    * Measures the duration of the passed function's invocation
    * synchronously and adds it to the pool.
    *
    * @template T
+   * @param {() => T} f
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {T}
    * @memberof Timer
    */
-  public time<T> (f: () => T): T {
+  public time<T> (f: () => T, exemplar?: Tags): T {
     const startTime: Time = this.clock.time()
     try {
       return f()
     } finally {
-      this.addDuration(diff(startTime, this.clock.time()), NANOSECOND)
+      this.addDuration(diff(startTime, this.clock.time()), NANOSECOND, exemplar)
     }
   }
 
@@ -351,18 +437,20 @@ export class Timer extends BaseMetric implements
    * asynchronously and adds it to the pool.
    *
    * @template T
+   * @param {() => Promise<T>} f
+   * @param {Tags} [exemplar] optional labels of an exemplar
    * @returns {T}
    * @memberof Timer
    */
-  public async timeAsync<T> (f: () => Promise<T>): Promise<T> {
+  public async timeAsync<T> (f: () => Promise<T>, exemplar?: Tags): Promise<T> {
     const startTime: Time = this.clock.time()
     return await f()
       .then((res) => {
-        this.addDuration(diff(startTime, this.clock.time()), NANOSECOND)
+        this.addDuration(diff(startTime, this.clock.time()), NANOSECOND, exemplar)
         return res
       })
       .catch((err) => {
-        this.addDuration(diff(startTime, this.clock.time()), NANOSECOND)
+        this.addDuration(diff(startTime, this.clock.time()), NANOSECOND, exemplar)
         throw err
       })
   }
@@ -393,4 +481,49 @@ export class Timer extends BaseMetric implements
       ...json
     }
   }
+
+  /**
+   * Gets the type of the exported state - the state is only restored into metrics of the same type.
+   *
+   * @returns {string}
+   * @memberof Timer
+   */
+  public getStateType (): string {
+    return 'Timer'
+  }
+
+  /**
+   * Same as {@link #toJSON()}.
+   *
+   * @returns {*}
+   * @memberof Timer
+   */
+  public exportState (): any {
+    return this.toJSON()
+  }
+
+  /**
+   * Restores the internal histogram and meter - see {@link Histogram#restoreState} and {@link Meter#restoreState}.
+   *
+   * @param {*} state
+   * @returns {this}
+   * @memberof Timer
+   */
+  public restoreState (state: any): this {
+    this.histogram.restoreState(state)
+    this.meter.restoreState(state)
+    this.markUpdated()
+    return this
+  }
+
+  /**
+   * Adds the durations of the current snapshot to the specified timer - see {@link BaseMetric#foldInto}.
+   *
+   * @protected
+   * @param {this} target
+   * @memberof Timer
+   */
+  protected foldValuesInto (target: this): void {
+    this.getSnapshot().getValues().forEach((value) => target.addDuration(value, NANOSECOND))
+  }
 }
@@ -0,0 +1,159 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+import { SinonSpy, spy } from 'sinon'
+import * as sinonChai from 'sinon-chai'
+
+import { Counter } from '../../lib/metrics/counter'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { mapToTags } from '../../lib/metrics/model/taggable'
+import { Logger } from '../../lib/metrics/reporter/logger'
+
+chai.use(sinonChai)
+
+const expect = chai.expect
+
+@suite
+export class CardinalityLimiterTest {
+  private logger: Logger
+  private warn: SinonSpy
+  private registry: MetricRegistry
+
+  public before (): void {
+    this.warn = spy()
+    this.logger = { debug: () => {}, error: () => {}, info: () => {}, trace: () => {}, warn: this.warn }
+    this.registry = new MetricRegistry().setCardinalityLimit(2, this.logger)
+  }
+
+  @test
+  public 'check get or create folds new combinations into the overflow series' (): void {
+    const user1 = this.registry.getOrCreateCounter('requests', { user: '1' })
+    const user2 = this.registry.getOrCreateCounter('requests', { user: '2' })
+    const user3 = this.registry.getOrCreateCounter('requests', { user: '3' })
+    const user4 = this.registry.getOrCreateCounter('requests', { user: '4' })
+
+    expect(user1).to.not.equal(user2)
+    expect(mapToTags(user3.getTags())).to.deep.equal({ user: 'other' })
+    expect(user4).to.equal(user3)
+    expect(this.registry.getOrCreateCounter('requests', { user: '1' })).to.equal(user1)
+    expect(this.registry.getMetricList()).to.have.lengthOf(3)
+    expect(this.registry.getOrCreateCounter('requests', { user: '1' }, 'group')).to.not.equal(user1)
+
+    expect(this.warn).to.have.been.calledOnceWith(
+      "Metric 'requests' exceeds the limit of 2 tag combinations - new combinations are reported with the tag value 'other'")
+  }
+
+  @test
+  public 'check metric families fold new combinations into the overflow series' (): void {
+    const family = this.registry.newTimerFamily('latency', ['endpoint'])
+    family.labels('/a')
+    family.labels('/b')
+    const overflow = family.labels('/c')
+
+    expect(overflow.getTag('endpoint')).to.equal('other')
+    expect(family.labels('/d')).to.equal(overflow)
+    expect(family.getChildren()).to.have.lengthOf(3)
+  }
+
+  @test
+  public 'check tags changed on registered metrics' (): void {
+    const counter1 = this.registry.newCounter('requests').setTag('user', '1')
+    const counter2 = this.registry.newCounter('requests').setTag('user', '2')
+    const counter3 = this.registry.newCounter('requests')
+
+    expect(mapToTags(counter1.getTags())).to.deep.equal({ user: '1' })
+    expect(mapToTags(counter2.getTags())).to.deep.equal({ user: '2' })
+    expect(mapToTags(counter3.getTags())).to.deep.equal({})
+
+    counter3.setTags(new Map([['user', '3'], ['region', 'eu']]))
+    expect(mapToTags(counter3.getTags())).to.deep.equal({ user: 'other', region: 'other' })
+
+    counter1.setTag('user', '4')
+    expect(mapToTags(counter1.getTags())).to.deep.equal({ user: '4' })
+    expect(this.warn).to.have.been.calledOnce
+  }
+
+  @test
+  public 'check tag changes fold new combinations into a single overflow series' (): void {
+    const counters = ['1', '2', '3', '4', '5']
+      .map((user) => this.registry.newCounter('requests').setTag('user', user))
+
+    expect(this.registry.getMetricList()).to.deep.equal(counters.slice(0, 3))
+    expect(mapToTags(counters[2].getTags())).to.deep.equal({ user: 'other' })
+    expect(this.registry.getOrCreateCounter('requests', { user: '6' })).to.equal(counters[2])
+
+    counters[0].setTag('user', 'other')
+    expect(this.registry.getMetricList()).to.deep.equal(counters.slice(1, 3))
+  }
+
+  @test
+  public 'check registered metrics fold into the overflow series' (): void {
+    const overflow = this.registry.newCounter('requests').setTag('user', 'other')
+    this.registry.newCounter('requests').setTag('user', '1')
+    this.registry.newCounter('requests').setTag('user', '2')
+
+    this.registry.registerMetric(new Counter('requests').setTag('user', '3'))
+
+    expect(this.registry.getMetricList()).to.have.lengthOf(3)
+    expect(this.registry.getMetricList()).to.include(overflow)
+  }
+
+  @test
+  public 'check values of folded metrics land in the overflow series' (): void {
+    const overflow = this.registry.newCounter('requests').setTag('user', 'other').increment(1)
+    this.registry.newCounter('requests').setTag('user', '1')
+    this.registry.newCounter('requests').setTag('user', '2')
+
+    this.registry.registerMetric(new Counter('requests').setTag('user', '3').increment(2))
+    const folded = this.registry.newCounter('requests').increment(4).setTag('user', '4')
+    folded.increment(8)
+
+    expect(overflow.getCount()).to.equal(15)
+    expect(folded.getFoldTarget()).to.equal(overflow)
+    expect(this.registry.getMetricList()).to.have.lengthOf(3)
+  }
+
+  @test
+  public 'check metrics registered before the limit is set' (): void {
+    const registry = new MetricRegistry()
+    const counters = ['1', '2', '3', '4']
+      .map((user) => registry.newCounter('requests').setTag('user', user))
+
+    registry.setCardinalityLimit(2, this.logger)
+
+    expect(registry.getMetricList()).to.deep.equal(counters.slice(0, 3))
+    expect(counters[2].getTag('user')).to.equal('other')
+    expect(counters[3].getTag('user')).to.equal('other')
+
+    counters[0].setTag('user', '5')
+    expect(counters[0].getTag('user')).to.equal('5')
+    registry.newCounter('requests').setTag('user', '6')
+    expect(registry.getMetricList()).to.deep.equal(counters.slice(0, 3))
+  }
+
+  @test
+  public 'check removed metrics free their combination' (): void {
+    const counter1 = this.registry.getOrCreateCounter('requests', { user: '1' })
+    this.registry.getOrCreateCounter('requests', { user: '2' })
+    this.registry.unregisterMetric(counter1)
+
+    expect(this.registry.getOrCreateCounter('requests', { user: '3' }).getTag('user')).to.equal('3')
+
+    counter1.setTag('user', '5')
+    expect(counter1.getTag('user')).to.equal('5')
+    expect(this.warn).to.not.have.been.called
+  }
+
+  @test
+  public 'check metrics without limit' (): void {
+    const registry = new MetricRegistry().setCardinalityLimit(1, this.logger).setCardinalityLimit(null)
+
+    registry.getOrCreateCounter('requests', { user: '1' })
+    expect(registry.getOrCreateCounter('requests', { user: '2' }).getTag('user')).to.equal('2')
+    expect(registry.getCardinalityLimiter()).to.be.null
+  }
+}
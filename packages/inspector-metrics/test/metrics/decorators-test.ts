@@ -0,0 +1,171 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+
+import { Counted, ExceptionMetered, MeteredMethod, Timed } from '../../lib/metrics/decorators'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { MockedClock } from './mocked-clock'
+
+const expect = chai.expect
+
+const clock = new MockedClock()
+const registry = new MetricRegistry()
+registry.setDefaultClock(clock)
+
+class ValidationError extends Error {}
+
+class UserService {
+  public constructor (public readonly registry: MetricRegistry = null) {}
+
+  @Timed({ registry, tags: { type: 'sync' } })
+  public findUser (id: number): string {
+    clock.setCurrentTime({ milliseconds: 0, nanoseconds: 500 })
+    return `user-${id}`
+  }
+
+  @Timed({ registry, name: 'user_load', group: 'users' })
+  public async loadUser (id: number): Promise<string> {
+    await Promise.resolve()
+    clock.setCurrentTime({ milliseconds: 0, nanoseconds: 800 })
+    return `user-${id}`
+  }
+
+  @Timed({ registry, name: 'user_import' })
+  @ExceptionMetered({ registry, name: 'user_import_errors' })
+  public importUser (id: number): Promise<string> {
+    return Promise.resolve().then(() => {
+      clock.setCurrentTime({ milliseconds: 0, nanoseconds: 300 })
+      return `user-${id}`
+    })
+  }
+
+  @Counted({ registry })
+  @MeteredMethod({ registry, name: 'user_updates' })
+  public updateUser (id: number): number {
+    return id
+  }
+
+  @ExceptionMetered({ registry })
+  public deleteUser (id: number): void {
+    if (id < 0) {
+      throw new ValidationError(`invalid id ${id}`)
+    }
+  }
+
+  @ExceptionMetered({ registry, name: 'user_save_errors', cause: ValidationError })
+  public async saveUser (error: Error): Promise<void> {
+    if (error) {
+      throw error
+    }
+  }
+
+  @Counted({ registry: (service: UserService) => service.registry })
+  public countPerRegistry (): void {}
+}
+
+@suite
+export class DecoratorsTest {
+  private readonly service = new UserService()
+
+  public before (): void {
+    clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 })
+  }
+
+  @test
+  public 'check timed sync method' (): void {
+    expect(this.service.findUser(1)).to.equal('user-1')
+
+    const timer = registry.getTimer('UserService.findUser')
+    expect(timer.getCount()).to.equal(1)
+    expect(timer.getSnapshot().getMax()).to.equal(500)
+    expect(timer.getTag('type')).to.equal('sync')
+
+    this.service.findUser(2)
+    expect(registry.getTimersByName('UserService.findUser')).to.have.lengthOf(1)
+    expect(timer.getCount()).to.equal(2)
+  }
+
+  @test
+  public async 'check timed async method' (): Promise<void> {
+    const promise = this.service.loadUser(1)
+    const timer = registry.getTimer('user_load')
+    expect(timer.getGroup()).to.equal('users')
+    expect(timer.getCount()).to.equal(0)
+
+    expect(await promise).to.equal('user-1')
+    expect(timer.getCount()).to.equal(1)
+    expect(timer.getSnapshot().getMax()).to.equal(800)
+  }
+
+  @test
+  public async 'check timed method returning a promise with stacked decorators' (): Promise<void> {
+    const promise = this.service.importUser(1)
+    const timer = registry.getTimer('user_import')
+    expect(timer.getCount()).to.equal(0)
+
+    expect(await promise).to.equal('user-1')
+    expect(timer.getCount()).to.equal(1)
+    expect(timer.getSnapshot().getMax()).to.equal(300)
+    expect(registry.getMeter('user_import_errors').getCount()).to.equal(0)
+  }
+
+  @test
+  public 'check counted and metered method' (): void {
+    expect(this.service.updateUser(1)).to.equal(1)
+    this.service.updateUser(2)
+
+    expect(registry.getCounter('UserService.updateUser').getCount()).to.equal(2)
+    expect(registry.getMeter('user_updates').getCount()).to.equal(2)
+  }
+
+  @test
+  public 'check exception metered sync method' (): void {
+    this.service.deleteUser(1)
+    expect(() => this.service.deleteUser(-1)).to.throw(ValidationError, 'invalid id -1')
+
+    expect(registry.getMeter('UserService.deleteUser.exceptions').getCount()).to.equal(1)
+  }
+
+  @test
+  public async 'check exception metered async method with cause' (): Promise<void> {
+    await this.service.saveUser(null)
+    await this.service.saveUser(new ValidationError('invalid'))
+      .then(() => expect.fail('error expected'), (error) => expect(error).to.be.instanceOf(ValidationError))
+    await this.service.saveUser(new Error('other'))
+      .then(() => expect.fail('error expected'), (error) => expect(error.message).to.equal('other'))
+
+    expect(registry.getMeter('user_save_errors').getCount()).to.equal(1)
+  }
+
+  @test
+  public 'check registry supplier' (): void {
+    const registry1 = new MetricRegistry()
+    const registry2 = new MetricRegistry()
+
+    new UserService(registry1).countPerRegistry()
+    new UserService(registry1).countPerRegistry()
+    new UserService(registry2).countPerRegistry()
+
+    expect(registry1.getCounter('UserService.countPerRegistry').getCount()).to.equal(2)
+    expect(registry2.getCounter('UserService.countPerRegistry').getCount()).to.equal(1)
+  }
+
+  @test
+  public 'check metrics removed from the registry are created again' (): void {
+    const registry1 = new MetricRegistry()
+    const service = new UserService(registry1)
+
+    service.countPerRegistry()
+    const counter = registry1.getCounter('UserService.countPerRegistry')
+    registry1.unregisterMetric(counter)
+    service.countPerRegistry()
+
+    expect(counter.getCount()).to.equal(1)
+    expect(registry1.getCounter('UserService.countPerRegistry')).to.not.equal(counter)
+    expect(registry1.getCounter('UserService.countPerRegistry').getCount()).to.equal(1)
+  }
+}
@@ -0,0 +1,146 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+
+import { AsyncGauge, FunctionGauge } from '../../lib/metrics/function-gauge'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+
+const expect = chai.expect
+
+@suite
+export class FunctionGaugeTest {
+  @test
+  public 'check value is supplied on each call' (): void {
+    let value = 1
+    const gauge = new FunctionGauge('gauge-name', () => value, 'gauge-description')
+
+    expect(gauge.getName()).to.equal('gauge-name')
+    expect(gauge.getDescription()).to.equal('gauge-description')
+    expect(gauge.getValue()).to.equal(1)
+    value = 2
+    expect(gauge.getValue()).to.equal(2)
+  }
+
+  @test
+  public 'check serialization' (): void {
+    const gauge = new FunctionGauge('gauge-name', () => 42)
+    const serializedGauge = JSON.parse(JSON.stringify(gauge))
+
+    expect(serializedGauge.name).to.equal('gauge-name')
+    expect(serializedGauge.value).to.equal(42)
+  }
+
+  @test
+  public 'check registration' (): void {
+    const registry = new MetricRegistry()
+    const gauge = registry.newFunctionGauge('gauge-name', () => 42, 'group')
+
+    expect(registry.getGaugeList()).to.deep.equal([gauge])
+    expect(gauge.getGroup()).to.equal('group')
+  }
+}
+
+@suite
+export class AsyncGaugeTest {
+  @test
+  public async 'check value is resolved on update' (): Promise<void> {
+    let value = 1
+    const gauge = new AsyncGauge('gauge-name', async () => value)
+
+    expect(gauge.getValue()).to.be.undefined
+    await gauge.update()
+    expect(gauge.getValue()).to.equal(1)
+    value = 2
+    expect(gauge.getValue()).to.equal(1)
+    await gauge.update()
+    expect(gauge.getValue()).to.equal(2)
+  }
+
+  @test
+  public async 'check synchronous supplier and initial value' (): Promise<void> {
+    const gauge = new AsyncGauge('gauge-name', () => 2, null, 1)
+
+    expect(gauge.getValue()).to.equal(1)
+    await gauge.update()
+    expect(gauge.getValue()).to.equal(2)
+  }
+
+  @test
+  public async 'check failing supplier keeps the previous value' (): Promise<void> {
+    const error = new Error('connection refused')
+    let fail = false
+    const gauge = new AsyncGauge('gauge-name', async () => {
+      if (fail) {
+        throw error
+      }
+      return 5
+    })
+
+    await gauge.update()
+    expect(gauge.getLastError()).to.be.null
+
+    fail = true
+    await gauge.update()
+    expect(gauge.getValue()).to.equal(5)
+    expect(gauge.getLastError()).to.equal(error)
+
+    fail = false
+    await gauge.update()
+    expect(gauge.getLastError()).to.be.null
+  }
+
+  @test
+  public async 'check hanging supplier times out' (): Promise<void> {
+    let hang = false
+    const gauge = new AsyncGauge('gauge-name', async () => {
+      if (hang) {
+        return await new Promise<number>(() => {})
+      }
+      return 5
+    }).setUpdateTimeout(10)
+
+    await gauge.update()
+    hang = true
+    await gauge.update()
+
+    expect(gauge.getUpdateTimeout()).to.equal(10)
+    expect(gauge.getValue()).to.equal(5)
+    expect(gauge.getLastError().message).to.equal("Update of gauge 'gauge-name' timed out after 10 ms")
+  }
+
+  @test
+  public async 'check synchronously throwing supplier' (): Promise<void> {
+    const error = new Error('not connected')
+    const gauge = new AsyncGauge<number>('gauge-name', () => {
+      throw error
+    }, null, 1)
+
+    await gauge.update()
+
+    expect(gauge.getValue()).to.equal(1)
+    expect(gauge.getLastError()).to.equal(error)
+  }
+
+  public async 'check serialization' (): Promise<void> {
+    const gauge = new AsyncGauge('gauge-name', async () => 42)
+    await gauge.update()
+    const serializedGauge = JSON.parse(JSON.stringify(gauge))
+
+    expect(serializedGauge.name).to.equal('gauge-name')
+    expect(serializedGauge.value).to.equal(42)
+  }
+
+  @test
+  public 'check registration' (): void {
+    const registry = new MetricRegistry()
+    const gauge = registry.newAsyncGauge('gauge-name', async () => 42, 'group', 'description', 0)
+
+    expect(registry.getGaugeList()).to.deep.equal([gauge])
+    expect(gauge.getDescription()).to.equal('description')
+    expect(gauge.getValue()).to.equal(0)
+  }
+}
@@ -353,11 +353,14 @@ export class HdrHistogramTest {
     expect(histogram.getSum().toNumber()).to.equal(9)
 
     const serializedHistogram = JSON.parse(JSON.stringify(histogram))
-    expect(Object.keys(serializedHistogram).length).to.equal(9)
+    expect(Object.keys(serializedHistogram).length).to.equal(11)
 
     expect(serializedHistogram).has.property('name')
     expect(serializedHistogram.name).to.equal('name')
 
+    expect(serializedHistogram).has.property('exemplars')
+    expect(serializedHistogram.exemplars).to.deep.equal({})
+
     expect(serializedHistogram).has.property('description')
     expect(serializedHistogram.description).to.equal('description')
 
@@ -373,6 +376,9 @@ export class HdrHistogramTest {
     expect(serializedHistogram).has.property('count')
     expect(serializedHistogram.count).to.equal(3)
 
+    expect(serializedHistogram).has.property('intervalMode')
+    expect(serializedHistogram.intervalMode).to.equal(false)
+
     expect(serializedHistogram).has.property('sum')
     expect(serializedHistogram.sum).to.equal('9')
 
@@ -391,4 +397,30 @@ export class HdrHistogramTest {
     expect(serializedHistogram).has.property('snapshot')
     expect(serializedHistogram.snapshot.values).to.deep.equal([])
   }
+
+  @test
+  public 'check interval mode' (): void {
+    const histogram: HdrHistogram = new HdrHistogram(1, 1000, 3)
+      .setIntervalMode(true)
+    expect(histogram.isIntervalMode()).to.equal(true)
+
+    histogram.update(100).update(200).update(300)
+    histogram.swapInterval()
+    histogram.update(500)
+
+    let snapshot = histogram.getSnapshot()
+    expect(snapshot.getMax()).to.equal(300)
+    expect(snapshot.getMin()).to.equal(100)
+    expect(snapshot.getMedian()).to.equal(200)
+
+    histogram.swapInterval()
+    snapshot = histogram.getSnapshot()
+    expect(snapshot.getMax()).to.equal(500)
+    expect(snapshot.getMin()).to.equal(500)
+    expect(histogram.getCount()).to.equal(4)
+    expect(histogram.getSum().toNumber()).to.equal(1100)
+
+    histogram.swapInterval()
+    expect(histogram.getSnapshot().getMax()).to.equal(0)
+  }
 }
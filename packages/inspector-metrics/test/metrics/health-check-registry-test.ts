@@ -0,0 +1,205 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+import { spy } from 'sinon'
+import * as sinonChai from 'sinon-chai'
+
+import { Event } from '../../lib/metrics/event'
+import { HealthCheckRegistry } from '../../lib/metrics/health-check-registry'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { SECOND } from '../../lib/metrics/model/time-unit'
+import { MockedClock } from './mocked-clock'
+
+chai.use(sinonChai)
+
+const expect = chai.expect
+
+@suite
+export class HealthCheckRegistryTest {
+  private readonly clock = new MockedClock()
+  private readonly metricRegistry = new MetricRegistry()
+  private readonly healthChecks = new HealthCheckRegistry({
+    clock: this.clock,
+    metricRegistry: this.metricRegistry,
+    timeout: 20
+  })
+
+  public before (): void {
+    this.clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 })
+  }
+
+  @test
+  public async 'check sync and async health checks' (): Promise<void> {
+    this.healthChecks
+      .register('db', async () => {
+        this.clock.setCurrentTime({ milliseconds: 1005, nanoseconds: 0 })
+        return { healthy: true, message: 'connected' }
+      })
+      .register('disk', () => false)
+
+    const db = await this.healthChecks.runHealthCheck('db')
+    expect(db).to.deep.equal({
+      duration: 5,
+      healthy: true,
+      message: 'connected',
+      name: 'db',
+      timestamp: new Date(1005)
+    })
+    expect(this.healthChecks.getReport().healthy).to.be.false
+    expect(this.healthChecks.getReport().checks.disk).to.be.null
+
+    const report = await this.healthChecks.runHealthChecks()
+    expect(report.healthy).to.be.false
+    expect(report.checks.disk.healthy).to.be.false
+    expect(report.checks.disk.message).to.be.null
+    expect(JSON.parse(JSON.stringify(this.healthChecks)).checks.db.message).to.equal('connected')
+    await this.healthChecks.runHealthCheck('unknown')
+      .then(() => expect.fail('error expected'), (error) => expect(error.message).to.contain("'unknown'"))
+  }
+
+  @test
+  public async 'check errors and timeouts are unhealthy' (): Promise<void> {
+    this.healthChecks
+      .register('error', () => {
+        throw new Error('connection refused')
+      })
+      .register('rejected', async () => Promise.reject(new Error('no space left')))
+      .register('timeout', async () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 100)))
+      .register('slow', async () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 30)),
+        { timeout: 200 })
+
+    const report = await this.healthChecks.runHealthChecks()
+    expect(report.checks.error.message).to.equal('connection refused')
+    expect(report.checks.rejected.message).to.equal('no space left')
+    expect(report.checks.timeout.message).to.equal('Health check timed out after 20 ms')
+    expect(report.checks.slow.healthy).to.be.true
+    expect(() => this.healthChecks.register('slow', () => true)).to.throw('already registered')
+  }
+
+  @test
+  public async 'check results other than a status are unhealthy' (): Promise<void> {
+    this.healthChecks
+      .register('void', (async () => {}) as any)
+      .register('null', ((): any => null) as any)
+
+    const report = await this.healthChecks.runHealthChecks()
+    expect(report.healthy).to.be.false
+    expect(report.checks.void.message).to.equal('Health check returned no status: undefined')
+    expect(report.checks.null.message).to.equal('Health check returned no status: null')
+  }
+
+  @test
+  public async 'check results are published as metrics' (): Promise<void> {
+    let healthy = true
+    this.healthChecks.register('db', () => healthy).register('cache', () => true)
+    await this.healthChecks.runHealthChecks()
+    healthy = false
+    await this.healthChecks.runHealthChecks()
+
+    const gauges = this.metricRegistry.getGaugesByName('health_check')
+    expect(gauges.map((gauge) => [gauge.getTag('check'), gauge.getValue()]))
+      .to.deep.equal([['db', 0], ['cache', 1]])
+    expect(this.metricRegistry.getTimersByName('health_check_duration').map((timer) => timer.getCount()))
+      .to.deep.equal([2, 2])
+
+    this.healthChecks.unregister('db')
+    expect(this.healthChecks.getNames()).to.deep.equal(['cache'])
+    expect(this.metricRegistry.getMetricList()).to.have.lengthOf(2)
+  }
+
+  @test
+  public async 'check events on state transitions' (): Promise<void> {
+    const listener = spy()
+    const reportEvent = spy(async (event: Event<number>) => event)
+    let healthy = true
+    this.healthChecks
+      .register('db', () => ({ healthy, message: healthy ? null : 'down' }))
+      .addListener(listener)
+    this.healthChecks.reportEventsTo({ reportEvent } as any)
+
+    await this.healthChecks.runHealthChecks()
+    await this.healthChecks.runHealthChecks()
+    healthy = false
+    await this.healthChecks.runHealthChecks()
+
+    expect(listener).to.have.been.calledTwice
+    expect(reportEvent).to.have.been.calledTwice
+    const event: Event<number> = listener.getCall(1).args[0]
+    expect(event.getName()).to.equal('health_check')
+    expect(event.getValue()).to.equal(0)
+    expect(event.getDescription()).to.equal('down')
+    expect(event.getTag('check')).to.equal('db')
+    expect(event.getTime()).to.deep.equal(new Date(1000))
+  }
+
+  @test
+  public async 'check failing listeners are logged' (): Promise<void> {
+    const error = spy()
+    const listener = spy()
+    const healthChecks = new HealthCheckRegistry({ clock: this.clock, log: { error } as any })
+      .register('db', () => true)
+      .addListener(() => {
+        throw new Error('listener failed')
+      })
+      .addListener(listener)
+
+    const report = await healthChecks.runHealthChecks()
+
+    expect(report.healthy).to.be.true
+    expect(listener).to.have.been.calledOnce
+    expect(error).to.have.been.calledOnce
+    expect(error.getCall(0).args[0])
+      .to.equal("error notifying a listener about the state of health check 'db' - reason: listener failed")
+  }
+
+  @test
+  public async 'check scheduled runs' (): Promise<void> {
+    let scheduledRun: () => Promise<any>
+    const scheduler = spy((run: () => Promise<any>, interval: number): NodeJS.Timer => {
+      scheduledRun = run
+      return null
+    })
+    const healthChecks = new HealthCheckRegistry({ clock: this.clock, scheduler }).register('db', () => true)
+
+    healthChecks.start(5, SECOND)
+    expect(scheduler).to.have.been.calledOnceWith(scheduledRun, 5000)
+    await scheduledRun()
+    expect(healthChecks.getReport().healthy).to.be.true
+    healthChecks.stop()
+  }
+
+  @test
+  public async 'check http handler' (): Promise<void> {
+    const writeHead = spy()
+    const end = spy()
+    this.healthChecks.register('db', () => ({ healthy: false, message: 'down' }))
+
+    await this.healthChecks.createHttpHandler()(null, { end, writeHead } as any)
+
+    expect(writeHead).to.have.been.calledOnceWith(503, { 'Content-Type': 'application/json' })
+    expect(JSON.parse(end.getCall(0).args[0])).to.deep.equal({
+      checks: {
+        db: { duration: 0, healthy: false, message: 'down', name: 'db', timestamp: new Date(1000).toISOString() }
+      },
+      healthy: false
+    })
+  }
+
+  @test
+  public async 'check http handler responds if the checks could not be run' (): Promise<void> {
+    const writeHead = spy()
+    const end = spy()
+    this.healthChecks.runHealthChecks = async () => {
+      throw new Error('not available')
+    }
+
+    await this.healthChecks.createHttpHandler()(null, { end, writeHead } as any)
+
+    expect(writeHead).to.have.been.calledOnceWith(500, { 'Content-Type': 'application/json' })
+    expect(JSON.parse(end.getCall(0).args[0])).to.deep.equal({ healthy: false, message: 'not available' })
+  }
+}
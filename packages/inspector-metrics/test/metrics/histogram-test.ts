@@ -8,7 +8,8 @@ import { suite, test } from '@testdeck/mocha'
 
 import { Buckets } from '../../lib/metrics'
 import { Histogram } from '../../lib/metrics/histogram'
-import { DefaultReservoir } from '../../lib/metrics/model/reservoir'
+import { DefaultReservoir, SlidingWindowReservoir } from '../../lib/metrics/model/reservoir'
+import { MockedClock } from './mocked-clock'
 
 const expect = chai.expect
 
@@ -354,11 +355,14 @@ export class HistogramTest {
     expect(histogram.getSum().toNumber()).to.equal(9)
 
     const serializedHistogram = JSON.parse(JSON.stringify(histogram))
-    expect(Object.keys(serializedHistogram).length).to.equal(9)
+    expect(Object.keys(serializedHistogram).length).to.equal(11)
 
     expect(serializedHistogram).has.property('name')
     expect(serializedHistogram.name).to.equal('name')
 
+    expect(serializedHistogram).has.property('exemplars')
+    expect(serializedHistogram.exemplars).to.deep.equal({})
+
     expect(serializedHistogram).has.property('description')
     expect(serializedHistogram.description).to.equal('description')
 
@@ -374,6 +378,9 @@ export class HistogramTest {
     expect(serializedHistogram).has.property('count')
     expect(serializedHistogram.count).to.equal(3)
 
+    expect(serializedHistogram).has.property('intervalMode')
+    expect(serializedHistogram.intervalMode).to.equal(false)
+
     expect(serializedHistogram).has.property('sum')
     expect(serializedHistogram.sum).to.equal('9')
 
@@ -392,4 +399,90 @@ export class HistogramTest {
     expect(serializedHistogram).has.property('snapshot')
     expect(serializedHistogram.snapshot.values).to.deep.equal([1, 3, 5])
   }
+
+  @test
+  public 'check interval mode' (): void {
+    const histogram: Histogram = new Histogram(new SlidingWindowReservoir(10), 'name')
+      .setIntervalMode(true)
+    expect(histogram.isIntervalMode()).to.equal(true)
+
+    histogram.update(1).update(2).update(3)
+    expect(histogram.getSnapshot().size()).to.equal(3)
+
+    histogram.swapInterval()
+    histogram.update(10)
+    let snapshot = histogram.getSnapshot()
+    expect(snapshot.size()).to.equal(3)
+    expect(snapshot.getMax()).to.equal(3)
+
+    histogram.swapInterval()
+    snapshot = histogram.getSnapshot()
+    expect(snapshot.size()).to.equal(1)
+    expect(snapshot.getMax()).to.equal(10)
+    expect(histogram.getCount()).to.equal(4)
+    expect(histogram.getSum().toNumber()).to.equal(16)
+
+    histogram.swapInterval()
+    expect(histogram.getSnapshot().size()).to.equal(0)
+    expect(JSON.parse(JSON.stringify(histogram)).intervalMode).to.equal(true)
+
+    histogram.setIntervalMode(false)
+    expect(histogram.isIntervalMode()).to.equal(false)
+  }
+
+  @test
+  public 'check interval mode with reservoir not supporting reset' (): void {
+    const reservoir = new SlidingWindowReservoir(10)
+    reservoir.reset = undefined
+    const histogram: Histogram = new Histogram(reservoir, 'name')
+    expect(() => histogram.setIntervalMode(true))
+      .to.throw("The reservoir of histogram 'name' does not support the interval mode")
+    expect(histogram.isIntervalMode()).to.equal(false)
+  }
+
+  @test
+  public 'check exemplars' (): void {
+    const histogram: Histogram = new Histogram(new DefaultReservoir(1024), 'name', null, new Buckets([10, 20]))
+    histogram.update(1)
+    expect(histogram.getExemplars().size).to.equal(0)
+
+    histogram.update(11, { trace_id: 'a' })
+    histogram.update(12, { trace_id: 'b' })
+    histogram.update(5, { trace_id: 'c' })
+    histogram.update(25, { trace_id: 'd' })
+
+    const exemplars = histogram.getExemplars()
+    expect(exemplars.size).to.equal(3)
+    expect(exemplars.get(10).labels).to.deep.equal({ trace_id: 'c' })
+    expect(exemplars.get(10).value).to.equal(5)
+    expect(exemplars.get(20).labels).to.deep.equal({ trace_id: 'b' })
+    expect(exemplars.get(20).value).to.equal(12)
+    expect(exemplars.get(Infinity).labels).to.deep.equal({ trace_id: 'd' })
+    expect(exemplars.get(Infinity).timestamp).to.be.a('number')
+  }
+
+  @test
+  public 'check exemplar timestamps use the update clock' (): void {
+    const clock = new MockedClock()
+    clock.setCurrentTime({ milliseconds: 3000, nanoseconds: 0 })
+    const histogram: Histogram = new Histogram(new DefaultReservoir(1024), 'name', null, new Buckets([10]))
+      .setUpdateClock(clock)
+
+    histogram.update(1, { trace_id: 'a' })
+    expect(histogram.getExemplars().get(10).timestamp).to.equal(3000)
+  }
+
+  @test
+  public 'check serialization and restoring of exemplars' (): void {
+    const histogram: Histogram = new Histogram(new DefaultReservoir(1024), 'name', null, new Buckets([10]))
+    histogram.update(1, { trace_id: 'a' }).update(11, { trace_id: 'b' })
+
+    const state = JSON.parse(JSON.stringify(histogram))
+    expect(state.exemplars['10']).to.deep.equal(histogram.getExemplars().get(10))
+    expect(state.exemplars.Infinity).to.deep.equal(histogram.getExemplars().get(Infinity))
+
+    const restored = new Histogram(new DefaultReservoir(1024), 'name', null, new Buckets([10]))
+      .restoreState(state)
+    expect(restored.getExemplars()).to.deep.equal(histogram.getExemplars())
+  }
 }
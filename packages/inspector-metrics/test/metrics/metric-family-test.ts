@@ -0,0 +1,154 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+import { SinonSpy, spy } from 'sinon'
+import * as sinonChai from 'sinon-chai'
+
+import { Counter, MonotoneCounter } from '../../lib/metrics/counter'
+import { SimpleGauge } from '../../lib/metrics/gauge'
+import { Histogram } from '../../lib/metrics/histogram'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { MetricRegistryListener } from '../../lib/metrics/metric-registry-listener'
+import { Metric } from '../../lib/metrics/model/metric'
+import { Timer } from '../../lib/metrics/timer'
+
+chai.use(sinonChai)
+
+const expect = chai.expect
+
+@suite
+export class MetricFamilyTest {
+  @test
+  public 'check one child per unique label values' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.newCounterFamily('http_requests', ['method', 'status'])
+
+    const getOk = family.labels('GET', '200')
+    const postOk = family.labels('POST', '200')
+
+    expect(getOk).to.be.instanceof(Counter)
+    expect(getOk).to.not.equal(postOk)
+    expect(family.labels('GET', '200')).to.equal(getOk)
+    expect(family.with({ status: '200', method: 'GET' })).to.equal(getOk)
+
+    expect(getOk.getName()).to.equal('http_requests')
+    expect(getOk.getTag('method')).to.equal('GET')
+    expect(getOk.getTag('status')).to.equal('200')
+    expect(postOk.getTag('method')).to.equal('POST')
+
+    expect(registry.getCounterList()).to.have.lengthOf(2)
+    expect(registry.getCountersByName('http_requests')).to.have.members([getOk, postOk])
+    expect(family.getChildren()).to.have.members([getOk, postOk])
+  }
+
+  @test
+  public 'check group and description are applied to children' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.newTimerFamily('latency', ['endpoint'], 'api', undefined, null, 'request latency')
+
+    const timer = family.labels('/users')
+
+    expect(timer).to.be.instanceof(Timer)
+    expect(timer.getGroup()).to.equal('api')
+    expect(timer.getDescription()).to.equal('request latency')
+  }
+
+  @test
+  public 'check children of different families with the same name are separated by type and group' (): void {
+    const registry = new MetricRegistry()
+    const counters = registry.newCounterFamily('requests', ['method'])
+    const monotoneCounters = registry.newMonotoneCounterFamily('requests', ['method'])
+    const groupedCounters = registry.newCounterFamily('requests', ['method'], 'db')
+
+    const counter = counters.labels('GET')
+    const monotoneCounter = monotoneCounters.labels('GET')
+    const groupedCounter = groupedCounters.labels('GET')
+
+    expect(counter).to.be.instanceof(Counter)
+    expect(monotoneCounter).to.be.instanceof(MonotoneCounter)
+    expect(monotoneCounter).to.not.be.instanceof(Counter)
+    expect(groupedCounter).to.not.equal(counter)
+    expect(counters.getChildren()).to.deep.equal([counter])
+    expect(monotoneCounters.getChildren()).to.deep.equal([monotoneCounter])
+    expect(groupedCounters.getChildren()).to.deep.equal([groupedCounter])
+  }
+
+  @test
+  public 'check families share their children' (): void {
+    const registry = new MetricRegistry()
+    const counter = registry.newCounterFamily('requests', ['method']).labels('GET')
+
+    expect(registry.newCounterFamily('requests', ['method']).labels('GET')).to.equal(counter)
+  }
+
+  @test
+  public 'check each histogram child gets its own reservoir' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.newHistogramFamily('sizes', ['type'])
+
+    const images = family.labels('image')
+    const videos = family.labels('video')
+    images.update(10)
+
+    expect(images).to.be.instanceof(Histogram)
+    expect(images.getSnapshot().getValues()).to.deep.equal([10])
+    expect(videos.getSnapshot().getValues()).to.deep.equal([])
+  }
+
+  @test
+  public 'check gauge family' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.newGaugeFamily('queue_size', ['queue'])
+
+    family.labels('incoming').setValue(12)
+
+    expect(family.labels('incoming')).to.be.instanceof(SimpleGauge)
+    expect(family.labels('incoming').getValue()).to.equal(12)
+    expect(registry.getGaugeList()).to.have.lengthOf(1)
+  }
+
+  @test
+  public 'check invalid label values' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.newCounterFamily('requests', ['method', 'status'])
+
+    expect(() => family.labels('GET')).to.throw()
+    expect(() => family.labels('GET', '200', 'extra')).to.throw()
+    expect(() => family.with({ method: 'GET' })).to.throw()
+    expect(() => family.with({ method: 'GET', status: '200', other: 'x' })).to.throw()
+    expect(() => family.with({ method: 'GET', status: 200 as any })).to.throw()
+    expect(() => registry.newCounterFamily('requests', ['method', 'method'])).to.throw()
+    expect(registry.getCounterList()).to.have.lengthOf(0)
+  }
+
+  @test
+  public 'check removing children' (): void {
+    const registry = new MetricRegistry()
+    const listener: MetricRegistryListener = {
+      metricAdded: (name: string, metric: Metric) => {},
+      metricRemoved: (name: string, metric: Metric) => {}
+    }
+    const metricRemovedSpy: SinonSpy = spy(listener, 'metricRemoved')
+    registry.addListener(listener)
+
+    const family = registry.newCounterFamily('requests', ['method'])
+    const get = family.labels('GET')
+    const post = family.labels('POST')
+    const other = registry.newCounter('requests')
+
+    family.remove('GET')
+
+    expect(metricRemovedSpy).to.have.been.calledOnceWith('requests', get)
+    expect(family.getChildren()).to.deep.equal([post])
+    expect(family.labels('GET')).to.not.equal(get)
+
+    family.clear()
+
+    expect(family.getChildren()).to.have.lengthOf(0)
+    expect(registry.getCounterList()).to.deep.equal([other])
+  }
+}
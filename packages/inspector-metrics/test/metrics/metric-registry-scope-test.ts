@@ -0,0 +1,130 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+import { spy } from 'sinon'
+import * as sinonChai from 'sinon-chai'
+
+import { StdClock } from '../../lib/metrics/clock'
+import { MetricRegistry, MetricRegistryScope } from '../../lib/metrics/metric-registry'
+import { Metric } from '../../lib/metrics/model/metric'
+import { mapToTags } from '../../lib/metrics/model/taggable'
+
+chai.use(sinonChai)
+
+const expect = chai.expect
+
+@suite
+export class MetricRegistryScopeTest {
+  @test
+  public 'check metrics are registered in the parent with prefix and tags' (): void {
+    const registry = new MetricRegistry()
+    const scope: MetricRegistryScope = registry.scope('db', { shard: '3' })
+
+    const counter = scope.newCounter('queries')
+    const timer = scope.newTimer('latency', 'pool').setTag('shard', '4')
+
+    expect(scope.getParent()).to.equal(registry)
+    expect(counter.getName()).to.equal('db.queries')
+    expect(mapToTags(counter.getTags())).to.deep.equal({ shard: '3' })
+    expect(timer.getGroup()).to.equal('pool')
+    expect(mapToTags(timer.getTags())).to.deep.equal({ shard: '4' })
+
+    expect(registry.getMetricList()).to.deep.equal([counter, timer])
+    expect(registry.getCounter('db.queries')).to.equal(counter)
+    expect(scope.getCounter('queries')).to.equal(counter)
+    expect(scope.getTimerList()).to.deep.equal([timer])
+  }
+
+  @test
+  public 'check get or create metrics in scope' (): void {
+    const registry = new MetricRegistry()
+    const scope = registry.scope('db', { shard: '3' })
+
+    const counter = scope.getOrCreateCounter('queries', { type: 'select' })
+    expect(scope.getOrCreateCounter('queries', { type: 'select' })).to.equal(counter)
+    expect(registry.scope('db', { shard: '3' }).getOrCreateCounter('queries', { type: 'select' }))
+      .to.equal(counter)
+    expect(registry.getOrCreateCounter('db.queries', { shard: '3', type: 'select' })).to.equal(counter)
+    expect(registry.getMetricList()).to.deep.equal([counter])
+    expect(mapToTags(counter.getTags())).to.deep.equal({ shard: '3', type: 'select' })
+    expect(() => scope.getOrCreateMeter('queries', { type: 'select' })).to.throw('is already registered as Counter')
+  }
+
+  @test
+  public 'check nested scopes' (): void {
+    const registry = new MetricRegistry()
+    const scope = registry.scope('db', { shard: '3' })
+    const nested = scope.scope('pool', { pool: 'main' })
+
+    const gauge = nested.getOrCreateGauge('connections')
+    expect(gauge.getName()).to.equal('db.pool.connections')
+    expect(mapToTags(gauge.getTags())).to.deep.equal({ shard: '3', pool: 'main' })
+    expect(nested.getScopeTags()).to.deep.equal({ shard: '3', pool: 'main' })
+    expect(nested.getOrCreateGauge('connections')).to.equal(gauge)
+    expect(registry.getMetricList()).to.deep.equal([gauge])
+    expect(scope.getMetricList()).to.deep.equal([gauge])
+  }
+
+  @test
+  public 'check scopes use the current clock of the parent' (): void {
+    const registry = new MetricRegistry()
+    const scope = registry.scope('db')
+    const clock = new StdClock()
+
+    registry.setDefaultClock(clock)
+    expect(scope.getDefaultClock()).to.equal(clock)
+    expect(scope.scope('pool').getDefaultClock()).to.equal(clock)
+
+    const scopeClock = new StdClock()
+    scope.setDefaultClock(scopeClock)
+    expect(scope.getDefaultClock()).to.equal(scopeClock)
+    expect(registry.getDefaultClock()).to.equal(clock)
+  }
+
+  @test
+  public 'check metric families in scope' (): void {
+    const registry = new MetricRegistry()
+    const family = registry.scope('http', { service: 'users' }).newCounterFamily('requests', ['method'])
+
+    const counter = family.labels('GET')
+    expect(family.labels('GET')).to.equal(counter)
+    expect(family.getChildren()).to.deep.equal([counter])
+    expect(counter.getName()).to.equal('http.requests')
+    expect(mapToTags(counter.getTags())).to.deep.equal({ method: 'GET', service: 'users' })
+  }
+
+  @test
+  public 'check custom name factory' (): void {
+    const registry = new MetricRegistry()
+    const scope = registry.scope('db')
+      .setNameFactory((baseName: string, metricName: string) => `${baseName}_${metricName}`)
+
+    expect(scope.newMeter('queries').getName()).to.equal('db_queries')
+  }
+
+  @test
+  public 'check removing a scope removes all of its metrics' (): void {
+    const registry = new MetricRegistry()
+    const metricRemoved = spy()
+    registry.addListener({ metricAdded: () => {}, metricRemoved })
+    const other = registry.newCounter('other')
+    const scope = registry.scope('db', { shard: '3' })
+    const counter = scope.newCounter('queries')
+    const histogram = scope.scope('pool').newHistogram('wait')
+    const removed = scope.newMeter('removed')
+
+    scope.removeMetrics('removed')
+    expect(metricRemoved).to.have.been.calledOnceWith('db.removed', removed)
+    expect(registry.getMetricList()).to.deep.equal([other, counter, histogram])
+
+    scope.remove()
+    expect(registry.getMetricList()).to.deep.equal([other])
+    expect(scope.getMetricList()).to.deep.equal([])
+    expect(metricRemoved.getCalls().map((call) => call.args[1] as Metric))
+      .to.deep.equal([removed, counter, histogram])
+  }
+}
@@ -0,0 +1,156 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+
+import { Counter } from '../../lib/metrics/counter'
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { Buckets } from '../../lib/metrics/model/counting'
+import { MetricRegistryState } from '../../lib/metrics/model/restorable'
+import { MILLISECOND, MINUTE, NANOSECOND } from '../../lib/metrics/model/time-unit'
+import { MockedClock } from './mocked-clock'
+
+const expect = chai.expect
+
+@suite
+export class MetricRegistryStateTest {
+  @test
+  public 'check state of counters, histograms, meters and timers is restored' (): void {
+    const clock = new MockedClock()
+    clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 })
+    const registry = new MetricRegistry()
+    registry.setDefaultClock(clock)
+    registry.newMonotoneCounter('jobs').increment(3)
+    registry.getOrCreateCounter('queue', { queue: 'mail' }).increment(5).decrement(7)
+    registry.newHistogram('size', 'batch', null, null, new Buckets([10, 100])).update(5).update(50).update(500)
+    registry.newMeter('requests').mark(4)
+    registry.newTimer('duration').addDuration(20, NANOSECOND).addDuration(200, NANOSECOND)
+    registry.getOrCreateGauge('gauge').setValue(1)
+
+    const state: MetricRegistryState = JSON.parse(JSON.stringify(registry.exportState()))
+    expect(state.metrics.map((metric) => metric.type))
+      .to.deep.equal(['MonotoneCounter', 'Counter', 'Histogram', 'Meter', 'Timer'])
+
+    const restored = new MetricRegistry()
+    restored.setDefaultClock(clock)
+    restored.newMonotoneCounter('jobs')
+    restored.getOrCreateCounter('queue', { queue: 'mail' })
+    restored.getOrCreateCounter('queue', { queue: 'sms' })
+    restored.newHistogram('size', 'batch', null, null, new Buckets([10, 100]))
+    restored.newMeter('requests')
+    restored.importState(state)
+    const timer = restored.newTimer('duration')
+
+    expect(restored.getMonotoneCountersByName('jobs')[0].getCount()).to.equal(3)
+    expect(restored.getCountersByName('queue').map((counter) => counter.getCount())).to.deep.equal([-2, 0])
+    const histogram = restored.getHistogram('size')
+    expect(histogram.getCount()).to.equal(3)
+    expect(histogram.getSum().toString()).to.equal('555')
+    expect(histogram.getCounts()).to.deep.equal(new Map([[10, 1], [100, 2]]))
+    expect(restored.getMeter('requests').getCount()).to.equal(4)
+    expect(timer.getCount()).to.equal(2)
+    expect(timer.getSum().toString()).to.equal('220')
+  }
+
+  @test
+  public 'check state is only restored into metrics with the same type, group and tags' (): void {
+    const registry = new MetricRegistry()
+    registry.newCounter('requests', 'http').setTag('method', 'GET').increment(2)
+    const state = registry.exportState()
+
+    const restored = new MetricRegistry()
+    const meter = restored.newMeter('requests', 'http').setTag('method', 'GET')
+    const otherGroup = restored.newCounter('requests').setTag('method', 'GET')
+    const otherTags = restored.newCounter('requests', 'http').setTag('method', 'POST')
+    restored.importState(state)
+
+    expect(meter.getCount()).to.equal(0)
+    expect(otherGroup.getCount()).to.equal(0)
+    expect(otherTags.getCount()).to.equal(0)
+
+    const counter = new Counter('requests').setTag('method', 'GET')
+    restored.registerMetric(counter, 'http')
+    expect(counter.getCount()).to.equal(2)
+    const duplicate = new Counter('requests').setTag('method', 'GET')
+    restored.registerMetric(duplicate, 'http')
+    expect(duplicate.getCount()).to.equal(0)
+  }
+
+  @test
+  public 'check state is restored when a registered metric gets matching tags' (): void {
+    const registry = new MetricRegistry()
+    registry.newCounter('requests').setTag('method', 'GET').increment(2)
+    registry.newCounter('requests').setTag('method', 'POST').increment(3)
+    const state = registry.exportState()
+
+    const restored = new MetricRegistry()
+    const registered = restored.newCounter('requests')
+    restored.importState(state)
+    registered.setTag('method', 'POST')
+    const counter = restored.newCounter('requests').setTag('method', 'GET')
+
+    expect(registered.getCount()).to.equal(3)
+    expect(counter.getCount()).to.equal(2)
+    expect(restored.getPendingStates()).to.be.empty
+    expect(counter.getTagGuard()).to.not.be.null
+
+    restored.unregisterMetric(counter)
+    expect(counter.getTagGuard()).to.be.null
+  }
+
+  @test
+  public 'check pending states are discarded' (): void {
+    const clock = new MockedClock()
+    const registry = new MetricRegistry()
+    registry.newCounter('requests').increment(2)
+    registry.newCounter('errors').increment(1)
+    const state = registry.exportState()
+
+    const restored = new MetricRegistry().setDefaultClock(clock)
+    restored.importState(state, 1, MINUTE)
+    expect(restored.getPendingStates().map((metricState) => metricState.name)).to.deep.equal(['requests', 'errors'])
+
+    clock.setCurrentTime({ milliseconds: MINUTE.convertTo(1, MILLISECOND), nanoseconds: 0 })
+    expect(restored.newCounter('requests').getCount()).to.equal(0)
+    expect(restored.getPendingStates()).to.be.empty
+
+    restored.importState(state)
+    restored.clearPendingStates()
+    expect(restored.newCounter('errors').getCount()).to.equal(0)
+  }
+
+  @test
+  public 'check state of sketch histograms is restored' (): void {
+    const registry = new MetricRegistry()
+    const histogram = registry.newSketchHistogram('latency')
+    for (let i = 1; i <= 100; i++) {
+      histogram.update(i)
+    }
+
+    const restored = new MetricRegistry()
+    restored.importState(JSON.parse(JSON.stringify(registry.exportState())))
+    const snapshot = restored.newSketchHistogram('latency').getSnapshot()
+
+    expect(snapshot.size()).to.equal(100)
+    expect(snapshot.getMax()).to.be.closeTo(100, 1)
+    expect(snapshot.getMedian()).to.be.closeTo(50, 1)
+  }
+
+  @test
+  public 'check state of hdr histograms is restored' (): void {
+    const registry = new MetricRegistry()
+    registry.newHdrHistogram('latency', 1, 1000).update(10).update(20).update(900)
+
+    const restored = new MetricRegistry()
+    const histogram = restored.newHdrHistogram('latency', 1, 1000).update(500)
+    restored.importState(JSON.parse(JSON.stringify(registry.exportState())))
+
+    expect(histogram.getCount()).to.equal(3)
+    expect(histogram.getSnapshot().getMin()).to.equal(10)
+    expect(histogram.getSnapshot().getMax()).to.be.closeTo(900, 1)
+    expect(histogram.getSnapshot().size()).to.equal(3)
+  }
+}
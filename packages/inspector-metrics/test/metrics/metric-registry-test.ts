@@ -5,10 +5,10 @@ import 'source-map-support/register'
 
 import * as chai from 'chai'
 import { suite, test } from '@testdeck/mocha'
-import { SinonSpy, spy } from 'sinon'
+import { SinonSpy, spy, useFakeTimers } from 'sinon'
 import * as sinonChai from 'sinon-chai'
 
-import { StdClock } from '../../lib/metrics/clock'
+import { Clock, StdClock } from '../../lib/metrics/clock'
 import { Counter, MonotoneCounter } from '../../lib/metrics/counter'
 import { SimpleGauge } from '../../lib/metrics/gauge'
 import { Histogram } from '../../lib/metrics/histogram'
@@ -16,7 +16,10 @@ import { Meter } from '../../lib/metrics/meter'
 import { MetricRegistry } from '../../lib/metrics/metric-registry'
 import { MetricRegistryListener } from '../../lib/metrics/metric-registry-listener'
 import { Metric } from '../../lib/metrics/model/metric'
+import { Reservoir, SlidingTimeWindowReservoir, SlidingWindowReservoir } from '../../lib/metrics/model/reservoir'
+import { SECOND } from '../../lib/metrics/model/time-unit'
 import { Timer } from '../../lib/metrics/timer'
+import { MockedClock } from './mocked-clock'
 
 chai.use(sinonChai)
 
@@ -755,4 +758,154 @@ export class MetricRegistryTest {
     expect(timer.getGroup()).to.be.equal('test_group')
     expect(timer.getDescription()).to.be.equal('test_timer_desc')
   }
+
+  @test
+  public 'check reservoir factories get the clock' (): void {
+    const registry: MetricRegistry = new MetricRegistry()
+    const timerClock = new StdClock()
+    const reservoir = new SlidingWindowReservoir(10)
+    const clocks: Clock[] = []
+    const factory = (clock: Clock): Reservoir => {
+      clocks.push(clock)
+      return new SlidingWindowReservoir(10)
+    }
+
+    registry.newHistogram('histogram1', null, factory).update(1)
+    registry.newTimer('timer1', null, timerClock, factory)
+    registry.newHistogram('histogram2', null, reservoir).update(2)
+
+    expect(clocks).to.deep.equal([registry.getDefaultClock(), timerClock])
+    expect(clocks[0]).to.equal(registry.getDefaultClock())
+    expect(clocks[1]).to.equal(timerClock)
+    expect(registry.getHistogram('histogram1').getSnapshot().getValues()).to.deep.equal([1])
+    expect(reservoir.snapshot().getValues()).to.deep.equal([2])
+  }
+
+  @test
+  public 'check timer with sliding time window reservoir' (): void {
+    const clock = new MockedClock()
+    clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 })
+    const registry: MetricRegistry = new MetricRegistry()
+    const timer = registry.newTimer('timer1', null, clock, (c: Clock) => new SlidingTimeWindowReservoir(60, SECOND, c))
+
+    timer.addDuration(1, SECOND)
+    clock.setCurrentTime({ milliseconds: 30000, nanoseconds: 0 })
+    timer.addDuration(2, SECOND)
+    clock.setCurrentTime({ milliseconds: 90000, nanoseconds: 0 })
+
+    expect(timer.getSnapshot().getValues()).to.deep.equal([2000000000])
+    expect(timer.getCount()).to.equal(2)
+  }
+
+  @test
+  public 'check get or create metrics' (): void {
+    const registry: MetricRegistry = new MetricRegistry()
+
+    const counter = registry.getOrCreateCounter('requests', { method: 'GET' })
+    expect(registry.getOrCreateCounter('requests', { method: 'GET' })).to.equal(counter)
+    expect(registry.getOrCreateCounter('requests', { method: 'POST' })).to.not.equal(counter)
+    expect(registry.getOrCreateCounter('requests')).to.not.equal(counter)
+    expect(registry.getOrCreateCounter('requests', { method: 'GET' }, 'http')).to.not.equal(counter)
+    expect(registry.getOrCreateCounter('requests', { method: 'GET', status: '200' })).to.not.equal(counter)
+    expect(registry.getCountersByName('requests')).to.have.lengthOf(5)
+    expect(counter.getTag('method')).to.equal('GET')
+
+    const timer = registry.getOrCreateTimer('latency', {}, 'http')
+    expect(registry.getOrCreateTimer('latency', null, 'http')).to.equal(timer)
+    expect(timer.getGroup()).to.equal('http')
+
+    const meter = registry.getOrCreateMeter('rate')
+    expect(registry.getOrCreateMeter('rate')).to.equal(meter)
+    const histogram = registry.getOrCreateHistogram('sizes')
+    expect(registry.getOrCreateHistogram('sizes')).to.equal(histogram)
+    const gauge = registry.getOrCreateGauge('queue')
+    expect(registry.getOrCreateGauge('queue')).to.equal(gauge)
+    const monotoneCounter = registry.getOrCreateMonotoneCounter('total')
+    expect(registry.getOrCreateMonotoneCounter('total')).to.equal(monotoneCounter)
+    expect(registry.getMetricList()).to.have.lengthOf(10)
+  }
+
+  @test
+  public 'check get or create metrics with type conflict' (): void {
+    const registry: MetricRegistry = new MetricRegistry()
+    registry.getOrCreateCounter('requests', { method: 'GET' }, 'http')
+
+    expect(() => registry.getOrCreateTimer('requests', { method: 'GET' }, 'http'))
+      .to.throw('Metric \'requests\' (group: http, tags: {"method":"GET"}) is already registered as Counter - ' +
+        'cannot get it as Timer')
+    expect(() => registry.getOrCreateMonotoneCounter('requests', { method: 'GET' }, 'http'))
+      .to.throw('is already registered as Counter - cannot get it as MonotoneCounter')
+    expect(registry.getOrCreateTimer('requests', { method: 'POST' }, 'http')).to.be.instanceOf(Timer)
+  }
+
+  @test
+  public 'check expiry of idle metrics' (): void {
+    const clock = useFakeTimers(1000)
+    try {
+      const registry: MetricRegistry = new MetricRegistry().setMetricTTL(1, SECOND)
+      const metricRemoved = spy()
+      registry.addListener({ metricAdded: () => {}, metricRemoved })
+
+      const counter = registry.newCounter('counter')
+      const gauge = registry.getOrCreateGauge('gauge')
+      const histogram = registry.newHistogram('histogram')
+      const meter = registry.newMeter('meter')
+      const timer = registry.newTimer('timer')
+      const functionGauge = registry.newFunctionGauge('function-gauge', () => 1)
+      const eternal = registry.newCounter('eternal').setTTL(Infinity)
+      const shortLived = registry.newCounter('short-lived').setTTL(100)
+      expect(counter.getLastUpdate()).to.equal(1000)
+      expect(functionGauge.getLastUpdate()).to.be.null
+
+      clock.tick(500)
+      registry.removeExpiredMetrics()
+      expect(registry.getMetricList()).to.have.lengthOf(7)
+      expect(metricRemoved).to.have.been.calledOnceWith('short-lived', shortLived)
+
+      counter.increment(1)
+      gauge.setValue(1)
+      histogram.update(1)
+      meter.mark(1)
+      timer.addDuration(1, SECOND)
+      expect(counter.getLastUpdate()).to.equal(1500)
+
+      clock.tick(800)
+      registry.removeExpiredMetrics()
+      expect(registry.getMetricList()).to.deep.equal([counter, gauge, histogram, meter, timer, functionGauge, eternal])
+
+      clock.tick(300)
+      registry.removeExpiredMetrics()
+      expect(registry.getMetricList()).to.deep.equal([functionGauge, eternal])
+      expect(metricRemoved).to.have.callCount(6)
+    } finally {
+      clock.restore()
+    }
+  }
+
+  @test
+  public 'check expiry with the default clock of the registry' (): void {
+    const clock = new MockedClock()
+    clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 })
+    const registry: MetricRegistry = new MetricRegistry().setDefaultClock(clock).setMetricTTL(1, SECOND)
+    const scope = registry.scope('db')
+
+    const counter = registry.newCounter('counter')
+    const meter = registry.newMeter('meter')
+    const scoped = scope.getOrCreateCounter('queries')
+    expect(counter.getLastUpdate()).to.equal(1000)
+    expect(meter.getLastUpdate()).to.equal(1000)
+
+    clock.setCurrentTime({ milliseconds: 1500, nanoseconds: 0 })
+    counter.increment(1)
+    expect(counter.getLastUpdate()).to.equal(1500)
+
+    clock.setCurrentTime({ milliseconds: 2200, nanoseconds: 0 })
+    registry.removeExpiredMetrics()
+    expect(registry.getMetricList()).to.deep.equal([counter])
+
+    const recreated = scope.getOrCreateCounter('queries')
+    expect(recreated).to.not.equal(scoped)
+    expect(registry.getMetricList()).to.deep.equal([counter, recreated])
+    expect(scope.getMetricList()).to.deep.equal([recreated])
+  }
 }
@@ -6,7 +6,7 @@ import 'source-map-support/register'
 import { Clock, Time } from '../../lib/metrics/clock'
 
 export class MockedClock implements Clock {
-  private currentTime: Time
+  private currentTime: Time = { milliseconds: 0, nanoseconds: 0 }
 
   public time (): Time {
     return this.currentTime
@@ -14,6 +14,7 @@ import {
     getMetricMetadata,
     getMetricName,
     getMetricTags,
+    getMetricUnit,
     isSerializableMetric,
     Metric,
 } from "../../../lib/metrics/model/metric";
@@ -166,6 +167,17 @@ export class BaseMetricTest {
         expect(baseMetric.getDescription()).to.equal("description1");
     }
 
+    @test
+    public "set unit, check unit"(): void {
+        const baseMetric: BaseMetric = new TestMetric();
+
+        expect(baseMetric.getUnit()).to.be.undefined;
+
+        baseMetric.setUnit("bytes");
+
+        expect(baseMetric.getUnit()).to.equal("bytes");
+    }
+
     @test
     public "set multiple values with fluent interface"(): void {
         const baseMetric: BaseMetric = new TestMetric();
@@ -244,6 +256,18 @@ export class BaseMetricTest {
             .setDescription("description 2"))).to.equal("description 2");
     }
 
+    @test
+    public "check getMetricUnit"(): void {
+        const serializedMetric = JSON.parse(JSON.stringify(new TestMetric()
+            .setName("Test1")
+            .setUnit("seconds")));
+        expect(getMetricUnit(serializedMetric)).to.equal("seconds");
+        expect(getMetricUnit(new TestMetric()
+            .setName("Test2")
+            .setUnit("bytes"))).to.equal("bytes");
+        expect(getMetricUnit(new UnserializableMetric())).to.be.undefined;
+    }
+
     @test
     public "check getMetricGroup"(): void {
         const serializedMetric = JSON.parse(JSON.stringify(new TestMetric()
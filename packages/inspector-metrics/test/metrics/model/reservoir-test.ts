@@ -5,8 +5,16 @@ import "source-map-support/register";
 
 import * as chai from "chai";
 import { suite, test } from "@testdeck/mocha";
+import { SinonStub, stub } from "sinon";
 
-import { DefaultReservoir, SlidingWindowReservoir } from "../../../lib/metrics/model/reservoir";
+import {
+    DefaultReservoir,
+    ExponentiallyDecayingReservoir,
+    SlidingTimeWindowReservoir,
+    SlidingWindowReservoir,
+} from "../../../lib/metrics/model/reservoir";
+import { MICROSECOND, MILLISECOND, MINUTE } from "../../../lib/metrics/model/time-unit";
+import { MockedClock } from "../mocked-clock";
 
 const expect = chai.expect;
 
@@ -443,3 +451,264 @@ export class SlidingWindowReservoirTest {
     }
 
 }
+
+@suite
+export class ExponentiallyDecayingReservoirTest {
+
+    private clock: MockedClock;
+    private random: SinonStub;
+
+    public before(): void {
+        this.clock = new MockedClock();
+        this.clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 });
+        this.random = stub(Math, "random").returns(0.5);
+    }
+
+    public after(): void {
+        this.random.restore();
+    }
+
+    @test
+    public "check correct size"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(2, 0.015, this.clock);
+        expect(reservoir.size()).to.equal(0);
+        reservoir.update(1);
+        expect(reservoir.size()).to.equal(1);
+        reservoir
+            .update(1)
+            .update(1);
+        expect(reservoir.size()).to.equal(2);
+    }
+
+    @test
+    public "check snapshot from no values"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(2, 0.015, this.clock);
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.get75thPercentile()).to.equal(0);
+        expect(snapshot.get999thPercentile()).to.equal(0);
+        expect(snapshot.getMax()).to.be.undefined;
+        expect(snapshot.getMean()).to.equal(0);
+        expect(snapshot.getMedian()).to.equal(0);
+        expect(snapshot.getMin()).to.be.undefined;
+        expect(snapshot.getStdDev()).to.equal(0);
+        expect(snapshot.size()).to.equal(0);
+    }
+
+    @test
+    public "check snapshot from values with the same weight"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(10, 0.015, this.clock);
+        reservoir
+            .update(3)
+            .update(1)
+            .update(4)
+            .update(2);
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.getValues()).to.deep.equal([1, 2, 3, 4]);
+        expect(snapshot.getValue(0)).to.equal(1);
+        expect(snapshot.getValue(0.3)).to.equal(2);
+        expect(snapshot.getMedian()).to.equal(3);
+        expect(snapshot.get75thPercentile()).to.equal(4);
+        expect(snapshot.get999thPercentile()).to.equal(4);
+        expect(snapshot.getValue(1.1)).to.be.NaN;
+        expect(snapshot.getMax()).to.equal(4);
+        expect(snapshot.getMean()).to.equal(2.5);
+        expect(snapshot.getMin()).to.equal(1);
+        expect(snapshot.getStdDev()).to.be.closeTo(Math.sqrt(1.25), 0.0000001);
+        expect(snapshot.size()).to.equal(4);
+    }
+
+    @test
+    public "check recent values are weighted higher"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(1000, 0.015, this.clock);
+        for (let i = 0; i < 100; i++) {
+            reservoir.update(1);
+        }
+        this.clock.setCurrentTime({ milliseconds: 10 * 60 * 1000, nanoseconds: 0 });
+        for (let i = 0; i < 100; i++) {
+            reservoir.update(1000);
+        }
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.size()).to.equal(200);
+        expect(snapshot.getMin()).to.equal(1);
+        expect(snapshot.getMax()).to.equal(1000);
+        expect(snapshot.getValue(0.0001)).to.equal(1);
+        expect(snapshot.getValue(0.001)).to.equal(1000);
+        expect(snapshot.getMedian()).to.equal(1000);
+        expect(snapshot.getMean()).to.be.greaterThan(999);
+    }
+
+    @test
+    public "check old values are replaced by new values"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(10, 0.015, this.clock);
+        for (let i = 0; i < 10; i++) {
+            reservoir.update(1);
+        }
+        this.clock.setCurrentTime({ milliseconds: 60 * 1000, nanoseconds: 0 });
+        for (let i = 0; i < 10; i++) {
+            reservoir.update(2);
+        }
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.size()).to.equal(10);
+        expect(snapshot.getValues()).to.deep.equal([2, 2, 2, 2, 2, 2, 2, 2, 2, 2]);
+    }
+
+    @test
+    public "check values keep their relative weights when rescaling"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(10, 0.015, this.clock);
+        reservoir
+            .update(1)
+            .update(3);
+
+        this.clock.setCurrentTime({ milliseconds: 2 * 60 * 60 * 1000, nanoseconds: 0 });
+
+        let snapshot = reservoir.snapshot();
+        expect(snapshot.size()).to.equal(2);
+        expect(snapshot.getMean()).to.equal(2);
+
+        reservoir.update(5);
+
+        snapshot = reservoir.snapshot();
+        expect(snapshot.size()).to.equal(3);
+        expect(snapshot.getMedian()).to.equal(5);
+        expect(snapshot.getMean()).to.be.closeTo(5, 0.0000001);
+    }
+
+    @test
+    public "check values without weight are dropped when rescaling"(): void {
+        const reservoir = new ExponentiallyDecayingReservoir(10, 0.015, this.clock);
+        reservoir
+            .update(1)
+            .update(3);
+
+        this.clock.setCurrentTime({ milliseconds: 30 * 24 * 60 * 60 * 1000, nanoseconds: 0 });
+
+        expect(reservoir.snapshot().size()).to.equal(0);
+
+        reservoir
+            .update(5)
+            .update(7);
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.getValues()).to.deep.equal([5, 7]);
+        expect(snapshot.getMean()).to.equal(6);
+        expect(snapshot.getMin()).to.equal(5);
+    }
+
+}
+
+@suite
+export class SlidingTimeWindowReservoirTest {
+
+    private clock: MockedClock;
+
+    public before(): void {
+        this.clock = new MockedClock();
+        this.clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 });
+    }
+
+    @test
+    public "check snapshot from no values"(): void {
+        const reservoir = new SlidingTimeWindowReservoir(60, undefined, this.clock);
+        expect(reservoir.size()).to.equal(0);
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.get75thPercentile()).to.equal(0);
+        expect(snapshot.getMax()).to.be.undefined;
+        expect(snapshot.getMean()).to.equal(0);
+        expect(snapshot.getMin()).to.be.undefined;
+        expect(snapshot.size()).to.equal(0);
+    }
+
+    @test
+    public "check values within the window are kept regardless of the number of values"(): void {
+        const reservoir = new SlidingTimeWindowReservoir(60, undefined, this.clock);
+        for (let i = 0; i < 2000; i++) {
+            reservoir.update(i);
+        }
+        expect(reservoir.size()).to.equal(2000);
+
+        this.clock.setCurrentTime({ milliseconds: 60000, nanoseconds: 0 });
+        expect(reservoir.size()).to.equal(2000);
+        expect(reservoir.snapshot().getMax()).to.equal(1999);
+    }
+
+    @test
+    public "check values outside the window are evicted"(): void {
+        const reservoir = new SlidingTimeWindowReservoir(1, MINUTE, this.clock);
+        reservoir.update(1);
+        this.clock.setCurrentTime({ milliseconds: 30000, nanoseconds: 0 });
+        reservoir
+            .update(2)
+            .update(3);
+
+        this.clock.setCurrentTime({ milliseconds: 60000, nanoseconds: 1 });
+        expect(reservoir.size()).to.equal(2);
+        expect(reservoir.snapshot().getValues()).to.deep.equal([2, 3]);
+
+        this.clock.setCurrentTime({ milliseconds: 90000, nanoseconds: 0 });
+        reservoir.update(4);
+
+        const snapshot = reservoir.snapshot();
+        expect(snapshot.getValues()).to.deep.equal([2, 3, 4]);
+        expect(snapshot.getMean()).to.equal(3);
+
+        this.clock.setCurrentTime({ milliseconds: 150000, nanoseconds: 1 });
+        expect(reservoir.size()).to.equal(0);
+        expect(reservoir.snapshot().getValues()).to.deep.equal([]);
+    }
+
+    @test
+    public "check sub-millisecond windows"(): void {
+        const reservoir = new SlidingTimeWindowReservoir(0.5, MILLISECOND, this.clock);
+        reservoir.update(1);
+        this.clock.setCurrentTime({ milliseconds: 0, nanoseconds: 400000 });
+        reservoir.update(2);
+        this.clock.setCurrentTime({ milliseconds: 0, nanoseconds: 600000 });
+
+        expect(reservoir.snapshot().getValues()).to.deep.equal([2]);
+    }
+
+    @test
+    public "check nanosecond precision at the current epoch"(): void {
+        const milliseconds = 1760000000000;
+        const reservoir = new SlidingTimeWindowReservoir(1, MICROSECOND, this.clock);
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 0 });
+        reservoir.update(1);
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 500 });
+        reservoir.update(2);
+
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 1000 });
+        expect(reservoir.snapshot().getValues()).to.deep.equal([1, 2]);
+
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 1001 });
+        expect(reservoir.snapshot().getValues()).to.deep.equal([2]);
+
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 1500 });
+        expect(reservoir.snapshot().getValues()).to.deep.equal([2]);
+
+        this.clock.setCurrentTime({ milliseconds, nanoseconds: 1501 });
+        expect(reservoir.snapshot().getValues()).to.deep.equal([]);
+    }
+
+    @test
+    public "check the oldest values are evicted if the maximum size is reached"(): void {
+        const reservoir = new SlidingTimeWindowReservoir(60, undefined, this.clock, 3);
+        for (let i = 1; i <= 5; i++) {
+            reservoir.update(i);
+        }
+        expect(reservoir.size()).to.equal(3);
+        expect(reservoir.snapshot().getValues()).to.deep.equal([3, 4, 5]);
+
+        this.clock.setCurrentTime({ milliseconds: 30000, nanoseconds: 0 });
+        reservoir.update(6);
+        this.clock.setCurrentTime({ milliseconds: 60000, nanoseconds: 1 });
+
+        expect(reservoir.size()).to.equal(1);
+        expect(reservoir.snapshot().getValues()).to.deep.equal([6]);
+    }
+
+}
@@ -0,0 +1,158 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { suite, test } from "@testdeck/mocha";
+
+import { DDSketch, SketchSnapshot } from "../../../lib/metrics/model/sketch";
+
+const expect = chai.expect;
+
+@suite
+export class DDSketchTest {
+
+    @test
+    public "check invalid relative accuracy"(): void {
+        expect(() => new DDSketch(0)).to.throw();
+        expect(() => new DDSketch(1)).to.throw();
+        expect(() => new DDSketch(-0.01)).to.throw();
+        expect(new DDSketch().getRelativeAccuracy()).to.equal(0.01);
+    }
+
+    @test
+    public "check snapshot from no values"(): void {
+        const snapshot = new DDSketch().snapshot();
+        expect(snapshot.get75thPercentile()).to.equal(0);
+        expect(snapshot.get999thPercentile()).to.equal(0);
+        expect(snapshot.getMax()).to.be.undefined;
+        expect(snapshot.getMean()).to.equal(0);
+        expect(snapshot.getMedian()).to.equal(0);
+        expect(snapshot.getMin()).to.be.undefined;
+        expect(snapshot.getStdDev()).to.equal(0);
+        expect(snapshot.getValues()).to.deep.equal([]);
+        expect(snapshot.size()).to.equal(0);
+    }
+
+    @test
+    public "check snapshot from one value"(): void {
+        const sketch = new DDSketch().update(5);
+        expect(sketch.size()).to.equal(1);
+
+        const snapshot = sketch.snapshot();
+        expect(snapshot.get75thPercentile()).to.equal(5);
+        expect(snapshot.get999thPercentile()).to.equal(5);
+        expect(snapshot.getMax()).to.equal(5);
+        expect(snapshot.getMean()).to.equal(5);
+        expect(snapshot.getMedian()).to.equal(5);
+        expect(snapshot.getMin()).to.equal(5);
+        expect(snapshot.getStdDev()).to.equal(0);
+        expect(snapshot.getValues()).to.deep.equal([5]);
+        expect(snapshot.size()).to.equal(1);
+    }
+
+    @test
+    public "check quantiles are within the relative accuracy"(): void {
+        const sketch = new DDSketch(0.01);
+        for (let i = 1; i <= 10000; i++) {
+            sketch.update(i);
+        }
+
+        const snapshot = sketch.snapshot();
+        expect(snapshot.size()).to.equal(10000);
+        expect(snapshot.getMin()).to.equal(1);
+        expect(snapshot.getMax()).to.equal(10000);
+        expect(snapshot.getMean()).to.equal(5000.5);
+        expect(snapshot.getValue(0)).to.equal(1);
+        expect(snapshot.getValue(1)).to.be.closeTo(10000, 10000 * 0.01);
+        expect(snapshot.getMedian()).to.be.closeTo(5000, 5000 * 0.01);
+        expect(snapshot.get75thPercentile()).to.be.closeTo(7500, 7500 * 0.01);
+        expect(snapshot.get99thPercentile()).to.be.closeTo(9900, 9900 * 0.01);
+        expect(snapshot.get999thPercentile()).to.be.closeTo(9990, 9990 * 0.01);
+        expect(snapshot.getStdDev()).to.be.closeTo(2886.9, 2886.9 * 0.01);
+        expect(snapshot.getValue(1.1)).to.be.NaN;
+        expect(snapshot.getValues().length).to.be.lessThan(1000);
+    }
+
+    @test
+    public "check negative values and zero"(): void {
+        const sketch = new DDSketch()
+            .update(-100)
+            .update(-10)
+            .update(0)
+            .update(10)
+            .update(100);
+
+        const snapshot = sketch.snapshot();
+        expect(snapshot.getMin()).to.equal(-100);
+        expect(snapshot.getMax()).to.equal(100);
+        expect(snapshot.getMean()).to.equal(0);
+        expect(snapshot.getMedian()).to.equal(0);
+        expect(snapshot.getValue(0.25)).to.be.closeTo(-10, 0.1);
+        expect(snapshot.getValue(0.75)).to.be.closeTo(10, 0.1);
+        expect(snapshot.getValues().length).to.equal(5);
+    }
+
+    @test
+    public "check nan and infinite values are ignored"(): void {
+        const sketch = new DDSketch()
+            .update(NaN)
+            .update(-Infinity)
+            .update(Infinity)
+            .update(10);
+
+        const snapshot = sketch.snapshot();
+        expect(sketch.size()).to.equal(1);
+        expect(snapshot.getMin()).to.equal(10);
+        expect(snapshot.getMax()).to.equal(10);
+        expect(snapshot.getMean()).to.equal(10);
+        expect(JSON.parse(JSON.stringify(sketch))).to.deep.equal(sketch.toJSON());
+    }
+
+    @test
+    public "check merging sketches"(): void {
+        const all = new DDSketch();
+        const even = new DDSketch();
+        const odd = new DDSketch();
+        for (let i = 1; i <= 1000; i++) {
+            all.update(i);
+            (i % 2 === 0 ? even : odd).update(i);
+        }
+
+        const merged = new DDSketch().merge(even).merge(odd.toJSON());
+
+        expect(merged.toJSON()).to.deep.equal(all.toJSON());
+        expect(merged.snapshot().get99thPercentile()).to.equal(all.snapshot().get99thPercentile());
+    }
+
+    @test
+    public "check merging an empty sketch"(): void {
+        const sketch = new DDSketch().update(1);
+        sketch.merge(new DDSketch());
+
+        expect(sketch.size()).to.equal(1);
+        expect(sketch.snapshot().getMin()).to.equal(1);
+    }
+
+    @test
+    public "check merging sketches with different relative accuracies"(): void {
+        expect(() => new DDSketch(0.01).merge(new DDSketch(0.02))).to.throw();
+    }
+
+    @test
+    public "check serialization"(): void {
+        const sketch = new DDSketch(0.02)
+            .update(1)
+            .update(2)
+            .update(3);
+
+        const serialized = JSON.parse(JSON.stringify(sketch));
+        const restored = DDSketch.fromJSON(serialized);
+
+        expect(restored.getRelativeAccuracy()).to.equal(0.02);
+        expect(restored.toJSON()).to.deep.equal(sketch.toJSON());
+        expect(new SketchSnapshot(serialized).getValues()).to.deep.equal(sketch.snapshot().getValues());
+    }
+
+}
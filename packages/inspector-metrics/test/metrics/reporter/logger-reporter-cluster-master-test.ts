@@ -10,11 +10,17 @@ import * as sinonChai from "sinon-chai";
 
 import { EventEmitter } from "events";
 import {
+    Counter,
     InterprocessReportMessage,
     Logger,
     LoggerReporter,
     MetricReporter,
+    MILLISECOND,
+    SketchHistogram,
+    Tags,
+    tagsToMap,
 } from "../../../lib/metrics";
+import { MockedClock } from "../mocked-clock";
 
 chai.use(sinonChai);
 
@@ -35,13 +41,14 @@ export class LoggerReporterClusterMasterTest {
     private eventEmitter: EventEmitter;
     private logger: Logger;
     private loggerSpy: SinonSpy;
+    private reporter: LoggerReporter;
 
     public before() {
         this.eventEmitter = new EventEmitter();
         this.logger = new MockedLogger();
         this.loggerSpy = spy(this.logger.info);
         this.logger.info = this.loggerSpy;
-        new LoggerReporter({
+        this.reporter = new LoggerReporter({
             clusterOptions: {
                 enabled: true,
                 eventReceiver: this.eventEmitter,
@@ -166,7 +173,7 @@ export class LoggerReporterClusterMasterTest {
         this.logger = new MockedLogger();
         this.loggerSpy = spy(this.logger.info);
         this.logger.info = this.loggerSpy;
-        new LoggerReporter({
+        this.reporter = new LoggerReporter({
             clusterOptions: {
                 enabled: false,
                 eventReceiver: this.eventEmitter,
@@ -188,4 +195,270 @@ export class LoggerReporterClusterMasterTest {
         });
     }
 
+    @test
+    public async "check master merges sketch histograms of all workers once per reporting run"() {
+        const createMessage = (histogram: SketchHistogram): InterprocessReportMessage<any> => ({
+            ctx: {},
+            date: new Date(),
+            metrics: {
+                counters: [],
+                gauges: [],
+                histograms: [JSON.parse(JSON.stringify({
+                    metric: histogram,
+                    result: { message: "worker result", metadata: {} },
+                }))],
+                meters: [],
+                monotoneCounters: [],
+                timers: [],
+            },
+            tags: null,
+            targetReporterType: "TestLoggerReportType",
+            type: MetricReporter.MESSAGE_TYPE,
+        });
+        const worker1 = new SketchHistogram(0.01, "latency").setTag("endpoint", "/users");
+        const worker2 = new SketchHistogram(0.01, "latency").setTag("endpoint", "/users");
+        for (let i = 1; i <= 99; i++) {
+            worker1.update(10);
+        }
+        worker2.update(1000);
+
+        this.eventEmitter.emit("message", { id: 1 }, createMessage(worker1));
+        this.eventEmitter.emit("message", { id: 2 }, createMessage(worker2));
+
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(this.loggerSpy).to.not.have.been.called;
+
+        await (this.reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledOnce;
+        const mergedMessage: string = this.loggerSpy.getCall(0).args[0];
+        const mergedMetadata = this.loggerSpy.getCall(0).args[1];
+        expect(mergedMessage).to.contain("histogram latency");
+        expect(mergedMessage).to.contain("count: 100");
+        expect(mergedMessage).to.contain("max: 1000");
+        expect(mergedMessage).to.contain("min: 10");
+        expect(mergedMetadata.tags).to.deep.equal({ endpoint: "/users" });
+
+        this.eventEmitter.emit("message", { id: 1 }, createMessage(worker1));
+        this.eventEmitter.emit("exit", { id: 2 });
+        await new Promise((resolve) => setImmediate(resolve));
+        await (this.reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledTwice;
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("count: 99");
+
+        this.eventEmitter.emit("exit", { id: 1 });
+        await (this.reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledTwice;
+    }
+
+    @test
+    public async "check master drops worker sketches not refreshed within a report interval"() {
+        const clock = new MockedClock();
+        const reporter = new LoggerReporter({
+            clock,
+            clusterOptions: {
+                enabled: true,
+                eventReceiver: this.eventEmitter,
+                getWorkers: async () => [],
+                sendMetricsToMaster: false,
+                sendToMaster: async () => null,
+                sendToWorker: async () => null,
+            },
+            log: this.logger,
+            reportInterval: 1000,
+            unit: MILLISECOND,
+        }, "StaleLoggerReportType");
+        const createMessage = (histogram: SketchHistogram): InterprocessReportMessage<any> => ({
+            ctx: {},
+            date: new Date(),
+            metrics: {
+                counters: [],
+                gauges: [],
+                histograms: [JSON.parse(JSON.stringify({
+                    metric: histogram,
+                    result: { message: "worker result", metadata: {} },
+                }))],
+                meters: [],
+                monotoneCounters: [],
+                timers: [],
+            },
+            tags: null,
+            targetReporterType: "StaleLoggerReportType",
+            type: MetricReporter.MESSAGE_TYPE,
+        });
+
+        this.eventEmitter.emit("message", { id: 1 }, createMessage(new SketchHistogram(0.01, "latency").update(10)));
+        await new Promise((resolve) => setImmediate(resolve));
+        clock.setCurrentTime({ milliseconds: 500, nanoseconds: 0 });
+        this.eventEmitter.emit("message", { id: 2 }, createMessage(new SketchHistogram(0.01, "latency").update(20)));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 });
+        await (reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledOnce;
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("count: 2");
+
+        clock.setCurrentTime({ milliseconds: 1200, nanoseconds: 0 });
+        await (reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledTwice;
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("count: 1");
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("max: 20");
+
+        clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 });
+        await (reporter as any).report();
+
+        expect(this.loggerSpy).to.have.been.calledTwice;
+    }
+
+    @test
+    public async "check master registers a single exit listener and removes it on stop"() {
+        const message: InterprocessReportMessage<any> = {
+            ctx: {},
+            date: new Date(),
+            metrics: {
+                counters: [],
+                gauges: [],
+                histograms: [JSON.parse(JSON.stringify({
+                    metric: new SketchHistogram(0.01, "latency").update(10),
+                    result: { message: "worker result", metadata: {} },
+                }))],
+                meters: [],
+                monotoneCounters: [],
+                timers: [],
+            },
+            tags: null,
+            targetReporterType: "TestLoggerReportType",
+            type: MetricReporter.MESSAGE_TYPE,
+        };
+
+        expect(this.eventEmitter.listenerCount("exit")).to.equal(0);
+
+        this.eventEmitter.emit("message", { id: 1 }, message);
+        this.eventEmitter.emit("message", { id: 2 }, message);
+        this.eventEmitter.emit("message", { id: 1 }, message);
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(this.eventEmitter.listenerCount("exit")).to.equal(1);
+
+        await this.reporter.start();
+        await this.reporter.stop();
+
+        expect(this.eventEmitter.listenerCount("exit")).to.equal(0);
+        expect(this.loggerSpy).to.have.been.calledOnce;
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("count: 2");
+    }
+
+    @test
+    public "check master applies the metric filter to worker metrics"(done: (err?: any) => any) {
+        const counter = (name: string, tags: Tags) => JSON.parse(JSON.stringify({
+            metric: new Counter(name).setTags(tagsToMap(tags)),
+            result: { message: `counter ${name}`, metadata: {} },
+        }));
+        const message: InterprocessReportMessage<any> = {
+            ctx: {},
+            date: new Date(),
+            metrics: {
+                counters: [
+                    counter("requests", { env: "prod" }),
+                    counter("requests", { env: "test" }),
+                ],
+                gauges: [],
+                histograms: [],
+                meters: [],
+                monotoneCounters: [counter("internal.requests", {})],
+                timers: [],
+            },
+            tags: null,
+            targetReporterType: "FilteringLoggerReportType",
+            type: MetricReporter.MESSAGE_TYPE,
+        };
+        new LoggerReporter({
+            clusterOptions: {
+                enabled: true,
+                eventReceiver: this.eventEmitter,
+                getWorkers: async () => [],
+                sendMetricsToMaster: false,
+                sendToMaster: async () => null,
+                sendToWorker: async () => null,
+            },
+            filter: {
+                exclude: [{ name: "internal.*" }, { tags: { env: "test" } }],
+            },
+            log: this.logger,
+        }, "FilteringLoggerReportType");
+
+        this.eventEmitter.emit("message", null /* worker */, message);
+
+        setImmediate(() => {
+            expect(this.loggerSpy).to.have.been.calledOnce;
+            expect(this.loggerSpy.getCall(0).args[0]).to.equal("counter requests");
+            done();
+        });
+    }
+
+    @test
+    public async "check master applies the relabel rules to worker metrics"() {
+        const result = (metric: Counter | SketchHistogram) => JSON.parse(JSON.stringify({
+            metric,
+            result: { message: `worker ${metric.getName()}`, metadata: {} },
+        }));
+        const createMessage = (
+            relabeled: boolean,
+            counters: Counter[],
+            histograms: SketchHistogram[]): InterprocessReportMessage<any> => ({
+            ctx: {},
+            date: new Date(),
+            metrics: {
+                counters: counters.map(result),
+                gauges: [],
+                histograms: histograms.map(result),
+                meters: [],
+                monotoneCounters: [],
+                timers: [],
+            },
+            relabeled,
+            tags: null,
+            targetReporterType: "RelabelingLoggerReportType",
+            type: MetricReporter.MESSAGE_TYPE,
+        });
+        const reporter = new LoggerReporter({
+            clusterOptions: {
+                enabled: true,
+                eventReceiver: this.eventEmitter,
+                getWorkers: async () => [],
+                sendMetricsToMaster: false,
+                sendToMaster: async () => null,
+                sendToWorker: async () => null,
+            },
+            log: this.logger,
+            relabelRules: [
+                { action: "drop", regex: "internal.*", sourceTags: ["__name__"] },
+                { regex: "(.*)", replacement: "app_$1", sourceTags: ["__name__"], targetTag: "__name__" },
+            ],
+        }, "RelabelingLoggerReportType");
+
+        this.eventEmitter.emit("message", { id: 1 }, createMessage(false,
+            [new Counter("internal.requests"), new Counter("requests")],
+            [new SketchHistogram(0.01, "latency")]));
+        this.eventEmitter.emit("message", { id: 2 }, createMessage(true,
+            [new Counter("internal.requests")],
+            [new SketchHistogram(0.01, "app_size")]));
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(this.loggerSpy).to.have.been.calledTwice;
+        expect(this.loggerSpy.getCall(0).args[0]).to.equal("worker requests");
+        expect(this.loggerSpy.getCall(1).args[0]).to.equal("worker internal.requests");
+
+        await (reporter as any).report();
+
+        expect(this.loggerSpy.callCount).to.equal(4);
+        expect(this.loggerSpy.getCall(2).args[0]).to.contain("histogram app_latency");
+        expect(this.loggerSpy.getCall(3).args[0]).to.contain("histogram app_size");
+        expect(this.loggerSpy.getCall(3).args[0]).to.not.contain("app_app_size");
+    }
+
 }
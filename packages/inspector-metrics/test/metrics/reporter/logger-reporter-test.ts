@@ -5,7 +5,7 @@ import "source-map-support/register";
 
 import * as chai from "chai";
 import { suite, test } from "@testdeck/mocha";
-import { SinonSpy, spy } from "sinon";
+import { SinonSpy, spy, useFakeTimers } from "sinon";
 import * as sinonChai from "sinon-chai";
 
 import {
@@ -17,7 +17,9 @@ import {
     MILLISECOND,
     MINUTE,
     Scheduler,
+    SharedMetricRegistries,
     SimpleGauge,
+    ThresholdAlert,
     Time,
 } from "../../../lib/metrics/";
 
@@ -168,6 +170,40 @@ export class LoggerReporterTest {
         expect(logMetadata.tags).to.not.be.null;
     }
 
+    @test
+    public async "async gauge reporting"() {
+        let value = 0;
+        this.registry.newAsyncGauge("gauge1", async () => ++value);
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(1);
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("gauge gauge1: 1");
+
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(2);
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("gauge gauge1: 2");
+    }
+
+    @test
+    public async "failing gauge does not break the report"() {
+        this.registry.newFunctionGauge("gauge1", () => {
+            throw new Error("not connected");
+        });
+        this.registry.newFunctionGauge("gauge2", () => 2);
+        const errorSpy = spy(this.logger, "error");
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(1);
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("gauge gauge2: 2");
+        expect(errorSpy).to.have.been.calledOnce;
+        expect(errorSpy.getCall(0).args[0]).to.equal("error reporting gauge 'gauge1' - reason: not connected");
+    }
+
     @test
     public async "histogram reporting"() {
         this.registry.newHistogram("histogram1");
@@ -189,6 +225,85 @@ export class LoggerReporterTest {
         expect(logMetadata.tags).to.not.be.null;
     }
 
+    @test
+    public async "histogram reporting in interval mode"() {
+        const histogram = this.registry.newHdrHistogram("histogram1", 1, 1000).setIntervalMode(true);
+        histogram.update(100).update(300);
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(1);
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("max: 300");
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("count: 2");
+
+        histogram.update(200);
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(2);
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("max: 200");
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("count: 3");
+    }
+
+    @test
+    public async "histogram reporting in interval mode with multiple reporters"() {
+        const histogram = this.registry.newHdrHistogram("histogram1", 1, 1000).setIntervalMode(true);
+        const logger = new MockedLogger();
+        const loggerSpy = spy(logger.info);
+        logger.info = loggerSpy;
+        let secondCallback: () => Promise<any>;
+        const secondReporter = new LoggerReporter({
+            clock: this.clock,
+            log: logger,
+            minReportingTimeout: 1,
+            reportInterval: 1000,
+            scheduler: (prog: () => Promise<any>) => {
+                secondCallback = prog;
+                return null;
+            },
+            unit: MILLISECOND,
+        });
+        secondReporter.addMetricRegistry(this.registry);
+
+        histogram.update(100).update(300);
+        await this.reporter.start();
+        await secondReporter.start();
+        await this.internalCallback();
+        histogram.update(200);
+        await secondCallback();
+
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("max: 300");
+        expect(loggerSpy.getCall(0).args[0]).to.contain("max: 300");
+
+        await this.reporter.stop();
+        histogram.update(50);
+        await secondCallback();
+        expect(loggerSpy.lastCall.args[0]).to.contain("max: 50");
+    }
+
+    @test
+    public async "expired metrics are removed before reporting"() {
+        this.clock.setCurrentTime({ milliseconds: 1000, nanoseconds: 0 });
+        this.registry.setMetricTTL(1000);
+        const counter = this.registry.newCounter("counter1");
+        this.registry.newCounter("counter2").increment(1);
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(2);
+        expect((this.reporter as any).metricStates.has(counter.id)).to.equal(true);
+
+        this.clock.setCurrentTime({ milliseconds: 2001, nanoseconds: 0 });
+        counter.increment(1);
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(3);
+        expect(this.loggerSpy.getCall(2).args[1].measurement).to.equal("counter1");
+        expect(this.registry.getMetricList()).to.deep.equal([counter]);
+        expect((this.reporter as any).metricStates.size).to.equal(1);
+    }
+
     @test
     public async "meter reporting"() {
         this.registry.newMeter("meter1");
@@ -492,4 +607,413 @@ export class LoggerReporterTest {
         expect(this.loggerSpy.callCount).to.equal(2);
     }
 
+    @test
+    public async "check reporting of metric units"() {
+        this.registry.newCounter("requests", null, null, "requests");
+        this.registry.newHistogram("response_size", null, null, null, undefined, "bytes");
+        this.registry.newMeter("events");
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.getCalls().map((call) => [call.args[1].measurement, call.args[1].unit]))
+            .to.deep.equal([["requests", "requests"], ["response_size", "bytes"], ["events", null]]);
+    }
+
+    @test
+    public async "check reporting with metric filter"() {
+        this.reporter = new LoggerReporter({
+            clock: this.clock,
+            filter: {
+                exclude: [
+                    { name: /^internal\./ },
+                    { tags: { env: "te?t" }, type: "counter" },
+                ],
+                include: [
+                    { name: "http.*" },
+                    { group: "db", type: ["gauge", "meter"] },
+                ],
+            },
+            log: this.logger,
+            minReportingTimeout: 1,
+            reportInterval: 1000,
+            scheduler: this.schedulerSpy,
+            tags: new Map(),
+            unit: MILLISECOND,
+        });
+        this.reporter.addMetricRegistry(this.registry);
+
+        this.registry.newCounter("http.requests");
+        this.registry.newCounter("http.errors").setTag("env", "test");
+        this.registry.newMeter("http.errors").setTag("env", "test");
+        this.registry.newCounter("internal.http.requests");
+        this.registry.newCounter("connections", "db");
+        this.registry.newMeter("queries", "db");
+        this.registry.newMeter("jobs", "queue");
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(3);
+        const reported = this.loggerSpy.getCalls()
+            .map((call) => `${call.args[1].measurement_type} ${call.args[1].measurement}`);
+        expect(reported).to.deep.equal([
+            "counter http.requests",
+            "meter http.errors",
+            "meter queries",
+        ]);
+    }
+
+    @test
+    public async "check reporting with relabel rules"() {
+        this.reporter = new LoggerReporter({
+            clock: this.clock,
+            log: this.logger,
+            minReportingTimeout: 1,
+            relabelRules: [
+                { action: "drop", regex: "internal_.*", sourceTags: ["__name__"] },
+                { regex: "(.*)-(.*)", replacement: "$1_$2", sourceTags: ["__name__"], targetTag: "__name__" },
+                {
+                    regex: "(.*);(.+)",
+                    replacement: "$1_$2",
+                    sourceTags: ["__name__", "method"],
+                    targetTag: "__name__",
+                },
+                { action: "labelmap", regex: "host(.*)", replacement: "instance$1" },
+                { action: "labeldrop", regex: "method|host.*" },
+                { regex: "(prod|test).*", sourceTags: ["env"], targetTag: "env" },
+            ],
+            reportInterval: 1000,
+            scheduler: this.schedulerSpy,
+            tags: new Map([["host", "server1"]]),
+            unit: MILLISECOND,
+        });
+        this.reporter.addMetricRegistry(this.registry);
+
+        this.registry.newCounter("http-requests")
+            .setTag("method", "get")
+            .setTag("env", "production");
+        this.registry.newMeter("http-errors");
+        this.registry.newCounter("internal_requests");
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(2);
+        let logMetadata = this.loggerSpy.getCall(0).args[1];
+        expect(logMetadata.measurement).to.equal("http_requests_get");
+        expect(logMetadata.tags).to.deep.equal({ env: "prod", instance: "server1" });
+        logMetadata = this.loggerSpy.getCall(1).args[1];
+        expect(logMetadata.measurement).to.equal("http_errors");
+        expect(logMetadata.tags).to.deep.equal({ instance: "server1" });
+        expect(this.registry.getCounter("http-requests").getTags().get("method")).to.equal("get");
+    }
+
+    @test
+    public "check invalid relabel rules are rejected"() {
+        expect(() => new LoggerReporter({ relabelRules: [{ sourceTags: ["env"] }] }))
+            .to.throw("Relabel rule with action 'replace' needs a targetTag");
+        expect(() => new LoggerReporter({ relabelRules: [{ action: "labeldrop", regex: "(" }] }))
+            .to.throw();
+    }
+
+    @test
+    public async "check reporting with duration and rate units"() {
+        this.reporter = new LoggerReporter({
+            clock: this.clock,
+            durationUnit: MILLISECOND,
+            log: this.logger,
+            minReportingTimeout: 1,
+            rateUnit: MINUTE,
+            reportInterval: 1000,
+            scheduler: this.schedulerSpy,
+            unit: MILLISECOND,
+        });
+        this.reporter.addMetricRegistry(this.registry);
+
+        this.registry.newMeter("requests", null, this.clock).mark(30);
+        this.registry.newTimer("latency", null, this.clock).addDuration(250, MILLISECOND);
+        this.clock.setCurrentTime({ milliseconds: 60000, nanoseconds: 0 });
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.callCount).to.equal(2);
+        expect(this.loggerSpy.getCall(0).args[0]).to.contain("mean_rate: 30");
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("mean_rate: 1");
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("max: 250");
+        expect(this.loggerSpy.getCall(1).args[0]).to.contain("p99: 250");
+    }
+
+    @test
+    public async "check final report and flush of events on stop"() {
+        const flushSpy = spy(this.reporter, "flushEvents");
+        this.registry.newCounter("counter1").increment(1);
+
+        await this.reporter.stop();
+        expect(this.loggerSpy).to.not.have.been.called;
+
+        await this.reporter.start();
+        await this.reporter.stop();
+
+        expect(this.loggerSpy).to.have.been.calledOnce;
+        expect(this.loggerSpy.getCall(0).args[1].measurement).to.equal("counter1");
+        expect(flushSpy).to.have.been.calledOnce;
+
+        await this.reporter.stop();
+        expect(this.loggerSpy).to.have.been.calledOnce;
+    }
+
+    @test
+    public async "check stop detaches the reporter if the final report fails"() {
+        const errorSpy = spy(this.logger, "error");
+        const reporter = this.reporter as any;
+        const detachSpy = spy(reporter, "detachSharedRegistries");
+        const releaseSpy = spy(reporter, "releaseIntervals");
+        reporter.report = async () => {
+            throw new Error("failed");
+        };
+
+        await this.reporter.start();
+        await this.reporter.stop();
+
+        expect(errorSpy).to.have.been.calledOnce;
+        expect(errorSpy.getCall(0).args[0]).to.equal("error in final reporting run - reason: failed");
+        expect(detachSpy).to.have.been.calledOnce;
+        expect(releaseSpy).to.have.been.calledOnce;
+    }
+
+    @test
+    public async "check stop is bounded by the timeout"() {
+        const errorSpy = spy(this.logger, "error");
+        const detachSpy = spy(this.reporter as any, "detachSharedRegistries");
+        (this.reporter as any).report = () => new Promise(() => null);
+
+        await this.reporter.start();
+        await this.reporter.stop(10);
+
+        expect(errorSpy).to.have.been.calledOnce;
+        expect(errorSpy.getCall(0).args[0])
+            .to.equal("error in final reporting run - reason: final report not finished within 10 ms");
+        expect(detachSpy).to.have.been.calledOnce;
+    }
+
+    @test
+    public async "check stop waits for the running report"() {
+        const calls: string[] = [];
+        const reporter = this.reporter as any;
+        const report = reporter.report.bind(reporter);
+        reporter.report = async () => {
+            calls.push("start");
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            calls.push("end");
+            return await report();
+        };
+
+        await this.reporter.start();
+        const running = this.internalCallback();
+        await this.reporter.stop();
+        await running;
+
+        expect(calls).to.deep.equal(["start", "end", "start", "end"]);
+    }
+
+    @test
+    public async "check schedule is cancelled on stop"() {
+        const fakeTimers = useFakeTimers(0);
+        try {
+            this.reporter = new LoggerReporter({
+                clock: this.clock,
+                log: this.logger,
+                reportInterval: 1000,
+                unit: MILLISECOND,
+            });
+            const reportSpy = spy(this.reporter as any, "report");
+
+            await this.reporter.start();
+            fakeTimers.tick(1000);
+            expect(reportSpy).to.have.been.calledOnce;
+
+            await this.reporter.stop();
+            expect(reportSpy).to.have.been.calledTwice;
+
+            fakeTimers.tick(5000);
+            expect(reportSpy).to.have.been.calledTwice;
+        } finally {
+            fakeTimers.restore();
+        }
+    }
+
+    @test
+    public async "check reporter self metrics"() {
+        const selfMetrics = new MetricRegistry();
+        this.reporter = new LoggerReporter({
+            clock: this.clock,
+            log: this.logger,
+            minReportingTimeout: 1,
+            reportInterval: 1000,
+            scheduler: this.schedulerSpy,
+            selfMetrics,
+        });
+        this.reporter.addMetricRegistry(this.registry);
+        this.registry.newCounter("requests").increment(1);
+
+        await this.reporter.start();
+        await this.internalCallback();
+        await this.internalCallback();
+
+        const getCount = (name: string) => selfMetrics.getMonotoneCounterList()
+            .find((counter) => counter.getName() === name).getCount();
+        expect(getCount("reporter_metrics_reported_total")).to.equal(1);
+        expect(getCount("reporter_metrics_skipped_total")).to.equal(1);
+        expect(getCount("reporter_payload_bytes_total"))
+            .to.equal(Buffer.byteLength(this.loggerSpy.getCall(0).args[0]));
+        const timer = selfMetrics.getTimerList()[0];
+        expect(timer.getName()).to.equal("reporter_report_duration");
+        expect(timer.getCount()).to.equal(2);
+        expect(timer.getTag("reporterType")).to.equal("LoggerReporter");
+    }
+
+    @test
+    public async "check threshold rules are evaluated after each report"() {
+        this.reporter = new LoggerReporter({
+            clock: this.clock,
+            log: this.logger,
+            minReportingTimeout: 1,
+            reportInterval: 1000,
+            scheduler: this.schedulerSpy,
+            thresholdRules: [
+                {
+                    intervals: 2,
+                    metrics: { name: "api.latency", type: "timer" },
+                    name: "latency_high",
+                    operator: ">",
+                    threshold: 500,
+                    value: "p99",
+                },
+                {
+                    metrics: { name: "errors" },
+                    name: "error_rate_high",
+                    operator: ">",
+                    rateUnit: MINUTE,
+                    threshold: 10,
+                    value: "rate",
+                },
+            ],
+            unit: MILLISECOND,
+        });
+        this.reporter.addMetricRegistry(this.registry);
+        const alerts: ThresholdAlert[] = [];
+        this.reporter.addThresholdListener((alert) => alerts.push(alert));
+        const getEvents = () => this.loggerSpy.getCalls()
+            .map((call) => call.args[1])
+            .filter((logMetadata) => logMetadata.tags.alertstate);
+
+        const timer = this.registry.newTimer("api.latency");
+        const errors = this.registry.newCounter("errors");
+        timer.addDuration(800, MILLISECOND);
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(alerts).to.be.empty;
+        expect(getEvents()).to.be.empty;
+
+        this.clock.setCurrentTime({ milliseconds: 60000, nanoseconds: 0 });
+        errors.increment(20);
+        await this.internalCallback();
+
+        expect(alerts.map((alert) => [alert.rule.name, alert.state, alert.value]))
+            .to.deep.equal([["latency_high", "firing", 800], ["error_rate_high", "firing", 20]]);
+        let events = getEvents();
+        expect(events.length).to.equal(2);
+        expect(events[0].measurement).to.equal("latency_high");
+        expect(events[0].tags).to.deep.equal({ alertstate: "firing", metric: "api.latency" });
+        expect(events[1].measurement).to.equal("error_rate_high");
+        expect(events[1].tags).to.deep.equal({ alertstate: "firing", metric: "errors" });
+
+        this.clock.setCurrentTime({ milliseconds: 120000, nanoseconds: 0 });
+        errors.increment(5);
+        await this.internalCallback();
+
+        expect(alerts.length).to.equal(3);
+        expect(alerts[2].rule.name).to.equal("error_rate_high");
+        expect(alerts[2].state).to.equal("resolved");
+        expect(alerts[2].value).to.equal(5);
+        events = getEvents();
+        expect(events.length).to.equal(3);
+        expect(events[2].tags).to.deep.equal({ alertstate: "resolved", metric: "errors" });
+    }
+
+    @test
+    public "check invalid threshold rules are rejected"() {
+        expect(() => new LoggerReporter({
+            thresholdRules: [{ metrics: {}, name: "rule", operator: "=>" as any, threshold: 1, value: "count" }],
+        })).to.throw("Unknown operator '=>' of threshold rule 'rule'");
+        expect(() => new LoggerReporter({
+            thresholdRules: [{ metrics: {}, name: "rule", operator: ">", threshold: 1, value: "p90" as any }],
+        })).to.throw("Unknown value 'p90' of threshold rule 'rule'");
+    }
+
+    @test
+    public async "check reporting of shared registries"() {
+        this.reporter.removeMetricRegistry(this.registry);
+        SharedMetricRegistries.getOrCreate("db").newCounter("queries");
+        this.reporter.addMetricRegistry(SharedMetricRegistries);
+        SharedMetricRegistries.getDefault().newCounter("requests");
+
+        await this.reporter.start();
+        await this.internalCallback();
+
+        expect(this.loggerSpy.getCalls().map((call) => call.args[1].measurement))
+            .to.deep.equal(["queries", "requests"]);
+
+        SharedMetricRegistries.getOrCreate("jobs").newCounter("jobs");
+        SharedMetricRegistries.remove("db");
+        this.loggerSpy.resetHistory();
+        this.clock.setCurrentTime({ milliseconds: MINUTE.convertTo(2, MILLISECOND), nanoseconds: 0 });
+        await this.internalCallback();
+
+        expect(this.loggerSpy.getCalls().map((call) => call.args[1].measurement))
+            .to.deep.equal(["requests", "jobs"]);
+
+        this.reporter.removeMetricRegistry(SharedMetricRegistries);
+        SharedMetricRegistries.getOrCreate("http").newCounter("http");
+        this.loggerSpy.resetHistory();
+        this.clock.setCurrentTime({ milliseconds: MINUTE.convertTo(4, MILLISECOND), nanoseconds: 0 });
+        await this.internalCallback();
+
+        expect(this.loggerSpy).to.not.have.been.called;
+        SharedMetricRegistries.clear();
+    }
+
+    @test
+    public async "check shared registries of another module copy and explicitly added"() {
+        const sharedRegistriesCopy: any = { [Symbol.for("inspector-metrics:shared-metric-registries-class")]: true };
+        SharedMetricRegistries.add("explicit", this.registry);
+        const db = SharedMetricRegistries.getOrCreate("db");
+        this.reporter.addMetricRegistry(sharedRegistriesCopy);
+
+        expect((this.reporter as any).metricRegistries).to.deep.equal([this.registry, db]);
+
+        this.reporter.removeMetricRegistry(sharedRegistriesCopy);
+        expect((this.reporter as any).metricRegistries).to.deep.equal([this.registry]);
+        SharedMetricRegistries.clear();
+    }
+
+    @test
+    public async "check shared registries are only listened to while started"() {
+        this.reporter.addMetricRegistry(SharedMetricRegistries);
+        await this.reporter.start();
+        await this.reporter.stop();
+
+        const db = SharedMetricRegistries.getOrCreate("db");
+        expect((this.reporter as any).metricRegistries).to.deep.equal([this.registry]);
+
+        await this.reporter.start();
+        expect((this.reporter as any).metricRegistries).to.deep.equal([this.registry, db]);
+        await this.reporter.stop();
+        SharedMetricRegistries.clear();
+    }
+
 }
@@ -0,0 +1,160 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { suite, test } from "@testdeck/mocha";
+import { SinonSpy, spy, stub } from "sinon";
+import * as sinonChai from "sinon-chai";
+
+import {
+    getAlignedDelay,
+    LoggerReporter,
+    LoggerReporterOptions,
+    MILLISECOND,
+    OverallReportContext,
+    SECOND,
+} from "../../../lib/metrics/";
+import { MockedClock, MockedLogger } from "./logger-reporter-test";
+
+chai.use(sinonChai);
+
+const expect = chai.expect;
+
+class AligningReporter extends LoggerReporter {
+    public readonly timeouts: Array<{ callback: () => void, delay: number }> = [];
+    public readonly reports: number[] = [];
+
+    public constructor(private readonly mockedClock: MockedClock, options: LoggerReporterOptions) {
+        super({ clock: mockedClock, log: new MockedLogger(), unit: MILLISECOND, ...options });
+    }
+
+    public async tick(milliseconds: number): Promise<void> {
+        this.mockedClock.setCurrentTime({ milliseconds, nanoseconds: 0 });
+        this.timeouts[this.timeouts.length - 1].callback();
+        await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    public getLastDelay(): number {
+        return this.timeouts[this.timeouts.length - 1].delay;
+    }
+
+    protected scheduleTimeout(callback: () => void, delay: number): NodeJS.Timer {
+        this.timeouts.push({ callback, delay });
+        return null;
+    }
+
+    protected async report(): Promise<OverallReportContext> {
+        this.reports.push(this.mockedClock.time().milliseconds);
+        return {};
+    }
+}
+
+@suite
+export class ScheduledReporterAlignmentTest {
+
+    private clock: MockedClock;
+    private schedulerSpy: SinonSpy;
+
+    public before(): void {
+        this.clock = new MockedClock();
+        this.clock.setCurrentTime({ milliseconds: 18000, nanoseconds: 0 });
+        this.schedulerSpy = spy((prog: () => Promise<any>, interval: number): NodeJS.Timer => null);
+    }
+
+    @test
+    public "check aligned delay"(): void {
+        expect(getAlignedDelay(18000, 30000)).to.equal(12000);
+        expect(getAlignedDelay(30000, 30000)).to.equal(0);
+        expect(getAlignedDelay(18000, 30000, 1000, () => 0.5)).to.equal(12500);
+        expect(getAlignedDelay(18000, 0, 1000, () => 0.25)).to.equal(250);
+    }
+
+    @test
+    public async "check runs are aligned to each boundary"(): Promise<void> {
+        const reporter = this.newReporter({ alignToInterval: true, reportInterval: 30000 });
+
+        await reporter.start();
+        expect(reporter.getLastDelay()).to.equal(12000);
+        expect(reporter.reports).to.deep.equal([]);
+
+        await reporter.tick(30040);
+        expect(reporter.reports).to.deep.equal([30040]);
+        expect(reporter.getLastDelay()).to.equal(29960);
+
+        await reporter.tick(59990);
+        expect(reporter.getLastDelay()).to.equal(30010);
+
+        await reporter.tick(125000);
+        expect(reporter.getLastDelay()).to.equal(25000);
+        expect(reporter.reports).to.deep.equal([30040, 59990, 125000]);
+        expect(this.schedulerSpy).to.not.have.been.called;
+    }
+
+    @test
+    public async "check scheduler is invoked right away without alignment"(): Promise<void> {
+        const reporter = this.newReporter({ reportInterval: 30000 });
+
+        await reporter.start();
+
+        expect(this.schedulerSpy).to.have.been.calledOnce;
+        expect(reporter.timeouts).to.have.lengthOf(0);
+    }
+
+    @test
+    public async "check jitter in the unit of the reporter"(): Promise<void> {
+        const randomStub = stub(Math, "random").returns(0.5);
+        try {
+            const reporter = this.newReporter({
+                alignToInterval: true,
+                reportInterval: 30,
+                reportJitter: 1,
+                unit: SECOND,
+            });
+
+            await reporter.start();
+            expect(reporter.getLastDelay()).to.equal(12500);
+
+            await reporter.tick(30520);
+            expect(reporter.getLastDelay()).to.equal(29980);
+        } finally {
+            randomStub.restore();
+        }
+    }
+
+    @test
+    public async "check scheduler is invoked after the jitter without alignment"(): Promise<void> {
+        const randomStub = stub(Math, "random").returns(0.5);
+        try {
+            const reporter = this.newReporter({ reportInterval: 30000, reportJitter: 1000 });
+
+            await reporter.start();
+            expect(this.schedulerSpy).to.not.have.been.called;
+            expect(reporter.getLastDelay()).to.equal(500);
+
+            await reporter.tick(18500);
+            expect(this.schedulerSpy).to.have.been.calledOnce;
+            expect(this.schedulerSpy.getCall(0).args[1]).to.equal(30000);
+        } finally {
+            randomStub.restore();
+        }
+    }
+
+    @test
+    public async "check stop before the next boundary"(): Promise<void> {
+        const reporter = this.newReporter({ alignToInterval: true, reportInterval: 30000 });
+
+        await reporter.start();
+        await reporter.stop();
+        const reports = reporter.reports.length;
+        await reporter.tick(30000);
+
+        expect(reporter.reports).to.have.lengthOf(reports);
+        expect(reporter.timeouts).to.have.lengthOf(1);
+    }
+
+    private newReporter(options: LoggerReporterOptions): AligningReporter {
+        return new AligningReporter(this.clock, { scheduler: this.schedulerSpy, ...options });
+    }
+}
@@ -0,0 +1,175 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { suite, test } from "@testdeck/mocha";
+
+import {
+    DEFAULT_RETRY_POLICY,
+    getRetryDelay,
+    getRetryPolicy,
+    LoggerReporter,
+    LoggerReporterOptions,
+    MetricRegistry,
+    UnsentResultQueue,
+} from "../../../lib/metrics/";
+import { MockedLogger } from "./logger-reporter-test";
+
+const expect = chai.expect;
+
+class RetryingReporter extends LoggerReporter {
+    public readonly waits: number[] = [];
+
+    public constructor(options: LoggerReporterOptions) {
+        super({ log: new MockedLogger(), ...options });
+    }
+
+    public async send(payload: string, send: (payload: string) => Promise<void>): Promise<void> {
+        await this.sendWithRetry(payload, send);
+    }
+
+    protected async wait(millis: number): Promise<void> {
+        this.waits.push(millis);
+    }
+}
+
+@suite
+export class ScheduledReporterRetryTest {
+
+    @test
+    public "check default retry policy"(): void {
+        expect(getRetryPolicy()).to.deep.equal(DEFAULT_RETRY_POLICY);
+        expect(getRetryPolicy({ maxAttempts: 5, jitter: undefined })).to.deep.equal({
+            ...DEFAULT_RETRY_POLICY,
+            maxAttempts: 5,
+        });
+    }
+
+    @test
+    public "check exponential backoff with jitter"(): void {
+        const policy = getRetryPolicy({ initialDelay: 100, maxDelay: 1000, multiplier: 3, jitter: 0.5 });
+        expect(getRetryDelay(policy, 1, () => 0.5)).to.equal(100);
+        expect(getRetryDelay(policy, 2, () => 0.5)).to.equal(300);
+        expect(getRetryDelay(policy, 3, () => 0.5)).to.equal(900);
+        expect(getRetryDelay(policy, 4, () => 0.5)).to.equal(1000);
+        expect(getRetryDelay(policy, 1, () => 0)).to.equal(50);
+        expect(getRetryDelay(policy, 1, () => 1)).to.equal(150);
+    }
+
+    @test
+    public "check unsent result queue drops oldest results"(): void {
+        const queue = new UnsentResultQueue<number>(2);
+        queue.push(1).push(2).push(3);
+        expect(queue.size()).to.equal(2);
+        expect(queue.getDroppedCount()).to.equal(1);
+        queue.unshift(0);
+        expect(queue.getDroppedCount()).to.equal(2);
+        expect(queue.shift()).to.equal(2);
+        expect(queue.shift()).to.equal(3);
+        expect(queue.shift()).to.be.undefined;
+    }
+
+    @test
+    public async "check retry until success"(): Promise<void> {
+        const reporter = new RetryingReporter({ retryPolicy: { maxAttempts: 3, jitter: 0 } });
+        const sent: string[] = [];
+        let failures = 2;
+        await reporter.send("a", async (payload) => {
+            if (failures-- > 0) {
+                throw new Error("unavailable");
+            }
+            sent.push(payload);
+        });
+
+        expect(sent).to.deep.equal(["a"]);
+        expect(reporter.waits).to.deep.equal([500, 1000]);
+        expect(reporter.getUnsentResultCount()).to.equal(0);
+    }
+
+    @test
+    public async "check buffering and resending of unsent results"(): Promise<void> {
+        const reporter = new RetryingReporter({ maxUnsentResults: 2, retryPolicy: { maxAttempts: 2 } });
+        const sent: string[] = [];
+        let available = false;
+        const send = async (payload: string) => {
+            if (!available) {
+                throw new Error("unavailable");
+            }
+            sent.push(payload);
+        };
+
+        for (const payload of ["a", "b", "c"]) {
+            let error: Error = null;
+            await reporter.send(payload, send).catch((e) => error = e);
+            expect(error.message).to.equal("unavailable");
+        }
+        expect(reporter.getUnsentResultCount()).to.equal(2);
+        expect(reporter.getDroppedResultCount()).to.equal(1);
+        expect(sent).to.deep.equal([]);
+
+        available = true;
+        await reporter.send("d", send);
+        expect(sent).to.deep.equal(["b", "c", "d"]);
+        expect(reporter.getUnsentResultCount()).to.equal(0);
+        expect(reporter.getDroppedResultCount()).to.equal(1);
+    }
+
+    @test
+    public async "check overlapping runs are skipped and failed runs do not retry again"(): Promise<void> {
+        let callback: () => Promise<any> = null;
+        const reporter = new RetryingReporter({
+            retryPolicy: { maxAttempts: 3, jitter: 0 },
+            scheduler: (prog) => {
+                callback = prog;
+                return null;
+            },
+        });
+        const attempts: string[] = [];
+        const send = async (payload: string) => {
+            attempts.push(payload);
+            throw new Error("unavailable");
+        };
+        let release: () => void = null;
+        (reporter as any).report = async () => {
+            await reporter.send("a", send).catch(() => null);
+            await reporter.send("b", send).catch(() => null);
+            await new Promise<void>((resolve) => release = resolve);
+            return {};
+        };
+        await reporter.start();
+
+        const run = callback();
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(await callback()).to.be.null;
+        release();
+        await run;
+
+        expect(attempts).to.deep.equal(["a", "a", "a", "a", "b"]);
+        expect(reporter.waits).to.have.lengthOf(2);
+        expect(reporter.getUnsentResultCount()).to.equal(2);
+    }
+
+    @test
+    public async "check self metrics of retries and send failures"(): Promise<void> {
+        const selfMetrics = new MetricRegistry();
+        const reporter = new RetryingReporter({ retryPolicy: { maxAttempts: 2 }, selfMetrics });
+        let available = false;
+        const send = async (payload: string) => {
+            if (!available) {
+                throw new Error("unavailable");
+            }
+        };
+
+        await reporter.send("a", send).catch(() => null);
+        available = true;
+        await reporter.send("bc", send);
+
+        const getCount = (name: string) => selfMetrics.getMonotoneCounterList()
+            .find((counter) => counter.getName() === name).getCount();
+        expect(getCount("reporter_send_failures_total")).to.equal(1);
+        expect(getCount("reporter_send_retries_total")).to.equal(1);
+        expect(getCount("reporter_payload_bytes_total")).to.equal(3);
+    }
+}
@@ -0,0 +1,146 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { EventEmitter } from "events";
+import { suite, test } from "@testdeck/mocha";
+
+import { IMetricReporter, ShutdownManager } from "../../../lib/metrics/";
+import { MockedLogger } from "./logger-reporter-test";
+
+const expect = chai.expect;
+
+class MockedProcess extends EventEmitter {
+    public exitCode: number;
+
+    public exit(code?: number): void {
+        this.exitCode = code;
+    }
+}
+
+function newReporter(stop: (timeout?: number) => Promise<any>): IMetricReporter {
+    return { stop } as any;
+}
+
+@suite
+export class ShutdownManagerTest {
+
+    private process: MockedProcess;
+    private logger: MockedLogger;
+
+    public before(): void {
+        this.process = new MockedProcess();
+        this.logger = new MockedLogger();
+    }
+
+    @test
+    public async "check all reporters are stopped once"(): Promise<void> {
+        const timeouts: number[] = [];
+        const manager = new ShutdownManager({ log: this.logger, process: this.process, timeout: 1000 })
+            .addReporter(newReporter(async (timeout) => timeouts.push(timeout)))
+            .addReporter(newReporter(async (timeout) => timeouts.push(timeout)));
+
+        await manager.shutdown();
+        await manager.shutdown();
+
+        expect(timeouts).to.deep.equal([1000, 1000]);
+    }
+
+    @test
+    public async "check failing reporters are logged"(): Promise<void> {
+        const errors: any[] = [];
+        this.logger.error = (...args: any[]) => errors.push(args);
+        let stopped = false;
+        const manager = new ShutdownManager({ log: this.logger, process: this.process })
+            .addReporter(newReporter(async () => { throw new Error("failed"); }))
+            .addReporter(newReporter(async () => stopped = true));
+
+        await manager.shutdown();
+
+        expect(stopped).to.equal(true);
+        expect(errors).to.have.length(1);
+        expect(errors[0][0]).to.equal("error stopping reporter - reason: failed");
+    }
+
+    @test
+    public async "check shutdown resolves after the timeout"(): Promise<void> {
+        const warnings: any[] = [];
+        this.logger.warn = (...args: any[]) => warnings.push(args);
+        const manager = new ShutdownManager({ log: this.logger, process: this.process, timeout: 10 })
+            .addReporter(newReporter(() => new Promise(() => null)));
+
+        await manager.shutdown();
+
+        expect(warnings).to.deep.equal([["reporters not stopped within 10 ms"]]);
+    }
+
+    @test
+    public async "check process is exited after signal"(): Promise<void> {
+        let stopped = false;
+        new ShutdownManager({ log: this.logger, process: this.process })
+            .addReporter(newReporter(async () => stopped = true))
+            .install();
+
+        this.process.emit("SIGTERM");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(stopped).to.equal(true);
+        expect(this.process.exitCode).to.equal(143);
+    }
+
+    @test
+    public async "check process is not exited if the application listens to the signal"(): Promise<void> {
+        let stopped = false;
+        this.process.on("SIGTERM", () => null);
+        new ShutdownManager({ log: this.logger, process: this.process })
+            .addReporter(newReporter(async () => stopped = true))
+            .install();
+
+        this.process.emit("SIGTERM");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(stopped).to.equal(true);
+        expect(this.process.exitCode).to.equal(undefined);
+    }
+
+    @test
+    public async "check exit on signal can be forced"(): Promise<void> {
+        this.process.on("SIGINT", () => null);
+        new ShutdownManager({ exitOnSignal: true, log: this.logger, process: this.process }).install();
+
+        this.process.emit("SIGINT");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(this.process.exitCode).to.equal(130);
+    }
+
+    @test
+    public async "check shutdown on before exit without exiting"(): Promise<void> {
+        let stops = 0;
+        new ShutdownManager({ log: this.logger, process: this.process })
+            .addReporter(newReporter(async () => stops++))
+            .install()
+            .install();
+
+        this.process.emit("beforeExit");
+        this.process.emit("beforeExit");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(stops).to.equal(1);
+        expect(this.process.exitCode).to.equal(undefined);
+        expect(this.process.listenerCount("beforeExit")).to.equal(1);
+    }
+
+    @test
+    public "check uninstall removes all listeners"(): void {
+        const manager = new ShutdownManager({ process: this.process, signals: ["SIGHUP"] }).install();
+        expect(this.process.listenerCount("SIGHUP")).to.equal(1);
+
+        manager.uninstall();
+
+        expect(this.process.listenerCount("SIGHUP")).to.equal(0);
+        expect(this.process.listenerCount("beforeExit")).to.equal(0);
+    }
+}
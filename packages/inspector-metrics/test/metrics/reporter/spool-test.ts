@@ -0,0 +1,196 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { suite, test } from "@testdeck/mocha";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmdirSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+    FileSpool,
+    LoggerReporter,
+    LoggerReporterOptions,
+} from "../../../lib/metrics/";
+import { MockedLogger } from "./logger-reporter-test";
+
+const expect = chai.expect;
+
+class SpoolingReporter extends LoggerReporter {
+    public readonly sent: any[] = [];
+    public available = false;
+
+    public constructor(options: LoggerReporterOptions) {
+        super({ log: new MockedLogger(), retryPolicy: { maxAttempts: 1 }, ...options });
+    }
+
+    public async send(payload: any): Promise<void> {
+        await this.sendWithRetry(payload, async (p) => await this.sendSpooled(p));
+    }
+
+    protected async sendSpooled(payload: any): Promise<void> {
+        if (!this.available) {
+            throw new Error("unavailable");
+        }
+        this.sent.push(payload);
+    }
+}
+
+@suite
+export class SpoolTest {
+
+    private directory: string;
+
+    public before(): void {
+        this.directory = join(mkdtempSync(join(tmpdir(), "inspector-metrics-")), "spool");
+    }
+
+    public after(): void {
+        const parent = join(this.directory, "..");
+        if (existsSync(this.directory)) {
+            for (const file of readdirSync(this.directory)) {
+                unlinkSync(join(this.directory, file));
+            }
+            rmdirSync(this.directory);
+        }
+        rmdirSync(parent);
+    }
+
+    @test
+    public async "check append, list, read and remove"(): Promise<void> {
+        const spool = new FileSpool({ directory: this.directory });
+        await spool.append({ value: 1 });
+        await spool.append({ value: 2 });
+
+        const ids = await spool.list();
+        expect(ids).to.have.length(2);
+        expect(await spool.read(ids[0])).to.deep.equal({ value: 1 });
+        expect(await spool.read(ids[1])).to.deep.equal({ value: 2 });
+
+        await spool.remove(ids[0]);
+        await spool.remove(ids[0]);
+        expect(await spool.list()).to.deep.equal([ids[1]]);
+        expect(await spool.read(ids[0])).to.be.undefined;
+    }
+
+    @test
+    public async "check entries survive a restart and interrupted writes are removed"(): Promise<void> {
+        await new FileSpool({ directory: this.directory }).append({ value: 1 });
+        writeFileSync(join(this.directory, "999999999999999-0000000000000000.tmp"), "{\"val");
+        writeFileSync(join(this.directory, "999999999999999-0000000000000001.json"), "{\"val");
+
+        const spool = new FileSpool({ directory: this.directory });
+        const ids = await spool.list();
+        expect(ids).to.have.length(2);
+        expect(await spool.read(ids[0])).to.deep.equal({ value: 1 });
+        expect(await spool.read(ids[1])).to.be.undefined;
+        expect(readdirSync(this.directory).filter((file) => file.endsWith(".tmp"))).to.have.length(0);
+    }
+
+    @test
+    public async "check nested directories are created and the sequence continues after a restart"(): Promise<void> {
+        const directory = join(this.directory, "nested");
+        const spool = new FileSpool({ directory });
+        await spool.append({ value: 1 });
+        writeFileSync(join(directory, "999999999999999-0000000000000041.json"), "{\"value\":2}");
+
+        const restarted = new FileSpool({ directory });
+        await restarted.append({ value: 3 });
+        const ids = await restarted.list();
+        expect(ids).to.have.length(3);
+        expect(ids[2]).to.equal("999999999999999-0000000000000042");
+        expect(await restarted.read(ids[2])).to.deep.equal({ value: 3 });
+
+        for (const file of readdirSync(directory)) {
+            unlinkSync(join(directory, file));
+        }
+        rmdirSync(directory);
+    }
+
+    @test
+    public async "check size based retention"(): Promise<void> {
+        const spool = new FileSpool({ directory: this.directory, maxSize: 25 });
+        await spool.append({ value: 1 });
+        await spool.append({ value: 2 });
+        await spool.append({ value: 3 });
+
+        const ids = await spool.list();
+        expect(ids).to.have.length(2);
+        expect(await spool.read(ids[0])).to.deep.equal({ value: 2 });
+        expect(spool.getDroppedCount()).to.equal(1);
+    }
+
+    @test
+    public async "check size based retention includes entries of a previous run"(): Promise<void> {
+        const previous = new FileSpool({ directory: this.directory });
+        await previous.append({ value: 1 });
+        await previous.append({ value: 2 });
+
+        const spool = new FileSpool({ directory: this.directory, maxSize: 25 });
+        await spool.append({ value: 3 });
+
+        const ids = await spool.list();
+        expect(ids).to.have.length(2);
+        expect(await spool.read(ids[0])).to.deep.equal({ value: 2 });
+        expect(spool.getDroppedCount()).to.equal(1);
+
+        await spool.remove(ids[0]);
+        await spool.append({ value: 4 });
+        expect(await spool.list()).to.have.length(2);
+        expect(spool.getDroppedCount()).to.equal(1);
+    }
+
+    @test
+    public async "check read errors are not reported as corrupted entries"(): Promise<void> {
+        const spool = new FileSpool({ directory: this.directory });
+        await spool.append({ value: 1 });
+        const unreadable = join(this.directory, "999999999999999-000000.json");
+        mkdirSync(unreadable);
+
+        try {
+            const reporter = new SpoolingReporter({ spool });
+            reporter.available = true;
+            let error: Error = null;
+            await reporter.send({ value: 2 }).catch((e) => error = e);
+
+            expect((error as any).code).to.equal("EISDIR");
+            expect(reporter.sent).to.deep.equal([{ value: 1 }]);
+            expect(await spool.list()).to.have.length(2);
+        } finally {
+            rmdirSync(unreadable);
+        }
+    }
+
+    @test
+    public async "check spooling and replay in order"(): Promise<void> {
+        let reporter = new SpoolingReporter({ spool: new FileSpool({ directory: this.directory }) });
+        for (const value of [1, 2]) {
+            let error: Error = null;
+            await reporter.send({ value }).catch((e) => error = e);
+            expect(error.message).to.equal("unavailable");
+        }
+        expect(reporter.getUnsentResultCount()).to.equal(0);
+
+        // restart
+        reporter = new SpoolingReporter({ spool: new FileSpool({ directory: this.directory }) });
+        reporter.available = true;
+        await reporter.send({ value: 3 });
+        expect(reporter.sent).to.deep.equal([{ value: 1 }, { value: 2 }, { value: 3 }]);
+        expect(await new FileSpool({ directory: this.directory }).list()).to.have.length(0);
+    }
+
+    @test
+    public async "check spooling is not supported by default"(): Promise<void> {
+        const reporter = new LoggerReporter({
+            log: new MockedLogger(),
+            spool: new FileSpool({ directory: this.directory }),
+        });
+        await new FileSpool({ directory: this.directory }).append({ value: 1 });
+
+        let error: Error = null;
+        await (reporter as any).sendWithRetry({ value: 2 }, async () => await Promise.resolve()).catch((e: Error) => error = e);
+        expect(error.message).to.equal("LoggerReporter does not support spooling");
+    }
+}
@@ -0,0 +1,162 @@
+/* eslint-env mocha */
+
+import "reflect-metadata";
+import "source-map-support/register";
+
+import * as chai from "chai";
+import { suite, test } from "@testdeck/mocha";
+import { SinonSpy, spy } from "sinon";
+import * as sinonChai from "sinon-chai";
+
+import {
+    Event,
+    LoggerReporter,
+    MetricRegistry,
+    MILLISECOND,
+    SimpleGauge,
+    ThresholdAlert,
+    ThresholdRule,
+    ThresholdRuleEngine,
+} from "../../../lib/metrics/";
+import { MockedClock, MockedLogger } from "./logger-reporter-test";
+
+chai.use(sinonChai);
+
+const expect = chai.expect;
+
+@suite
+export class ThresholdRuleTest {
+
+    private registry: MetricRegistry;
+    private logger: MockedLogger;
+    private errorSpy: SinonSpy;
+
+    public before(): void {
+        this.registry = new MetricRegistry();
+        this.logger = new MockedLogger();
+        this.errorSpy = spy();
+        this.logger.error = this.errorSpy;
+    }
+
+    @test
+    public "check rule resolves at value 0"(): void {
+        const gauge = new SimpleGauge("queue_size");
+        this.registry.registerMetric(gauge);
+        const engine = new ThresholdRuleEngine([this.newRule({ threshold: 5, value: "value" })]);
+
+        gauge.setValue(10);
+        const firing = engine.evaluate([this.registry], 1000);
+        gauge.setValue(0);
+        const resolved = engine.evaluate([this.registry], 2000);
+
+        expect(firing.map((alert) => [alert.state, alert.value])).to.deep.equal([["firing", 10]]);
+        expect(resolved.map((alert) => [alert.state, alert.value])).to.deep.equal([["resolved", 0]]);
+        expect(resolved[0].event.getValue()).to.equal(0);
+        expect(resolved[0].event.getTag("alertstate")).to.equal("resolved");
+    }
+
+    @test
+    public "check intervals"(): void {
+        const counter = this.registry.newCounter("errors");
+        const engine = new ThresholdRuleEngine([this.newRule({ intervals: 3, threshold: 0, value: "count" })]);
+        const evaluate = (time: number) => engine.evaluate([this.registry], time).map((alert) => alert.state);
+
+        counter.increment(1);
+        expect(evaluate(1)).to.be.empty;
+        expect(evaluate(2)).to.be.empty;
+        counter.reset();
+        expect(evaluate(3)).to.be.empty;
+        counter.increment(1);
+        expect(evaluate(4)).to.be.empty;
+        expect(evaluate(5)).to.be.empty;
+        expect(evaluate(6)).to.deep.equal(["firing"]);
+        expect(evaluate(7)).to.be.empty;
+    }
+
+    @test
+    public "check failing listeners are logged"(): void {
+        this.registry.newCounter("errors").increment(1);
+        const engine = new ThresholdRuleEngine([this.newRule({ threshold: 0, value: "count" })], this.logger);
+        const alerts: ThresholdAlert[] = [];
+        engine.addListener(() => {
+            throw new Error("failed");
+        });
+        engine.addListener((alert) => alerts.push(alert));
+
+        expect(engine.evaluate([this.registry], 1)).to.have.lengthOf(1);
+
+        expect(alerts).to.have.lengthOf(1);
+        expect(this.errorSpy).to.have.been.calledOnce;
+        expect(this.errorSpy.getCall(0).args[0])
+            .to.equal("error in threshold listener of rule 'errors_high' - reason: failed");
+    }
+
+    @test
+    public async "check failing reportEvent is logged"(): Promise<void> {
+        let internalCallback: () => Promise<any>;
+        const clock = new MockedClock();
+        clock.setCurrentTime({ milliseconds: 0, nanoseconds: 0 });
+        const reportedEvents: string[] = [];
+        const reporter = new LoggerReporter({
+            clock,
+            log: this.logger,
+            scheduler: (prog: () => Promise<any>): NodeJS.Timer => {
+                internalCallback = prog;
+                return null;
+            },
+            thresholdRules: [
+                this.newRule({ name: "first", threshold: 0, value: "count" }),
+                this.newRule({ name: "second", threshold: 0, value: "count" }),
+            ],
+            unit: MILLISECOND,
+        });
+        reporter.reportEvent = async <T, E extends Event<T>>(event: E): Promise<E> => {
+            reportedEvents.push(event.getName());
+            if (event.getName() === "first") {
+                throw new Error("backend unavailable");
+            }
+            return event;
+        };
+        reporter.addMetricRegistry(this.registry);
+        this.registry.newCounter("errors").increment(1);
+
+        await reporter.start();
+        await internalCallback();
+
+        expect(reportedEvents).to.deep.equal(["first", "second"]);
+        expect(this.errorSpy).to.have.been.calledOnce;
+        expect(this.errorSpy.getCall(0).args[0])
+            .to.equal("error reporting alert 'first' (firing) - reason: backend unavailable");
+    }
+
+    @test
+    public async "check failing scheduled runs are logged"(): Promise<void> {
+        let internalCallback: () => Promise<any>;
+        const reporter = new LoggerReporter({
+            log: this.logger,
+            scheduler: (prog: () => Promise<any>): NodeJS.Timer => {
+                internalCallback = prog;
+                return null;
+            },
+        });
+        (reporter as any).report = async () => {
+            throw new Error("failed");
+        };
+
+        await reporter.start();
+
+        expect(await internalCallback()).to.equal(null);
+        expect(this.errorSpy).to.have.been.calledOnceWith("error in scheduled reporting run - reason: failed");
+    }
+
+    private newRule(rule: Partial<ThresholdRule>): ThresholdRule {
+        return {
+            metrics: {},
+            name: "errors_high",
+            operator: ">",
+            threshold: 0,
+            value: "count",
+            ...rule,
+        };
+    }
+}
@@ -0,0 +1,64 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+import { spy } from 'sinon'
+import * as sinonChai from 'sinon-chai'
+
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { SharedMetricRegistries } from '../../lib/metrics/shared-metric-registries'
+
+chai.use(sinonChai)
+
+const expect = chai.expect
+
+@suite
+export class SharedMetricRegistriesTest {
+  public after (): void {
+    SharedMetricRegistries.clear()
+  }
+
+  @test
+  public 'check get or create shared registries' (): void {
+    const registry = SharedMetricRegistries.getOrCreate('db')
+
+    expect(registry).to.be.instanceOf(MetricRegistry)
+    expect(SharedMetricRegistries.getOrCreate('db')).to.equal(registry)
+    expect(SharedMetricRegistries.get('db')).to.equal(registry)
+    expect(SharedMetricRegistries.get('http')).to.be.null
+    expect(SharedMetricRegistries.getDefault()).to.equal(SharedMetricRegistries.getDefault())
+    expect(SharedMetricRegistries.getDefault()).to.not.equal(registry)
+    expect(SharedMetricRegistries.names()).to.deep.equal(['db', SharedMetricRegistries.DEFAULT_REGISTRY_NAME])
+  }
+
+  @test
+  public 'check add and remove shared registries' (): void {
+    const registry = new MetricRegistry()
+    expect(SharedMetricRegistries.add(SharedMetricRegistries.DEFAULT_REGISTRY_NAME, registry)).to.equal(registry)
+    expect(SharedMetricRegistries.getDefault()).to.equal(registry)
+    expect(() => SharedMetricRegistries.add(SharedMetricRegistries.DEFAULT_REGISTRY_NAME, new MetricRegistry()))
+      .to.throw("A shared metric registry named 'default' already exists")
+
+    expect(SharedMetricRegistries.remove(SharedMetricRegistries.DEFAULT_REGISTRY_NAME)).to.equal(registry)
+    expect(SharedMetricRegistries.remove(SharedMetricRegistries.DEFAULT_REGISTRY_NAME)).to.be.null
+    expect(SharedMetricRegistries.getRegistries()).to.deep.equal([])
+  }
+
+  @test
+  public 'check listeners are notified about added and removed registries' (): void {
+    const registryAdded = spy()
+    const registryRemoved = spy()
+    const registration = SharedMetricRegistries.addListener({ registryAdded, registryRemoved })
+
+    const registry = SharedMetricRegistries.getOrCreate('db')
+    SharedMetricRegistries.clear()
+    registration.remove()
+    SharedMetricRegistries.getOrCreate('http')
+
+    expect(registryAdded).to.have.been.calledOnceWith('db', registry)
+    expect(registryRemoved).to.have.been.calledOnceWith('db', registry)
+  }
+}
@@ -0,0 +1,87 @@
+/* eslint-env mocha */
+
+import 'reflect-metadata'
+import 'source-map-support/register'
+
+import * as chai from 'chai'
+import { suite, test } from '@testdeck/mocha'
+
+import { MetricRegistry } from '../../lib/metrics/metric-registry'
+import { Buckets } from '../../lib/metrics/model/counting'
+import { getSnapshot } from '../../lib/metrics/model/sampling'
+import { SketchSnapshot } from '../../lib/metrics/model/sketch'
+import { isSerializedSketchHistogram, SketchHistogram } from '../../lib/metrics/sketch-histogram'
+
+const expect = chai.expect
+
+@suite
+export class SketchHistogramTest {
+  @test
+  public 'check registry creates sketch histograms' (): void {
+    const registry = new MetricRegistry()
+    const histogram = registry.newSketchHistogram('latency', 'api', 0.02, 'request latency')
+
+    expect(histogram).to.be.instanceof(SketchHistogram)
+    expect(histogram.getGroup()).to.equal('api')
+    expect(histogram.getDescription()).to.equal('request latency')
+    expect(histogram.getSketch().getRelativeAccuracy()).to.equal(0.02)
+    expect(registry.getHistogramList()).to.deep.equal([histogram])
+  }
+
+  @test
+  public 'check update' (): void {
+    const histogram = new SketchHistogram(0.01, 'latency', null, new Buckets([10, 100]))
+    histogram.update(5)
+    histogram.update(50)
+
+    expect(histogram.getCount()).to.equal(2)
+    expect(histogram.getSum().toString()).to.equal('55')
+    expect(histogram.counts).to.deep.equal({ 10: 1, 100: 2 })
+
+    const snapshot = histogram.getSnapshot()
+    expect(snapshot).to.be.instanceof(SketchSnapshot)
+    expect(snapshot.getMin()).to.equal(5)
+    expect(snapshot.getMax()).to.equal(50)
+  }
+
+  @test
+  public 'check serialized histogram contains the sketch' (): void {
+    const histogram = new SketchHistogram(0.01, 'latency')
+    for (let i = 1; i <= 100; i++) {
+      histogram.update(i)
+    }
+
+    const serialized = JSON.parse(JSON.stringify(histogram))
+
+    expect(isSerializedSketchHistogram(serialized)).to.equal(true)
+    expect(isSerializedSketchHistogram(JSON.parse(JSON.stringify(new MetricRegistry().newHistogram('other')))))
+      .to.equal(false)
+    expect(serialized.snapshot.sketch.count).to.equal(100)
+
+    const snapshot = getSnapshot(serialized)
+    expect(snapshot).to.be.instanceof(SketchSnapshot)
+    expect(snapshot.get99thPercentile()).to.equal(histogram.getSnapshot().get99thPercentile())
+  }
+
+  @test
+  public 'check merging histograms' (): void {
+    const buckets = new Buckets([10, 100])
+    const worker1 = new SketchHistogram(0.01, 'latency', null, buckets)
+    const worker2 = new SketchHistogram(0.01, 'latency', null, buckets)
+    for (let i = 0; i < 99; i++) {
+      worker1.update(5)
+    }
+    worker2.update(50)
+
+    const merged = new SketchHistogram(0.01, 'latency', null, buckets)
+      .merge(worker1)
+      .merge(JSON.parse(JSON.stringify(worker2)))
+
+    expect(merged.getCount()).to.equal(100)
+    expect(merged.getSum().toString()).to.equal('545')
+    expect(merged.counts).to.deep.equal({ 10: 99, 100: 100 })
+    expect(merged.getSnapshot().getMax()).to.equal(50)
+    expect(merged.getSnapshot().getValue(0.98)).to.be.closeTo(5, 0.05)
+    expect(merged.getSnapshot().getValue(1)).to.be.closeTo(50, 0.5)
+  }
+}
@@ -687,11 +687,14 @@ export class TimerTest {
     timer.addDuration(500, NANOSECOND)
 
     const serializedTimer = JSON.parse(JSON.stringify(timer))
-    expect(Object.keys(serializedTimer).length).to.equal(11)
+    expect(Object.keys(serializedTimer).length).to.equal(13)
 
     expect(serializedTimer).has.property('name')
     expect(serializedTimer.name).to.equal('name')
 
+    expect(serializedTimer).has.property('exemplars')
+    expect(serializedTimer.exemplars).to.deep.equal({})
+
     expect(serializedTimer).has.property('description')
     expect(serializedTimer.description).to.equal('description')
 
@@ -707,6 +710,9 @@ export class TimerTest {
     expect(serializedTimer).has.property('count')
     expect(serializedTimer.count).to.equal(10)
 
+    expect(serializedTimer).has.property('intervalMode')
+    expect(serializedTimer.intervalMode).to.equal(false)
+
     expect(serializedTimer).has.property('sum')
     expect(serializedTimer.sum).to.equal('2750')
 
@@ -946,4 +952,47 @@ export class StopWatchTest {
     expect(snapshot.getMin()).to.equal(10000000)
     expect(snapshot.getStdDev()).to.equal(0)
   }
+
+  @test
+  public 'check interval mode' (): void {
+    const timer: Timer = new Timer(this.clock, new SlidingWindowReservoir(10))
+      .setIntervalMode(true)
+    expect(timer.isIntervalMode()).to.equal(true)
+
+    timer.addDuration(10, NANOSECOND)
+    timer.addDuration(20, NANOSECOND)
+    timer.swapInterval()
+    timer.addDuration(30, NANOSECOND)
+
+    let snapshot: Snapshot = timer.getSnapshot()
+    expect(snapshot.size()).to.equal(2)
+    expect(snapshot.getMax()).to.equal(20)
+
+    timer.swapInterval()
+    snapshot = timer.getSnapshot()
+    expect(snapshot.size()).to.equal(1)
+    expect(snapshot.getMax()).to.equal(30)
+    expect(timer.getCount()).to.equal(3)
+    expect(JSON.parse(JSON.stringify(timer)).intervalMode).to.equal(true)
+  }
+
+  @test
+  public 'check exemplars' (): void {
+    this.clock.setCurrentTime({ milliseconds: 5000, nanoseconds: 0 })
+    const timer: Timer = new Timer(this.clock, new SlidingWindowReservoir(10), 'name', null, new Buckets([1000]))
+
+    timer.addDuration(2, MICROSECOND, { trace_id: 'a' })
+    timer.time(() => {
+      this.clock.setCurrentTime({ milliseconds: 5000, nanoseconds: 500 })
+    }, { trace_id: 'b' })
+
+    const exemplars = timer.getExemplars()
+    expect(exemplars.size).to.equal(2)
+    expect(exemplars.get(1000).labels).to.deep.equal({ trace_id: 'b' })
+    expect(exemplars.get(1000).value).to.equal(500)
+    expect(exemplars.get(Infinity).labels).to.deep.equal({ trace_id: 'a' })
+    expect(exemplars.get(Infinity).value).to.equal(2000)
+    expect(exemplars.get(Infinity).timestamp).to.equal(5000)
+    expect(JSON.parse(JSON.stringify(timer)).exemplars['1000'].labels).to.deep.equal({ trace_id: 'b' })
+  }
 }
@@ -7,16 +7,20 @@ import {
   BucketCounting,
   Buckets,
   BucketToCountMap,
+  BucketToExemplarMap,
   Counter,
   Event,
+  Exemplar,
   Gauge,
   getMetricBuckets,
   getMetricCounts,
   getMetricDescription,
+  getMetricExemplars,
   getMetricGroup,
   getMetricMetadata,
   getMetricName,
   getMetricTags,
+  getMetricUnit,
   getSnapshot,
   Histogram,
   mapToTags,
@@ -28,6 +32,7 @@ import {
   MetricSetReportContext,
   MetricType,
   MonotoneCounter,
+  NANOSECOND,
   OverallReportContext,
   ReportingResult,
   Sampling,
@@ -84,6 +89,14 @@ interface PrometheusMetricResult {
    * @memberof PrometheusMetricResult
    */
   readonly canBeReported: boolean
+  /**
+   * Indicates that the bucket boundaries and exemplar values are durations in nanoseconds
+   * which need to be converted into the duration unit.
+   *
+   * @type {boolean}
+   * @memberof PrometheusMetricResult
+   */
+  readonly durations?: boolean
 }
 
 /**
@@ -115,6 +128,28 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
    * @memberof PrometheusMetricReporter
    */
   public static readonly MESSAGE_TYPE_RESPONSE = 'inspector-prometheus:metric-reporter:response-metrics';
+  /**
+   * Content type of the prometheus text format.
+   *
+   * @static
+   * @memberof PrometheusMetricReporter
+   */
+  public static readonly TEXT_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+  /**
+   * Content type of the OpenMetrics text format - used if exemplars are emitted.
+   *
+   * @static
+   * @memberof PrometheusMetricReporter
+   */
+  public static readonly OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+  /**
+   * The line terminating the OpenMetrics text format.
+   *
+   * @private
+   * @static
+   * @memberof PrometheusMetricReporter
+   */
+  private static readonly EOF = '# EOF\n';
   /**
    * Used to replace unsupported characters from label name.
    *
@@ -155,6 +190,23 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     (a: string, b: string) => a.localeCompare(b)
   );
 
+  /**
+   * The unit names of the duration units by the number of nanoseconds of the unit.
+   *
+   * @private
+   * @static
+   * @memberof PrometheusMetricReporter
+   */
+  private static readonly DURATION_UNIT_NAMES: Map<number, string> = new Map([
+    [1, 'nanoseconds'],
+    [1000, 'microseconds'],
+    [1000000, 'milliseconds'],
+    [1000000000, 'seconds'],
+    [60000000000, 'minutes'],
+    [3600000000000, 'hours'],
+    [86400000000000, 'days']
+  ]);
+
   /**
    * Checks if a given string is empty.
    *
@@ -181,6 +233,39 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     return typeof (value) === 'number'
   }
 
+  /**
+   * Removes the trailing '# EOF' line of the metrics of a worker process - the master process terminates
+   * the combined metrics.
+   *
+   * @private
+   * @static
+   * @param {string} metricsStr
+   * @returns {string}
+   * @memberof PrometheusMetricReporter
+   */
+  private static removeEof (metricsStr: string): string {
+    if (metricsStr && metricsStr.endsWith(PrometheusMetricReporter.EOF)) {
+      return metricsStr.substring(0, metricsStr.length - PrometheusMetricReporter.EOF.length)
+    }
+    return metricsStr
+  }
+
+  /**
+   * Escapes backslashes, double quotes and line feeds of a label value.
+   *
+   * @private
+   * @static
+   * @param {string} value
+   * @returns {string}
+   * @memberof PrometheusMetricReporter
+   */
+  private static escapeLabelValue (value: string): string {
+    return `${value}`
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+  }
+
   /**
    * The prometheus counter type string.
    *
@@ -231,21 +316,33 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
   public constructor ({
     clock = new StdClock(),
     emitComments = true,
+    emitExemplars = false,
     includeTimestamp = false,
     log = console,
     minReportingTimeout = 1,
     tags = new Map(),
     useUntyped = false,
-    clusterOptions = new DefaultPrometheusClusterOptions()
+    clusterOptions = new DefaultPrometheusClusterOptions(),
+    filter,
+    relabelRules,
+    durationUnit,
+    rateUnit,
+    selfMetrics
   }: PrometheusReporterOptions,
   reporterType?: string) {
     super({
       clock,
       clusterOptions,
+      durationUnit,
       emitComments,
+      emitExemplars,
+      filter,
       includeTimestamp,
       log,
       minReportingTimeout,
+      rateUnit,
+      relabelRules,
+      selfMetrics,
       tags,
       useUntyped
     }, reporterType)
@@ -265,7 +362,21 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
   }
 
   /**
-   * Build the metric reporting string for all registered {@link MetricRegistry} instances.
+   * Gets the content type of the metrics string - the OpenMetrics text format if exemplars are emitted,
+   * the prometheus text format otherwise.
+   *
+   * @returns {string}
+   * @memberof PrometheusMetricReporter
+   */
+  public getContentType (): string {
+    return this.options.emitExemplars
+      ? PrometheusMetricReporter.OPENMETRICS_CONTENT_TYPE
+      : PrometheusMetricReporter.TEXT_CONTENT_TYPE
+  }
+
+  /**
+   * Build the metric reporting string for all registered {@link MetricRegistry} instances -
+   * terminated with '# EOF' if exemplars are emitted (OpenMetrics text format).
    *
    * @returns {string}
    * @memberof PrometheusMetricReporter
@@ -283,7 +394,7 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
         }
         const workerPromise: Promise<string> = new Promise((resolve) => {
           this.internalEventbus.once(message.id, (response: InterprocessReportResponse) => {
-            resolve(response.metricsStr)
+            resolve(PrometheusMetricReporter.removeEof(response.metricsStr))
           })
         })
         const workerTimeout: Promise<string> = new Promise((resolve) => setTimeout(() => {
@@ -297,11 +408,19 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
       }
     }
     const workerResponses = await Promise.all(workerPromises)
+    let metricsStr = workerResponses.join('\n') + '\n'
     if (this.metricRegistries && this.metricRegistries.length > 0) {
       const ctx = await this.report()
-      return `${ctx.result}${workerResponses.join('\n')}`
+      metricsStr = `${ctx.result}${workerResponses.join('\n')}`
     }
-    return workerResponses.join('\n') + '\n'
+    if (this.options.emitExemplars) {
+      if (metricsStr.length > 0 && !metricsStr.endsWith('\n')) {
+        metricsStr += '\n'
+      }
+      metricsStr += PrometheusMetricReporter.EOF
+    }
+    this.recordSentPayload(metricsStr)
+    return metricsStr
   }
 
   /**
@@ -359,20 +478,23 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
   }
 
   /**
-   * Does nothing.
+   * Listens to the {@link SharedMetricRegistries} again (if added) - the metrics are reported on each scrape.
    *
    * @memberof PrometheusMetricReporter
    */
   public async start (): Promise<this> {
+    this.attachSharedRegistries()
     return this
   }
 
   /**
-   * Does nothing.
+   * Stops listening to the {@link SharedMetricRegistries} (if added) and the exits of the workers.
    *
    * @memberof PrometheusMetricReporter
    */
   public async stop (): Promise<this> {
+    this.detachSharedRegistries()
+    this.removeWorkerExitListener()
     return this
   }
 
@@ -479,8 +601,22 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
    */
   protected async beforeReport (ctx: OverallReportContext): Promise<void> {
     ctx.result = ''
+    ctx.reportedMetricNames = new Set<string>()
   }
 
+  /**
+   * Builds the metric strings for all results. Metrics sharing the same name (e.g. the
+   * children of a {@link MetricFamily}) are grouped together under a single HELP / TYPE header.
+   *
+   * @protected
+   * @param {OverallReportContext} overallCtx
+   * @param {MetricRegistry | null} registry
+   * @param {Date} date
+   * @param {MetricType} type
+   * @param {Array<ReportingResult<any, PrometheusMetricResult>>} results
+   * @returns {Promise<void>}
+   * @memberof PrometheusMetricReporter
+   */
   protected async handleResults (
     overallCtx: OverallReportContext,
     registry: MetricRegistry | null,
@@ -489,11 +625,29 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     results: Array<ReportingResult<any, PrometheusMetricResult>>): Promise<void> {
     const lines: string[] = []
     const registryTags = registry ? mapToTags(registry.getTags()) : null
+    const groupedResults: Map<string, Array<ReportingResult<any, PrometheusMetricResult>>> = new Map()
     for (const result of results) {
-      const metric = result.metric
-      const ctx = result.result
-      const line = this.getMetricString(date, metric, ctx.type, ctx.canBeReported, ctx.fields, registryTags)
-      lines.push(line)
+      const metricName = this.getMetricName(result.metric, result.result.durations)
+      if (!groupedResults.has(metricName)) {
+        groupedResults.set(metricName, [])
+      }
+      groupedResults.get(metricName).push(result)
+    }
+    for (const [metricName, metricResults] of groupedResults) {
+      let withComments = !overallCtx.reportedMetricNames?.has(metricName)
+      const familyLines: string[] = []
+      for (const result of metricResults) {
+        const metric = result.metric
+        const ctx = result.result
+        const line = this.getMetricString(
+          date, metric, ctx.type, ctx.canBeReported, ctx.fields, registryTags, withComments, ctx.durations)
+        if (line) {
+          withComments = false
+        }
+        familyLines.push(line)
+      }
+      overallCtx.reportedMetricNames?.add(metricName)
+      lines.push(familyLines.join(''))
     }
     overallCtx.result = `${overallCtx.result}${lines.join('\n')}`
   }
@@ -550,14 +704,25 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     }
   }
 
+  /**
+   * Timers are reported as summaries - as histograms if exemplars are emitted,
+   * because summaries cannot carry exemplars.
+   *
+   * @protected
+   * @param {Timer} timer
+   * @param {MetricSetReportContext<Timer>} ctx
+   * @returns {PrometheusMetricResult}
+   * @memberof PrometheusMetricReporter
+   */
   protected reportTimer (timer: Timer, ctx: MetricSetReportContext<Timer>): PrometheusMetricResult {
     return {
       canBeReported: !isNaN(timer.getCount()),
+      durations: true,
       fields: {
         count: timer.getCount() || 0,
-        sum: timer.getSum().toString() || 0
+        sum: this.getDurationSum(timer) || 0
       },
-      type: this.summaryType
+      type: this.options.emitExemplars ? this.histogramType : this.summaryType
     }
   }
 
@@ -621,6 +786,8 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
    * @param {boolean} canReport
    * @param {PrometheusFields} fields
    * @param {Tags} [registryTags]
+   * @param {boolean} [withComments=true] false to omit the HELP / TYPE lines
+   * @param {boolean} [durations=false] true if bucket boundaries and exemplar values are durations in nanoseconds
    * @returns {string}
    * @memberof PrometheusMetricReporter
    */
@@ -630,14 +797,17 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     metricType: PrometheusMetricType,
     canReport: boolean,
     fields: PrometheusFields,
-    registryTags?: Tags
+    registryTags?: Tags,
+    withComments: boolean = true,
+    durations: boolean = false
   ): string {
     if (!canReport) {
       return ''
     }
 
-    const metricName = this.getMetricName(metric)
+    const metricName = this.getMetricName(metric, durations)
     const description = this.getDescription(metric, metricName)
+    const unit = this.getUnit(metric, durations)
     const timestamp = this.getTimestamp(now)
     const tags = this.buildPrometheusTags(metric, ['le', 'quantile'], registryTags)
     const tagStr = Object
@@ -647,7 +817,8 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     let additionalFields = ''
 
     if (metricType === 'histogram') {
-      additionalFields = this.getBuckets(metric as any, metricName, fields.count as number, tagStr, timestamp)
+      additionalFields = this.getBuckets(
+        metric as any, metricName, fields.count as number, tagStr, timestamp, durations)
     } else if (metricType === 'summary') {
       additionalFields = this.getQuantiles(metric as any, metricName, tagStr, timestamp)
     }
@@ -657,9 +828,13 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     }
 
     let comments = ''
-    if (this.options.emitComments) {
+    if (this.options.emitComments && withComments) {
       comments = `# HELP ${metricName} ${description}\n` +
         `# TYPE ${metricName} ${metricType}\n`
+      // the UNIT line is not part of the prometheus text format
+      if (unit && this.options.emitExemplars) {
+        comments += `# UNIT ${metricName} ${unit}\n`
+      }
     }
 
     return comments + additionalFields + Object
@@ -692,6 +867,29 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     return description
   }
 
+  /**
+   * Gets the normalized unit of a metric instance - {@code null} if the metric has no unit.
+   * The unit of metrics reporting durations (timers) is the duration unit of this reporter,
+   * since the durations are converted to that unit regardless of the unit of the metric.
+   *
+   * @private
+   * @param {Metric | SerializableMetric} metric
+   * @param {boolean} [durations=false] true if the metric reports durations
+   * @returns {string}
+   * @memberof PrometheusMetricReporter
+   */
+  private getUnit (metric: Metric | SerializableMetric, durations: boolean = false): string {
+    const unit = getMetricUnit(metric)
+    if (PrometheusMetricReporter.isEmpty(unit)) {
+      return null
+    }
+    if (durations) {
+      const durationUnit = this.options.durationUnit || NANOSECOND
+      return PrometheusMetricReporter.DURATION_UNIT_NAMES.get(durationUnit.convertTo(1, NANOSECOND)) || null
+    }
+    return unit.replace(PrometheusMetricReporter.LABEL_NAME_REPLACEMENT_REGEXP, '_')
+  }
+
   /**
    * Gets a numeric value in the correct format (mainly used to format +Inf and -Inf)
    *
@@ -736,6 +934,7 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
    * @param {number} count
    * @param {string} tagStr
    * @param {string} timestamp
+   * @param {boolean} durations true to convert boundaries and exemplar values into the duration unit
    * @returns {string}
    * @memberof PrometheusMetricReporter
    */
@@ -744,29 +943,59 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     metricName: string,
     count: number,
     tagStr: string,
-    timestamp: string): string {
+    timestamp: string,
+    durations: boolean): string {
     const buckets: Buckets = getMetricBuckets(metric)
     if (buckets) {
       const tagPrefix = !PrometheusMetricReporter.isEmpty(tagStr) ? ',' : ''
       const bucketStrings: string[] = []
       const counts: BucketToCountMap = getMetricCounts(metric)
+      const exemplars: BucketToExemplarMap = this.options.emitExemplars ? getMetricExemplars(metric) : {}
 
       for (const boundary of Object.keys(counts)) {
         const bucketCount: number = counts[boundary as any]
+        const exemplar = this.getExemplar(exemplars[boundary as any], durations)
+        const le = durations ? this.convertDuration(parseFloat(boundary)) : boundary
         bucketStrings.push(
-          `${metricName}_bucket{${tagStr}${tagPrefix}le="${boundary}"} ${bucketCount}${timestamp}`
+          `${metricName}_bucket{${tagStr}${tagPrefix}le="${le}"} ${bucketCount}${timestamp}${exemplar}`
         )
       }
 
+      const exemplar = this.getExemplar(exemplars[Infinity], durations)
       return bucketStrings.join('\n') +
-        `\n${metricName}_bucket{${tagStr}${tagPrefix}le="+Inf"} ${count}${timestamp}\n`
+        `\n${metricName}_bucket{${tagStr}${tagPrefix}le="+Inf"} ${count}${timestamp}${exemplar}\n`
     }
 
     return ''
   }
 
   /**
-   * Builds the string for percentile data lines.
+   * Builds the OpenMetrics exemplar suffix of a bucket data line - an empty string if there is no exemplar.
+   *
+   * @private
+   * @param {Exemplar} exemplar
+   * @param {boolean} durations true to convert the value into the duration unit
+   * @returns {string}
+   * @memberof PrometheusMetricReporter
+   */
+  private getExemplar (exemplar: Exemplar, durations: boolean): string {
+    if (!exemplar) {
+      return ''
+    }
+    const labelStr = Object
+      .keys(exemplar.labels)
+      .map((label) => {
+        const name = label.replace(PrometheusMetricReporter.LABEL_NAME_REPLACEMENT_REGEXP, '_')
+        return `${name}="${PrometheusMetricReporter.escapeLabelValue(exemplar.labels[label])}"`
+      })
+      .join(',')
+    const value = durations ? this.convertDuration(exemplar.value) : exemplar.value
+    return ` # {${labelStr}} ${this.getValue(value)} ${exemplar.timestamp / 1000}`
+  }
+
+  /**
+   * Builds the string for percentile data lines - only timers are reported as summaries,
+   * so the values are converted into the duration unit.
    *
    * @private
    * @template T
@@ -793,21 +1022,39 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     return quantiles
       .boundaries
       .map((boundary) => {
-        const value = snapshot.getValue(boundary)
+        const value = this.convertDuration(snapshot.getValue(boundary))
         return `${metricName}{${tagStr}${tagPrefix}quantile="${boundary}"} ${value}${timestamp}`
       })
       .join('\n') + '\n'
   }
 
   /**
-   * Gets the normalized metric name.
+   * Gets the sum of all durations of the timer in the duration unit -
+   * as string without conversion to keep the precision of nanosecond sums.
+   *
+   * @private
+   * @param {Timer} timer
+   * @returns {(number | string)}
+   * @memberof PrometheusMetricReporter
+   */
+  private getDurationSum (timer: Timer): number | string {
+    const sum = timer.getSum().toString()
+    if (!this.options.durationUnit || this.options.durationUnit === NANOSECOND) {
+      return sum
+    }
+    return this.convertDuration(Number(sum))
+  }
+
+  /**
+   * Gets the normalized metric name - with the unit of the metric as suffix (see {@link #getUnit}).
    *
    * @private
    * @param {Metric | SerializableMetric} metric
+   * @param {boolean} [durations=false] true if the metric reports durations
    * @returns {string}
    * @memberof PrometheusMetricReporter
    */
-  private getMetricName (metric: Metric | SerializableMetric): string {
+  private getMetricName (metric: Metric | SerializableMetric, durations: boolean = false): string {
     let name = getMetricName(metric)
     const group = getMetricGroup(metric)
     if (group) {
@@ -818,6 +1065,14 @@ export class PrometheusMetricReporter extends MetricReporter<PrometheusReporterO
     if (PrometheusMetricReporter.METRIC_NAME_START_EXCLUSION.includes(name.charAt(0))) {
       name = '_' + name.slice(1)
     }
+
+    // the unit is a suffix of the name, in front of the "_total" suffix of counters
+    const unit = this.getUnit(metric, durations)
+    if (unit && !name.endsWith(`_${unit}`) && !name.endsWith(`_${unit}_total`)) {
+      name = name.endsWith('_total')
+        ? `${name.slice(0, -'_total'.length)}_${unit}_total`
+        : `${name}_${unit}`
+    }
     return name
   }
 }
@@ -31,6 +31,15 @@ export interface PrometheusReporterOptions extends MetricReporterOptions {
    * @memberof PrometheusReporterOptions
    */
   readonly useUntyped?: boolean
+  /**
+   * indicates if the most recent exemplar of each histogram bucket should be appended
+   * in OpenMetrics syntax - timers are reported as histograms and the output is terminated with '# EOF',
+   * requires a scraper accepting the OpenMetrics text format
+   *
+   * @type {boolean}
+   * @memberof PrometheusReporterOptions
+   */
+  readonly emitExemplars?: boolean
   /**
    * Options for clustering support.
    *
@@ -106,22 +106,34 @@ export class PushgatewayMetricReporter extends ScheduledMetricReporter<Pushgatew
     scheduler = setInterval,
     tags = new Map(),
     unit = MILLISECOND,
-    clusterOptions = new DisabledClusterOptions()
+    clusterOptions = new DisabledClusterOptions(),
+    retryPolicy,
+    maxUnsentResults,
+    selfMetrics,
+    alignToInterval,
+    reportJitter,
+    thresholdRules
   }: PushgatewayReporterOptions,
   reporterType?: string) {
     super({
+      alignToInterval,
       clock,
       clusterOptions,
       host,
       instance,
       job,
       log,
+      maxUnsentResults,
       minReportingTimeout,
       port,
       reportInterval,
+      reportJitter,
       reporter,
+      retryPolicy,
       scheduler,
+      selfMetrics,
       tags,
+      thresholdRules,
       unit
     }, reporterType)
   }
@@ -137,7 +149,7 @@ export class PushgatewayMetricReporter extends ScheduledMetricReporter<Pushgatew
   public async reportEvent<TEventData, TEvent extends Event<TEventData>>(event: TEvent): Promise<TEvent> {
     const payload = await this.options.reporter.getEventString(event)
 
-    this.sendPayload(payload)
+    await this.send(payload)
 
     return event
   }
@@ -153,7 +165,8 @@ export class PushgatewayMetricReporter extends ScheduledMetricReporter<Pushgatew
 
   /**
    * Calls the {@link PrometheusMetricReporter} to generate the metrics in a valid prometheus text format.
-   * Sends the metrics via 'PUT' to the configured pushgateway.
+   * Sends the metrics via 'PUT' to the configured pushgateway - failed requests are retried
+   * according to the retry policy, only the latest failed payload is kept for the next run.
    * The {@link #beforeReport} and {@link #afterReport} methods are not invoked.
    *
    * @protected
@@ -163,20 +176,44 @@ export class PushgatewayMetricReporter extends ScheduledMetricReporter<Pushgatew
     const ctx = this.createOverallReportContext()
     const payload = await this.options.reporter.getMetricsString()
 
-    this.sendPayload(payload)
+    await this.send(payload)
 
     ctx.result = payload
     return ctx
   }
 
   /**
-   * Sends the specified payload to the prometheus pushgateway.
+   * Sends the specified payload using {@link #sendWithRetry} - logs the error if all attempts failed.
+   * Unsent payloads of previous runs are dropped: each 'PUT' replaces the whole group of metrics,
+   * so only the latest payload needs to be sent.
    *
    * @protected
    * @param {string} payload
+   * @returns {Promise<void>}
    * @memberof PushgatewayMetricReporter
    */
-  protected sendPayload (payload: string): void {
+  protected async send (payload: string): Promise<void> {
+    this.unsentResults.clear()
+    try {
+      await this.sendWithRetry(payload, async (p) => await this.sendPayload(p))
+    } catch (reason) {
+      if (this.options.log) {
+        const message = reason.message as string
+        this.options.log.error(`error sending metrics to pushgateway - reason: ${message}`, reason)
+      }
+    }
+  }
+
+  /**
+   * Sends the specified payload to the prometheus pushgateway -
+   * rejects on connection errors and responses with a status code other than 2xx.
+   *
+   * @protected
+   * @param {string} payload
+   * @returns {Promise<void>}
+   * @memberof PushgatewayMetricReporter
+   */
+  protected async sendPayload (payload: string): Promise<void> {
     const options = {
       headers: {
         'Content-Length': payload.length,
@@ -188,13 +225,22 @@ export class PushgatewayMetricReporter extends ScheduledMetricReporter<Pushgatew
       port: `${this.options.port}`
     }
 
-    const req = http.request(options, (res) => {
-      if (this.options.log) {
-        this.options.log.trace(`${res.statusCode} ${res.statusMessage}`)
-      }
+    await new Promise<void>((resolve, reject) => {
+      const req = http.request(options, (res) => {
+        if (this.options.log) {
+          this.options.log.trace(`${res.statusCode} ${res.statusMessage}`)
+        }
+        res.resume()
+        if (res.statusCode >= 200 && res.statusCode < 300) {
+          resolve()
+        } else {
+          reject(new Error(`pushgateway responded with ${res.statusCode} ${res.statusMessage}`))
+        }
+      })
+      req.on('error', reject)
+      req.write(payload)
+      req.end()
     })
-    req.write(payload)
-    req.end()
   }
 
   /**
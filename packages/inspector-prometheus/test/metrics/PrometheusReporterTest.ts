@@ -8,7 +8,9 @@ import {
   Buckets,
   Event,
   MetricRegistry,
+  MILLISECOND,
   NANOSECOND,
+  SECOND,
   SimpleGauge,
   SlidingWindowReservoir,
   Taggable
@@ -716,6 +718,209 @@ export class PrometheusReporterTest {
       )
   }
 
+  @test
+  public async 'check metric family children share a single header' (): Promise<void> {
+    const requests = this.registry.newMonotoneCounterFamily('http_requests_total', ['method', 'status'])
+    requests.labels('GET', '200').increment(3)
+    this.registry.newMonotoneCounter('other_total')
+    requests.labels('POST', '500').increment(1)
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP http_requests_total http_requests_total description\n' +
+        '# TYPE http_requests_total counter\n' +
+        'http_requests_total{method="GET",status="200"} 3\n' +
+        'http_requests_total{method="POST",status="500"} 1\n' +
+        '\n' +
+        '# HELP other_total other_total description\n' +
+        '# TYPE other_total counter\n' +
+        'other_total{} 0\n'
+      )
+  }
+
+  @test
+  public async 'check timer fields in duration unit' (): Promise<void> {
+    this.reporter = new PrometheusMetricReporter({
+      durationUnit: SECOND
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    const timer = this.registry.newTimer(
+      'test_timer',
+      null,
+      this.registry.getDefaultClock(),
+      new SlidingWindowReservoir(3))
+    timer.setMetadata(Percentiles.METADATA_NAME, new Percentiles([0.5, 0.9]))
+
+    timer.addDuration(500, MILLISECOND)
+    timer.addDuration(500, MILLISECOND)
+    timer.addDuration(2, SECOND)
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP test_timer test_timer description\n' +
+        '# TYPE test_timer summary\n' +
+        'test_timer{quantile="0.5"} 0.5\n' +
+        'test_timer{quantile="0.9"} 2\n' +
+        'test_timer_count{} 3\n' +
+        'test_timer_sum{} 3\n'
+      )
+  }
+
+  @test
+  public async 'check metric units' (): Promise<void> {
+    this.registry.newMonotoneCounter('http_received_total', null, null, 'bytes')
+    this.registry.registerMetric(new SimpleGauge('heap_used').setUnit('bytes'))
+    this.registry.newCounter('cpu_time_seconds', null, null, 'seconds')
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP http_received_bytes_total http_received_bytes_total description\n' +
+        '# TYPE http_received_bytes_total counter\n' +
+        'http_received_bytes_total{} 0\n' +
+        '# HELP cpu_time_seconds cpu_time_seconds description\n' +
+        '# TYPE cpu_time_seconds gauge\n' +
+        'cpu_time_seconds{} 0\n' +
+        '# HELP heap_used_bytes heap_used_bytes description\n' +
+        '# TYPE heap_used_bytes gauge\n' +
+        'heap_used_bytes{} 0\n'
+      )
+  }
+
+  @test
+  public async 'check metric units in the openmetrics format' (): Promise<void> {
+    this.reporter = new PrometheusMetricReporter({
+      clock: this.clock,
+      emitExemplars: true
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    this.registry.newMonotoneCounter('http_received_total', null, null, 'bytes')
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP http_received_bytes_total http_received_bytes_total description\n' +
+        '# TYPE http_received_bytes_total counter\n' +
+        '# UNIT http_received_bytes_total bytes\n' +
+        'http_received_bytes_total{} 0\n' +
+        '# EOF\n'
+      )
+  }
+
+  @test
+  public async 'check timer units are derived from the duration unit' (): Promise<void> {
+    this.registry.newTimer('request_time', null, undefined, null, null, undefined, 'seconds')
+    this.registry.newTimer('response_time')
+
+    let metrics = await this.reporter.getMetricsString()
+    expect(metrics).to.contain('request_time_nanoseconds_count{} 0\n')
+    expect(metrics).to.contain('response_time_count{} 0\n')
+
+    this.reporter = new PrometheusMetricReporter({
+      durationUnit: SECOND
+    })
+    this.reporter.addMetricRegistry(this.registry)
+
+    metrics = await this.reporter.getMetricsString()
+    expect(metrics).to.contain('request_time_seconds_count{} 0\n')
+    expect(metrics).to.contain('response_time_count{} 0\n')
+  }
+
+  @test
+  public async 'check histogram exemplars' (): Promise<void> {
+    this.reporter = new PrometheusMetricReporter({
+      clock: this.clock,
+      emitExemplars: true
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    const histogram = this.registry.newHistogram('test_histo', null, null, null, Buckets.linear(10, 10, 2))
+    histogram.update(11, { trace_id: 'abc' })
+    histogram.update(12, { trace_id: 'def' })
+    histogram.update(340, { 'trace-id': 'ghi' })
+
+    const ts20 = histogram.getExemplars().get(20).timestamp / 1000
+    const tsInf = histogram.getExemplars().get(Infinity).timestamp / 1000
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP test_histo test_histo description\n' +
+        '# TYPE test_histo histogram\n' +
+        'test_histo_bucket{le="10"} 0\n' +
+        `test_histo_bucket{le="20"} 2 # {trace_id="def"} 12 ${ts20}\n` +
+        `test_histo_bucket{le="+Inf"} 3 # {trace_id="ghi"} 340 ${tsInf}\n` +
+        'test_histo_count{} 3\n' +
+        'test_histo_sum{} 363\n' +
+        '# EOF\n'
+      )
+    expect(this.reporter.getContentType()).to.equal(PrometheusMetricReporter.OPENMETRICS_CONTENT_TYPE)
+  }
+
+  @test
+  public async 'check timer exemplars' (): Promise<void> {
+    this.reporter = new PrometheusMetricReporter({
+      clock: this.clock,
+      durationUnit: SECOND,
+      emitExemplars: true
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    this.clock.setCurrentTime({ milliseconds: 2000, nanoseconds: 0 })
+    const timer = this.registry.newTimer(
+      'test_timer',
+      null,
+      this.clock,
+      new SlidingWindowReservoir(3),
+      null,
+      new Buckets([100000000, 1000000000]))
+
+    timer.addDuration(500, MILLISECOND, { trace_id: 'a' })
+    timer.addDuration(2, SECOND, { trace_id: 'x"y\\z\n' })
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP test_timer test_timer description\n' +
+        '# TYPE test_timer histogram\n' +
+        'test_timer_bucket{le="0.1"} 0\n' +
+        'test_timer_bucket{le="1"} 1 # {trace_id="a"} 0.5 2\n' +
+        'test_timer_bucket{le="+Inf"} 2 # {trace_id="x\\"y\\\\z\\n"} 2 2\n' +
+        'test_timer_count{} 2\n' +
+        'test_timer_sum{} 2.5\n' +
+        '# EOF\n'
+      )
+  }
+
+  @test
+  public async 'check exemplars are omitted by default' (): Promise<void> {
+    const histogram = this.registry.newHistogram('test_histo', null, null, null, Buckets.linear(10, 10, 1))
+    histogram.update(5, { trace_id: 'abc' })
+
+    expect(await this.reporter.getMetricsString()).to.be
+      .equal(
+        '# HELP test_histo test_histo description\n' +
+        '# TYPE test_histo histogram\n' +
+        'test_histo_bucket{le="10"} 1\n' +
+        'test_histo_bucket{le="+Inf"} 1\n' +
+        'test_histo_count{} 1\n' +
+        'test_histo_sum{} 5\n'
+      )
+    expect(this.reporter.getContentType()).to.equal(PrometheusMetricReporter.TEXT_CONTENT_TYPE)
+  }
+
+  @test
+  public async 'check reporter self metrics' (): Promise<void> {
+    const selfMetrics = new MetricRegistry()
+    this.reporter = new PrometheusMetricReporter({
+      clock: this.clock,
+      selfMetrics
+    })
+    this.reporter.addMetricRegistry(this.registry)
+    this.registry.newMonotoneCounter('test_counter_total')
+
+    const metricsStr = await this.reporter.getMetricsString()
+
+    const counters = selfMetrics.getMonotoneCounterList()
+    const getCount = (name: string): number => counters.find((counter) => counter.getName() === name).getCount()
+    expect(getCount('reporter_metrics_reported_total')).to.equal(1)
+    expect(getCount('reporter_payload_bytes_total')).to.equal(Buffer.byteLength(metricsStr))
+    expect(selfMetrics.getTimerList()[0].getTag('reporterType')).to.equal('PrometheusMetricReporter')
+  }
+
   @test
   public async 'check event reporting' (): Promise<void> {
     const tags = new Map()
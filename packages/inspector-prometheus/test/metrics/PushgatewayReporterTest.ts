@@ -177,6 +177,49 @@ export class PushgatewayReporterTest {
     expect(this.schedulerSpy).to.not.have.been.called
   }
 
+  @test
+  public async 'check retry of failed requests and replacement of unsent payloads' (): Promise<void> {
+    const path = '/metrics/job/test-pushgateway-reporter/instance/localhost'
+    this.reporter = new PushgatewayMetricReporter({
+      host: 'localhost',
+      instance: 'localhost',
+      job: 'test-pushgateway-reporter',
+      log: null,
+      port: 9091,
+      reporter: this.prometheusReporter,
+      retryPolicy: { initialDelay: 0, maxAttempts: 2 },
+      scheduler: this.schedulerSpy
+    })
+    this.registry.newCounter('test_counter_total')
+    await this.reporter.start()
+
+    let scope = nock('http://localhost:9091')
+      .put(path).reply(503, 'Service Unavailable')
+      .put(path).reply(202, 'Accepted')
+    await this.internalCallback()
+    expect(scope.isDone()).to.equal(true)
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+
+    scope = nock('http://localhost:9091')
+      .put(path).times(2).reply(500, 'Internal Server Error')
+    await this.internalCallback()
+    expect(scope.isDone()).to.equal(true)
+    expect(this.reporter.getUnsentResultCount()).to.equal(1)
+
+    scope = nock('http://localhost:9091')
+      .put(path).times(2).reply(500, 'Internal Server Error')
+    await this.internalCallback()
+    expect(scope.isDone()).to.equal(true)
+    expect(this.reporter.getUnsentResultCount()).to.equal(1)
+
+    scope = nock('http://localhost:9091')
+      .put(path).reply(202, 'Accepted')
+    await this.internalCallback()
+    expect(scope.isDone()).to.equal(true)
+    expect(this.reporter.getUnsentResultCount()).to.equal(0)
+    expect(this.reporter.getDroppedResultCount()).to.equal(0)
+  }
+
   @test
   public async 'check if clustering is disabled by default' (): Promise<void> {
     expect(this.clusterOptions.eventReceiverOnSpy).to.not.have.been.called